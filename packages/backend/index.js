@@ -7,6 +7,10 @@ const { initDatabase, getUserById, setCurrentSession, getCurrentSession } = requ
 const { loadPublicEnv } = require('./lib/environment');
 const { createAuthMiddleware } = require('./lib/auth');
 const { createAuditLogger } = require('./lib/audit');
+const { createGrantExpiryMonitor } = require('./lib/grants');
+const { createApprovalService } = require('./lib/approvals');
+const { createAttachmentStore } = require('./lib/attachments');
+const { createRecurrenceScheduler } = require('./lib/recurrence');
 const { createAuthRouter } = require('./routes/auth');
 const { createTaskRouter } = require('./routes/tasks');
 const { createCategoryRouter } = require('./routes/categories');
@@ -17,6 +21,8 @@ const { createSessionRouter } = require('./routes/session');
 const { createSettingsRouter } = require('./routes/settings');
 const { createWelcomeRouter } = require('./routes/welcome');
 const { createAdminRouter } = require('./routes/admin');
+const { createDelegationRouter } = require('./routes/delegations');
+const { createWorkflowRouter } = require('./routes/workflows');
 
 function createBackendServer(options = {})
 {
@@ -51,6 +57,8 @@ function createBackendServer(options = {})
 
 	const auditLogger = createAuditLogger(dbApi);
 	const authenticate = createAuthMiddleware({ env, dbApi });
+	const approvals = createApprovalService({ dbApi, auditLogger, envPath, env });
+	const attachments = createAttachmentStore({ dataDir, dbApi });
 
 	app.use('/system', createSystemRouter({ envConfig, getPort: () => state.port }));
 	app.use('/auth', createAuthRouter({ env, dbApi, auditLogger }));
@@ -59,12 +67,14 @@ function createBackendServer(options = {})
 	apiRouter.use(authenticate);
 	apiRouter.use('/', createUserRouter());
 	apiRouter.use('/session', createSessionRouter({ auditLogger, dbApi }));
-	apiRouter.use('/settings', createSettingsRouter({ envPath, auditLogger }));
-	apiRouter.use('/tasks', createTaskRouter({ dbApi, auditLogger }));
+	apiRouter.use('/settings', createSettingsRouter({ envPath, auditLogger, approvals }));
+	apiRouter.use('/tasks', createTaskRouter({ dbApi, auditLogger, attachments, envPath }));
 	apiRouter.use('/categories', createCategoryRouter({ dbApi, auditLogger }));
+	apiRouter.use('/workflows', createWorkflowRouter({ dbApi, auditLogger }));
 	apiRouter.use('/audit-log', createAuditRouter({ dbApi }));
 	apiRouter.use('/welcome', createWelcomeRouter({ dbApi, auditLogger }));
-	apiRouter.use('/admin', createAdminRouter({ dbApi, auditLogger }));
+	apiRouter.use('/admin', createAdminRouter({ dbApi, auditLogger, approvals }));
+	apiRouter.use('/delegations', createDelegationRouter({ dbApi, auditLogger }));
 
 	app.use('/api', apiRouter);
 
@@ -114,6 +124,15 @@ function createBackendServer(options = {})
 	}
 
 	const server = startServer();
+	const grantExpiryMonitor = createGrantExpiryMonitor({ dbApi, auditLogger });
+	const recurrenceScheduler = createRecurrenceScheduler({ dbApi, auditLogger });
+	// Catch up on occurrences that came due while the server was not running
+	emitter.once('server:started', () => recurrenceScheduler.check());
+	// Blobs left behind when the server stopped between removing rows and releasing their content
+	emitter.once('server:started', () =>
+	{
+		attachments.sweep().catch((error) => console.error('Attachment sweep failed', error));
+	});
 
 	return {
 		app,
@@ -127,6 +146,8 @@ function createBackendServer(options = {})
 		stop: () =>
 			new Promise((resolve, reject) =>
 			{
+				grantExpiryMonitor.stop();
+				recurrenceScheduler.stop();
 				server.close((err) =>
 				{
 					if (err)
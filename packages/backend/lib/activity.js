@@ -0,0 +1,170 @@
+// Task activity timeline: comments interleaved with the task's audit entries, each entry turned into a sentence
+// and, for field updates, a list of { field, label, from, to } with display values.
+
+const { readRecurrence, describeRecurrence } = require('./recurrence');
+
+const FIELD_LABELS = {
+	title: 'title',
+	description: 'description',
+	status: 'status',
+	category: 'category',
+	priority: 'priority',
+	dueDate: 'due date',
+	assignedTo: 'assignee',
+	recurrence: 'repeat',
+	organizationId: 'organization'
+};
+
+// Comment audit entries are left out, since the comments themselves are in the timeline, and so are board reorders
+const HIDDEN_ACTIONS = new Set(['task.comment_created', 'task.comment_updated', 'task.reordered']);
+
+// names: { organizations, statuses }, maps from ids and status keys to what is shown
+function displayValue(field, task, names)
+{
+	const value = task ? task[field] : null;
+	if (value === null || value === undefined || value === '') return null;
+	switch (field)
+	{
+		case 'status':
+			return names.statuses.get(value) || value;
+		case 'dueDate':
+			return new Date(value * 1000).toISOString().slice(0, 10);
+		case 'assignedTo':
+			return task.assignedToName || value;
+		case 'organizationId':
+			return names.organizations.get(value) || value;
+		case 'recurrence':
+			return describeRecurrence(readRecurrence(value));
+		default:
+			return String(value);
+	}
+}
+
+// Field changes between the before and after rows of a task.updated entry; position-only moves have none
+function describeFieldChanges(before, after, names)
+{
+	const changes = [];
+	for (const [field, label] of Object.entries(FIELD_LABELS))
+	{
+		if (!before || !after || (before[field] ?? null) === (after[field] ?? null)) continue;
+		changes.push({ field, label, from: displayValue(field, before, names), to: displayValue(field, after, names) });
+	}
+	return changes;
+}
+
+function summarizeChanges(changes)
+{
+	if (changes.length !== 1) return `updated ${changes.map((c) => c.label).join(', ')}`;
+	const [change] = changes;
+	if (change.field === 'description') return change.to ? 'changed the description' : 'removed the description';
+	if (change.to === null) return `cleared the ${change.label}`;
+	return change.from === null ? `set the ${change.label} to ${change.to}` : `changed the ${change.label} from ${change.from} to ${change.to}`;
+}
+
+function summarizeChecklistUpdate(before, after)
+{
+	if (!before || !after) return 'updated a checklist item';
+	if (before.done !== after.done) return `${after.done ? 'checked' : 'unchecked'} "${after.title}"`;
+	if (before.title !== after.title) return `renamed checklist item "${before.title}" to "${after.title}"`;
+	if (before.assignedTo !== after.assignedTo)
+	{
+		return after.assignedTo ? `assigned "${after.title}" to ${after.assignedToName || after.assignedTo}` : `unassigned "${after.title}"`;
+	}
+	return `updated checklist item "${after.title}"`;
+}
+
+// One audit entry as a timeline event, or null when it has nothing to show
+function describeEvent(event, names)
+{
+	const base = {
+		type: 'event',
+		id: event.id,
+		action: event.action,
+		actorId: event.actor_id,
+		actorName: event.actorName || null,
+		createdAt: event.created_at
+	};
+	const recurrence = event.metadata?.recurrence;
+	// Occurrences the scheduler creates have no actor
+	if (recurrence && !event.actor_id) base.actorName = 'Scheduler';
+	switch (event.action)
+	{
+		case 'task.created':
+			return { ...base, summary: recurrence ? 'created this occurrence of a recurring task' : 'created the task', changes: [] };
+		case 'task.recurred':
+		{
+			const due = event.after?.dueDate ? ` due ${new Date(event.after.dueDate * 1000).toISOString().slice(0, 10)}` : '';
+			const skipped = recurrence?.skipped ? ` (${recurrence.skipped} missed period${recurrence.skipped === 1 ? '' : 's'} skipped)` : '';
+			return { ...base, summary: `created the next occurrence${due}${skipped}`, changes: [] };
+		}
+		case 'task.updated':
+		case 'task.bulk_updated':
+		{
+			const changes = describeFieldChanges(event.before, event.after, names);
+			if (changes.length === 0) return null;
+			const overrode = event.metadata?.overrodeBlockers?.length;
+			const wip = event.metadata?.overrodeWipLimit;
+			const bulk = event.action === 'task.bulk_updated' ? event.metadata?.taskCount : null;
+			const summary = [
+				summarizeChanges(changes),
+				overrode ? ` despite ${overrode} open blocking task${overrode === 1 ? '' : 's'}` : '',
+				wip ? ` over the WIP limit of ${wip.limit}` : '',
+				bulk ? ` in a bulk edit of ${bulk} task${bulk === 1 ? '' : 's'}` : ''
+			].join('');
+			return { ...base, summary, changes };
+		}
+		case 'task.acl_updated':
+			return { ...base, summary: (event.after || []).length > 0 ? 'changed who the task is shared with' : 'stopped restricting the task', changes: [] };
+		case 'task.checklist_item_created':
+			return { ...base, summary: `added checklist item "${event.after?.title}"`, changes: [] };
+		case 'task.checklist_item_updated':
+			return { ...base, summary: summarizeChecklistUpdate(event.before, event.after), changes: [] };
+		case 'task.checklist_item_deleted':
+			return { ...base, summary: `removed checklist item "${event.before?.title}"`, changes: [] };
+		case 'task.checklist_reordered':
+			return { ...base, summary: 'reordered the checklist', changes: [] };
+		case 'task.attachment_added':
+			return { ...base, summary: `attached "${event.after?.filename}"`, changes: [] };
+		case 'task.attachment_removed':
+			return { ...base, summary: `removed attachment "${event.before?.filename}"`, changes: [] };
+		case 'task.dependency_added':
+			return { ...base, summary: 'added a blocking task', changes: [] };
+		case 'task.dependency_removed':
+			return { ...base, summary: 'removed a blocking task', changes: [] };
+		case 'task.comment_deleted':
+			return { ...base, summary: event.metadata?.moderated ? `removed a comment by ${event.before?.authorName || 'someone'}` : 'deleted a comment', changes: [] };
+		default:
+			return HIDDEN_ACTIONS.has(event.action) ? null : { ...base, summary: event.action, changes: [] };
+	}
+}
+
+// comments: sanitized comments; events: audit entries for the task, bulk ones narrowed to it; statuses: those of
+// the task's workflow, for their labels. Returns the merged timeline, oldest first; at equal times an event comes
+// before a comment.
+function buildTaskActivity({ comments, events, organizations = [], statuses = [] })
+{
+	const names = {
+		organizations: new Map(organizations.map((o) => [o.id, o.name])),
+		statuses: new Map(statuses.map((s) => [s.key, s.label]))
+	};
+	const items = [
+		...events.map((event) => describeEvent(event, names)).filter(Boolean),
+		...comments.map((comment) => ({
+			type: 'comment',
+			id: comment.id,
+			actorId: comment.authorId,
+			actorName: comment.authorName,
+			createdAt: comment.createdAt,
+			comment
+		}))
+	];
+	return items
+		.map((item, index) => ({ item, index }))
+		.sort((a, b) => a.item.createdAt - b.item.createdAt || a.index - b.index)
+		.map(({ item }) => item);
+}
+
+module.exports = {
+	buildTaskActivity,
+	describeFieldChanges
+};
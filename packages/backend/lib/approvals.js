@@ -0,0 +1,150 @@
+// Four-eyes mode for sensitive admin changes. Routes register the actions they can hold back; while an action is
+// listed in FOUR_EYES_ACTIONS the route files a change request instead of applying it, and the change is applied
+// only when a second user who could have made it directly approves.
+
+const crypto = require('crypto');
+const fs = require('fs');
+const { parseDotEnv } = require('./environment');
+
+const APPROVAL_ACTIONS = ['role.delete', 'permission.update', 'user.deactivate', 'settings.update'];
+
+// FOUR_EYES_ACTIONS is a comma separated list of APPROVAL_ACTIONS, or "all". The env file is read on every call
+// so changing it on the Settings page takes effect without a restart.
+function readFourEyesActions(envPath)
+{
+	let value = process.env.FOUR_EYES_ACTIONS;
+	try
+	{
+		if (envPath && fs.existsSync(envPath))
+		{
+			const settings = parseDotEnv(fs.readFileSync(envPath, 'utf8'));
+			if (settings.FOUR_EYES_ACTIONS !== undefined) value = settings.FOUR_EYES_ACTIONS;
+		}
+	}
+	catch (_)
+	{
+		// Fall back to the value loaded at startup
+	}
+	const listed = String(value || '').split(',').map((a) => a.trim()).filter(Boolean);
+	if (listed.includes('all')) return new Set(APPROVAL_ACTIONS);
+	return new Set(listed.filter((a) => APPROVAL_ACTIONS.includes(a)));
+}
+
+// Key for the secret values a held request carries, derived from the JWT secret the server started with
+function sealingKey(env)
+{
+	const secret = env && (env.JWT_SECRET || env.APP_JWT_SECRET);
+	return secret ? crypto.createHash('sha256').update(`change-request:${secret}`).digest() : null;
+}
+
+// Audit metadata naming both people behind a change applied through an approval
+function approvalMetadata(context)
+{
+	return context && context.approval ? { approval: context.approval } : null;
+}
+
+// Handlers are registered per action:
+//   authorize(auth, payload) -> Promise<boolean>  may this user make the change directly (and so review it)
+//   apply(payload, context)  -> Promise<result>   context = { actorId, organizationId, approval? }
+//   describeError(err)       -> { status, error } | null  maps expected apply failures
+//   preview(payload)         -> what the inbox shows instead of the raw payload (e.g. masked secrets)
+// Secrets in a payload go through seal() before the request is filed and unseal() when it is applied, so
+// change_requests never holds them in clear text.
+function createApprovalService({ dbApi, auditLogger, envPath, env })
+{
+	const handlers = new Map();
+	const key = sealingKey(env);
+
+	function seal(value)
+	{
+		if (!key) throw new Error('JWT_SECRET is not configured');
+		const iv = crypto.randomBytes(12);
+		const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+		const data = Buffer.concat([cipher.update(String(value), 'utf8'), cipher.final()]);
+		return [iv, cipher.getAuthTag(), data].map((part) => part.toString('base64url')).join('.');
+	}
+
+	// Fails with SEALED_VALUE_UNREADABLE once the JWT secret the value was sealed with is gone
+	function unseal(sealed)
+	{
+		try
+		{
+			const [iv, tag, data] = String(sealed).split('.').map((part) => Buffer.from(part, 'base64url'));
+			const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+			decipher.setAuthTag(tag);
+			return Buffer.concat([decipher.update(data), decipher.final()]).toString('utf8');
+		}
+		catch (err)
+		{
+			const unreadable = new Error('A secret value in this request can no longer be read; file the change again');
+			unreadable.code = 'SEALED_VALUE_UNREADABLE';
+			throw unreadable;
+		}
+	}
+
+	function register(action, handler)
+	{
+		if (!APPROVAL_ACTIONS.includes(action)) throw new Error(`Unknown approval action: ${action}`);
+		handlers.set(action, handler);
+	}
+
+	function isRequired(action)
+	{
+		return handlers.has(action) && readFourEyesActions(envPath).has(action);
+	}
+
+	function present(request)
+	{
+		const handler = handlers.get(request.action);
+		return { ...request, payload: handler && handler.preview ? handler.preview(request.payload) : request.payload };
+	}
+
+	// Files a pending change request for the acting user. Requests for global changes are kept under the
+	// requester's organization, which is also where the applied change is audited.
+	async function submit(auth, action, payload, { summary, organizationId = null })
+	{
+		const actor = auth.user;
+		const request = await dbApi.createChangeRequest({
+			action,
+			payload,
+			summary,
+			organizationId: organizationId || actor.organization_id,
+			requestedBy: actor.id
+		});
+		await auditLogger({
+			action: 'approval.requested',
+			entity: 'change_request',
+			entityId: request.id,
+			actorId: actor.id,
+			organizationId: request.organizationId,
+			after: present(request)
+		});
+		return present(request);
+	}
+
+	// Anyone but the requester who could make the change directly
+	async function canReview(auth, request)
+	{
+		const handler = handlers.get(request.action);
+		if (!handler || request.requestedBy === auth.user.id) return false;
+		return Boolean(await handler.authorize(auth, request.payload));
+	}
+
+	return {
+		register,
+		isRequired,
+		present,
+		submit,
+		seal,
+		unseal,
+		canReview,
+		handlerFor: (action) => handlers.get(action) || null,
+		enabledActions: () => Array.from(readFourEyesActions(envPath))
+	};
+}
+
+module.exports = {
+	APPROVAL_ACTIONS,
+	approvalMetadata,
+	createApprovalService
+};
@@ -0,0 +1,180 @@
+// Task attachments. File contents are stored under <dataDir>/attachments as blobs named by their SHA-256, fanned out
+// by the first two hex digits, so identical uploads share one file; task_attachments rows (and their thumbnails)
+// point at them. A blob is removed once no row references it.
+
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+const { parseDotEnv } = require('./environment');
+
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+const THUMBNAIL_MAX_BYTES = 256 * 1024;
+const THUMBNAIL_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+// Supported types and how their content is recognised: binary formats by their leading bytes, text formats by the
+// absence of NUL bytes. Anything else is refused.
+const ATTACHMENT_TYPES = {
+	'image/png': { signature: (b) => b.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) },
+	'image/jpeg': { signature: (b) => b.length > 3 && b[0] === 0xff && b[1] === 0xd8 && b[2] === 0xff },
+	'image/gif': { signature: (b) => ['GIF87a', 'GIF89a'].includes(b.subarray(0, 6).toString('latin1')) },
+	'image/webp': { signature: (b) => b.subarray(0, 4).toString('latin1') === 'RIFF' && b.subarray(8, 12).toString('latin1') === 'WEBP' },
+	'application/pdf': { signature: (b) => b.subarray(0, 5).toString('latin1') === '%PDF-' },
+	'application/zip': { signature: (b) => b.subarray(0, 4).equals(Buffer.from([0x50, 0x4b, 0x03, 0x04])) },
+	'text/plain': { text: true },
+	'text/markdown': { text: true },
+	'text/csv': { text: true },
+	'application/json': { text: true }
+};
+
+function readSetting(envPath, key)
+{
+	let value = process.env[key];
+	try
+	{
+		if (envPath && fs.existsSync(envPath))
+		{
+			const settings = parseDotEnv(fs.readFileSync(envPath, 'utf8'));
+			if (settings[key] !== undefined) value = settings[key];
+		}
+	}
+	catch (_)
+	{
+		// Fall back to the value loaded at startup
+	}
+	return value;
+}
+
+// ATTACHMENT_MAX_BYTES caps one upload; ATTACHMENT_TYPES narrows the supported types (comma separated, empty for
+// all). Read on every upload so changes on the Settings page apply without a restart.
+function readAttachmentLimits(envPath)
+{
+	const max = Number(readSetting(envPath, 'ATTACHMENT_MAX_BYTES'));
+	const listed = String(readSetting(envPath, 'ATTACHMENT_TYPES') || '').split(',').map((t) => t.trim().toLowerCase()).filter(Boolean);
+	const supported = Object.keys(ATTACHMENT_TYPES);
+	return {
+		maxBytes: Number.isInteger(max) && max > 0 ? max : DEFAULT_MAX_BYTES,
+		types: new Set(listed.length > 0 ? listed.filter((t) => supported.includes(t)) : supported)
+	};
+}
+
+// Null when the content matches the declared type, otherwise why it was refused
+function checkContent(buffer, mimeType, allowedTypes)
+{
+	const type = ATTACHMENT_TYPES[mimeType];
+	if (!type || !allowedTypes.has(mimeType)) return `File type not allowed: ${mimeType || 'unknown'}`;
+	if (buffer.length === 0) return 'File is empty';
+	if (type.text ? buffer.includes(0) : !type.signature(buffer)) return `File content does not match ${mimeType}`;
+	return null;
+}
+
+// Keeps the last path segment, without control characters, at most 255 characters
+function sanitizeFilename(raw)
+{
+	const base = Array.from(String(raw || '').split(/[\\/]/).pop())
+		.filter((c) => c.charCodeAt(0) >= 0x20 && c.charCodeAt(0) !== 0x7f)
+		.join('')
+		.trim();
+	return base.slice(0, 255) || null;
+}
+
+// Content-Disposition with an ASCII fallback name and the UTF-8 original
+function contentDisposition(disposition, filename)
+{
+	const fallback = filename.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+	return `${disposition}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
+
+function createAttachmentStore({ dataDir, dbApi })
+{
+	const root = path.join(dataDir, 'attachments');
+	// Writing a blob together with the row that references it, and removing unreferenced blobs, run one at a time
+	// so a removal can't take away content an upload is about to point at
+	let queue = Promise.resolve();
+	const exclusive = (fn) =>
+	{
+		const result = queue.then(fn);
+		queue = result.catch(() => {});
+		return result;
+	};
+
+	function blobPath(hash)
+	{
+		if (!/^[a-f0-9]{64}$/.test(hash || '')) throw new Error(`Invalid blob hash: ${hash}`);
+		return path.join(root, hash.slice(0, 2), hash);
+	}
+
+	async function writeBlob(buffer)
+	{
+		const hash = crypto.createHash('sha256').update(buffer).digest('hex');
+		const target = blobPath(hash);
+		if (!fs.existsSync(target))
+		{
+			await fs.promises.mkdir(path.dirname(target), { recursive: true });
+			const temp = `${target}.${process.pid}.${Date.now()}.tmp`;
+			await fs.promises.writeFile(temp, buffer);
+			await fs.promises.rename(temp, target);
+		}
+		return hash;
+	}
+
+	async function removeUnreferenced(hashes)
+	{
+		let removed = 0;
+		for (const hash of new Set(hashes.filter(Boolean)))
+		{
+			if (await dbApi.isAttachmentBlobReferenced(hash)) continue;
+			try
+			{
+				await fs.promises.unlink(blobPath(hash));
+				removed += 1;
+			}
+			catch (err)
+			{
+				if (err.code !== 'ENOENT') throw err;
+			}
+		}
+		return removed;
+	}
+
+	return {
+		// Stores the content, then runs save(hash), which creates the row referencing it
+		store: (buffer, save) => exclusive(async () => save(await writeBlob(buffer))),
+		// Removes the blobs of deleted rows that nothing references any more
+		release: (hashes) => exclusive(() => removeUnreferenced(hashes)),
+		exists: (hash) => fs.existsSync(blobPath(hash)),
+		createReadStream: (hash) => fs.createReadStream(blobPath(hash)),
+		// Removes blobs no row references (an upload whose row failed, a delete interrupted before the release) and
+		// leftover temporary files. Files changed within the grace period are left alone.
+		sweep: ({ graceMs = 60 * 60 * 1000 } = {}) => exclusive(async () =>
+		{
+			if (!fs.existsSync(root)) return 0;
+			const referenced = new Set(await dbApi.listAttachmentBlobHashes());
+			const cutoff = Date.now() - graceMs;
+			let removed = 0;
+			for (const dir of await fs.promises.readdir(root))
+			{
+				const dirPath = path.join(root, dir);
+				if (!(await fs.promises.stat(dirPath)).isDirectory()) continue;
+				for (const name of await fs.promises.readdir(dirPath))
+				{
+					const filePath = path.join(dirPath, name);
+					if (referenced.has(name) || (await fs.promises.stat(filePath)).mtimeMs > cutoff) continue;
+					await fs.promises.unlink(filePath);
+					removed += 1;
+				}
+			}
+			return removed;
+		})
+	};
+}
+
+module.exports = {
+	ATTACHMENT_TYPES,
+	THUMBNAIL_MAX_BYTES,
+	THUMBNAIL_TYPES,
+	readAttachmentLimits,
+	checkContent,
+	sanitizeFilename,
+	contentDisposition,
+	createAttachmentStore
+};
@@ -1,6 +1,7 @@
 const jwt = require('jsonwebtoken');
 const bcrypt = require('bcryptjs');
-const { roleAllows, resolveOrgScopeForUser } = require('./rbac');
+const { ROLES } = require('./database');
+const { createPermissionResolver, resolveOrgScopeForUser, resolveRoleGrants } = require('./rbac');
 
 const DEFAULT_JWT_EXPIRES_IN = '2h';
 
@@ -17,9 +18,9 @@ function ensureSecret(env)
 function signToken(user, env, options = {})
 {
 	const secret = ensureSecret(env);
+	// Roles are not embedded: they come from user_role_assignments on every request so changes apply immediately
 	const payload = {
 		sub: user.id,
-		role: user.role,
 		orgId: user.organization_id,
 		name: user.name
 	};
@@ -73,13 +74,27 @@ function createAuthMiddleware({ env, dbApi })
 				return;
 			}
 			const organizations = await dbApi.listOrganizations();
-			const orgScope = Array.from(resolveOrgScopeForUser(user, organizations));
+			const assignments = await dbApi.listUserRoleAssignments(user.id);
+			const orgScope = Array.from(resolveOrgScopeForUser(user, organizations, assignments));
+			// One grant per assignment: the role, its inheritance chain and the organizations it reaches.
+			// The primary role stands in until the assignment backfill has run.
+			const held = assignments.length > 0 ? assignments : [{ role: user.role, organizationId: user.organization_id }];
+			const grants = await resolveRoleGrants(dbApi, held, organizations);
+			// Delegations outside their window or from a deactivated delegator are already left out
+			const delegations = await dbApi.listActiveDelegationsForUser(user.id);
+			const overrides = await dbApi.listUserPermissionOverrides(user.id);
+			const { can } = createPermissionResolver({ dbApi, user, grants, delegations, organizations, overrides });
 			req.auth = {
 				token,
 				payload,
 				user,
 				organizations,
-				orgScope
+				orgScope,
+				grants,
+				delegations,
+				overrides,
+				isOwner: grants.some((g) => g.role === ROLES.OWNER),
+				can
 			};
 			next();
 		} catch (error)
@@ -89,22 +104,32 @@ function createAuthMiddleware({ env, dbApi })
 	};
 }
 
-function createPermissionGuard(permission)
+// resolveOrg(req) may return (or resolve to) the organization the request targets; the
+// user's own organization is used otherwise.
+function createPermissionGuard(permission, resolveOrg)
 {
-	return function permissionGuard(req, res, next)
+	return async function permissionGuard(req, res, next)
 	{
-		const user = req.auth?.user;
-		if (!user)
+		try
 		{
-			res.status(401).json({ error: 'Unauthenticated' });
-			return;
+			const user = req.auth?.user;
+			if (!user)
+			{
+				res.status(401).json({ error: 'Unauthenticated' });
+				return;
+			}
+			const organizationId = resolveOrg ? await resolveOrg(req) : null;
+			if (!(await req.auth.can(permission, { organizationId })))
+			{
+				res.status(403).json({ error: 'Forbidden', permission });
+				return;
+			}
+			next();
 		}
-		if (!roleAllows(user.role, permission))
+		catch (error)
 		{
-			res.status(403).json({ error: 'Forbidden', permission });
-			return;
+			next(error);
 		}
-		next();
 	};
 }
 
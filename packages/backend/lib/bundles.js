@@ -0,0 +1,456 @@
+// Versioned policy bundles: the RBAC configuration (custom roles, role permission rows and category role access)
+// exported as one JSON or YAML document and imported into another install. Organizations and categories are
+// referenced by name, since ids differ between databases. An import is always planned first; the plan lists every
+// change (and every conflict with a custom role that already exists) so it can be reviewed as a dry run.
+
+const YAML = require('yaml');
+const { ROLES } = require('./database');
+const { PERMISSIONS } = require('./rbac');
+
+const BUNDLE_FORMAT = 'rbac-bundle';
+const BUNDLE_VERSION = 1;
+const SUPPORTED_VERSIONS = [1];
+const CONFLICT_STRATEGIES = ['skip', 'overwrite', 'fail'];
+const SYSTEM_ROLES = [ROLES.OWNER, ROLES.ADMIN, ROLES.VIEWER];
+
+// Separates organization names in a path such as "Acme / Sales"
+const ORG_PATH_SEPARATOR = ' / ';
+
+function invalid(message)
+{
+	const err = new Error(message);
+	err.code = 'BUNDLE_INVALID';
+	return err;
+}
+
+// Maps organization ids to their name path from the root, and back
+function indexOrganizations(organizations)
+{
+	const byId = new Map(organizations.map((o) => [o.id, o]));
+	const pathById = new Map();
+	const pathOf = (org) =>
+	{
+		if (pathById.has(org.id)) return pathById.get(org.id);
+		const names = [];
+		const seen = new Set();
+		for (let current = org; current && !seen.has(current.id); current = current.parent_id ? byId.get(current.parent_id) : null)
+		{
+			seen.add(current.id);
+			names.unshift(current.name);
+		}
+		const path = names.join(ORG_PATH_SEPARATOR);
+		pathById.set(org.id, path);
+		return path;
+	};
+	organizations.forEach(pathOf);
+	const idByPath = new Map(Array.from(pathById, ([id, path]) => [path.toLowerCase(), id]));
+	return { pathById, idByPath };
+}
+
+function isTimed(row)
+{
+	return row.startsAt != null || row.expiresAt != null;
+}
+
+function sameRoles(a, b)
+{
+	const left = [...a].sort();
+	const right = [...b].sort();
+	return left.length === right.length && left.every((r, i) => r === right[i]);
+}
+
+// Builds the bundle for the organizations in `scope` (null for all of them). Global permission rows are always
+// included; the roles catalog carries custom roles only, system roles exist everywhere. Owner rows are left out
+// since owners bypass every check and their rows can't be changed.
+async function exportBundle(dbApi, { scope = null } = {})
+{
+	const organizations = await dbApi.listOrganizations();
+	const { pathById } = indexOrganizations(organizations);
+	const inScope = (orgId) => !scope || scope.has(orgId);
+	const roles = (await dbApi.listRoles())
+		.filter((r) => !r.isSystem)
+		.map((r) => ({ name: r.name, description: r.description || null, parentRole: r.parentRole || null }));
+	const permissions = (await dbApi.listRolePermissions())
+		.filter((r) => r.role !== ROLES.OWNER)
+		.filter((r) => r.organizationId == null || (inScope(r.organizationId) && pathById.has(r.organizationId)))
+		.map((r) =>
+		{
+			const row = {
+				role: r.role,
+				permission: r.permission,
+				organization: r.organizationId ? pathById.get(r.organizationId) : null,
+				enabled: r.enabled === 1
+			};
+			if (r.startsAt != null) row.startsAt = r.startsAt;
+			if (r.expiresAt != null) row.expiresAt = r.expiresAt;
+			return row;
+		})
+		.sort((a, b) => (a.organization || '').localeCompare(b.organization || '') || a.role.localeCompare(b.role) || a.permission.localeCompare(b.permission));
+	const categories = await dbApi.listCategoriesForOrganizations(organizations.map((o) => o.id).filter(inScope));
+	const categoryAccess = [];
+	for (const category of categories)
+	{
+		categoryAccess.push({
+			organization: pathById.get(category.organizationId),
+			category: category.name,
+			roles: await dbApi.listCategoryRoleAccess(category.id)
+		});
+	}
+	return {
+		format: BUNDLE_FORMAT,
+		version: BUNDLE_VERSION,
+		exportedAt: new Date().toISOString(),
+		roles,
+		permissions,
+		categoryAccess
+	};
+}
+
+function serializeBundle(bundle, format = 'json')
+{
+	return format === 'yaml' ? YAML.stringify(bundle) : `${JSON.stringify(bundle, null, 2)}\n`;
+}
+
+// Accepts a bundle object or its JSON / YAML text (JSON is read by the YAML parser as well) and checks its shape
+function parseBundle(input)
+{
+	let bundle = input;
+	if (typeof input === 'string')
+	{
+		try
+		{
+			bundle = YAML.parse(input);
+		}
+		catch (err)
+		{
+			throw invalid(`Bundle could not be parsed: ${err.message}`);
+		}
+	}
+	if (!bundle || typeof bundle !== 'object' || Array.isArray(bundle)) throw invalid('Bundle must be an object');
+	if (bundle.format !== BUNDLE_FORMAT) throw invalid(`Not an ${BUNDLE_FORMAT} document`);
+	if (!SUPPORTED_VERSIONS.includes(bundle.version)) throw invalid(`Unsupported bundle version: ${bundle.version}`);
+	const list = (key) =>
+	{
+		if (bundle[key] === undefined || bundle[key] === null) return [];
+		if (!Array.isArray(bundle[key])) throw invalid(`${key} must be a list`);
+		return bundle[key];
+	};
+	const roleName = (value, where) =>
+	{
+		if (typeof value !== 'string' || !value.trim()) throw invalid(`${where}: role name is required`);
+		return value.trim().toLowerCase();
+	};
+	const timestamp = (value, where) =>
+	{
+		if (value === undefined || value === null) return null;
+		if (!Number.isInteger(value) || value <= 0) throw invalid(`${where}: times must be unix timestamps in seconds`);
+		return value;
+	};
+
+	const roles = list('roles').map((r, i) =>
+	{
+		const name = roleName(r && r.name, `roles[${i}]`);
+		if (SYSTEM_ROLES.includes(name)) throw invalid(`roles[${i}]: ${name} is a system role`);
+		return {
+			name,
+			description: typeof r.description === 'string' && r.description ? r.description : null,
+			parentRole: r.parentRole ? roleName(r.parentRole, `roles[${i}].parentRole`) : null
+		};
+	});
+	const names = new Set();
+	for (const role of roles)
+	{
+		if (names.has(role.name)) throw invalid(`Role ${role.name} is listed twice`);
+		names.add(role.name);
+	}
+
+	const permissions = list('permissions').map((p, i) =>
+	{
+		const where = `permissions[${i}]`;
+		const role = roleName(p && p.role, where);
+		if (role === ROLES.OWNER) throw invalid(`${where}: owner permissions cannot be changed`);
+		if (!PERMISSIONS[p.permission]) throw invalid(`${where}: unknown permission ${p.permission}`);
+		if (typeof p.enabled !== 'boolean') throw invalid(`${where}: enabled must be true or false`);
+		const startsAt = timestamp(p.startsAt, where);
+		const expiresAt = timestamp(p.expiresAt, where);
+		if (startsAt != null && expiresAt != null && expiresAt <= startsAt) throw invalid(`${where}: expiresAt must be after startsAt`);
+		return {
+			role,
+			permission: p.permission,
+			organization: typeof p.organization === 'string' && p.organization.trim() ? p.organization.trim() : null,
+			enabled: p.enabled,
+			startsAt,
+			expiresAt
+		};
+	});
+
+	const categoryAccess = list('categoryAccess').map((c, i) =>
+	{
+		const where = `categoryAccess[${i}]`;
+		if (!c || typeof c.organization !== 'string' || typeof c.category !== 'string') throw invalid(`${where}: organization and category are required`);
+		if (!Array.isArray(c.roles)) throw invalid(`${where}: roles must be a list`);
+		return {
+			organization: c.organization.trim(),
+			category: c.category.trim(),
+			roles: Array.from(new Set(c.roles.map((r) => roleName(r, where))))
+		};
+	});
+
+	return { format: BUNDLE_FORMAT, version: bundle.version, exportedAt: bundle.exportedAt || null, roles, permissions, categoryAccess };
+}
+
+// Compares a parsed bundle with the database. Returns the ordered changes to apply, the custom roles that exist
+// with a different definition and warnings for entries that can't be placed (unknown organization or category,
+// already expired windows).
+//   conflict: 'skip' leaves conflicting roles and their permission rows alone, 'overwrite' replaces them,
+//             'fail' plans nothing else once a conflict is found (the caller reports them)
+//   prune:    also clears permission rows of the bundle's roles that the bundle doesn't list
+async function planImport(dbApi, bundle, { conflict = 'skip', prune = false, scope = null } = {})
+{
+	if (!CONFLICT_STRATEGIES.includes(conflict)) throw invalid(`conflict must be one of ${CONFLICT_STRATEGIES.join(', ')}`);
+	const allOrganizations = await dbApi.listOrganizations();
+	const organizations = allOrganizations.filter((o) => !scope || scope.has(o.id));
+	const { pathById, idByPath } = indexOrganizations(allOrganizations);
+	const scopedIdByPath = new Map(Array.from(idByPath).filter(([, id]) => organizations.some((o) => o.id === id)));
+	const existingRoles = new Map((await dbApi.listRoles()).map((r) => [r.name, r]));
+	const changes = [];
+	const conflicts = [];
+	const warnings = [];
+	const skippedRoles = new Set();
+
+	// Roles, parents first so each one can be created against an existing parent
+	const parents = new Map(Array.from(existingRoles.values()).map((r) => [r.name, r.parentRole || null]));
+	const incoming = new Map(bundle.roles.map((r) => [r.name, r]));
+	for (const role of bundle.roles)
+	{
+		const existing = existingRoles.get(role.name);
+		if (existing && existing.isSystem) throw invalid(`${role.name} is a system role`);
+		if (role.parentRole && !existingRoles.has(role.parentRole) && !incoming.has(role.parentRole))
+		{
+			throw invalid(`Role ${role.name} extends unknown role ${role.parentRole}`);
+		}
+		if (role.parentRole === ROLES.OWNER) throw invalid(`Role ${role.name} cannot extend owner`);
+		if (existing && ((existing.description || null) !== role.description || (existing.parentRole || null) !== role.parentRole))
+		{
+			conflicts.push({
+				role: role.name,
+				existing: { description: existing.description || null, parentRole: existing.parentRole || null },
+				incoming: { description: role.description, parentRole: role.parentRole }
+			});
+			if (conflict !== 'overwrite') skippedRoles.add(role.name);
+			if (conflict === 'skip') continue;
+		}
+		if (!skippedRoles.has(role.name)) parents.set(role.name, role.parentRole);
+	}
+	if (conflict === 'fail' && conflicts.length > 0) return { changes: [], conflicts, warnings };
+	for (const name of parents.keys())
+	{
+		const seen = new Set();
+		for (let current = name; current; current = parents.get(current))
+		{
+			if (seen.has(current)) throw invalid(`Role inheritance would create a cycle at ${name}`);
+			seen.add(current);
+		}
+	}
+	const ordered = [];
+	const visit = (role) =>
+	{
+		if (ordered.includes(role)) return;
+		const parent = incoming.get(role.parentRole);
+		if (parent) visit(parent);
+		ordered.push(role);
+	};
+	bundle.roles.forEach(visit);
+	for (const role of ordered)
+	{
+		if (skippedRoles.has(role.name)) continue;
+		const existing = existingRoles.get(role.name);
+		if (!existing)
+		{
+			changes.push({ type: 'role.create', role: role.name, after: role });
+		}
+		else if ((existing.description || null) !== role.description || (existing.parentRole || null) !== role.parentRole)
+		{
+			changes.push({
+				type: 'role.update',
+				role: role.name,
+				before: { name: existing.name, description: existing.description || null, parentRole: existing.parentRole || null },
+				after: role
+			});
+		}
+	}
+
+	const knownRole = (name) => existingRoles.has(name) || incoming.has(name);
+	const resolveOrg = (path, where) =>
+	{
+		const id = scopedIdByPath.get(path.toLowerCase());
+		if (!id) warnings.push(`${where}: organization "${path}" not found, skipped`);
+		return id || null;
+	};
+
+	// Role permission rows
+	const now = Math.floor(Date.now() / 1000);
+	// A timed grant and the permanent row for the same permission are separate rows, each matched on its own
+	const rowKey = (orgId, role, permission, timed) => `${orgId || ''}|${role}|${permission}${timed ? '|timed' : ''}`;
+	const currentRows = new Map((await dbApi.listRolePermissions())
+		.filter((r) => r.organizationId == null || scopedIdByPath.has((pathById.get(r.organizationId) || '').toLowerCase()))
+		.map((r) => [rowKey(r.organizationId, r.role, r.permission, isTimed(r)), r]));
+	const listed = new Set();
+	for (const row of bundle.permissions)
+	{
+		const where = `${row.role}:${row.permission}`;
+		if (!knownRole(row.role)) throw invalid(`Permission ${where} names unknown role ${row.role}`);
+		if (skippedRoles.has(row.role)) continue;
+		const organizationId = row.organization ? resolveOrg(row.organization, where) : null;
+		if (row.organization && !organizationId) continue;
+		const key = rowKey(organizationId, row.role, row.permission, isTimed(row));
+		listed.add(key);
+		if (row.expiresAt != null && row.expiresAt <= now)
+		{
+			warnings.push(`${where}${row.organization ? ` in ${row.organization}` : ''}: window already expired, skipped`);
+			continue;
+		}
+		const current = currentRows.get(key);
+		const after = { role: row.role, permission: row.permission, organizationId, enabled: row.enabled, startsAt: row.startsAt, expiresAt: row.expiresAt };
+		if (current && (current.enabled === 1) === row.enabled && (current.startsAt ?? null) === row.startsAt && (current.expiresAt ?? null) === row.expiresAt)
+		{
+			continue;
+		}
+		changes.push({
+			type: 'permission.set',
+			role: row.role,
+			organization: row.organization,
+			before: current ? { ...current, enabled: current.enabled === 1 } : null,
+			after
+		});
+	}
+	if (prune)
+	{
+		const bundleRoles = new Set([...bundle.roles.map((r) => r.name), ...bundle.permissions.map((p) => p.role)]);
+		for (const [key, current] of currentRows)
+		{
+			if (listed.has(key) || !bundleRoles.has(current.role) || skippedRoles.has(current.role)) continue;
+			changes.push({
+				type: 'permission.clear',
+				role: current.role,
+				organization: current.organizationId ? pathById.get(current.organizationId) : null,
+				before: { ...current, enabled: current.enabled === 1 }
+			});
+		}
+	}
+
+	// Category role access
+	const categories = await dbApi.listCategoriesForOrganizations(organizations.map((o) => o.id));
+	for (const entry of bundle.categoryAccess)
+	{
+		const where = `Category ${entry.category}`;
+		const unknown = entry.roles.find((r) => !knownRole(r));
+		if (unknown) throw invalid(`${where} grants unknown role ${unknown}`);
+		const organizationId = resolveOrg(entry.organization, where);
+		if (!organizationId) continue;
+		const category = categories.find((c) => c.organizationId === organizationId && c.name.toLowerCase() === entry.category.toLowerCase());
+		if (!category)
+		{
+			warnings.push(`${where} not found in ${entry.organization}, skipped`);
+			continue;
+		}
+		const current = await dbApi.listCategoryRoleAccess(category.id);
+		if (sameRoles(current, entry.roles)) continue;
+		changes.push({
+			type: 'category_access.set',
+			categoryId: category.id,
+			category: category.name,
+			organizationId,
+			organization: entry.organization,
+			before: { roles: current },
+			after: { roles: [...entry.roles].sort() }
+		});
+	}
+
+	return { changes, conflicts, warnings };
+}
+
+// Applies planned changes one by one, each with its own audit entry. Stops at the first failure; the changes
+// applied before it stay in place and are already audited, and the error carries their count as err.applied.
+async function applyImport({ dbApi, auditLogger }, changes, { actor, bundle })
+{
+	const metadata = { import: { version: bundle.version, exportedAt: bundle.exportedAt } };
+	const audit = (entry) => auditLogger({ actorId: actor.id, organizationId: actor.organization_id, metadata, ...entry });
+	let applied = 0;
+	for (const change of changes)
+	{
+		try
+		{
+			await applyChange(dbApi, audit, change, actor);
+		}
+		catch (err)
+		{
+			err.applied = applied;
+			throw err;
+		}
+		applied += 1;
+	}
+	return applied;
+}
+
+async function applyChange(dbApi, audit, change, actor)
+{
+	if (change.type === 'role.create')
+	{
+		const created = await dbApi.createRole(change.after);
+		await audit({ action: 'role.created', entity: 'role', entityId: created.id, after: created });
+	}
+	else if (change.type === 'role.update')
+	{
+		const updated = await dbApi.updateRole(change.role, { description: change.after.description, parentRole: change.after.parentRole });
+		await audit({ action: 'role.updated', entity: 'role', entityId: updated.id, before: change.before, after: updated });
+	}
+	else if (change.type === 'permission.set')
+	{
+		const { role, permission, organizationId } = change.after;
+		await dbApi.setRolePermission(change.after);
+		await audit({
+			action: 'permission.updated',
+			entity: 'role_permission',
+			entityId: `${role}:${permission}`,
+			organizationId: organizationId || actor.organization_id,
+			before: change.before,
+			after: change.after
+		});
+	}
+	else if (change.type === 'permission.clear')
+	{
+		const { role, permission, organizationId } = change.before;
+		await dbApi.clearRolePermission({ organizationId, role, permission, timed: isTimed(change.before) });
+		await audit({
+			action: 'permission.cleared',
+			entity: 'role_permission',
+			entityId: `${role}:${permission}`,
+			organizationId: organizationId || actor.organization_id,
+			before: change.before
+		});
+	}
+	else if (change.type === 'category_access.set')
+	{
+		const roles = await dbApi.setCategoryRoleAccess(change.categoryId, change.after.roles);
+		await audit({
+			action: 'category.access_updated',
+			entity: 'category',
+			entityId: change.categoryId,
+			organizationId: change.organizationId,
+			before: change.before,
+			after: { roles }
+		});
+	}
+}
+
+module.exports = {
+	BUNDLE_FORMAT,
+	BUNDLE_VERSION,
+	CONFLICT_STRATEGIES,
+	exportBundle,
+	serializeBundle,
+	parseBundle,
+	planImport,
+	applyImport
+};
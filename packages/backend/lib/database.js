@@ -3,6 +3,7 @@ const path = require('path');
 const sqlite3 = require('sqlite3').verbose();
 const bcrypt = require('bcryptjs');
 const { v4: uuidv4 } = require('uuid');
+const { MAX_RANK_LENGTH, keyBetween, spreadKeys } = require('./ranks');
 
 const DEFAULT_DB_FILE = 'app.db';
 
@@ -12,7 +13,19 @@ const TABLES = {
 	TASKS: 'tasks',
 	AUDIT_LOG: 'audit_log',
 	ROLE_PERMISSIONS: 'role_permissions',
-	CATEGORIES: 'categories'
+	ROLE_PERMISSION_GRANTS: 'role_permission_grants',
+	CATEGORIES: 'categories',
+	USER_ROLE_ASSIGNMENTS: 'user_role_assignments',
+	TASK_ACL: 'task_acl',
+	POLICIES: 'policies',
+	PERMISSION_DELEGATIONS: 'permission_delegations',
+	CHANGE_REQUESTS: 'change_requests',
+	USER_PERMISSION_OVERRIDES: 'user_permission_overrides',
+	TASK_CHECKLIST_ITEMS: 'task_checklist_items',
+	TASK_COMMENTS: 'task_comments',
+	TASK_ATTACHMENTS: 'task_attachments',
+	TASK_DEPENDENCIES: 'task_dependencies',
+	WORKFLOWS: 'workflows'
 };
 
 const ROLES = {
@@ -67,6 +80,11 @@ function initDatabase(dataDir, fileName = DEFAULT_DB_FILE)
       position INTEGER DEFAULT 0,
       created_by TEXT REFERENCES ${TABLES.USERS}(id) ON DELETE SET NULL,
       assigned_to TEXT REFERENCES ${TABLES.USERS}(id) ON DELETE SET NULL,
+      parent_task_id TEXT REFERENCES ${TABLES.TASKS}(id) ON DELETE SET NULL,
+      recurrence TEXT,
+      recurrence_series_id TEXT,
+      closed INTEGER NOT NULL DEFAULT 0,
+      rank TEXT NOT NULL DEFAULT '',
       created_at INTEGER DEFAULT (strftime('%s','now')),
       updated_at INTEGER DEFAULT (strftime('%s','now'))
     )`);
@@ -120,20 +138,191 @@ function initDatabase(dataDir, fileName = DEFAULT_DB_FILE)
       UNIQUE(organization_id, role, permission)
     )`);
 
+		// Time-bound role permissions. Kept apart from the permanent rows above: inside its starts_at / expires_at
+		// window a grant wins over the permanent row for the same key, outside it the permanent row decides again.
+		db.run(`CREATE TABLE IF NOT EXISTS ${TABLES.ROLE_PERMISSION_GRANTS} (
+      id TEXT PRIMARY KEY,
+      organization_id TEXT REFERENCES ${TABLES.ORGANIZATIONS}(id) ON DELETE CASCADE,
+      role TEXT NOT NULL,
+      permission TEXT NOT NULL,
+      enabled INTEGER NOT NULL DEFAULT 1,
+      starts_at INTEGER,
+      expires_at INTEGER,
+      expiry_audited_at INTEGER,
+      created_at INTEGER DEFAULT (strftime('%s','now')),
+      UNIQUE(organization_id, role, permission)
+    )`);
+
 		// Roles catalog (supports custom roles)
 		db.run(`CREATE TABLE IF NOT EXISTS roles (
       id TEXT PRIMARY KEY,
       name TEXT NOT NULL UNIQUE,
       description TEXT,
       is_system INTEGER NOT NULL DEFAULT 0,
+      parent_role TEXT,
+      created_at INTEGER DEFAULT (strftime('%s','now'))
+    )`);
+
+		// Every role a user holds and the organization it applies in. users.role / users.organization_id
+		// mirror the primary assignment, which is created and kept in sync by upsertUser.
+		db.run(`CREATE TABLE IF NOT EXISTS ${TABLES.USER_ROLE_ASSIGNMENTS} (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL REFERENCES ${TABLES.USERS}(id) ON DELETE CASCADE,
+      role TEXT NOT NULL,
+      organization_id TEXT NOT NULL REFERENCES ${TABLES.ORGANIZATIONS}(id) ON DELETE CASCADE,
+      created_at INTEGER DEFAULT (strftime('%s','now')),
+      UNIQUE(user_id, role, organization_id)
+    )`);
+
+		// Optional per-task sharing. A task with no rows follows category rules only; once rows exist only the
+		// listed users / roles (and the creator) may see it, with view or edit rights.
+		db.run(`CREATE TABLE IF NOT EXISTS ${TABLES.TASK_ACL} (
+      id TEXT PRIMARY KEY,
+      task_id TEXT NOT NULL REFERENCES ${TABLES.TASKS}(id) ON DELETE CASCADE,
+      principal_type TEXT NOT NULL CHECK(principal_type IN ('user', 'role')),
+      principal_id TEXT NOT NULL,
+      access TEXT NOT NULL DEFAULT 'view' CHECK(access IN ('view', 'edit')),
+      created_at INTEGER DEFAULT (strftime('%s','now')),
+      UNIQUE(task_id, principal_type, principal_id)
+    )`);
+
+		// Attribute-based rules evaluated after the role check (see lib/policies.js). actions and conditions hold JSON;
+		// a NULL organization_id applies everywhere.
+		db.run(`CREATE TABLE IF NOT EXISTS ${TABLES.POLICIES} (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      description TEXT,
+      effect TEXT NOT NULL CHECK(effect IN ('allow', 'deny')),
+      actions TEXT NOT NULL,
+      conditions TEXT NOT NULL,
+      organization_id TEXT REFERENCES ${TABLES.ORGANIZATIONS}(id) ON DELETE CASCADE,
+      enabled INTEGER NOT NULL DEFAULT 1,
+      created_at INTEGER DEFAULT (strftime('%s','now')),
+      updated_at INTEGER DEFAULT (strftime('%s','now'))
+    )`);
+
+		// A user lending some of their own permissions to another user in one organization for a set period.
+		// permissions holds a JSON array; the delegator must still hold each one when it is used.
+		db.run(`CREATE TABLE IF NOT EXISTS ${TABLES.PERMISSION_DELEGATIONS} (
+      id TEXT PRIMARY KEY,
+      delegator_id TEXT NOT NULL REFERENCES ${TABLES.USERS}(id) ON DELETE CASCADE,
+      delegate_id TEXT NOT NULL REFERENCES ${TABLES.USERS}(id) ON DELETE CASCADE,
+      organization_id TEXT NOT NULL REFERENCES ${TABLES.ORGANIZATIONS}(id) ON DELETE CASCADE,
+      permissions TEXT NOT NULL,
+      reason TEXT,
+      starts_at INTEGER NOT NULL,
+      expires_at INTEGER NOT NULL,
+      revoked_at INTEGER,
+      revoked_by TEXT,
+      expiry_audited_at INTEGER,
+      created_at INTEGER DEFAULT (strftime('%s','now'))
+    )`);
+
+		// Sensitive admin changes held for a second user's approval (four-eyes mode). payload is the action's
+		// input as JSON; it is applied only when the request is approved.
+		db.run(`CREATE TABLE IF NOT EXISTS ${TABLES.CHANGE_REQUESTS} (
+      id TEXT PRIMARY KEY,
+      action TEXT NOT NULL,
+      payload TEXT NOT NULL,
+      summary TEXT NOT NULL,
+      organization_id TEXT REFERENCES ${TABLES.ORGANIZATIONS}(id) ON DELETE CASCADE,
+      requested_by TEXT NOT NULL REFERENCES ${TABLES.USERS}(id) ON DELETE CASCADE,
+      status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending','approved','rejected','cancelled')),
+      decided_by TEXT REFERENCES ${TABLES.USERS}(id) ON DELETE SET NULL,
+      decision_note TEXT,
+      decided_at INTEGER,
+      created_at INTEGER DEFAULT (strftime('%s','now'))
+    )`);
+
+		// Per-user allow / deny on top of role permissions. A deny wins over everything but the owner role; an allow
+		// grants the permission where the user's roles reach. A NULL organization_id applies in all of them.
+		db.run(`CREATE TABLE IF NOT EXISTS ${TABLES.USER_PERMISSION_OVERRIDES} (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL REFERENCES ${TABLES.USERS}(id) ON DELETE CASCADE,
+      organization_id TEXT REFERENCES ${TABLES.ORGANIZATIONS}(id) ON DELETE CASCADE,
+      permission TEXT NOT NULL,
+      effect TEXT NOT NULL CHECK(effect IN ('allow', 'deny')),
+      reason TEXT,
+      created_by TEXT REFERENCES ${TABLES.USERS}(id) ON DELETE SET NULL,
+      created_at INTEGER DEFAULT (strftime('%s','now'))
+    )`);
+
+		// Ordered, checkable steps of a task; assigned_to is optional
+		db.run(`CREATE TABLE IF NOT EXISTS ${TABLES.TASK_CHECKLIST_ITEMS} (
+      id TEXT PRIMARY KEY,
+      task_id TEXT NOT NULL REFERENCES ${TABLES.TASKS}(id) ON DELETE CASCADE,
+      title TEXT NOT NULL,
+      is_done INTEGER NOT NULL DEFAULT 0,
+      position INTEGER NOT NULL DEFAULT 0,
+      assigned_to TEXT REFERENCES ${TABLES.USERS}(id) ON DELETE SET NULL,
+      created_by TEXT REFERENCES ${TABLES.USERS}(id) ON DELETE SET NULL,
+      completed_at INTEGER,
+      created_at INTEGER DEFAULT (strftime('%s','now')),
+      updated_at INTEGER DEFAULT (strftime('%s','now'))
+    )`);
+
+		// Discussion on a task; mentions is a JSON array of user ids
+		db.run(`CREATE TABLE IF NOT EXISTS ${TABLES.TASK_COMMENTS} (
+      id TEXT PRIMARY KEY,
+      task_id TEXT NOT NULL REFERENCES ${TABLES.TASKS}(id) ON DELETE CASCADE,
+      author_id TEXT REFERENCES ${TABLES.USERS}(id) ON DELETE SET NULL,
+      body TEXT NOT NULL,
+      mentions TEXT,
+      edited_at INTEGER,
+      created_at INTEGER DEFAULT (strftime('%s','now'))
+    )`);
+
+		// Files attached to a task; content_hash and thumbnail_hash name blobs in the attachment store
+		db.run(`CREATE TABLE IF NOT EXISTS ${TABLES.TASK_ATTACHMENTS} (
+      id TEXT PRIMARY KEY,
+      task_id TEXT NOT NULL REFERENCES ${TABLES.TASKS}(id) ON DELETE CASCADE,
+      filename TEXT NOT NULL,
+      mime_type TEXT NOT NULL,
+      size INTEGER NOT NULL,
+      content_hash TEXT NOT NULL,
+      thumbnail_hash TEXT,
+      thumbnail_type TEXT,
+      uploaded_by TEXT REFERENCES ${TABLES.USERS}(id) ON DELETE SET NULL,
       created_at INTEGER DEFAULT (strftime('%s','now'))
     )`);
 
+		// blocker_id blocks blocked_id: the blocked task can't be completed while the blocker is open
+		db.run(`CREATE TABLE IF NOT EXISTS ${TABLES.TASK_DEPENDENCIES} (
+      blocker_id TEXT NOT NULL REFERENCES ${TABLES.TASKS}(id) ON DELETE CASCADE,
+      blocked_id TEXT NOT NULL REFERENCES ${TABLES.TASKS}(id) ON DELETE CASCADE,
+      created_by TEXT REFERENCES ${TABLES.USERS}(id) ON DELETE SET NULL,
+      created_at INTEGER DEFAULT (strftime('%s','now')),
+      PRIMARY KEY (blocker_id, blocked_id),
+      CHECK (blocker_id <> blocked_id)
+    )`);
+
+		// An organization's own task workflow (see lib/workflows.js); statuses and transitions hold JSON. Organizations
+		// without a row use their parent's.
+		db.run(`CREATE TABLE IF NOT EXISTS ${TABLES.WORKFLOWS} (
+      organization_id TEXT PRIMARY KEY REFERENCES ${TABLES.ORGANIZATIONS}(id) ON DELETE CASCADE,
+      statuses TEXT NOT NULL,
+      transitions TEXT NOT NULL,
+      updated_by TEXT REFERENCES ${TABLES.USERS}(id) ON DELETE SET NULL,
+      created_at INTEGER DEFAULT (strftime('%s','now')),
+      updated_at INTEGER DEFAULT (strftime('%s','now'))
+    )`);
+
 		db.run(`CREATE INDEX IF NOT EXISTS idx_tasks_org_position ON ${TABLES.TASKS} (organization_id, position)`);
 		db.run(`CREATE INDEX IF NOT EXISTS idx_audit_org_created ON ${TABLES.AUDIT_LOG} (organization_id, created_at DESC)`);
 		db.run(`CREATE INDEX IF NOT EXISTS idx_users_org_role ON ${TABLES.USERS} (organization_id, role)`);
 		db.run(`CREATE INDEX IF NOT EXISTS idx_users_welcome_pending ON ${TABLES.USERS} (has_seen_welcome) WHERE has_seen_welcome = 0`);
 		db.run(`CREATE INDEX IF NOT EXISTS idx_categories_org_name ON ${TABLES.CATEGORIES} (organization_id, name)`);
+		db.run(`CREATE INDEX IF NOT EXISTS idx_role_assignments_user ON ${TABLES.USER_ROLE_ASSIGNMENTS} (user_id)`);
+		db.run(`CREATE INDEX IF NOT EXISTS idx_task_acl_task ON ${TABLES.TASK_ACL} (task_id)`);
+		db.run(`CREATE INDEX IF NOT EXISTS idx_delegations_delegate ON ${TABLES.PERMISSION_DELEGATIONS} (delegate_id)`);
+		db.run(`CREATE INDEX IF NOT EXISTS idx_change_requests_status ON ${TABLES.CHANGE_REQUESTS} (status, created_at DESC)`);
+		db.run(`CREATE INDEX IF NOT EXISTS idx_permission_overrides_user ON ${TABLES.USER_PERMISSION_OVERRIDES} (user_id)`);
+		db.run(`CREATE INDEX IF NOT EXISTS idx_checklist_task_position ON ${TABLES.TASK_CHECKLIST_ITEMS} (task_id, position)`);
+		db.run(`CREATE INDEX IF NOT EXISTS idx_task_comments_task ON ${TABLES.TASK_COMMENTS} (task_id, created_at)`);
+		db.run(`CREATE INDEX IF NOT EXISTS idx_audit_entity ON ${TABLES.AUDIT_LOG} (entity, entity_id, created_at)`);
+		db.run(`CREATE INDEX IF NOT EXISTS idx_task_attachments_task ON ${TABLES.TASK_ATTACHMENTS} (task_id, created_at)`);
+		db.run(`CREATE INDEX IF NOT EXISTS idx_task_attachments_content ON ${TABLES.TASK_ATTACHMENTS} (content_hash)`);
+		db.run(`CREATE INDEX IF NOT EXISTS idx_task_dependencies_blocked ON ${TABLES.TASK_DEPENDENCIES} (blocked_id)`);
 	});
 
 	// Lightweight migration: add columns if missing
@@ -142,6 +331,12 @@ function initDatabase(dataDir, fileName = DEFAULT_DB_FILE)
 		console.error('Failed to run users table migration', error);
 	});
 
+	// Tasks table migration (add parent_task_id for subtasks, recurrence columns)
+	migrateTasksTable(db).catch((error) =>
+	{
+		console.error('Failed to migrate tasks table', error);
+	});
+
 	// Categories table migration (add is_system)
 	migrateCategoriesTable(db).catch((error) =>
 	{
@@ -159,6 +354,31 @@ function initDatabase(dataDir, fileName = DEFAULT_DB_FILE)
 		console.error('Failed to seed database', error);
 	});
 
+	// Rank keys are read and written by one operation at a time so no two tasks get the same key. A task given a key
+	// longer than MAX_RANK_LENGTH queues a rebalance, which runs after the operations already waiting.
+	let rankQueue = Promise.resolve();
+	let rebalanceQueued = false;
+	const withRanks = (fn) =>
+	{
+		const result = rankQueue.then(fn).then((task) =>
+		{
+			if (task?.rank?.length > MAX_RANK_LENGTH) queueRebalance();
+			return task;
+		});
+		rankQueue = result.catch(() => {});
+		return result;
+	};
+	const queueRebalance = () =>
+	{
+		if (rebalanceQueued) return;
+		rebalanceQueued = true;
+		withRanks(() =>
+		{
+			rebalanceQueued = false;
+			return rebalanceTaskRanks(db);
+		}).catch((error) => console.error('Failed to rebalance task ranks', error));
+	};
+
 	return {
 		db,
 		dbPath,
@@ -167,11 +387,80 @@ function initDatabase(dataDir, fileName = DEFAULT_DB_FILE)
 		listOrganizations: () => all(db, `SELECT * FROM ${TABLES.ORGANIZATIONS} ORDER BY created_at ASC`),
 		getOrganizationById: (id) => get(db, `SELECT * FROM ${TABLES.ORGANIZATIONS} WHERE id = ?`, [id]),
 		getChildOrganizations: (parentId) => all(db, `SELECT * FROM ${TABLES.ORGANIZATIONS} WHERE parent_id = ?`, [parentId]),
-		createTask: (task) => createTask(db, task),
+		listOrganizationSummaries: () => listOrganizationSummaries(db),
+		createOrganization: (org) => createOrganization(db, org),
+		renameOrganization: (id, name) => renameOrganization(db, id, name),
+		moveOrganization: (id, parentId) => moveOrganization(db, id, parentId),
+		deleteOrganization: (id) => deleteOrganization(db, id),
+		createTask: (task) => withRanks(() => createTask(db, task)),
+		reorderTask: (id, placement) => withRanks(() => reorderTask(db, id, placement)),
 		updateTask: (id, updates) => updateTask(db, id, updates),
 		deleteTask: (id) => run(db, `DELETE FROM ${TABLES.TASKS} WHERE id = ?`, [id]),
 		getTaskById: (id) => get(db, `${taskSelectAllColumns()} WHERE t.id = ?`, [id]),
 		listTasksForOrganizations: (orgIds, filters = {}) => listTasksForOrganizations(db, orgIds, filters),
+		listRecurringTasks: () => all(db, `${taskSelectAllColumns()} WHERE t.recurrence IS NOT NULL`),
+		advanceRecurrence: (task, occurrence) => withRanks(() => advanceRecurrence(db, task, occurrence)),
+		countSubtasks: (taskId) => get(db, `SELECT COUNT(*) AS count FROM ${TABLES.TASKS} WHERE parent_task_id = ?`, [taskId]).then((row) => row.count),
+		// Checklist helpers
+		listChecklistItems: (taskId) => listChecklistItems(db, taskId),
+		getChecklistItemById: (id) => get(db, `SELECT ${CHECKLIST_COLUMNS} FROM ${CHECKLIST_FROM} WHERE i.id = ?`, [id]),
+		createChecklistItem: (item) => createChecklistItem(db, item),
+		updateChecklistItem: (id, updates) => updateChecklistItem(db, id, updates),
+		deleteChecklistItem: (id) => run(db, `DELETE FROM ${TABLES.TASK_CHECKLIST_ITEMS} WHERE id = ?`, [id]),
+		reorderChecklistItems: (taskId, itemIds) => reorderChecklistItems(db, taskId, itemIds),
+		// Comment helpers
+		listTaskComments: (taskId) => listTaskComments(db, taskId),
+		getTaskCommentById: (id) => getTaskCommentById(db, id),
+		createTaskComment: (comment) => createTaskComment(db, comment),
+		updateTaskComment: (id, updates) => updateTaskComment(db, id, updates),
+		deleteTaskComment: (id) => run(db, `DELETE FROM ${TABLES.TASK_COMMENTS} WHERE id = ?`, [id]),
+		// Attachment helpers
+		listTaskAttachments: (taskId) => all(db, `SELECT ${ATTACHMENT_COLUMNS} FROM ${ATTACHMENT_FROM} WHERE a.task_id = ? ORDER BY a.created_at ASC, a.rowid ASC`, [taskId]),
+		getTaskAttachmentById: (id) => get(db, `SELECT ${ATTACHMENT_COLUMNS} FROM ${ATTACHMENT_FROM} WHERE a.id = ?`, [id]),
+		createTaskAttachment: (attachment) => createTaskAttachment(db, attachment),
+		setTaskAttachmentThumbnail: (id, hash, mimeType) => run(db, `UPDATE ${TABLES.TASK_ATTACHMENTS} SET thumbnail_hash = ?, thumbnail_type = ? WHERE id = ?`, [hash, mimeType, id]),
+		deleteTaskAttachment: (id) => run(db, `DELETE FROM ${TABLES.TASK_ATTACHMENTS} WHERE id = ?`, [id]),
+		listAttachmentHashesForTask: (taskId) => listAttachmentHashesForTask(db, taskId),
+		listAttachmentBlobHashes: () => listAttachmentBlobHashes(db),
+		isAttachmentBlobReferenced: (hash) => get(
+			db,
+			`SELECT EXISTS (SELECT 1 FROM ${TABLES.TASK_ATTACHMENTS} WHERE content_hash = ? OR thumbnail_hash = ?) AS referenced`,
+			[hash, hash]
+		).then((row) => row.referenced === 1),
+		// Dependency helpers
+		listTaskDependencies: (taskIds) => listTaskDependencies(db, taskIds),
+		addTaskDependency: (blockerId, blockedId, createdBy) => run(
+			db,
+			`INSERT OR IGNORE INTO ${TABLES.TASK_DEPENDENCIES} (blocker_id, blocked_id, created_by) VALUES (?, ?, ?)`,
+			[blockerId, blockedId, createdBy]
+		).then((result) => result.changes === 1),
+		removeTaskDependency: (blockerId, blockedId) => run(
+			db,
+			`DELETE FROM ${TABLES.TASK_DEPENDENCIES} WHERE blocker_id = ? AND blocked_id = ?`,
+			[blockerId, blockedId]
+		).then((result) => result.changes === 1),
+		dependsOn: (taskId, otherId) => dependsOn(db, taskId, otherId),
+		listOpenBlockerIds: (taskId) => all(
+			db,
+			`SELECT d.blocker_id AS id FROM ${TABLES.TASK_DEPENDENCIES} d JOIN ${TABLES.TASKS} b ON b.id = d.blocker_id
+       WHERE d.blocked_id = ? AND b.closed = 0`,
+			[taskId]
+		).then((rows) => rows.map((row) => row.id)),
+		// Workflow helpers
+		getWorkflow: (organizationId) => getWorkflow(db, organizationId),
+		saveWorkflow: (organizationId, workflow, updatedBy, options) => saveWorkflow(db, organizationId, workflow, updatedBy, options),
+		countTaskStatuses: (organizationIds) => countTaskStatuses(db, organizationIds),
+		setTaskClosedFlags: (organizationIds, terminalStatuses) => setTaskClosedFlags(db, organizationIds, terminalStatuses),
+		// Task ACL helpers
+		listTaskAcl: (taskId) => listTaskAcl(db, taskId),
+		replaceTaskAcl: (taskId, entries) => replaceTaskAcl(db, taskId, entries),
+		getTaskAccess: (taskId, accessor) => getTaskAccess(db, taskId, accessor),
+		// Policy helpers
+		listPolicies: () => listPolicies(db),
+		getPolicyById: (id) => getPolicyById(db, id),
+		createPolicy: (policy) => createPolicy(db, policy),
+		updatePolicy: (id, updates) => updatePolicy(db, id, updates),
+		deletePolicy: (id) => run(db, `DELETE FROM ${TABLES.POLICIES} WHERE id = ?`, [id]),
 		// Categories helpers
 		createCategory: (data) => createCategory(db, data),
 		updateCategory: (id, updates) => updateCategory(db, id, updates),
@@ -184,15 +473,44 @@ function initDatabase(dataDir, fileName = DEFAULT_DB_FILE)
 		listAccessibleCategoriesForRole: (orgIds, role) => listAccessibleCategoriesForRole(db, orgIds, role),
 		createAuditEvent: (event) => createAuditEvent(db, event),
 		listAuditEvents: (orgIds, limit = 100) => listAuditEvents(db, orgIds, limit),
-		getMaxTaskPosition: (orgId) => getMaxTaskPosition(db, orgId),
+		listAuditEventsForEntity: (entity, entityId) => listAuditEventsForEntity(db, entity, entityId),
+		listBulkTaskAuditEvents: (taskId) => listBulkTaskAuditEvents(db, taskId),
 		upsertUser: (user) => upsertUser(db, user),
 		listAllUsers: () => listAllUsers(db),
 		listUsersForOrganizations: (orgIds) => listUsersForOrganizations(db, orgIds),
-		deleteUser: (id) => run(db, `DELETE FROM ${TABLES.USERS} WHERE id = ?`, [id]),
+		deleteUser: (id) => deleteUser(db, id),
+		// Role assignment helpers
+		listUserRoleAssignments: (userId) => listUserRoleAssignments(db, userId),
+		getUserRoleAssignment: (id) => get(db, `SELECT ${ASSIGNMENT_COLUMNS} FROM ${TABLES.USER_ROLE_ASSIGNMENTS} WHERE id = ?`, [id]),
+		addUserRoleAssignment: (assignment) => addUserRoleAssignment(db, assignment),
+		removeUserRoleAssignment: (id) => removeUserRoleAssignment(db, id),
 		// Role permission helpers
 		hasRolePermission: (opts) => hasRolePermission(db, opts),
+		getRolePermissionRow: (opts) => getRolePermissionRow(db, opts),
 		setRolePermission: (opts) => setRolePermission(db, opts),
+		clearRolePermission: (opts) => clearRolePermission(db, opts),
 		listRolePermissions: (opts) => listRolePermissions(db, opts),
+		listTimedRolePermissions: () => listTimedRolePermissions(db),
+		// Delegation helpers
+		createDelegation: (delegation) => createDelegation(db, delegation),
+		getDelegationById: (id) => getDelegationById(db, id),
+		listDelegations: (opts) => listDelegations(db, opts),
+		listActiveDelegationsForUser: (userId) => listActiveDelegationsForUser(db, userId),
+		revokeDelegation: (id, revokedBy) => revokeDelegation(db, id, revokedBy),
+		listLapsedGrants: () => listLapsedGrants(db),
+		markGrantExpiryAudited: (kind, id) => markGrantExpiryAudited(db, kind, id),
+		// Per-user permission override helpers
+		listUserPermissionOverrides: (userId) => listUserPermissionOverrides(db, userId),
+		listPermissionOverrides: () => listPermissionOverrides(db),
+		getPermissionOverrideById: (id) => getPermissionOverrideById(db, id),
+		setUserPermissionOverride: (override) => setUserPermissionOverride(db, override),
+		removePermissionOverride: (id) => removePermissionOverride(db, id),
+		// Change request (four-eyes approval) helpers
+		createChangeRequest: (request) => createChangeRequest(db, request),
+		getChangeRequestById: (id) => getChangeRequestById(db, id),
+		listChangeRequests: (opts) => listChangeRequests(db, opts),
+		decideChangeRequest: (id, decision) => decideChangeRequest(db, id, decision),
+		reopenChangeRequest: (id) => reopenChangeRequest(db, id),
 		// Roles catalog helpers
 		listRoles: () => listRoles(db),
 		getRoleByName: (name) => getRoleByName(db, name),
@@ -210,9 +528,9 @@ function initDatabase(dataDir, fileName = DEFAULT_DB_FILE)
 	};
 }
 
-function taskSelectAllColumns()
+function taskSelectAllColumns(extraColumns = [])
 {
-	return `SELECT
+	return `SELECT${extraColumns.map((c) => `\n      ${c},`).join('')}
       t.id,
       t.organization_id AS organizationId,
       t.title,
@@ -226,8 +544,22 @@ function taskSelectAllColumns()
       creator.name AS createdByName,
       t.assigned_to AS assignedTo,
       assignee.name AS assignedToName,
+      t.parent_task_id AS parentTaskId,
+      t.recurrence,
+      t.recurrence_series_id AS seriesId,
+      t.closed,
+      t.rank,
       t.created_at AS createdAt,
-      t.updated_at AS updatedAt
+      t.updated_at AS updatedAt,
+      EXISTS (SELECT 1 FROM ${TABLES.TASK_ACL} acl WHERE acl.task_id = t.id) AS isRestricted,
+      (SELECT COUNT(*) FROM ${TABLES.TASK_CHECKLIST_ITEMS} ci WHERE ci.task_id = t.id) AS checklistTotal,
+      (SELECT COUNT(*) FROM ${TABLES.TASK_CHECKLIST_ITEMS} ci WHERE ci.task_id = t.id AND ci.is_done = 1) AS checklistDone,
+      (SELECT COUNT(*) FROM ${TABLES.TASKS} sub WHERE sub.parent_task_id = t.id) AS subtaskTotal,
+      (SELECT COUNT(*) FROM ${TABLES.TASKS} sub WHERE sub.parent_task_id = t.id AND sub.closed = 1) AS subtaskDone,
+      (SELECT COUNT(*) FROM ${TABLES.TASK_COMMENTS} tc WHERE tc.task_id = t.id) AS commentCount,
+      (SELECT COUNT(*) FROM ${TABLES.TASK_ATTACHMENTS} ta WHERE ta.task_id = t.id) AS attachmentCount,
+      (SELECT COUNT(*) FROM ${TABLES.TASK_DEPENDENCIES} dep JOIN ${TABLES.TASKS} blocker ON blocker.id = dep.blocker_id
+        WHERE dep.blocked_id = t.id AND blocker.closed = 0) AS openBlockerCount
     FROM ${TABLES.TASKS} t
     LEFT JOIN ${TABLES.USERS} creator ON creator.id = t.created_by
     LEFT JOIN ${TABLES.USERS} assignee ON assignee.id = t.assigned_to`;
@@ -366,15 +698,33 @@ async function seedInitialData(db)
 	const ensureGlobalRolePermission = async (role, permission, enabled = 1) =>
 	{
 		const id = uuidv4();
+		// INSERT OR IGNORE can't dedupe here (NULL organization ids never conflict), so check explicitly;
+		// this also keeps an owner's later change to the row from being undone on restart
 		await run(
 			db,
-			`INSERT OR IGNORE INTO ${TABLES.ROLE_PERMISSIONS} (id, organization_id, role, permission, enabled)
-       VALUES (?, NULL, ?, ?, ?)`,
-			[id, role, permission, enabled ? 1 : 0]
+			`INSERT INTO ${TABLES.ROLE_PERMISSIONS} (id, organization_id, role, permission, enabled)
+       SELECT ?, NULL, ?, ?, ?
+       WHERE NOT EXISTS (SELECT 1 FROM ${TABLES.ROLE_PERMISSIONS} WHERE organization_id IS NULL AND role = ? AND permission = ?)`,
+			[id, role, permission, enabled ? 1 : 0, role, permission]
 		);
 	};
 	await ensureGlobalRolePermission(ROLES.ADMIN, 'roles:delete', 1);
 	await ensureGlobalRolePermission(ROLES.OWNER, 'roles:delete', 1);
+
+	// Users created before role assignments existed get their primary assignment
+	const unassigned = await all(
+		db,
+		`SELECT u.id, u.role, u.organization_id FROM ${TABLES.USERS} u
+     WHERE NOT EXISTS (SELECT 1 FROM ${TABLES.USER_ROLE_ASSIGNMENTS} a WHERE a.user_id = u.id AND a.role = u.role AND a.organization_id = u.organization_id)`
+	);
+	for (const u of unassigned)
+	{
+		await run(
+			db,
+			`INSERT OR IGNORE INTO ${TABLES.USER_ROLE_ASSIGNMENTS} (id, user_id, role, organization_id) VALUES (?, ?, ?, ?)`,
+			[uuidv4(), u.id, u.role, u.organization_id]
+		);
+	}
 }
 
 function hashPassword(password)
@@ -382,13 +732,16 @@ function hashPassword(password)
 	return bcrypt.hashSync(password, 10);
 }
 
+// New tasks go last: after every rank key, and after the organization's positions unless one is given
 async function createTask(db, task)
 {
 	const id = task.id || uuidv4();
+	const { maxRank } = await get(db, `SELECT MAX(rank) AS maxRank FROM ${TABLES.TASKS}`);
 	await run(
 		db,
-		`INSERT INTO ${TABLES.TASKS} (id, organization_id, title, description, status, category, priority, due_date, position, created_by, assigned_to)
-     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+		`INSERT INTO ${TABLES.TASKS} (id, organization_id, title, description, status, category, priority, due_date, position, created_by, assigned_to, parent_task_id,
+       recurrence, recurrence_series_id, closed, rank)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, COALESCE(?, (SELECT COALESCE(MAX(position), 0) + 1 FROM ${TABLES.TASKS} WHERE organization_id = ?)), ?, ?, ?, ?, ?, ?, ?)`,
 		[
 			id,
 			task.organizationId,
@@ -398,14 +751,100 @@ async function createTask(db, task)
 			task.category ?? 'Work',
 			task.priority ?? 'medium',
 			task.dueDate ?? null,
-			task.position ?? 0,
+			task.position ?? null,
+			task.organizationId,
 			task.createdBy,
-			task.assignedTo ?? null
+			task.assignedTo ?? null,
+			task.parentTaskId ?? null,
+			task.recurrence ?? null,
+			task.seriesId ?? null,
+			// Callers pass what the organization's workflow says; 'done' is the default workflow's terminal status
+			Number(task.closed ?? task.status === 'done'),
+			keyBetween(maxRank, null)
 		]
 	);
 	return get(db, `${taskSelectAllColumns()} WHERE t.id = ?`, [id]);
 }
 
+// Gives a task the rank key right after afterId or right before beforeId, reading the neighbors and writing the key
+// in one transaction. Returns the task, or null when the neighbor no longer exists.
+async function reorderTask(db, id, { beforeId = null, afterId = null })
+{
+	const moved = await withTransaction(db, async () =>
+	{
+		const neighbor = await get(db, `SELECT rank FROM ${TABLES.TASKS} WHERE id = ?`, [afterId || beforeId]);
+		if (!neighbor) return false;
+		const rank = afterId
+			? keyBetween(neighbor.rank, (await get(db, `SELECT MIN(rank) AS rank FROM ${TABLES.TASKS} WHERE rank > ? AND id != ?`, [neighbor.rank, id])).rank)
+			: keyBetween((await get(db, `SELECT MAX(rank) AS rank FROM ${TABLES.TASKS} WHERE rank < ? AND id != ?`, [neighbor.rank, id])).rank, neighbor.rank);
+		await run(db, `UPDATE ${TABLES.TASKS} SET rank = ? WHERE id = ?`, [rank, id]);
+		return true;
+	});
+	return moved ? get(db, `${taskSelectAllColumns()} WHERE t.id = ?`, [id]) : null;
+}
+
+// Evenly spaced rank keys for every task in their current order; tasks without one (from before ranks) follow by
+// position
+async function rebalanceTaskRanks(db)
+{
+	return withTransaction(db, async () =>
+	{
+		const rows = await all(db, `SELECT id FROM ${TABLES.TASKS} ORDER BY rank = '' ASC, rank ASC, position ASC, created_at ASC`);
+		const keys = spreadKeys(rows.length);
+		for (let i = 0; i < rows.length; i++)
+		{
+			await run(db, `UPDATE ${TABLES.TASKS} SET rank = ? WHERE id = ?`, [keys[i], rows[i].id]);
+		}
+		return rows.length;
+	});
+}
+
+// Moves a task's recurrence rule to a new occurrence: a copy of the task due at occurrence.dueDate, in the open
+// status given, with its checklist unchecked and the same sharing. Returns null when the rule is no longer on the
+// task, so concurrent runs create one occurrence.
+async function advanceRecurrence(db, task, { dueDate, status = 'todo' })
+{
+	const id = uuidv4();
+	const seriesId = task.seriesId || task.id;
+	const moved = await withTransaction(db, async () =>
+	{
+		const cleared = await run(
+			db,
+			`UPDATE ${TABLES.TASKS} SET recurrence = NULL, recurrence_series_id = ? WHERE id = ? AND recurrence = ?`,
+			[seriesId, task.id, task.recurrence]
+		);
+		if (cleared.changes !== 1) return false;
+		const { maxPosition } = await get(db, `SELECT MAX(position) AS maxPosition FROM ${TABLES.TASKS} WHERE organization_id = ?`, [task.organizationId]);
+		const { maxRank } = await get(db, `SELECT MAX(rank) AS maxRank FROM ${TABLES.TASKS}`);
+		await run(
+			db,
+			`INSERT INTO ${TABLES.TASKS} (id, organization_id, title, description, status, category, priority, due_date, position, created_by, assigned_to,
+         recurrence, recurrence_series_id, rank)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+			[id, task.organizationId, task.title, task.description, status, task.category, task.priority, dueDate, (maxPosition || 0) + 1,
+				task.createdBy, task.assignedTo, task.recurrence, seriesId, keyBetween(maxRank, null)]
+		);
+		for (const item of await all(db, `SELECT title, position, assigned_to, created_by FROM ${TABLES.TASK_CHECKLIST_ITEMS} WHERE task_id = ?`, [task.id]))
+		{
+			await run(
+				db,
+				`INSERT INTO ${TABLES.TASK_CHECKLIST_ITEMS} (id, task_id, title, position, assigned_to, created_by) VALUES (?, ?, ?, ?, ?, ?)`,
+				[uuidv4(), id, item.title, item.position, item.assigned_to, item.created_by]
+			);
+		}
+		for (const entry of await all(db, `SELECT principal_type, principal_id, access FROM ${TABLES.TASK_ACL} WHERE task_id = ?`, [task.id]))
+		{
+			await run(
+				db,
+				`INSERT INTO ${TABLES.TASK_ACL} (id, task_id, principal_type, principal_id, access) VALUES (?, ?, ?, ?, ?)`,
+				[uuidv4(), id, entry.principal_type, entry.principal_id, entry.access]
+			);
+		}
+		return true;
+	});
+	return moved ? get(db, `${taskSelectAllColumns()} WHERE t.id = ?`, [id]) : null;
+}
+
 async function updateTask(db, id, updates)
 {
 	const columns = [];
@@ -418,6 +857,8 @@ async function updateTask(db, id, updates)
 		priority: 'priority',
 		dueDate: 'due_date',
 		assignedTo: 'assigned_to',
+		recurrence: 'recurrence',
+		closed: 'closed',
 		position: 'position',
 		organizationId: 'organization_id'
 	};
@@ -427,7 +868,7 @@ async function updateTask(db, id, updates)
 		if (Object.prototype.hasOwnProperty.call(updates, key))
 		{
 			columns.push(`${column} = ?`);
-			values.push(updates[key] ?? null);
+			values.push(typeof updates[key] === 'boolean' ? Number(updates[key]) : updates[key] ?? null);
 		}
 	});
 
@@ -443,6 +884,20 @@ async function updateTask(db, id, updates)
 	return get(db, `${taskSelectAllColumns()} WHERE t.id = ?`, [id]);
 }
 
+// Orders task lists can take: the expression over tasks aliased `t` each sorts by, given the direction. Priorities
+// sort high above low, and tasks without a due date come last either way.
+const TASK_SORTS = {
+	rank: () => 't.rank',
+	priority: () => `CASE t.priority WHEN 'high' THEN 3 WHEN 'medium' THEN 2 WHEN 'low' THEN 1 ELSE 0 END`,
+	createdAt: () => 't.created_at',
+	updatedAt: () => 't.updated_at',
+	dueDate: (order) => `COALESCE(t.due_date, ${order === 'desc' ? -1 : Number.MAX_SAFE_INTEGER})`,
+	title: () => 't.title COLLATE NOCASE'
+};
+
+// filters.sort (a TASK_SORTS key, rank by default) and filters.order ('asc' or 'desc') order the tasks, with the
+// task id breaking ties; each row carries the value it sorted by as sortKey. filters.after ({ sortKey, id } of the
+// last task of the previous page) resumes the list after that task and filters.limit caps the page.
 function listTasksForOrganizations(db, orgIds, filters)
 {
 	if (!Array.isArray(orgIds) || orgIds.length === 0)
@@ -472,12 +927,435 @@ function listTasksForOrganizations(db, orgIds, filters)
 		clauses.push('t.assigned_to = ?');
 		params.push(filters.assignedTo);
 	}
+	if (filters.parentTaskId)
+	{
+		clauses.push('t.parent_task_id = ?');
+		params.push(filters.parentTaskId);
+	}
+	// Task ACL: keep only tasks the accessor may view and report whether they may edit each one
+	const columns = [];
+	const columnParams = [];
+	if (filters.accessor)
+	{
+		const view = taskAclCondition(filters.accessor, 'view');
+		clauses.push(view.sql);
+		params.push(...view.params);
+		const edit = taskAclCondition(filters.accessor, 'edit');
+		columns.push(`${edit.sql} AS canEdit`);
+		columnParams.push(...edit.params);
+	}
+	// Personal tasks only for their creator; others only in the categories the caller reaches in the task's
+	// organization ({ organizationId, name } pairs, or null for every category)
+	if (filters.categoryAccess)
+	{
+		const { userId, categories } = filters.categoryAccess;
+		const reachable = categories === null
+			? '1'
+			: categories.length === 0 ? '0' : `(t.organization_id, t.category) IN (VALUES ${categories.map(() => '(?, ?)').join(', ')})`;
+		clauses.push(`(CASE WHEN t.category = 'Personal' THEN t.created_by = ? ELSE ${reachable} END)`);
+		params.push(userId, ...(categories || []).flatMap((c) => [c.organizationId, c.name]));
+	}
+
+	const order = filters.order === 'desc' ? 'DESC' : 'ASC';
+	const sortKey = (TASK_SORTS[filters.sort] || TASK_SORTS.rank)(filters.order);
+	columns.push(`${sortKey} AS sortKey`);
+	if (filters.after)
+	{
+		clauses.push(`(${sortKey}, t.id) ${order === 'DESC' ? '<' : '>'} (?, ?)`);
+		params.push(filters.after.sortKey, filters.after.id);
+	}
+	const limit = filters.limit ? ' LIMIT ?' : '';
+
+	return all(
+		db,
+		`${taskSelectAllColumns(columns)} WHERE ${clauses.join(' AND ')} ORDER BY ${sortKey} ${order}, t.id ${order}${limit}`,
+		[...columnParams, ...params, ...(filters.limit ? [filters.limit] : [])]
+	);
+}
+
+// SQL condition (over tasks aliased `t`) that holds when the accessor has at least `level` ('view' or 'edit')
+// on the task. Tasks without ACL rows are unrestricted and creators always pass.
+// accessor: { userId, bypass, roleScopes: [{ role, orgIds }] } where a role only counts in its orgIds.
+function taskAclCondition(accessor, level)
+{
+	if (accessor.bypass) return { sql: '1', params: [] };
+	const levels = level === 'edit' ? ['edit'] : ['view', 'edit'];
+	const principals = [`(acl.principal_type = 'user' AND acl.principal_id = ?)`];
+	const principalParams = [accessor.userId || null];
+	for (const { role, orgIds } of accessor.roleScopes || [])
+	{
+		if (!orgIds || orgIds.length === 0) continue;
+		principals.push(`(acl.principal_type = 'role' AND acl.principal_id = ? AND t.organization_id IN (${orgIds.map(() => '?').join(',')}))`);
+		principalParams.push(role, ...orgIds);
+	}
+	return {
+		sql: `(t.created_by = ?
+      OR NOT EXISTS (SELECT 1 FROM ${TABLES.TASK_ACL} acl WHERE acl.task_id = t.id)
+      OR EXISTS (SELECT 1 FROM ${TABLES.TASK_ACL} acl WHERE acl.task_id = t.id AND acl.access IN (${levels.map(() => '?').join(',')}) AND (${principals.join(' OR ')})))`,
+		params: [accessor.userId || null, ...levels, ...principalParams]
+	};
+}
+
+// 'edit', 'view' or 'none' for the accessor on one task; null when the task does not exist
+async function getTaskAccess(db, taskId, accessor)
+{
+	const edit = taskAclCondition(accessor, 'edit');
+	const view = taskAclCondition(accessor, 'view');
+	const row = await get(
+		db,
+		`SELECT ${edit.sql} AS canEdit, ${view.sql} AS canView FROM ${TABLES.TASKS} t WHERE t.id = ?`,
+		[...edit.params, ...view.params, taskId]
+	);
+	if (!row) return null;
+	if (row.canEdit) return 'edit';
+	return row.canView ? 'view' : 'none';
+}
+
+function listTaskAcl(db, taskId)
+{
+	return all(
+		db,
+		`SELECT acl.id, acl.principal_type AS principalType, acl.principal_id AS principalId, acl.access,
+            CASE WHEN acl.principal_type = 'user' THEN u.name ELSE acl.principal_id END AS principalName
+     FROM ${TABLES.TASK_ACL} acl
+     LEFT JOIN ${TABLES.USERS} u ON acl.principal_type = 'user' AND u.id = acl.principal_id
+     WHERE acl.task_id = ?
+     ORDER BY acl.principal_type DESC, principalName ASC`,
+		[taskId]
+	);
+}
+
+// Replaces the task's ACL with entries ([{ principalType, principalId, access }]); an empty list lifts the restriction
+async function replaceTaskAcl(db, taskId, entries)
+{
+	await withTransaction(db, async () =>
+	{
+		await run(db, `DELETE FROM ${TABLES.TASK_ACL} WHERE task_id = ?`, [taskId]);
+		for (const entry of entries)
+		{
+			await run(
+				db,
+				`INSERT INTO ${TABLES.TASK_ACL} (id, task_id, principal_type, principal_id, access) VALUES (?, ?, ?, ?, ?)`,
+				[uuidv4(), taskId, entry.principalType, entry.principalId, entry.access]
+			);
+		}
+	});
+	return listTaskAcl(db, taskId);
+}
+
+const CHECKLIST_COLUMNS = `i.id, i.task_id AS taskId, i.title, i.is_done AS done, i.position, i.assigned_to AS assignedTo,
+  assignee.name AS assignedToName, i.created_by AS createdBy, i.completed_at AS completedAt, i.created_at AS createdAt, i.updated_at AS updatedAt`;
+const CHECKLIST_FROM = `${TABLES.TASK_CHECKLIST_ITEMS} i
+  LEFT JOIN ${TABLES.USERS} assignee ON assignee.id = i.assigned_to`;
+
+function listChecklistItems(db, taskId)
+{
+	return all(db, `SELECT ${CHECKLIST_COLUMNS} FROM ${CHECKLIST_FROM} WHERE i.task_id = ? ORDER BY i.position ASC, i.created_at ASC`, [taskId]);
+}
+
+// Appends an item to the end of the task's checklist
+async function createChecklistItem(db, { taskId, title, assignedTo = null, createdBy = null })
+{
+	const id = uuidv4();
+	await run(
+		db,
+		`INSERT INTO ${TABLES.TASK_CHECKLIST_ITEMS} (id, task_id, title, assigned_to, created_by, position)
+     VALUES (?, ?, ?, ?, ?, (SELECT COALESCE(MAX(position), 0) + 1 FROM ${TABLES.TASK_CHECKLIST_ITEMS} WHERE task_id = ?))`,
+		[id, taskId, title, assignedTo, createdBy, taskId]
+	);
+	return get(db, `SELECT ${CHECKLIST_COLUMNS} FROM ${CHECKLIST_FROM} WHERE i.id = ?`, [id]);
+}
+
+// updates: { title?, done?, assignedTo? }; checking an item stamps completed_at, unchecking clears it
+async function updateChecklistItem(db, id, updates)
+{
+	const columns = [];
+	const values = [];
+	if (Object.prototype.hasOwnProperty.call(updates, 'title'))
+	{
+		columns.push('title = ?');
+		values.push(updates.title);
+	}
+	if (Object.prototype.hasOwnProperty.call(updates, 'done'))
+	{
+		columns.push('is_done = ?', `completed_at = ${updates.done ? "strftime('%s','now')" : 'NULL'}`);
+		values.push(updates.done ? 1 : 0);
+	}
+	if (Object.prototype.hasOwnProperty.call(updates, 'assignedTo'))
+	{
+		columns.push('assigned_to = ?');
+		values.push(updates.assignedTo ?? null);
+	}
+	if (columns.length > 0)
+	{
+		columns.push("updated_at = (strftime('%s','now'))");
+		await run(db, `UPDATE ${TABLES.TASK_CHECKLIST_ITEMS} SET ${columns.join(', ')} WHERE id = ?`, [...values, id]);
+	}
+	return get(db, `SELECT ${CHECKLIST_COLUMNS} FROM ${CHECKLIST_FROM} WHERE i.id = ?`, [id]);
+}
+
+// Renumbers the checklist in the order given; itemIds must list every item of the task exactly once
+async function reorderChecklistItems(db, taskId, itemIds)
+{
+	await withTransaction(db, async () =>
+	{
+		for (const [index, id] of itemIds.entries())
+		{
+			await run(db, `UPDATE ${TABLES.TASK_CHECKLIST_ITEMS} SET position = ? WHERE id = ? AND task_id = ?`, [index + 1, id, taskId]);
+		}
+	});
+	return listChecklistItems(db, taskId);
+}
 
-	const orderBy = filters.orderBy === 'dueDate'
-		? 'CASE WHEN t.due_date IS NULL THEN 1 ELSE 0 END ASC, t.due_date ASC'
-		: 't.position ASC, t.created_at ASC';
+const COMMENT_COLUMNS = `c.id, c.task_id AS taskId, c.author_id AS authorId, author.name AS authorName, c.body, c.mentions,
+  c.edited_at AS editedAt, c.created_at AS createdAt`;
+const COMMENT_FROM = `${TABLES.TASK_COMMENTS} c
+  LEFT JOIN ${TABLES.USERS} author ON author.id = c.author_id`;
 
-	return all(db, `${taskSelectAllColumns()} WHERE ${clauses.join(' AND ')} ORDER BY ${orderBy}`, params);
+function mapComment(row)
+{
+	return row ? { ...row, mentions: row.mentions ? safeParse(row.mentions) : [] } : null;
+}
+
+// Oldest first, as a thread reads
+async function listTaskComments(db, taskId)
+{
+	const rows = await all(db, `SELECT ${COMMENT_COLUMNS} FROM ${COMMENT_FROM} WHERE c.task_id = ? ORDER BY c.created_at ASC, c.rowid ASC`, [taskId]);
+	return rows.map(mapComment);
+}
+
+async function getTaskCommentById(db, id)
+{
+	return mapComment(await get(db, `SELECT ${COMMENT_COLUMNS} FROM ${COMMENT_FROM} WHERE c.id = ?`, [id]));
+}
+
+async function createTaskComment(db, { taskId, authorId, body, mentions = [] })
+{
+	const id = uuidv4();
+	await run(
+		db,
+		`INSERT INTO ${TABLES.TASK_COMMENTS} (id, task_id, author_id, body, mentions) VALUES (?, ?, ?, ?, ?)`,
+		[id, taskId, authorId, body, JSON.stringify(mentions)]
+	);
+	return getTaskCommentById(db, id);
+}
+
+// Replaces the body and mentions and stamps edited_at
+async function updateTaskComment(db, id, { body, mentions = [] })
+{
+	await run(
+		db,
+		`UPDATE ${TABLES.TASK_COMMENTS} SET body = ?, mentions = ?, edited_at = strftime('%s','now') WHERE id = ?`,
+		[body, JSON.stringify(mentions), id]
+	);
+	return getTaskCommentById(db, id);
+}
+
+// Every link touching one of the tasks, as { blockerId, blockedId }
+function listTaskDependencies(db, taskIds)
+{
+	if (!Array.isArray(taskIds) || taskIds.length === 0) return Promise.resolve([]);
+	const placeholders = taskIds.map(() => '?').join(', ');
+	return all(
+		db,
+		`SELECT blocker_id AS blockerId, blocked_id AS blockedId, created_by AS createdBy, created_at AS createdAt
+     FROM ${TABLES.TASK_DEPENDENCIES}
+     WHERE blocker_id IN (${placeholders}) OR blocked_id IN (${placeholders})
+     ORDER BY created_at ASC`,
+		[...taskIds, ...taskIds]
+	);
+}
+
+// Whether taskId waits on otherId, directly or through a chain of blockers. Adding "taskId blocks otherId" when this
+// holds would close a cycle.
+async function dependsOn(db, taskId, otherId)
+{
+	const row = await get(
+		db,
+		`WITH RECURSIVE blockers(id) AS (
+       SELECT blocker_id FROM ${TABLES.TASK_DEPENDENCIES} WHERE blocked_id = ?
+       UNION
+       SELECT d.blocker_id FROM ${TABLES.TASK_DEPENDENCIES} d JOIN blockers b ON d.blocked_id = b.id
+     )
+     SELECT EXISTS (SELECT 1 FROM blockers WHERE id = ?) AS found`,
+		[taskId, otherId]
+	);
+	return row.found === 1;
+}
+
+function getWorkflow(db, organizationId)
+{
+	return get(db, `SELECT * FROM ${TABLES.WORKFLOWS} WHERE organization_id = ?`, [organizationId]).then((row) => (row
+		? {
+			organizationId: row.organization_id,
+			statuses: safeParse(row.statuses) || [],
+			transitions: safeParse(row.transitions) || [],
+			updatedBy: row.updated_by,
+			updatedAt: row.updated_at
+		}
+		: null));
+}
+
+// Stores (or, for a null workflow, removes) an organization's workflow and moves tasks of organizationIds whose
+// status it drops to the status remap names, together. Returns how many tasks moved.
+function saveWorkflow(db, organizationId, workflow, updatedBy, { organizationIds = [], remap = {} } = {})
+{
+	return withTransaction(db, async () =>
+	{
+		if (workflow)
+		{
+			await run(
+				db,
+				`INSERT INTO ${TABLES.WORKFLOWS} (organization_id, statuses, transitions, updated_by) VALUES (?, ?, ?, ?)
+         ON CONFLICT(organization_id) DO UPDATE SET statuses = excluded.statuses, transitions = excluded.transitions,
+           updated_by = excluded.updated_by, updated_at = (strftime('%s','now'))`,
+				[organizationId, JSON.stringify(workflow.statuses), JSON.stringify(workflow.transitions), updatedBy]
+			);
+		}
+		else
+		{
+			await run(db, `DELETE FROM ${TABLES.WORKFLOWS} WHERE organization_id = ?`, [organizationId]);
+		}
+		let moved = 0;
+		const placeholders = organizationIds.map(() => '?').join(', ');
+		for (const [from, to] of Object.entries(remap))
+		{
+			if (organizationIds.length === 0) break;
+			const result = await run(
+				db,
+				`UPDATE ${TABLES.TASKS} SET status = ?, updated_at = (strftime('%s','now')) WHERE status = ? AND organization_id IN (${placeholders})`,
+				[to, from, ...organizationIds]
+			);
+			moved += result.changes;
+		}
+		return moved;
+	});
+}
+
+// { status: number of tasks } over the organizations
+async function countTaskStatuses(db, organizationIds)
+{
+	if (!Array.isArray(organizationIds) || organizationIds.length === 0) return {};
+	const rows = await all(
+		db,
+		`SELECT status, COUNT(*) AS count FROM ${TABLES.TASKS} WHERE organization_id IN (${organizationIds.map(() => '?').join(', ')}) GROUP BY status`,
+		organizationIds
+	);
+	return Object.fromEntries(rows.map((row) => [row.status, row.count]));
+}
+
+function setTaskClosedFlags(db, organizationIds, terminalStatuses)
+{
+	if (!Array.isArray(organizationIds) || organizationIds.length === 0) return Promise.resolve();
+	const closed = terminalStatuses.length > 0 ? `status IN (${terminalStatuses.map(() => '?').join(', ')})` : '0';
+	return run(
+		db,
+		`UPDATE ${TABLES.TASKS} SET closed = ${closed} WHERE organization_id IN (${organizationIds.map(() => '?').join(', ')})`,
+		[...terminalStatuses, ...organizationIds]
+	);
+}
+
+const ATTACHMENT_COLUMNS = `a.id, a.task_id AS taskId, a.filename, a.mime_type AS mimeType, a.size, a.content_hash AS contentHash,
+  a.thumbnail_hash AS thumbnailHash, a.thumbnail_type AS thumbnailType, a.uploaded_by AS uploadedBy, uploader.name AS uploadedByName, a.created_at AS createdAt`;
+const ATTACHMENT_FROM = `${TABLES.TASK_ATTACHMENTS} a
+  LEFT JOIN ${TABLES.USERS} uploader ON uploader.id = a.uploaded_by`;
+
+async function createTaskAttachment(db, { taskId, filename, mimeType, size, contentHash, uploadedBy })
+{
+	const id = uuidv4();
+	await run(
+		db,
+		`INSERT INTO ${TABLES.TASK_ATTACHMENTS} (id, task_id, filename, mime_type, size, content_hash, uploaded_by) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+		[id, taskId, filename, mimeType, size, contentHash, uploadedBy]
+	);
+	return get(db, `SELECT ${ATTACHMENT_COLUMNS} FROM ${ATTACHMENT_FROM} WHERE a.id = ?`, [id]);
+}
+
+// Blobs the task's attachments use, collected before the task is deleted so they can be released afterwards
+async function listAttachmentHashesForTask(db, taskId)
+{
+	const rows = await all(db, `SELECT content_hash, thumbnail_hash FROM ${TABLES.TASK_ATTACHMENTS} WHERE task_id = ?`, [taskId]);
+	return rows.flatMap((row) => [row.content_hash, row.thumbnail_hash]).filter(Boolean);
+}
+
+async function listAttachmentBlobHashes(db)
+{
+	const rows = await all(
+		db,
+		`SELECT content_hash AS hash FROM ${TABLES.TASK_ATTACHMENTS}
+     UNION SELECT thumbnail_hash FROM ${TABLES.TASK_ATTACHMENTS} WHERE thumbnail_hash IS NOT NULL`
+	);
+	return rows.map((row) => row.hash);
+}
+
+const POLICY_COLUMNS = `id, name, description, effect, actions, conditions, organization_id AS organizationId, enabled,
+  created_at AS createdAt, updated_at AS updatedAt`;
+
+function mapPolicy(row)
+{
+	if (!row) return null;
+	return {
+		...row,
+		actions: safeParse(row.actions) || [],
+		conditions: safeParse(row.conditions) || { all: [] },
+		enabled: row.enabled === 1
+	};
+}
+
+async function listPolicies(db)
+{
+	const rows = await all(db, `SELECT ${POLICY_COLUMNS} FROM ${TABLES.POLICIES} ORDER BY created_at ASC, name ASC`);
+	return rows.map(mapPolicy);
+}
+
+async function getPolicyById(db, id)
+{
+	return mapPolicy(await get(db, `SELECT ${POLICY_COLUMNS} FROM ${TABLES.POLICIES} WHERE id = ?`, [id]));
+}
+
+async function createPolicy(db, { name, description, effect, actions, conditions, organizationId, enabled })
+{
+	const id = uuidv4();
+	await run(
+		db,
+		`INSERT INTO ${TABLES.POLICIES} (id, name, description, effect, actions, conditions, organization_id, enabled) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+		[id, name, description || null, effect, JSON.stringify(actions), JSON.stringify(conditions), organizationId || null, enabled === false ? 0 : 1]
+	);
+	return getPolicyById(db, id);
+}
+
+async function updatePolicy(db, id, updates)
+{
+	const fields = [];
+	const params = [];
+	const columns = { name: 'name', description: 'description', effect: 'effect', organizationId: 'organization_id' };
+	Object.entries(columns).forEach(([key, column]) =>
+	{
+		if (updates[key] !== undefined)
+		{
+			fields.push(`${column} = ?`);
+			params.push(updates[key]);
+		}
+	});
+	['actions', 'conditions'].forEach((key) =>
+	{
+		if (updates[key] !== undefined)
+		{
+			fields.push(`${key} = ?`);
+			params.push(JSON.stringify(updates[key]));
+		}
+	});
+	if (updates.enabled !== undefined)
+	{
+		fields.push('enabled = ?');
+		params.push(updates.enabled ? 1 : 0);
+	}
+	if (fields.length > 0)
+	{
+		fields.push(`updated_at = strftime('%s','now')`);
+		await run(db, `UPDATE ${TABLES.POLICIES} SET ${fields.join(', ')} WHERE id = ?`, [...params, id]);
+	}
+	return getPolicyById(db, id);
 }
 
 function listUsersForOrganizations(db, orgIds)
@@ -579,10 +1457,14 @@ async function setCategoryRoleAccess(db, categoryId, roles)
 	});
 }
 
+// `role` may be a single role or an inheritance chain; access granted to any role in the chain counts
 function listAccessibleCategoriesForRole(db, orgIds, role)
 {
 	if (!Array.isArray(orgIds) || orgIds.length === 0) return Promise.resolve([]);
+	const roles = (Array.isArray(role) ? role : [role]).filter(Boolean);
+	if (roles.length === 0) return Promise.resolve([]);
 	const placeholders = orgIds.map(() => '?').join(',');
+	const rolePlaceholders = roles.map(() => '?').join(',');
 	// Revised logic:
 	// - System categories (is_system = 1) remain visible to any role that can view categories when no explicit access rows exist.
 	// - Non-system (custom) categories now require explicit category_role_access entries granting the role.
@@ -593,11 +1475,44 @@ function listAccessibleCategoriesForRole(db, orgIds, role)
                LEFT JOIN (
                   SELECT category_id, COUNT(*) AS cnt FROM category_role_access GROUP BY category_id
                ) counts ON counts.category_id = c.id
-               LEFT JOIN category_role_access cra ON cra.category_id = c.id AND cra.role = ?
                WHERE c.organization_id IN (${placeholders})
-                 AND ( (counts.cnt IS NULL AND c.is_system = 1) OR cra.role IS NOT NULL )
+                 AND ( (counts.cnt IS NULL AND c.is_system = 1)
+                       OR EXISTS (SELECT 1 FROM category_role_access cra WHERE cra.category_id = c.id AND cra.role IN (${rolePlaceholders})) )
                ORDER BY c.name ASC`;
-	return all(db, sql, [role, ...orgIds]);
+	return all(db, sql, [...orgIds, ...roles]);
+}
+
+async function migrateTasksTable(db)
+{
+	const columns = await all(db, `PRAGMA table_info(${TABLES.TASKS})`);
+	const names = new Set(columns.map((c) => c.name));
+	if (!names.has('parent_task_id'))
+	{
+		await run(db, `ALTER TABLE ${TABLES.TASKS} ADD COLUMN parent_task_id TEXT REFERENCES ${TABLES.TASKS}(id) ON DELETE SET NULL`);
+	}
+	if (!names.has('recurrence'))
+	{
+		await run(db, `ALTER TABLE ${TABLES.TASKS} ADD COLUMN recurrence TEXT`);
+	}
+	if (!names.has('recurrence_series_id'))
+	{
+		await run(db, `ALTER TABLE ${TABLES.TASKS} ADD COLUMN recurrence_series_id TEXT`);
+	}
+	if (!names.has('closed'))
+	{
+		// Existing databases have no workflows yet, so the default workflow decides
+		await run(db, `ALTER TABLE ${TABLES.TASKS} ADD COLUMN closed INTEGER NOT NULL DEFAULT 0`);
+		await run(db, `UPDATE ${TABLES.TASKS} SET closed = 1 WHERE status = 'done'`);
+	}
+	if (!names.has('rank'))
+	{
+		// Existing tasks keep the order their positions gave them
+		await run(db, `ALTER TABLE ${TABLES.TASKS} ADD COLUMN rank TEXT NOT NULL DEFAULT ''`);
+		await rebalanceTaskRanks(db);
+	}
+	await run(db, `CREATE INDEX IF NOT EXISTS idx_tasks_rank ON ${TABLES.TASKS} (rank)`);
+	await run(db, `CREATE INDEX IF NOT EXISTS idx_tasks_parent ON ${TABLES.TASKS} (parent_task_id)`);
+	await run(db, `CREATE INDEX IF NOT EXISTS idx_tasks_recurring ON ${TABLES.TASKS} (id) WHERE recurrence IS NOT NULL`);
 }
 
 async function migrateCategoriesTable(db)
@@ -648,6 +1563,104 @@ async function ensureSystemCategories(db, organizationId)
 	}
 }
 
+// --- Organization hierarchy helpers ---
+function listOrganizationSummaries(db)
+{
+	return all(
+		db,
+		`SELECT o.id,
+            o.name,
+            o.parent_id AS parentId,
+            o.created_at AS createdAt,
+            (SELECT COUNT(*) FROM ${TABLES.USERS} u WHERE u.organization_id = o.id) AS userCount,
+            (SELECT COUNT(*) FROM ${TABLES.TASKS} t WHERE t.organization_id = o.id) AS taskCount
+       FROM ${TABLES.ORGANIZATIONS} o
+      ORDER BY o.created_at ASC, o.name ASC`
+	);
+}
+
+async function createOrganization(db, { name, parentId = null })
+{
+	const trimmed = String(name || '').trim();
+	if (!trimmed) throw new Error('Organization name is required');
+	if (parentId)
+	{
+		const parent = await get(db, `SELECT id FROM ${TABLES.ORGANIZATIONS} WHERE id = ?`, [parentId]);
+		if (!parent) throw new Error('Parent organization not found');
+	}
+	const id = uuidv4();
+	await run(db, `INSERT INTO ${TABLES.ORGANIZATIONS} (id, name, parent_id) VALUES (?, ?, ?)`, [id, trimmed, parentId || null]);
+	await ensureSystemCategories(db, id);
+	return get(db, `SELECT * FROM ${TABLES.ORGANIZATIONS} WHERE id = ?`, [id]);
+}
+
+async function renameOrganization(db, id, name)
+{
+	const trimmed = String(name || '').trim();
+	if (!trimmed) throw new Error('Organization name is required');
+	const existing = await get(db, `SELECT id FROM ${TABLES.ORGANIZATIONS} WHERE id = ?`, [id]);
+	if (!existing) throw new Error('Organization not found');
+	await run(db, `UPDATE ${TABLES.ORGANIZATIONS} SET name = ? WHERE id = ?`, [trimmed, id]);
+	return get(db, `SELECT * FROM ${TABLES.ORGANIZATIONS} WHERE id = ?`, [id]);
+}
+
+function moveOrganization(db, id, parentId)
+{
+	return withTransaction(db, async () =>
+	{
+		const existing = await get(db, `SELECT id FROM ${TABLES.ORGANIZATIONS} WHERE id = ?`, [id]);
+		if (!existing) throw new Error('Organization not found');
+		if (parentId)
+		{
+			const parent = await get(db, `SELECT id FROM ${TABLES.ORGANIZATIONS} WHERE id = ?`, [parentId]);
+			if (!parent) throw new Error('Parent organization not found');
+			// The new parent must not be the organization itself or one of its descendants
+			const cycle = await get(
+				db,
+				`WITH RECURSIVE subtree(id) AS (
+           SELECT ?
+           UNION
+           SELECT o.id FROM ${TABLES.ORGANIZATIONS} o JOIN subtree s ON o.parent_id = s.id
+         )
+         SELECT 1 AS hit FROM subtree WHERE id = ?`,
+				[id, parentId]
+			);
+			if (cycle)
+			{
+				const err = new Error('Organization cannot be moved under itself or its descendants');
+				err.code = 'ORG_CYCLE';
+				throw err;
+			}
+		}
+		await run(db, `UPDATE ${TABLES.ORGANIZATIONS} SET parent_id = ? WHERE id = ?`, [parentId || null, id]);
+		return get(db, `SELECT * FROM ${TABLES.ORGANIZATIONS} WHERE id = ?`, [id]);
+	});
+}
+
+async function deleteOrganization(db, id)
+{
+	const existing = await get(db, `SELECT id FROM ${TABLES.ORGANIZATIONS} WHERE id = ?`, [id]);
+	if (!existing) throw new Error('Organization not found');
+	// Deleting cascades to users, tasks and categories; refuse unless the organization is empty
+	const usage = await get(
+		db,
+		`SELECT
+       (SELECT COUNT(*) FROM ${TABLES.ORGANIZATIONS} WHERE parent_id = ?) AS children,
+       (SELECT COUNT(*) FROM ${TABLES.USERS} WHERE organization_id = ?) AS users,
+       (SELECT COUNT(*) FROM ${TABLES.TASKS} WHERE organization_id = ?) AS tasks`,
+		[id, id, id]
+	);
+	if (usage.children > 0 || usage.users > 0 || usage.tasks > 0)
+	{
+		const err = new Error('Organization is not empty');
+		err.code = 'ORG_NOT_EMPTY';
+		err.usage = usage;
+		throw err;
+	}
+	await run(db, `DELETE FROM ${TABLES.ORGANIZATIONS} WHERE id = ?`, [id]);
+	return true;
+}
+
 function listAllUsers(db)
 {
 	return all(
@@ -709,13 +1722,53 @@ function listAuditEvents(db, orgIds, limit = 100)
 	);
 }
 
-function getMaxTaskPosition(db, organizationId)
+// Every audit entry about one entity, oldest first
+function listAuditEventsForEntity(db, entity, entityId)
+{
+	return all(
+		db,
+		`SELECT audit.*, users.name AS actorName
+     FROM ${TABLES.AUDIT_LOG} audit
+     LEFT JOIN ${TABLES.USERS} users ON users.id = audit.actor_id
+     WHERE audit.entity = ? AND audit.entity_id = ?
+     ORDER BY audit.created_at ASC, audit.rowid ASC`,
+		[entity, String(entityId)]
+	).then((rows) =>
+		rows.map((row) => ({
+			...row,
+			before: row.before ? safeParse(row.before) : null,
+			after: row.after ? safeParse(row.after) : null,
+			metadata: row.metadata ? safeParse(row.metadata) : null
+		}))
+	);
+}
+
+// Bulk task updates that changed the task, oldest first, each narrowed to that task: before and after hold its
+// changed fields and metadata its own notes plus the operation and how many tasks it changed
+function listBulkTaskAuditEvents(db, taskId)
 {
-	return get(
+	return all(
 		db,
-		`SELECT MAX(position) AS maxPosition FROM ${TABLES.TASKS} WHERE organization_id = ?`,
-		[organizationId]
-	).then((row) => (row && row.maxPosition != null ? row.maxPosition : 0));
+		`SELECT audit.*, users.name AS actorName
+     FROM ${TABLES.AUDIT_LOG} audit
+     LEFT JOIN ${TABLES.USERS} users ON users.id = audit.actor_id
+     WHERE audit.entity = 'task' AND audit.action = 'task.bulk_updated'
+       AND EXISTS (SELECT 1 FROM json_each(audit.metadata, '$.tasks') item WHERE json_extract(item.value, '$.id') = ?)
+     ORDER BY audit.created_at ASC, audit.rowid ASC`,
+		[taskId]
+	).then((rows) =>
+		rows.map((row) =>
+		{
+			const metadata = safeParse(row.metadata) || {};
+			const item = (metadata.tasks || []).find((t) => t.id === taskId) || {};
+			return {
+				...row,
+				before: item.before || null,
+				after: item.after || null,
+				metadata: { ...(item.metadata || {}), operation: metadata.operation, taskCount: (metadata.tasks || []).length }
+			};
+		})
+	);
 }
 
 async function upsertUser(db, user)
@@ -741,6 +1794,7 @@ async function upsertUser(db, user)
 	if (!role) throw new Error('role required');
 	if (!finalPasswordHash) throw new Error('password or passwordHash required');
 
+	const previous = await get(db, `SELECT role, organization_id FROM ${TABLES.USERS} WHERE id = ?`, [id]);
 	await run(
 		db,
 		`INSERT INTO ${TABLES.USERS} (id, organization_id, email, password_hash, name, role, is_active)
@@ -755,9 +1809,81 @@ async function upsertUser(db, user)
 		[id, organizationId, email, finalPasswordHash, name, role, isActive]
 	);
 
+	// Keep the primary role assignment in step with users.role / users.organization_id
+	if (previous && (previous.role !== role || previous.organization_id !== organizationId))
+	{
+		await run(db, `DELETE FROM ${TABLES.USER_ROLE_ASSIGNMENTS} WHERE user_id = ? AND role = ? AND organization_id = ?`, [id, previous.role, previous.organization_id]);
+	}
+	await run(
+		db,
+		`INSERT OR IGNORE INTO ${TABLES.USER_ROLE_ASSIGNMENTS} (id, user_id, role, organization_id) VALUES (?, ?, ?, ?)`,
+		[uuidv4(), id, role, organizationId]
+	);
+
 	return get(db, `SELECT * FROM ${TABLES.USERS} WHERE id = ?`, [id]);
 }
 
+// Users are referenced by task ACL rows without a foreign key (principal_id also holds role names)
+async function deleteUser(db, id)
+{
+	await withTransaction(db, async () =>
+	{
+		await run(db, `DELETE FROM ${TABLES.TASK_ACL} WHERE principal_type = 'user' AND principal_id = ?`, [id]);
+		await run(db, `DELETE FROM ${TABLES.USERS} WHERE id = ?`, [id]);
+	});
+}
+
+const ASSIGNMENT_COLUMNS = 'id, user_id AS userId, role, organization_id AS organizationId, created_at AS createdAt';
+
+function listUserRoleAssignments(db, userId)
+{
+	return all(db, `SELECT ${ASSIGNMENT_COLUMNS} FROM ${TABLES.USER_ROLE_ASSIGNMENTS} WHERE user_id = ? ORDER BY created_at ASC, role ASC`, [userId]);
+}
+
+async function addUserRoleAssignment(db, { userId, role, organizationId })
+{
+	const roleName = String(role || '').trim().toLowerCase();
+	const existing = await get(
+		db,
+		`SELECT id FROM ${TABLES.USER_ROLE_ASSIGNMENTS} WHERE user_id = ? AND role = ? AND organization_id = ?`,
+		[userId, roleName, organizationId]
+	);
+	if (existing)
+	{
+		const err = new Error('User already holds this role in the organization');
+		err.code = 'ASSIGNMENT_EXISTS';
+		throw err;
+	}
+	const id = uuidv4();
+	await run(
+		db,
+		`INSERT INTO ${TABLES.USER_ROLE_ASSIGNMENTS} (id, user_id, role, organization_id) VALUES (?, ?, ?, ?)`,
+		[id, userId, roleName, organizationId]
+	);
+	return get(db, `SELECT ${ASSIGNMENT_COLUMNS} FROM ${TABLES.USER_ROLE_ASSIGNMENTS} WHERE id = ?`, [id]);
+}
+
+// The primary assignment mirrors users.role and can only change through the user record
+async function removeUserRoleAssignment(db, id)
+{
+	const assignment = await get(
+		db,
+		`SELECT a.id, a.role, a.organization_id AS organizationId, u.role AS primaryRole, u.organization_id AS primaryOrganizationId
+     FROM ${TABLES.USER_ROLE_ASSIGNMENTS} a JOIN ${TABLES.USERS} u ON u.id = a.user_id
+     WHERE a.id = ?`,
+		[id]
+	);
+	if (!assignment) return false;
+	if (assignment.role === assignment.primaryRole && assignment.organizationId === assignment.primaryOrganizationId)
+	{
+		const err = new Error('The primary role is changed on the user, not removed');
+		err.code = 'ASSIGNMENT_PRIMARY';
+		throw err;
+	}
+	await run(db, `DELETE FROM ${TABLES.USER_ROLE_ASSIGNMENTS} WHERE id = ?`, [id]);
+	return true;
+}
+
 function safeParse(value)
 {
 	try
@@ -913,6 +2039,13 @@ async function migrateRoleSupport(db)
 			await run(db, `ALTER TABLE role_permissions_new RENAME TO ${TABLES.ROLE_PERMISSIONS}`);
 		});
 	}
+
+	// Custom role inheritance (roles.parent_role)
+	const roleColumns = await all(db, `PRAGMA table_info(roles)`);
+	if (!roleColumns.some((c) => c.name === 'parent_role'))
+	{
+		await run(db, `ALTER TABLE roles ADD COLUMN parent_role TEXT`);
+	}
 }
 
 async function ensureSystemRoles(db)
@@ -933,27 +2066,53 @@ async function ensureSystemRoles(db)
 	}
 }
 
+const ROLE_COLUMNS = 'id, name, description, is_system AS isSystem, parent_role AS parentRole, created_at AS createdAt';
+
 function listRoles(db)
 {
-	return all(db, `SELECT id, name, description, is_system AS isSystem, created_at AS createdAt FROM roles ORDER BY is_system DESC, name ASC`);
+	return all(db, `SELECT ${ROLE_COLUMNS} FROM roles ORDER BY is_system DESC, name ASC`);
 }
 
 function getRoleByName(db, name)
 {
-	return get(db, `SELECT id, name, description, is_system AS isSystem, created_at AS createdAt FROM roles WHERE LOWER(name) = LOWER(?)`, [name]);
+	return get(db, `SELECT ${ROLE_COLUMNS} FROM roles WHERE LOWER(name) = LOWER(?)`, [name]);
+}
+
+// Validates a proposed parent for `roleName`: it must exist, can't be owner (owners bypass every check)
+// and can't create a loop. System roles chain implicitly (admin -> viewer) and never point back at custom roles.
+async function assertValidParentRole(db, roleName, parentRole)
+{
+	const parent = await getRoleByName(db, parentRole);
+	if (!parent) throw new Error('Parent role not found');
+	if (parent.name === ROLES.OWNER) throw new Error('Roles cannot extend owner');
+	let current = parent;
+	const seen = new Set();
+	while (current && !seen.has(current.name))
+	{
+		if (current.name === roleName)
+		{
+			const err = new Error('Role inheritance would create a cycle');
+			err.code = 'ROLE_CYCLE';
+			throw err;
+		}
+		seen.add(current.name);
+		current = current.parentRole ? await getRoleByName(db, current.parentRole) : null;
+	}
+	return parent.name;
 }
 
-async function createRole(db, { name, description })
+async function createRole(db, { name, description, parentRole })
 {
 	const roleName = String(name || '').trim().toLowerCase();
 	if (!roleName) throw new Error('Role name is required');
 	if ([ROLES.OWNER, ROLES.ADMIN, ROLES.VIEWER].includes(roleName)) throw new Error('Cannot create system role');
+	const parent = parentRole ? await assertValidParentRole(db, roleName, parentRole) : null;
 	const id = uuidv4();
-	await run(db, `INSERT INTO roles (id, name, description, is_system) VALUES (?, ?, ?, 0)`, [id, roleName, description || null]);
-	return get(db, `SELECT id, name, description, is_system AS isSystem, created_at AS createdAt FROM roles WHERE id = ?`, [id]);
+	await run(db, `INSERT INTO roles (id, name, description, is_system, parent_role) VALUES (?, ?, ?, 0, ?)`, [id, roleName, description || null, parent]);
+	return get(db, `SELECT ${ROLE_COLUMNS} FROM roles WHERE id = ?`, [id]);
 }
 
-async function updateRole(db, oldName, { name, description })
+async function updateRole(db, oldName, { name, description, parentRole })
 {
 	const existing = await getRoleByName(db, oldName);
 	if (!existing) throw new Error('Role not found');
@@ -961,12 +2120,21 @@ async function updateRole(db, oldName, { name, description })
 	const updates = { name: name != null ? String(name).trim().toLowerCase() : null, description };
 	return withTransaction(db, async () =>
 	{
+		if (parentRole !== undefined)
+		{
+			const parent = parentRole ? await assertValidParentRole(db, existing.name, parentRole) : null;
+			await run(db, `UPDATE roles SET parent_role = ? WHERE id = ?`, [parent, existing.id]);
+		}
 		if (updates.name && updates.name !== existing.name)
 		{
-			// Update role name everywhere: roles table, users, role_permissions
+			// Update role name everywhere: roles table, users, role_permissions, child roles
 			await run(db, `UPDATE roles SET name = ? WHERE id = ?`, [updates.name, existing.id]);
 			await run(db, `UPDATE ${TABLES.USERS} SET role = ? WHERE role = ?`, [updates.name, existing.name]);
+			await run(db, `UPDATE ${TABLES.USER_ROLE_ASSIGNMENTS} SET role = ? WHERE role = ?`, [updates.name, existing.name]);
+			await run(db, `UPDATE ${TABLES.TASK_ACL} SET principal_id = ? WHERE principal_type = 'role' AND principal_id = ?`, [updates.name, existing.name]);
 			await run(db, `UPDATE ${TABLES.ROLE_PERMISSIONS} SET role = ? WHERE role = ?`, [updates.name, existing.name]);
+			await run(db, `UPDATE ${TABLES.ROLE_PERMISSION_GRANTS} SET role = ? WHERE role = ?`, [updates.name, existing.name]);
+			await run(db, `UPDATE roles SET parent_role = ? WHERE parent_role = ?`, [updates.name, existing.name]);
 		}
 		if (description !== undefined)
 		{
@@ -981,16 +2149,25 @@ async function deleteRole(db, name)
 	const existing = await getRoleByName(db, name);
 	if (!existing) throw new Error('Role not found');
 	if (existing.isSystem) throw new Error('Cannot delete system role');
-	const usage = await get(db, `SELECT COUNT(*) AS cnt FROM ${TABLES.USERS} WHERE role = ?`, [existing.name]);
+	const usage = await get(db, `SELECT COUNT(*) AS cnt FROM ${TABLES.USER_ROLE_ASSIGNMENTS} WHERE role = ?`, [existing.name]);
 	if (usage && usage.cnt > 0)
 	{
 		const err = new Error('Role is in use by users');
 		err.code = 'ROLE_IN_USE';
 		throw err;
 	}
+	const children = await get(db, `SELECT COUNT(*) AS cnt FROM roles WHERE parent_role = ?`, [existing.name]);
+	if (children && children.cnt > 0)
+	{
+		const err = new Error('Role is extended by other roles');
+		err.code = 'ROLE_HAS_CHILDREN';
+		throw err;
+	}
 	await withTransaction(db, async () =>
 	{
 		await run(db, `DELETE FROM ${TABLES.ROLE_PERMISSIONS} WHERE role = ?`, [existing.name]);
+		await run(db, `DELETE FROM ${TABLES.ROLE_PERMISSION_GRANTS} WHERE role = ?`, [existing.name]);
+		await run(db, `DELETE FROM ${TABLES.TASK_ACL} WHERE principal_type = 'role' AND principal_id = ?`, [existing.name]);
 		await run(db, `DELETE FROM roles WHERE id = ?`, [existing.id]);
 	});
 	return true;
@@ -1068,43 +2245,101 @@ function getWelcomeState(db, userId)
 }
 
 // --- Role permission helpers ---
+// Organization-specific rows take precedence; the global row (organization_id NULL) is the fallback.
+// At each level a timed grant inside its starts_at / expires_at window wins over the permanent row; grants outside
+// their window don't count, so expiry is enforced here, at check time.
+const ACTIVE_WINDOW = `(starts_at IS NULL OR starts_at <= strftime('%s','now'))
+                 AND (expires_at IS NULL OR expires_at > strftime('%s','now'))`;
+const DECIDING_ROWS = `(SELECT organization_id, role, permission, enabled, 0 AS timed FROM ${TABLES.ROLE_PERMISSIONS}
+               UNION ALL
+               SELECT organization_id, role, permission, enabled, 1 AS timed FROM ${TABLES.ROLE_PERMISSION_GRANTS} WHERE ${ACTIVE_WINDOW})`;
+
 function hasRolePermission(db, { organizationId = null, role, permission })
 {
-	const params = [organizationId, role, permission];
-	const sql = `SELECT enabled FROM ${TABLES.ROLE_PERMISSIONS}
+	return getRolePermissionRow(db, { organizationId, role, permission }).then((row) => Boolean(row && row.enabled));
+}
+
+// Same precedence as hasRolePermission, but returns the deciding row (or null when none exists)
+function getRolePermissionRow(db, { organizationId = null, role, permission })
+{
+	const sql = `SELECT organization_id AS organizationId, enabled FROM ${DECIDING_ROWS}
                WHERE (organization_id IS NULL OR organization_id = ?)
                  AND role = ? AND permission = ?
-               ORDER BY organization_id IS NULL DESC LIMIT 1`;
-	return get(db, sql, params).then((row) => Boolean(row && row.enabled === 1));
+               ORDER BY organization_id IS NULL ASC, timed DESC LIMIT 1`;
+	return get(db, sql, [organizationId, role, permission]).then((row) => (row ? { organizationId: row.organizationId, enabled: row.enabled === 1 } : null));
 }
 
-function setRolePermission(db, { organizationId = null, role, permission, enabled })
+// startsAt / expiresAt (unix seconds, optional) make it a timed grant; setting a grant again replaces its window.
+// Without them the permanent row is set, and any grant for the same key is left to run its course.
+function setRolePermission(db, { organizationId = null, role, permission, enabled, startsAt = null, expiresAt = null })
 {
 	const id = uuidv4();
+	const timed = startsAt != null || expiresAt != null;
+	const table = timed ? TABLES.ROLE_PERMISSION_GRANTS : TABLES.ROLE_PERMISSIONS;
 	return withTransaction(db, async () =>
 	{
 		// Upsert by unique key; prefer NULL organization_id as global setting if org not provided
 		const whereOrg = organizationId == null ? 'organization_id IS NULL' : 'organization_id = ?';
-		const existing = await get(
-			db,
-			`SELECT id FROM ${TABLES.ROLE_PERMISSIONS} WHERE ${whereOrg} AND role = ? AND permission = ?`,
-			organizationId == null ? [role, permission] : [organizationId, role, permission]
-		);
+		const keyParams = organizationId == null ? [role, permission] : [organizationId, role, permission];
+		const existing = await get(db, `SELECT id FROM ${table} WHERE ${whereOrg} AND role = ? AND permission = ?`, keyParams);
 		if (existing)
 		{
-			await run(db, `UPDATE ${TABLES.ROLE_PERMISSIONS} SET enabled = ? WHERE id = ?`, [enabled ? 1 : 0, existing.id]);
+			// UNIQUE does not collapse NULL organization ids, so older databases may hold duplicate global rows
+			if (timed)
+			{
+				await run(
+					db,
+					`UPDATE ${table} SET enabled = ?, starts_at = ?, expires_at = ?, expiry_audited_at = NULL
+           WHERE ${whereOrg} AND role = ? AND permission = ?`,
+					[enabled ? 1 : 0, startsAt, expiresAt, ...keyParams]
+				);
+			}
+			else
+			{
+				await run(db, `UPDATE ${table} SET enabled = ? WHERE ${whereOrg} AND role = ? AND permission = ?`, [enabled ? 1 : 0, ...keyParams]);
+			}
 			return existing.id;
 		}
-		await run(
-			db,
-			`INSERT INTO ${TABLES.ROLE_PERMISSIONS} (id, organization_id, role, permission, enabled)
-       VALUES (?, ?, ?, ?, ?)`,
-			[id, organizationId, role, permission, enabled ? 1 : 0]
-		);
+		if (timed)
+		{
+			await run(
+				db,
+				`INSERT INTO ${table} (id, organization_id, role, permission, enabled, starts_at, expires_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+				[id, organizationId, role, permission, enabled ? 1 : 0, startsAt, expiresAt]
+			);
+		}
+		else
+		{
+			await run(
+				db,
+				`INSERT INTO ${table} (id, organization_id, role, permission, enabled) VALUES (?, ?, ?, ?, ?)`,
+				[id, organizationId, role, permission, enabled ? 1 : 0]
+			);
+		}
 		return id;
 	});
 }
 
+// Removes the permanent row and the timed grant for a key; timed: false / true limits it to one of them
+function clearRolePermission(db, { organizationId = null, role, permission, timed = null })
+{
+	const whereOrg = organizationId == null ? 'organization_id IS NULL' : 'organization_id = ?';
+	const params = organizationId == null ? [role, permission] : [organizationId, role, permission];
+	const tables = timed === null ? [TABLES.ROLE_PERMISSIONS, TABLES.ROLE_PERMISSION_GRANTS] : [timed ? TABLES.ROLE_PERMISSION_GRANTS : TABLES.ROLE_PERMISSIONS];
+	return withTransaction(db, async () =>
+	{
+		let removed = 0;
+		for (const table of tables)
+		{
+			removed += (await run(db, `DELETE FROM ${table} WHERE ${whereOrg} AND role = ? AND permission = ?`, params)).changes;
+		}
+		return removed > 0;
+	});
+}
+
+// Permanent rows (startsAt / expiresAt null) and timed grants whatever their status; a grant comes before the
+// permanent row for the same key
 function listRolePermissions(db, { organizationId = null } = {})
 {
 	const params = [];
@@ -1116,8 +2351,223 @@ function listRolePermissions(db, { organizationId = null } = {})
 	}
 	return all(
 		db,
-		`SELECT organization_id AS organizationId, role, permission, enabled FROM ${TABLES.ROLE_PERMISSIONS} ${where}`,
-		params
+		`SELECT organizationId, role, permission, enabled, startsAt, expiresAt FROM (
+       SELECT organization_id AS organizationId, role, permission, enabled, NULL AS startsAt, NULL AS expiresAt, 0 AS timed
+       FROM ${TABLES.ROLE_PERMISSIONS} ${where}
+       UNION ALL
+       SELECT organization_id AS organizationId, role, permission, enabled, starts_at AS startsAt, expires_at AS expiresAt, 1 AS timed
+       FROM ${TABLES.ROLE_PERMISSION_GRANTS} ${where}
+     ) ORDER BY timed DESC`,
+		[...params, ...params]
+	);
+}
+
+// Timed grants, newest first
+function listTimedRolePermissions(db)
+{
+	return all(
+		db,
+		`SELECT id, organization_id AS organizationId, role, permission, enabled, starts_at AS startsAt, expires_at AS expiresAt, created_at AS createdAt
+     FROM ${TABLES.ROLE_PERMISSION_GRANTS}
+     ORDER BY created_at DESC`
+	);
+}
+
+const DELEGATION_COLUMNS = `d.id, d.delegator_id AS delegatorId, dr.name AS delegatorName, d.delegate_id AS delegateId, de.name AS delegateName,
+  d.organization_id AS organizationId, d.permissions, d.reason, d.starts_at AS startsAt, d.expires_at AS expiresAt,
+  d.revoked_at AS revokedAt, d.revoked_by AS revokedBy, d.created_at AS createdAt`;
+const DELEGATION_FROM = `${TABLES.PERMISSION_DELEGATIONS} d
+  JOIN ${TABLES.USERS} dr ON dr.id = d.delegator_id
+  JOIN ${TABLES.USERS} de ON de.id = d.delegate_id`;
+
+function mapDelegation(row)
+{
+	return row ? { ...row, permissions: safeParse(row.permissions) || [] } : null;
+}
+
+async function createDelegation(db, { delegatorId, delegateId, organizationId, permissions, reason, startsAt, expiresAt })
+{
+	const id = uuidv4();
+	await run(
+		db,
+		`INSERT INTO ${TABLES.PERMISSION_DELEGATIONS} (id, delegator_id, delegate_id, organization_id, permissions, reason, starts_at, expires_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+		[id, delegatorId, delegateId, organizationId, JSON.stringify(permissions), reason || null, startsAt, expiresAt]
+	);
+	return getDelegationById(db, id);
+}
+
+async function getDelegationById(db, id)
+{
+	return mapDelegation(await get(db, `SELECT ${DELEGATION_COLUMNS} FROM ${DELEGATION_FROM} WHERE d.id = ?`, [id]));
+}
+
+// All delegations, or those a user gave or received
+async function listDelegations(db, { userId } = {})
+{
+	const where = userId ? 'WHERE d.delegator_id = ? OR d.delegate_id = ?' : '';
+	const rows = await all(db, `SELECT ${DELEGATION_COLUMNS} FROM ${DELEGATION_FROM} ${where} ORDER BY d.created_at DESC`, userId ? [userId, userId] : []);
+	return rows.map(mapDelegation);
+}
+
+// Delegations a user may use right now: inside the window, not revoked, from a delegator who is still active
+async function listActiveDelegationsForUser(db, userId)
+{
+	const rows = await all(
+		db,
+		`SELECT ${DELEGATION_COLUMNS} FROM ${DELEGATION_FROM}
+     WHERE d.delegate_id = ? AND d.revoked_at IS NULL AND dr.is_active = 1
+       AND d.starts_at <= strftime('%s','now') AND d.expires_at > strftime('%s','now')`,
+		[userId]
+	);
+	return rows.map(mapDelegation);
+}
+
+async function revokeDelegation(db, id, revokedBy)
+{
+	await run(
+		db,
+		`UPDATE ${TABLES.PERMISSION_DELEGATIONS} SET revoked_at = strftime('%s','now'), revoked_by = ? WHERE id = ? AND revoked_at IS NULL`,
+		[revokedBy, id]
+	);
+	return getDelegationById(db, id);
+}
+
+// Grants that have run out and haven't been recorded in the audit log yet
+async function listLapsedGrants(db)
+{
+	const rolePermissions = await all(
+		db,
+		`SELECT id, organization_id AS organizationId, role, permission, enabled, starts_at AS startsAt, expires_at AS expiresAt
+     FROM ${TABLES.ROLE_PERMISSION_GRANTS}
+     WHERE expires_at IS NOT NULL AND expires_at <= strftime('%s','now') AND expiry_audited_at IS NULL`
+	);
+	const delegations = (await all(
+		db,
+		`SELECT ${DELEGATION_COLUMNS} FROM ${DELEGATION_FROM}
+     WHERE d.revoked_at IS NULL AND d.expires_at <= strftime('%s','now') AND d.expiry_audited_at IS NULL`
+	)).map(mapDelegation);
+	return { rolePermissions, delegations };
+}
+
+function markGrantExpiryAudited(db, kind, id)
+{
+	const table = kind === 'delegation' ? TABLES.PERMISSION_DELEGATIONS : TABLES.ROLE_PERMISSION_GRANTS;
+	return run(db, `UPDATE ${table} SET expiry_audited_at = strftime('%s','now') WHERE id = ?`, [id]);
+}
+
+const OVERRIDE_COLUMNS = `o.id, o.user_id AS userId, o.organization_id AS organizationId, org.name AS organizationName,
+  o.permission, o.effect, o.reason, o.created_by AS createdBy, cb.name AS createdByName, o.created_at AS createdAt`;
+const OVERRIDE_FROM = `${TABLES.USER_PERMISSION_OVERRIDES} o
+  LEFT JOIN ${TABLES.ORGANIZATIONS} org ON org.id = o.organization_id
+  LEFT JOIN ${TABLES.USERS} cb ON cb.id = o.created_by`;
+
+function listUserPermissionOverrides(db, userId)
+{
+	return all(db, `SELECT ${OVERRIDE_COLUMNS} FROM ${OVERRIDE_FROM} WHERE o.user_id = ? ORDER BY o.permission ASC, o.organization_id ASC`, [userId]);
+}
+
+function listPermissionOverrides(db)
+{
+	return all(db, `SELECT ${OVERRIDE_COLUMNS} FROM ${OVERRIDE_FROM} ORDER BY o.user_id ASC, o.permission ASC`);
+}
+
+function getPermissionOverrideById(db, id)
+{
+	return get(db, `SELECT ${OVERRIDE_COLUMNS} FROM ${OVERRIDE_FROM} WHERE o.id = ?`, [id]);
+}
+
+// One override per user, permission and organization; setting it again replaces the effect and reason
+async function setUserPermissionOverride(db, { userId, organizationId = null, permission, effect, reason = null, createdBy = null })
+{
+	const whereOrg = organizationId == null ? 'organization_id IS NULL' : 'organization_id = ?';
+	const existing = await get(
+		db,
+		`SELECT id FROM ${TABLES.USER_PERMISSION_OVERRIDES} WHERE user_id = ? AND ${whereOrg} AND permission = ?`,
+		organizationId == null ? [userId, permission] : [userId, organizationId, permission]
+	);
+	const id = existing ? existing.id : uuidv4();
+	if (existing)
+	{
+		await run(
+			db,
+			`UPDATE ${TABLES.USER_PERMISSION_OVERRIDES} SET effect = ?, reason = ?, created_by = ?, created_at = strftime('%s','now') WHERE id = ?`,
+			[effect, reason, createdBy, id]
+		);
+	}
+	else
+	{
+		await run(
+			db,
+			`INSERT INTO ${TABLES.USER_PERMISSION_OVERRIDES} (id, user_id, organization_id, permission, effect, reason, created_by) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+			[id, userId, organizationId, permission, effect, reason, createdBy]
+		);
+	}
+	return getPermissionOverrideById(db, id);
+}
+
+function removePermissionOverride(db, id)
+{
+	return run(db, `DELETE FROM ${TABLES.USER_PERMISSION_OVERRIDES} WHERE id = ?`, [id]).then((result) => result.changes > 0);
+}
+
+const CHANGE_REQUEST_COLUMNS = `c.id, c.action, c.payload, c.summary, c.organization_id AS organizationId,
+  c.requested_by AS requestedBy, rq.name AS requestedByName, c.status, c.decided_by AS decidedBy, dc.name AS decidedByName,
+  c.decision_note AS decisionNote, c.decided_at AS decidedAt, c.created_at AS createdAt`;
+const CHANGE_REQUEST_FROM = `${TABLES.CHANGE_REQUESTS} c
+  LEFT JOIN ${TABLES.USERS} rq ON rq.id = c.requested_by
+  LEFT JOIN ${TABLES.USERS} dc ON dc.id = c.decided_by`;
+
+function mapChangeRequest(row)
+{
+	return row ? { ...row, payload: safeParse(row.payload) || {} } : null;
+}
+
+async function createChangeRequest(db, { action, payload, summary, organizationId = null, requestedBy })
+{
+	const id = uuidv4();
+	await run(
+		db,
+		`INSERT INTO ${TABLES.CHANGE_REQUESTS} (id, action, payload, summary, organization_id, requested_by) VALUES (?, ?, ?, ?, ?, ?)`,
+		[id, action, JSON.stringify(payload || {}), summary, organizationId, requestedBy]
+	);
+	return getChangeRequestById(db, id);
+}
+
+async function getChangeRequestById(db, id)
+{
+	return mapChangeRequest(await get(db, `SELECT ${CHANGE_REQUEST_COLUMNS} FROM ${CHANGE_REQUEST_FROM} WHERE c.id = ?`, [id]));
+}
+
+// Newest first; status narrows to pending/approved/...
+async function listChangeRequests(db, { status, limit = 100 } = {})
+{
+	const where = status ? 'WHERE c.status = ?' : '';
+	const params = status ? [status, limit] : [limit];
+	const rows = await all(db, `SELECT ${CHANGE_REQUEST_COLUMNS} FROM ${CHANGE_REQUEST_FROM} ${where} ORDER BY c.created_at DESC LIMIT ?`, params);
+	return rows.map(mapChangeRequest);
+}
+
+// Moves a pending request to its final status. Returns false when it was no longer pending, so two reviewers
+// deciding at once can't both apply it.
+async function decideChangeRequest(db, id, { status, decidedBy, note = null })
+{
+	const result = await run(
+		db,
+		`UPDATE ${TABLES.CHANGE_REQUESTS} SET status = ?, decided_by = ?, decision_note = ?, decided_at = strftime('%s','now')
+     WHERE id = ? AND status = 'pending'`,
+		[status, decidedBy, note, id]
+	);
+	return result.changes > 0;
+}
+
+// Back to pending after an approval that could not be applied
+function reopenChangeRequest(db, id)
+{
+	return run(
+		db,
+		`UPDATE ${TABLES.CHANGE_REQUESTS} SET status = 'pending', decided_by = NULL, decision_note = NULL, decided_at = NULL WHERE id = ?`,
+		[id]
 	);
 }
 
@@ -1136,6 +2586,7 @@ module.exports = {
 	DEFAULT_DB_FILE,
 	TABLES,
 	ROLES,
+	TASK_SORTS,
 	run,
 	get,
 	all,
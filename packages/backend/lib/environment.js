@@ -13,7 +13,29 @@ function loadPublicEnv(env = process.env, prefix = DEFAULT_PUBLIC_PREFIX)
 	return result;
 }
 
+// Minimal .env parser: KEY=value lines, # comments, optional surrounding quotes
+function parseDotEnv(text)
+{
+	const out = {};
+	const lines = String(text || '').split(/\r?\n/);
+	for (const line of lines)
+	{
+		if (!line || /^\s*#/.test(line)) continue;
+		const idx = line.indexOf('=');
+		if (idx === -1) continue;
+		const key = line.slice(0, idx).trim();
+		let value = line.slice(idx + 1);
+		if ((value.startsWith('"') && value.endsWith('"')) || (value.startsWith('\'') && value.endsWith('\'')))
+		{
+			value = value.slice(1, -1);
+		}
+		out[key] = value;
+	}
+	return out;
+}
+
 module.exports = {
 	DEFAULT_PUBLIC_PREFIX,
-	loadPublicEnv
+	loadPublicEnv,
+	parseDotEnv
 };
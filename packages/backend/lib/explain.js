@@ -0,0 +1,239 @@
+const { ROLES } = require('./database');
+const { createPermissionResolver, delegationCovers, explainRolePermission, listAccessibleCategories, matchUserOverride, resolveRoleGrants, taskAccessorFor } = require('./rbac');
+const { buildPolicyContext, decideWithPolicies, policiesFor } = require('./policies');
+
+// Row lookup over the current role permission rows with proposed changes applied in memory.
+// Each change is { role, permission, organizationId, enabled } where enabled === null removes the row and any
+// timed grant for the key; other changes set the permanent row, which an active grant still outranks.
+async function createSimulatedLookup(dbApi, changes)
+{
+	const now = Math.floor(Date.now() / 1000);
+	// Grants outside their time window don't apply, same as at check time. Grants are listed first, so they are
+	// found before the permanent row for the same key.
+	const rows = (await dbApi.listRolePermissions()).filter((r) =>
+		(r.startsAt == null || r.startsAt <= now) && (r.expiresAt == null || r.expiresAt > now)).map((r) => ({
+		organizationId: r.organizationId || null,
+		role: r.role,
+		permission: r.permission,
+		enabled: r.enabled === 1,
+		timed: r.startsAt != null || r.expiresAt != null
+	}));
+	const matches = (row, organizationId, role, permission) =>
+		row.organizationId === organizationId && row.role === role && row.permission === permission;
+	let simulated = rows;
+	for (const change of changes)
+	{
+		const organizationId = change.organizationId || null;
+		simulated = simulated.filter((row) => !matches(row, organizationId, change.role, change.permission) || (row.timed && change.enabled !== null));
+		if (change.enabled !== null)
+		{
+			simulated.push({ organizationId, role: change.role, permission: change.permission, enabled: Boolean(change.enabled) });
+		}
+	}
+	return async ({ organizationId, role, permission }) =>
+	{
+		const orgRow = organizationId ? simulated.find((row) => matches(row, organizationId, role, permission)) : null;
+		return orgRow || simulated.find((row) => matches(row, null, role, permission)) || null;
+	};
+}
+
+async function loadResource(dbApi, resource)
+{
+	if (!resource || !resource.type) return null;
+	const notFound = () =>
+	{
+		const err = new Error(`${resource.type} not found`);
+		err.code = 'RESOURCE_NOT_FOUND';
+		return err;
+	};
+	if (resource.type === 'task')
+	{
+		const task = await dbApi.getTaskById(resource.id);
+		if (!task) throw notFound();
+		return { type: 'task', id: task.id, organizationId: task.organizationId, record: task };
+	}
+	if (resource.type === 'category')
+	{
+		const category = await dbApi.getCategoryById(resource.id);
+		if (!category) throw notFound();
+		return { type: 'category', id: category.id, organizationId: category.organizationId, record: category };
+	}
+	if (resource.type === 'organization')
+	{
+		const organization = await dbApi.getOrganizationById(resource.id);
+		if (!organization) throw notFound();
+		return { type: 'organization', id: organization.id, organizationId: organization.id, record: organization };
+	}
+	const err = new Error(`Unsupported resource type: ${resource.type}`);
+	err.code = 'RESOURCE_INVALID';
+	throw err;
+}
+
+// Replays the checks the routes perform for `permission` on `resource` and returns the decision with a
+// step-by-step trace. subject is either { user } (a users row) or { role, organizationId }. A user is
+// evaluated through each of their role assignments that reaches the organization in question.
+async function explainAccess(dbApi, { subject, permission, resource, lookup })
+{
+	const user = subject.user || null;
+	const homeOrgId = user ? user.organization_id : subject.organizationId;
+	const trace = [];
+	const decide = (allowed) => ({ allowed, trace });
+
+	if (user && user.is_active === 0)
+	{
+		trace.push({ step: 'subject', effect: 'deny', detail: 'User is inactive' });
+		return decide(false);
+	}
+	let assignments = user ? await dbApi.listUserRoleAssignments(user.id) : [];
+	if (assignments.length === 0)
+	{
+		assignments = [{ role: user ? user.role : subject.role, organizationId: homeOrgId }];
+	}
+	const organizations = await dbApi.listOrganizations();
+	const grants = await resolveRoleGrants(dbApi, assignments, organizations);
+	const held = grants.map((g) => `${g.role} in ${g.organizationId}`).join(', ');
+	trace.push({ step: 'subject', effect: 'skip', detail: user ? `${user.email} holds ${held}` : `Role ${held}` });
+
+	const target = await loadResource(dbApi, resource);
+	const organizationId = target ? target.organizationId : homeOrgId;
+	const applicable = grants.filter((g) => g.scope.has(organizationId));
+	if (target)
+	{
+		if (applicable.length === 0)
+		{
+			trace.push({ step: 'org-scope', effect: 'deny', detail: `Organization ${organizationId} is outside the subject's scope` });
+			return decide(false);
+		}
+		trace.push({ step: 'org-scope', effect: 'allow', detail: `Organization ${organizationId} is in scope` });
+	}
+
+	// A personal deny override refuses before any role is consulted; owners are exempt from overrides
+	const override = user && !applicable.some((g) => g.role === ROLES.OWNER)
+		? matchUserOverride(await dbApi.listUserPermissionOverrides(user.id), permission, organizationId)
+		: null;
+	const describeOverride = (o) => `${o.permission} ${o.organizationId ? `in ${o.organizationName || o.organizationId}` : 'in every organization'}${o.reason ? ` (${o.reason})` : ''}`;
+	if (override && override.effect === 'deny')
+	{
+		trace.push({ step: 'user-override', effect: 'deny', detail: `User override denies ${describeOverride(override)}` });
+		return decide(false);
+	}
+
+	// Any assignment allowing the permission is enough; the remaining checks use only the ones that do
+	let allowedGrants = [];
+	for (const grant of applicable)
+	{
+		if (applicable.length > 1)
+		{
+			trace.push({ step: 'assignment', effect: 'skip', detail: `Evaluating ${grant.role} assigned in ${grant.organizationId}` });
+		}
+		const rolePart = await explainRolePermission(dbApi, grant.role, permission, organizationId, { lookup, chain: grant.chain });
+		trace.push(...rolePart.trace);
+		if (rolePart.allowed) allowedGrants.push(grant);
+	}
+
+	if (override && allowedGrants.length === 0 && applicable.length > 0)
+	{
+		trace.push({ step: 'user-override', effect: 'allow', detail: `User override allows ${describeOverride(override)}` });
+		allowedGrants = applicable;
+	}
+
+	// A delegation only counts when no role allows the permission and its delegator still holds it
+	if (user && allowedGrants.length === 0 && applicable.length > 0)
+	{
+		const delegations = (await dbApi.listActiveDelegationsForUser(user.id))
+			.filter((d) => d.organizationId === organizationId && delegationCovers(d, permission));
+		const viaDelegation = delegations.length > 0
+			&& await createPermissionResolver({ dbApi, user, grants: [], delegations, organizations }).can(permission, { organizationId });
+		if (viaDelegation)
+		{
+			const names = delegations.map((d) => d.delegatorName).join(', ');
+			trace.push({ step: 'delegation', effect: 'allow', detail: `Delegated by ${names} until ${new Date(delegations[0].expiresAt * 1000).toISOString()}` });
+			allowedGrants = applicable;
+		}
+		else if (delegations.length > 0)
+		{
+			trace.push({ step: 'delegation', effect: 'skip', detail: 'Delegator no longer holds the permission' });
+		}
+	}
+
+	// Attribute-based policies for task changes, evaluated as if nothing in particular were being changed
+	const isOwner = grants.some((g) => g.role === ROLES.OWNER);
+	if (target && target.type === 'task' && ['tasks:update', 'tasks:delete'].includes(permission) && !isOwner)
+	{
+		const policies = policiesFor(await dbApi.listPolicies(), permission, organizationId);
+		if (policies.length > 0)
+		{
+			const roleAllowed = allowedGrants.length > 0;
+			const context = buildPolicyContext({ user, grants: applicable, resource: target.record });
+			const decision = decideWithPolicies({ roleAllowed, policies, context });
+			trace.push(...decision.trace);
+			if (!decision.allowed)
+			{
+				if (decision.policy) trace.push({ step: 'policy', effect: 'deny', detail: `Denied by policy ${decision.policy.name}` });
+				return decide(false);
+			}
+			if (!roleAllowed)
+			{
+				trace.push({ step: 'policy', effect: 'allow', detail: `Allowed by policy ${decision.policy.name} although no role grants ${permission}` });
+				allowedGrants = applicable;
+			}
+		}
+	}
+	if (allowedGrants.length === 0)
+	{
+		if (applicable.length === 0)
+		{
+			trace.push({ step: 'default', effect: 'deny', detail: `No role assignment reaches organization ${organizationId}` });
+		}
+		return decide(false);
+	}
+
+	if (target && target.type === 'task')
+	{
+		const task = target.record;
+		if (task.category === 'Personal' && (permission === 'tasks:view' || permission === 'tasks:update'))
+		{
+			if (!user || task.createdBy !== user.id)
+			{
+				trace.push({ step: 'personal-category', effect: 'deny', detail: 'Personal tasks are only available to their creator' });
+				return decide(false);
+			}
+			trace.push({ step: 'personal-category', effect: 'allow', detail: 'Subject created this Personal task' });
+		}
+		else if (permission === 'tasks:view' && !allowedGrants.some((g) => g.role === ROLES.OWNER))
+		{
+			const chains = allowedGrants.map((g) => g.chain.join(' -> ')).join('; ');
+			const categories = await listAccessibleCategories(dbApi, allowedGrants, [task.organizationId]);
+			if (!categories.some((c) => c.name === task.category))
+			{
+				trace.push({ step: 'category-access', effect: 'deny', detail: `No role in ${chains} has access to category ${task.category}` });
+				return decide(false);
+			}
+			trace.push({ step: 'category-access', effect: 'allow', detail: `${chains} may access category ${task.category}` });
+		}
+		if (['tasks:view', 'tasks:update', 'tasks:delete'].includes(permission))
+		{
+			const needed = permission === 'tasks:view' ? 'view' : 'edit';
+			const access = await dbApi.getTaskAccess(task.id, taskAccessorFor({ user, grants: allowedGrants }));
+			if (!task.isRestricted)
+			{
+				trace.push({ step: 'task-acl', effect: 'skip', detail: 'Task is not restricted by an access list' });
+			}
+			else if (access === 'edit' || (access === 'view' && needed === 'view'))
+			{
+				trace.push({ step: 'task-acl', effect: 'allow', detail: `Access list grants ${access}` });
+			}
+			else
+			{
+				trace.push({ step: 'task-acl', effect: 'deny', detail: access === 'view' ? 'Access list grants view only' : 'Subject is not on the task access list' });
+				return decide(false);
+			}
+		}
+	}
+	return decide(true);
+}
+
+module.exports = {
+	explainAccess,
+	createSimulatedLookup
+};
@@ -0,0 +1,95 @@
+// Time-bound grants stop counting the moment they expire, since every check filters on the window. The sweep
+// only makes that visible: each lapsed role permission row and delegation gets one audit entry.
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+function invalidWindow(message)
+{
+	const err = new Error(message);
+	err.code = 'GRANT_WINDOW_INVALID';
+	return err;
+}
+
+// Reads startsAt / expiresAt (unix seconds) from a request body. Both are optional unless requireExpiry is set;
+// an expiry must lie after the start and in the future.
+function parseGrantWindow(body, { requireExpiry = false } = {})
+{
+	const read = (key) =>
+	{
+		const value = body ? body[key] : undefined;
+		if (value === undefined || value === null || value === '') return null;
+		const n = Number(value);
+		if (!Number.isInteger(n) || n <= 0) throw invalidWindow(`${key} must be a unix timestamp in seconds`);
+		return n;
+	};
+	const startsAt = read('startsAt');
+	const expiresAt = read('expiresAt');
+	if (requireExpiry && expiresAt == null) throw invalidWindow('expiresAt is required');
+	if (expiresAt != null)
+	{
+		if (expiresAt <= Math.floor(Date.now() / 1000)) throw invalidWindow('expiresAt must be in the future');
+		if (startsAt != null && expiresAt <= startsAt) throw invalidWindow('expiresAt must be after startsAt');
+	}
+	return { startsAt, expiresAt };
+}
+
+// scheduled, active, expired or revoked at the given time (unix seconds)
+function grantStatus(grant, now = Math.floor(Date.now() / 1000))
+{
+	if (grant.revokedAt) return 'revoked';
+	if (grant.expiresAt != null && grant.expiresAt <= now) return 'expired';
+	if (grant.startsAt != null && grant.startsAt > now) return 'scheduled';
+	return 'active';
+}
+
+async function sweepExpiredGrants({ dbApi, auditLogger })
+{
+	const { rolePermissions, delegations } = await dbApi.listLapsedGrants();
+	// Global rows belong to no organization; record their expiry under the top of the hierarchy like owner actions
+	const root = rolePermissions.some((r) => !r.organizationId)
+		? (await dbApi.listOrganizations()).find((o) => !o.parent_id)
+		: null;
+	for (const row of rolePermissions)
+	{
+		await auditLogger({
+			action: 'permission.expired',
+			entity: 'role_permission',
+			entityId: `${row.role}:${row.permission}`,
+			organizationId: row.organizationId || (root ? root.id : null),
+			before: row
+		});
+		await dbApi.markGrantExpiryAudited('role_permission', row.id);
+	}
+	for (const delegation of delegations)
+	{
+		await auditLogger({
+			action: 'delegation.expired',
+			entity: 'delegation',
+			entityId: delegation.id,
+			organizationId: delegation.organizationId,
+			before: delegation
+		});
+		await dbApi.markGrantExpiryAudited('delegation', delegation.id);
+	}
+	return { rolePermissions: rolePermissions.length, delegations: delegations.length };
+}
+
+// Runs the sweep on a timer that doesn't keep the process alive; stop() clears it
+function createGrantExpiryMonitor({ dbApi, auditLogger, intervalMs = SWEEP_INTERVAL_MS })
+{
+	const timer = setInterval(() =>
+	{
+		sweepExpiredGrants({ dbApi, auditLogger }).catch((err) => console.error('Grant expiry sweep failed', err));
+	}, intervalMs);
+	timer.unref();
+	return {
+		stop: () => clearInterval(timer)
+	};
+}
+
+module.exports = {
+	parseGrantWindow,
+	grantStatus,
+	sweepExpiredGrants,
+	createGrantExpiryMonitor
+};
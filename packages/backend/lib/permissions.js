@@ -0,0 +1,116 @@
+// Permission registry: every permission the server checks, with what it is for, the group it is listed under,
+// how risky it is to hand out, the permissions it depends on and the roles the built-in catalog grants it to.
+// Permission keys anywhere else (role permission rows, overrides, delegations, bundles) must come from here.
+
+const { ROLES } = require('./database');
+
+const { OWNER, ADMIN, VIEWER } = ROLES;
+
+const PERMISSION_GROUPS = [
+	{ id: 'tasks', label: 'Tasks' },
+	{ id: 'categories', label: 'Categories' },
+	{ id: 'roles', label: 'Roles & Access' },
+	{ id: 'admin', label: 'Administration' },
+	{ id: 'audit', label: 'Audit' }
+];
+
+const RISK_LEVELS = ['low', 'medium', 'high'];
+
+// requires: permissions the role must also hold for this one to be useful (enabling it is refused otherwise).
+// Field permissions that a role doesn't set follow tasks:update instead (PERMISSION_FALLBACKS in rbac.js).
+const PERMISSION_REGISTRY = [
+	// Entry to the Admin area; the seeded global row for admin can switch it off
+	{ id: 'admin:access', group: 'admin', risk: 'high', description: 'Open the Admin area', roles: [OWNER, ADMIN] },
+	{ id: 'settings:manage', group: 'admin', risk: 'high', description: 'Read and change server settings', roles: [OWNER, ADMIN] },
+	{ id: 'users:view-all', group: 'admin', risk: 'medium', description: 'List users in every organization, not only those in scope', roles: [OWNER, ADMIN] },
+	// Organization hierarchy management
+	{ id: 'organizations:view', group: 'admin', risk: 'low', description: 'Browse the organization hierarchy', requires: ['admin:access'], roles: [OWNER, ADMIN] },
+	{ id: 'organizations:create', group: 'admin', risk: 'medium', description: 'Create sub-organizations', requires: ['organizations:view'], roles: [OWNER] },
+	{ id: 'organizations:update', group: 'admin', risk: 'medium', description: 'Rename and move organizations', requires: ['organizations:view'], roles: [OWNER] },
+	{ id: 'organizations:delete', group: 'admin', risk: 'high', description: 'Delete organizations', requires: ['organizations:view'], roles: [OWNER] },
+	// Task statuses and the moves allowed between them, per organization
+	{ id: 'workflows:manage', group: 'admin', risk: 'high', description: 'Change an organization\'s task statuses and allowed moves', requires: ['organizations:view'], roles: [OWNER, ADMIN] },
+
+	{ id: 'tasks:view', group: 'tasks', risk: 'low', description: 'See tasks in the categories the role reaches', roles: [OWNER, ADMIN, VIEWER] },
+	{ id: 'tasks:create', group: 'tasks', risk: 'low', description: 'Create tasks', requires: ['tasks:view'], roles: [OWNER, ADMIN] },
+	{ id: 'tasks:update', group: 'tasks', risk: 'medium', description: 'Edit tasks; each field also needs its field permission', requires: ['tasks:view'], roles: [OWNER, ADMIN] },
+	// Per-field update permissions; unless set explicitly they follow tasks:update
+	{ id: 'tasks:update:title', group: 'tasks', risk: 'low', description: 'Change a task\'s title', requires: ['tasks:update'], roles: [] },
+	{ id: 'tasks:update:description', group: 'tasks', risk: 'low', description: 'Change a task\'s description', requires: ['tasks:update'], roles: [] },
+	{ id: 'tasks:update:status', group: 'tasks', risk: 'low', description: 'Change a task\'s status and board position', requires: ['tasks:update'], roles: [] },
+	{ id: 'tasks:update:category', group: 'tasks', risk: 'low', description: 'Move a task to another category', requires: ['tasks:update'], roles: [] },
+	{ id: 'tasks:update:priority', group: 'tasks', risk: 'low', description: 'Change a task\'s priority', requires: ['tasks:update'], roles: [] },
+	{ id: 'tasks:update:due-date', group: 'tasks', risk: 'low', description: 'Change a task\'s due date', requires: ['tasks:update'], roles: [] },
+	{ id: 'tasks:update:assignee', group: 'tasks', risk: 'low', description: 'Assign a task to someone else', requires: ['tasks:update'], roles: [] },
+	{ id: 'tasks:update:recurrence', group: 'tasks', risk: 'low', description: 'Make a task repeat or change how it repeats', requires: ['tasks:update'], roles: [] },
+	{ id: 'tasks:move-org', group: 'tasks', risk: 'medium', description: 'Move a task to another organization (checked in both)', requires: ['tasks:update'], roles: [] },
+	// Dependencies: a task can't be completed while a task blocking it is open, unless the user may override that
+	{ id: 'tasks:dependencies:override', group: 'tasks', risk: 'medium', description: 'Complete a task while tasks blocking it are still open', requires: ['tasks:update'], roles: [OWNER] },
+	// Work-in-progress limits: a status with a limit refuses tasks once that many of the organization's are in it
+	{ id: 'tasks:wip:override', group: 'tasks', risk: 'medium', description: 'Move a task into a status that has reached its WIP limit', requires: ['tasks:update'], roles: [OWNER, ADMIN] },
+	{ id: 'tasks:delete', group: 'tasks', risk: 'high', description: 'Delete tasks', requires: ['tasks:view'], roles: [OWNER] },
+	// Task discussion: anyone who can see a task may comment by default; moderators delete others' comments
+	{ id: 'tasks:comment', group: 'tasks', risk: 'low', description: 'Comment on tasks the user can see', requires: ['tasks:view'], roles: [OWNER, ADMIN, VIEWER] },
+	{ id: 'tasks:comments:moderate', group: 'tasks', risk: 'medium', description: 'Delete other people\'s comments', requires: ['tasks:comment'], roles: [OWNER, ADMIN] },
+
+	// Viewing categories list is implicit via org scope; explicit permission enables future restriction option
+	{ id: 'categories:view', group: 'categories', risk: 'low', description: 'List categories', roles: [OWNER, ADMIN, VIEWER] },
+	// Legacy broad category manage permission (kept for backward compatibility)
+	{ id: 'categories:manage', group: 'categories', risk: 'medium', description: 'Legacy: create, rename and delete categories', requires: ['categories:view'], roles: [OWNER, ADMIN] },
+	{ id: 'categories:create', group: 'categories', risk: 'low', description: 'Create categories', requires: ['categories:view'], roles: [OWNER, ADMIN] },
+	{ id: 'categories:update', group: 'categories', risk: 'low', description: 'Rename categories', requires: ['categories:view'], roles: [OWNER, ADMIN] },
+	{ id: 'categories:delete', group: 'categories', risk: 'medium', description: 'Delete categories', requires: ['categories:view'], roles: [OWNER, ADMIN] },
+	{ id: 'categories:access:configure', group: 'categories', risk: 'high', description: 'Choose which roles reach a category', requires: ['categories:view'], roles: [OWNER] },
+
+	{ id: 'roles:view', group: 'roles', risk: 'low', description: 'See roles and their permissions', requires: ['admin:access'], roles: [OWNER, ADMIN] },
+	{ id: 'roles:create', group: 'roles', risk: 'medium', description: 'Create custom roles', requires: ['roles:view'], roles: [OWNER, ADMIN] },
+	{ id: 'roles:update', group: 'roles', risk: 'high', description: 'Rename roles and change what they extend', requires: ['roles:view'], roles: [OWNER, ADMIN] },
+	{ id: 'roles:delete', group: 'roles', risk: 'high', description: 'Delete custom roles', requires: ['roles:view'], roles: [OWNER] },
+	// Attribute-based task policies
+	{ id: 'policies:view', group: 'roles', risk: 'low', description: 'See task policies', requires: ['admin:access'], roles: [OWNER, ADMIN] },
+	{ id: 'policies:manage', group: 'roles', risk: 'high', description: 'Create, change and delete task policies', requires: ['policies:view'], roles: [OWNER] },
+	// Handing a subset of one's own permissions to another user for a set period, and revoking anyone's
+	{ id: 'permissions:delegate', group: 'roles', risk: 'medium', description: 'Lend own permissions to another user for a set period', roles: [OWNER, ADMIN] },
+	{ id: 'delegations:manage', group: 'roles', risk: 'medium', description: 'Revoke delegations made by others', roles: [OWNER] },
+	// Per-user allow / deny overrides on top of the user's roles
+	{ id: 'users:permissions:override', group: 'roles', risk: 'high', description: 'Allow or deny single permissions for individual users', requires: ['admin:access'], roles: [OWNER] },
+
+	{ id: 'audit:view', group: 'audit', risk: 'medium', description: 'Read the audit log', roles: [OWNER, ADMIN] }
+].map((definition) => ({ requires: [], ...definition }));
+
+const REGISTRY_BY_ID = new Map(PERMISSION_REGISTRY.map((p) => [p.id, p]));
+
+// Built-in catalog: permission -> roles granted it when no row says otherwise
+const PERMISSIONS = Object.fromEntries(PERMISSION_REGISTRY.map((p) => [p.id, new Set(p.roles)]));
+
+function getPermissionDefinition(id)
+{
+	return REGISTRY_BY_ID.get(id) || null;
+}
+
+function assertKnownPermission(id)
+{
+	if (!REGISTRY_BY_ID.has(id))
+	{
+		const err = new Error(`Unknown permission: ${id}`);
+		err.code = 'PERMISSION_UNKNOWN';
+		throw err;
+	}
+	return REGISTRY_BY_ID.get(id);
+}
+
+// What the API hands out: the registry without the built-in role sets
+function describePermissions()
+{
+	return PERMISSION_REGISTRY.map(({ id, group, risk, description, requires }) => ({ id, group, risk, description, requires }));
+}
+
+module.exports = {
+	PERMISSION_GROUPS,
+	RISK_LEVELS,
+	PERMISSION_REGISTRY,
+	PERMISSIONS,
+	getPermissionDefinition,
+	assertKnownPermission,
+	describePermissions
+};
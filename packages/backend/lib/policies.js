@@ -0,0 +1,196 @@
+// Attribute-based policy rules layered on top of role permissions. A policy names the task actions it covers,
+// an effect and a condition tree over the actor, the task and the requested change set. The role check runs
+// first; then a matching deny policy refuses the action and, when the role refused it, a matching allow policy
+// grants it. Owners are never subject to policies.
+
+const POLICY_ACTIONS = ['tasks:create', 'tasks:update', 'tasks:delete'];
+const POLICY_EFFECTS = ['allow', 'deny'];
+
+// Task fields a change set may contain (mirrors what PUT /api/tasks/:id accepts)
+const TASK_FIELDS = ['title', 'description', 'status', 'category', 'priority', 'dueDate', 'assignedTo', 'position', 'organizationId'];
+
+const POLICY_ATTRIBUTES = [
+	'actor.id',
+	'actor.organizationId',
+	'actor.roles',
+	'resource.id',
+	'resource.createdBy',
+	'resource.assignedTo',
+	'resource.category',
+	'resource.priority',
+	'resource.status',
+	'resource.organizationId',
+	'changes',
+	...TASK_FIELDS.map((f) => `change.${f}`)
+];
+
+const POLICY_OPERATORS = ['eq', 'ne', 'in', 'notIn', 'contains', 'subsetOf', 'intersects', 'exists'];
+
+const MAX_CONDITION_DEPTH = 8;
+
+function invalid(message)
+{
+	const err = new Error(message);
+	err.code = 'POLICY_INVALID';
+	return err;
+}
+
+// A leaf value is a literal or { attr } referring to another attribute, e.g. { attr: 'actor.id' }
+function validateOperand(value, path)
+{
+	if (value && typeof value === 'object' && !Array.isArray(value))
+	{
+		if (!POLICY_ATTRIBUTES.includes(value.attr)) throw invalid(`${path}: unknown attribute ${value.attr}`);
+		return { attr: value.attr };
+	}
+	if (Array.isArray(value))
+	{
+		value.forEach((v, i) =>
+		{
+			if (v !== null && typeof v === 'object') throw invalid(`${path}[${i}]: list items must be plain values`);
+		});
+	}
+	return value === undefined ? null : value;
+}
+
+// Checks a condition tree and returns a normalized copy. Nodes are { all: [...] }, { any: [...] }, { not: node }
+// or a comparison { attr, op, value }.
+function validateCondition(node, path = 'conditions', depth = 0)
+{
+	if (depth > MAX_CONDITION_DEPTH) throw invalid(`${path}: conditions are nested too deeply`);
+	if (!node || typeof node !== 'object' || Array.isArray(node)) throw invalid(`${path}: expected an object`);
+	if (Array.isArray(node.all)) return { all: node.all.map((c, i) => validateCondition(c, `${path}.all[${i}]`, depth + 1)) };
+	if (Array.isArray(node.any)) return { any: node.any.map((c, i) => validateCondition(c, `${path}.any[${i}]`, depth + 1)) };
+	if (node.not !== undefined) return { not: validateCondition(node.not, `${path}.not`, depth + 1) };
+	if (!POLICY_ATTRIBUTES.includes(node.attr)) throw invalid(`${path}: unknown attribute ${node.attr}`);
+	if (!POLICY_OPERATORS.includes(node.op)) throw invalid(`${path}: unknown operator ${node.op}`);
+	if (node.op === 'exists') return { attr: node.attr, op: node.op };
+	const value = validateOperand(node.value, `${path}.value`);
+	if (['in', 'notIn', 'subsetOf', 'intersects'].includes(node.op) && !Array.isArray(value) && !(value && value.attr))
+	{
+		throw invalid(`${path}: ${node.op} expects a list`);
+	}
+	return { attr: node.attr, op: node.op, value };
+}
+
+// Normalizes a create/update payload. With partial, missing fields are left out so they keep their value.
+function normalizePolicyInput(input, { partial = false } = {})
+{
+	const body = input || {};
+	const out = {};
+	if (!partial || body.name !== undefined)
+	{
+		const name = String(body.name || '').trim();
+		if (!name) throw invalid('Policy name is required');
+		out.name = name;
+	}
+	if (body.description !== undefined) out.description = body.description ? String(body.description) : null;
+	if (!partial || body.effect !== undefined)
+	{
+		if (!POLICY_EFFECTS.includes(body.effect)) throw invalid('effect must be allow or deny');
+		out.effect = body.effect;
+	}
+	if (!partial || body.actions !== undefined)
+	{
+		const actions = Array.isArray(body.actions) ? Array.from(new Set(body.actions)) : [];
+		if (actions.length === 0) throw invalid('At least one action is required');
+		const unknown = actions.find((a) => !POLICY_ACTIONS.includes(a));
+		if (unknown) throw invalid(`Unsupported action: ${unknown}`);
+		out.actions = actions;
+	}
+	if (!partial || body.conditions !== undefined)
+	{
+		out.conditions = validateCondition(body.conditions == null ? { all: [] } : body.conditions);
+	}
+	if (body.organizationId !== undefined) out.organizationId = body.organizationId || null;
+	if (body.enabled !== undefined) out.enabled = Boolean(body.enabled);
+	return out;
+}
+
+// The attributes a policy can see. changes is the patch being applied ({} for deletes, the payload for creates).
+function buildPolicyContext({ user, grants, resource, changes = {} })
+{
+	const roles = new Set();
+	(grants || []).forEach((g) => g.chain.forEach((r) => roles.add(r)));
+	return {
+		'actor.id': user ? user.id : null,
+		'actor.organizationId': user ? user.organization_id : null,
+		'actor.roles': Array.from(roles),
+		'resource.id': resource.id || null,
+		'resource.createdBy': resource.createdBy || null,
+		'resource.assignedTo': resource.assignedTo || null,
+		'resource.category': resource.category || null,
+		'resource.priority': resource.priority || null,
+		'resource.status': resource.status || null,
+		'resource.organizationId': resource.organizationId || null,
+		changes: Object.keys(changes),
+		...Object.fromEntries(TASK_FIELDS.map((f) => [`change.${f}`, changes[f] === undefined ? null : changes[f]]))
+	};
+}
+
+function resolveOperand(value, context)
+{
+	return value && typeof value === 'object' && !Array.isArray(value) ? context[value.attr] : value;
+}
+
+function matchesCondition(node, context)
+{
+	if (node.all) return node.all.every((c) => matchesCondition(c, context));
+	if (node.any) return node.any.some((c) => matchesCondition(c, context));
+	if (node.not) return !matchesCondition(node.not, context);
+	const actual = context[node.attr];
+	const expected = resolveOperand(node.value, context);
+	const list = (v) => (Array.isArray(v) ? v : v == null ? [] : [v]);
+	switch (node.op)
+	{
+		case 'eq': return actual === expected;
+		case 'ne': return actual !== expected;
+		case 'in': return list(expected).includes(actual);
+		case 'notIn': return !list(expected).includes(actual);
+		case 'contains': return list(actual).includes(expected);
+		case 'subsetOf': return list(actual).every((v) => list(expected).includes(v));
+		case 'intersects': return list(actual).some((v) => list(expected).includes(v));
+		case 'exists': return Array.isArray(actual) ? actual.length > 0 : actual != null;
+		default: return false;
+	}
+}
+
+// Policies for an action in an organization: enabled, listing the action, global or scoped to that org
+function policiesFor(policies, action, organizationId)
+{
+	return (policies || []).filter((p) =>
+		p.enabled && p.actions.includes(action) && (!p.organizationId || p.organizationId === organizationId));
+}
+
+// Combines the role decision with the policies that match. Deny policies win over allow policies; without a
+// match the role decision stands. Returns { allowed, policy, trace } where policy is the deciding one.
+function decideWithPolicies({ roleAllowed, policies, context })
+{
+	const trace = [];
+	const matched = (policies || []).filter((p) => matchesCondition(p.conditions, context));
+	(policies || []).forEach((p) =>
+	{
+		const hit = matched.includes(p);
+		trace.push({ step: 'policy', effect: hit ? p.effect : 'skip', detail: `${p.name}: ${hit ? 'conditions match' : 'conditions do not match'}` });
+	});
+	const deny = matched.find((p) => p.effect === 'deny');
+	if (deny) return { allowed: false, policy: deny, trace };
+	if (!roleAllowed)
+	{
+		const allow = matched.find((p) => p.effect === 'allow');
+		if (allow) return { allowed: true, policy: allow, trace };
+	}
+	return { allowed: roleAllowed, policy: null, trace };
+}
+
+module.exports = {
+	POLICY_ACTIONS,
+	POLICY_EFFECTS,
+	POLICY_ATTRIBUTES,
+	POLICY_OPERATORS,
+	normalizePolicyInput,
+	buildPolicyContext,
+	matchesCondition,
+	policiesFor,
+	decideWithPolicies
+};
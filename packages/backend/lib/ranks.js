@@ -0,0 +1,82 @@
+// Rank keys order the tasks on the board. A key is a base-62 fraction written without its leading "0." (digits
+// 0-9, A-Z, a-z, which sort the same as the text does), so there is always a key between two others and moving a
+// task rewrites only its own row. Keys never end in "0", which gives every fraction one spelling. Adding at either
+// end steps by one unit of the STEP_DIGITS-th digit so those keys stay short; inserting again and again between the
+// same two tasks makes keys longer, and past MAX_RANK_LENGTH every task gets an evenly spaced key again.
+
+const DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+const BASE = DIGITS.length;
+const STEP_DIGITS = 4;
+const MAX_RANK_LENGTH = 12;
+
+// The key halfway between a and b (a < b), where '' is the start of the range and null its end
+function midpoint(a, b)
+{
+	if (b !== null)
+	{
+		let n = 0;
+		while ((a[n] || '0') === b[n]) n++;
+		if (n > 0) return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+	}
+	const low = a ? DIGITS.indexOf(a[0]) : 0;
+	const high = b !== null ? DIGITS.indexOf(b[0]) : BASE;
+	if (high - low > 1) return DIGITS[Math.round((low + high) / 2)];
+	if (b !== null && b.length > 1) return b[0];
+	return DIGITS[low] + midpoint(a.slice(1), null);
+}
+
+// The key one unit (at STEP_DIGITS digits, or the key's own length when longer) above or below key; null when that
+// leaves the range
+function step(key, delta)
+{
+	const digits = key.padEnd(Math.max(key.length, STEP_DIGITS), '0').split('').map((d) => DIGITS.indexOf(d));
+	let i = digits.length - 1;
+	digits[i] += delta;
+	while (i > 0 && (digits[i] < 0 || digits[i] >= BASE))
+	{
+		digits[i - 1] += digits[i] < 0 ? -1 : 1;
+		digits[i] = (digits[i] + BASE) % BASE;
+		i--;
+	}
+	if (digits[0] < 0 || digits[0] >= BASE || digits.every((d) => d === 0)) return null;
+	return digits.map((d) => DIGITS[d]).join('').replace(/0+$/, '');
+}
+
+// A key after before and before after; either may be null for the start or the end
+function keyBetween(before, after)
+{
+	const a = before || '';
+	const b = after || null;
+	if (b !== null && a >= b) throw new Error(`Rank ${a} is not before ${b}`);
+	if (!a && b === null) return midpoint('', null);
+	if (b === null) return step(a, 1) || midpoint(a, null);
+	if (!a) return step(b, -1) || midpoint('', b);
+	return midpoint(a, b);
+}
+
+// count evenly spaced keys, in order, of the same length with room for new keys around each
+function spreadKeys(count)
+{
+	let length = STEP_DIGITS;
+	while (BASE ** length < (count + 1) * BASE) length++;
+	const span = BASE ** length;
+	const keys = [];
+	for (let i = 1; i <= count; i++)
+	{
+		let value = Math.round((i * span) / (count + 1));
+		let key = '';
+		for (let d = 0; d < length; d++)
+		{
+			key = DIGITS[value % BASE] + key;
+			value = Math.floor(value / BASE);
+		}
+		keys.push(key.replace(/0+$/, ''));
+	}
+	return keys;
+}
+
+module.exports = {
+	MAX_RANK_LENGTH,
+	keyBetween,
+	spreadKeys
+};
@@ -1,4 +1,5 @@
 const { ROLES } = require('./database');
+const { PERMISSIONS } = require('./permissions');
 
 const ROLE_HIERARCHY = {
 	[ROLES.OWNER]: [ROLES.OWNER, ROLES.ADMIN, ROLES.VIEWER],
@@ -6,27 +7,32 @@ const ROLE_HIERARCHY = {
 	[ROLES.VIEWER]: [ROLES.VIEWER]
 };
 
-const PERMISSIONS = {
-	'tasks:view': new Set([ROLES.OWNER, ROLES.ADMIN, ROLES.VIEWER]),
-	'tasks:create': new Set([ROLES.OWNER, ROLES.ADMIN]),
-	'tasks:update': new Set([ROLES.OWNER, ROLES.ADMIN]),
-	'tasks:delete': new Set([ROLES.OWNER]),
-	'audit:view': new Set([ROLES.OWNER, ROLES.ADMIN]),
-	'users:view-all': new Set([ROLES.OWNER, ROLES.ADMIN]),
-	// Legacy broad category manage permission (kept for backward compatibility)
-	'categories:manage': new Set([ROLES.OWNER, ROLES.ADMIN]),
-	// New granular category permissions
-	'categories:create': new Set([ROLES.OWNER, ROLES.ADMIN]),
-	'categories:update': new Set([ROLES.OWNER, ROLES.ADMIN]),
-	'categories:delete': new Set([ROLES.OWNER, ROLES.ADMIN]),
-	'categories:access:configure': new Set([ROLES.OWNER]),
-	// Viewing categories list is implicit via org scope; explicit permission enables future restriction option
-	'categories:view': new Set([ROLES.OWNER, ROLES.ADMIN, ROLES.VIEWER]),
-	// Roles management permissions
-	'roles:view': new Set([ROLES.OWNER, ROLES.ADMIN]),
-	'roles:create': new Set([ROLES.OWNER, ROLES.ADMIN]),
-	'roles:update': new Set([ROLES.OWNER, ROLES.ADMIN]),
-	'roles:delete': new Set([ROLES.OWNER])
+// A permission nothing in the role chain decides takes the decision of its fallback instead of defaulting to deny
+const PERMISSION_FALLBACKS = {
+	'tasks:update:title': 'tasks:update',
+	'tasks:update:description': 'tasks:update',
+	'tasks:update:status': 'tasks:update',
+	'tasks:update:category': 'tasks:update',
+	'tasks:update:priority': 'tasks:update',
+	'tasks:update:due-date': 'tasks:update',
+	'tasks:update:assignee': 'tasks:update',
+	'tasks:update:recurrence': 'tasks:update',
+	'tasks:move-org': 'tasks:update'
+};
+
+// The permission each task field needs on update, on top of tasks:update. Position is board placement and
+// goes with status.
+const TASK_FIELD_PERMISSIONS = {
+	title: 'tasks:update:title',
+	description: 'tasks:update:description',
+	status: 'tasks:update:status',
+	position: 'tasks:update:status',
+	category: 'tasks:update:category',
+	priority: 'tasks:update:priority',
+	dueDate: 'tasks:update:due-date',
+	assignedTo: 'tasks:update:assignee',
+	recurrence: 'tasks:update:recurrence',
+	organizationId: 'tasks:move-org'
 };
 
 function normalizeRole(role)
@@ -52,6 +58,242 @@ function getInheritedRoles(role)
 	return ROLE_HIERARCHY[normalized] || [];
 }
 
+// Parent of a role: system roles follow ROLE_HIERARCHY (admin -> viewer), custom roles their parent_role
+async function getParentRole(dbApi, role)
+{
+	const normalized = normalizeRole(role);
+	if (ROLE_HIERARCHY[normalized])
+	{
+		return ROLE_HIERARCHY[normalized][1] || null;
+	}
+	const record = await dbApi.getRoleByName(normalized);
+	return record && record.parentRole ? normalizeRole(record.parentRole) : null;
+}
+
+// The role followed by everything it inherits, nearest first. Stops at a repeated role so a corrupted
+// chain can't loop even though writes already reject cycles.
+async function resolveRoleChain(dbApi, role)
+{
+	const chain = [];
+	let current = normalizeRole(role);
+	while (current && !chain.includes(current))
+	{
+		chain.push(current);
+		current = await getParentRole(dbApi, current);
+	}
+	return chain;
+}
+
+// Decides a role permission and records each step. Walks the inheritance chain nearest first; at each level an
+// explicit row (org row before global) is authoritative, then the built-in catalog. lookup(query) returns the
+// applicable row ({ organizationId, enabled }) or null; the what-if simulator swaps it out.
+async function explainRolePermission(dbApi, role, permission, organizationId, { lookup, chain } = {})
+{
+	const findRow = lookup || ((query) => dbApi.getRolePermissionRow(query));
+	const trace = [];
+	const decide = (allowed) => ({ allowed, trace });
+	const normalized = normalizeRole(role);
+	if (!normalized)
+	{
+		trace.push({ step: 'role', effect: 'deny', detail: 'No role' });
+		return decide(false);
+	}
+	if (normalized === ROLES.OWNER)
+	{
+		trace.push({ step: 'owner-bypass', effect: 'allow', detail: 'Owners hold every permission' });
+		return decide(true);
+	}
+	const roles = chain || (await resolveRoleChain(dbApi, normalized));
+	for (let i = 0; i < roles.length; i++)
+	{
+		const current = roles[i];
+		if (i > 0)
+		{
+			trace.push({ step: 'inherit', effect: 'skip', detail: `${roles[i - 1]} extends ${current}` });
+		}
+		const row = await findRow({ organizationId, role: current, permission });
+		if (row)
+		{
+			const where = row.organizationId ? `organization override (${row.organizationId})` : 'global setting';
+			trace.push({ step: 'role-override', effect: row.enabled ? 'allow' : 'deny', detail: `${current}: ${where} is ${row.enabled ? 'enabled' : 'disabled'}` });
+			return decide(Boolean(row.enabled));
+		}
+		trace.push({ step: 'role-override', effect: 'skip', detail: `${current}: no explicit row` });
+		if (PERMISSIONS[permission] && PERMISSIONS[permission].has(current))
+		{
+			trace.push({ step: 'static-catalog', effect: 'allow', detail: `Built-in catalog grants ${permission} to ${current}` });
+			return decide(true);
+		}
+	}
+	const fallback = PERMISSION_FALLBACKS[permission];
+	if (fallback)
+	{
+		trace.push({ step: 'fallback', effect: 'skip', detail: `Nothing in the role chain sets ${permission}; it follows ${fallback}` });
+		const fallbackPart = await explainRolePermission(dbApi, normalized, fallback, organizationId, { lookup, chain: roles });
+		trace.push(...fallbackPart.trace);
+		return decide(fallbackPart.allowed);
+	}
+	trace.push({ step: 'default', effect: 'deny', detail: PERMISSIONS[permission] ? 'Nothing in the role chain grants this permission' : `${permission} is not in the built-in catalog and no row grants it` });
+	return decide(false);
+}
+
+async function resolveRolePermission(dbApi, role, permission, organizationId, options)
+{
+	const { allowed } = await explainRolePermission(dbApi, role, permission, organizationId, options);
+	return allowed;
+}
+
+// Expands role assignments ({ role, organizationId }) into grants carrying the role's inheritance chain and
+// the organizations the assignment reaches.
+async function resolveRoleGrants(dbApi, assignments, organizations)
+{
+	const grants = [];
+	for (const assignment of assignments || [])
+	{
+		grants.push({
+			id: assignment.id || null,
+			role: normalizeRole(assignment.role),
+			organizationId: assignment.organizationId,
+			chain: await resolveRoleChain(dbApi, assignment.role),
+			scope: resolveOrgScopeForAssignment(assignment, organizations)
+		});
+	}
+	return grants;
+}
+
+// Grants for a user's role assignments; the primary role stands in until the assignment backfill has run
+async function resolveUserGrants(dbApi, user, organizations)
+{
+	const assignments = await dbApi.listUserRoleAssignments(user.id);
+	const held = assignments.length > 0 ? assignments : [{ role: user.role, organizationId: user.organization_id }];
+	return resolveRoleGrants(dbApi, held, organizations);
+}
+
+// The user override deciding `permission` in an organization, or null. Overrides without an organization apply
+// everywhere and a deny beats an allow. Field permissions without an override of their own follow the override
+// on their fallback, the same way they follow its role setting.
+function matchUserOverride(overrides, permission, organizationId)
+{
+	const matching = (key) => (overrides || []).filter((o) =>
+		o.permission === key && (o.organizationId == null || o.organizationId === organizationId));
+	let candidates = matching(permission);
+	if (candidates.length === 0 && PERMISSION_FALLBACKS[permission]) candidates = matching(PERMISSION_FALLBACKS[permission]);
+	return candidates.find((o) => o.effect === 'deny') || candidates[0] || null;
+}
+
+// Whether a delegation lends `permission`. Like overrides, a delegated permission carries the field permissions
+// falling back to it, so a delegated tasks:update lets the delegate change the fields the delegator may.
+function delegationCovers(delegation, permission)
+{
+	return delegation.permissions.includes(permission)
+		|| Boolean(PERMISSION_FALLBACKS[permission] && delegation.permissions.includes(PERMISSION_FALLBACKS[permission]));
+}
+
+// Per-request permission resolver. Merges the static catalog, DB overrides and role inheritance across every
+// grant reaching the organization; any grant allowing the permission is enough and owners always pass.
+// A per-user deny override refuses the permission before any grant is looked at; a per-user allow grants it
+// where the user's roles reach. When neither does, an active delegation covering the permission and
+// organization can, provided its delegator still holds the permission themselves (delegations are never passed
+// on). overrides are loaded on first use unless given. Results are memoized by permission and organization for
+// the resolver's lifetime.
+function createPermissionResolver({ dbApi, user, grants, delegations, organizations, overrides })
+{
+	const cache = new Map();
+	let userOverrides = overrides ? Promise.resolve(overrides) : null;
+	function loadOverrides()
+	{
+		if (!userOverrides) userOverrides = dbApi.listUserPermissionOverrides(user.id);
+		return userOverrides;
+	}
+	const delegators = new Map();
+	function delegatorResolver(delegatorId)
+	{
+		if (!delegators.has(delegatorId))
+		{
+			delegators.set(delegatorId, (async () =>
+			{
+				const delegator = await dbApi.getUserById(delegatorId);
+				if (!delegator || delegator.is_active === 0) return null;
+				const delegatorGrants = await resolveUserGrants(dbApi, delegator, organizations || await dbApi.listOrganizations());
+				return createPermissionResolver({ dbApi, user: delegator, grants: delegatorGrants });
+			})());
+		}
+		return delegators.get(delegatorId);
+	}
+	async function evaluate(permission, orgId)
+	{
+		const applicable = (grants || []).filter((grant) => !orgId || grant.scope.has(orgId));
+		if (applicable.some((grant) => grant.role === ROLES.OWNER)) return true;
+		const override = matchUserOverride(await loadOverrides(), permission, orgId);
+		if (override && override.effect === 'deny') return false;
+		for (const grant of applicable)
+		{
+			if (await resolveRolePermission(dbApi, grant.role, permission, orgId, { chain: grant.chain })) return true;
+		}
+		if (override && applicable.length > 0) return true;
+		return Boolean(await findDelegation(permission, orgId));
+	}
+	async function findDelegation(permission, orgId)
+	{
+		for (const delegation of delegations || [])
+		{
+			if (delegation.organizationId !== orgId || !delegationCovers(delegation, permission)) continue;
+			const resolver = await delegatorResolver(delegation.delegatorId);
+			if (resolver && await resolver.can(permission, { organizationId: orgId })) return delegation;
+		}
+		return null;
+	}
+	function can(permission, { organizationId } = {})
+	{
+		if (!user) return Promise.resolve(false);
+		const orgId = organizationId || user.organization_id || null;
+		const key = `${permission}@${orgId || ''}`;
+		if (!cache.has(key))
+		{
+			cache.set(key, evaluate(permission, orgId));
+		}
+		return cache.get(key);
+	}
+	return { can };
+}
+
+// Categories visible in orgIds to any of the grants: owner grants see every category in their reach, other
+// grants what their role chain has been given access to
+async function listAccessibleCategories(dbApi, grants, orgIds)
+{
+	const byId = new Map();
+	for (const grant of grants || [])
+	{
+		const reachable = (orgIds || []).filter((id) => grant.scope.has(id));
+		if (reachable.length === 0) continue;
+		const categories = grant.role === ROLES.OWNER
+			? await dbApi.listCategoriesForOrganizations(reachable)
+			: await dbApi.listAccessibleCategoriesForRole(reachable, grant.chain);
+		categories.forEach((c) => byId.set(c.id, c));
+	}
+	return Array.from(byId.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Who is asking, in the shape the task ACL queries expect: the user, whether they bypass ACLs (owners), and each
+// role they hold or inherit with the organizations it counts in
+function taskAccessorFor({ user, grants })
+{
+	const roleOrgs = new Map();
+	for (const grant of grants || [])
+	{
+		for (const role of grant.chain)
+		{
+			if (!roleOrgs.has(role)) roleOrgs.set(role, new Set());
+			grant.scope.forEach((id) => roleOrgs.get(role).add(id));
+		}
+	}
+	return {
+		userId: user ? user.id : null,
+		bypass: (grants || []).some((g) => g.role === ROLES.OWNER),
+		roleScopes: Array.from(roleOrgs, ([role, orgIds]) => ({ role, orgIds: Array.from(orgIds) }))
+	};
+}
+
 function buildOrgIndex(organizations)
 {
 	const byId = new Map();
@@ -71,35 +313,34 @@ function buildOrgIndex(organizations)
 function collectDescendants(id, childrenMap, acc)
 {
 	const queue = [id];
+	const visited = new Set();
 	while (queue.length)
 	{
 		const current = queue.shift();
-		if (!current || acc.has(current))
+		if (!current || visited.has(current))
 		{
 			continue;
 		}
+		visited.add(current);
 		acc.add(current);
 		const childList = childrenMap.get(current) || [];
 		childList.forEach((child) => queue.push(child.id));
 	}
 }
 
-function resolveOrgScopeForUser(user, organizations)
+// Organizations a single role assignment reaches
+function resolveOrgScopeForAssignment(assignment, organizations)
 {
 	const scope = new Set();
-	if (!user)
-	{
-		return scope;
-	}
-	const normalizedRole = normalizeRole(user.role);
+	const normalizedRole = normalizeRole(assignment.role);
 	const { byId, children } = buildOrgIndex(organizations);
-	const userOrgId = user.organization_id || user.organizationId;
-	if (!userOrgId)
+	const orgId = assignment.organization_id || assignment.organizationId;
+	if (!orgId)
 	{
 		return scope;
 	}
-	scope.add(userOrgId);
-	const orgRecord = byId.get(userOrgId);
+	scope.add(orgId);
+	const orgRecord = byId.get(orgId);
 	const isRoot = !orgRecord || !orgRecord.parent_id;
 
 	if (normalizedRole === ROLES.OWNER)
@@ -110,17 +351,48 @@ function resolveOrgScopeForUser(user, organizations)
 	{
 		if (isRoot)
 		{
-			collectDescendants(userOrgId, children, scope);
+			collectDescendants(orgId, children, scope);
 		}
 	}
 
 	return scope;
 }
 
+// Union of the organizations reached by each of the user's role assignments; without assignments the
+// user's primary role and organization stand in
+function resolveOrgScopeForUser(user, organizations, assignments)
+{
+	const scope = new Set();
+	if (!user)
+	{
+		return scope;
+	}
+	const list = assignments && assignments.length > 0 ? assignments : [user];
+	list.forEach((assignment) =>
+	{
+		resolveOrgScopeForAssignment(assignment, organizations).forEach((id) => scope.add(id));
+	});
+	return scope;
+}
+
 module.exports = {
 	PERMISSIONS,
+	PERMISSION_FALLBACKS,
+	delegationCovers,
+	TASK_FIELD_PERMISSIONS,
 	normalizeRole,
 	roleAllows,
 	getInheritedRoles,
+	getParentRole,
+	resolveRoleChain,
+	explainRolePermission,
+	resolveRolePermission,
+	resolveRoleGrants,
+	resolveUserGrants,
+	createPermissionResolver,
+	matchUserOverride,
+	listAccessibleCategories,
+	taskAccessorFor,
+	resolveOrgScopeForAssignment,
 	resolveOrgScopeForUser
 };
@@ -0,0 +1,235 @@
+// Recurring tasks. A rule sits on the newest task of a series; when that task is completed, or when the rule's next
+// date arrives while it is still open, the next occurrence is created as a copy (open, checklist unchecked,
+// same sharing) and the rule moves to it. Dates follow the server's local calendar, which for the desktop app is
+// the user's. Periods that passed while the server was not running are skipped: only the latest one is created.
+// Completing means reaching a terminal status of the organization's workflow; occurrences start in its first status.
+//
+// Rule: { frequency, interval, weekdays?, dayOfMonth? }
+//   daily             every interval days after the due date
+//   weekly            on weekdays (0 = Sunday) of every interval-th week
+//   monthly           on dayOfMonth of every interval-th month (the last day in shorter months)
+//   after_completion  interval days after the task is completed
+
+const { initialStatus, resolveWorkflow } = require('./workflows');
+
+const FREQUENCIES = ['daily', 'weekly', 'monthly', 'after_completion'];
+// Rules with fixed dates, which run from the due date and need one
+const CALENDAR_FREQUENCIES = new Set(['daily', 'weekly', 'monthly']);
+const CHECK_INTERVAL_MS = 60 * 1000;
+const MAX_STEPS = 10000;
+
+// Rule from a request: null/'' clears it. Returns { rule } (normalized, or null) or { error }.
+function parseRecurrence(raw)
+{
+	if (raw === undefined || raw === null || raw === '') return { rule: null };
+	if (typeof raw !== 'object' || Array.isArray(raw)) return { error: 'recurrence must be an object' };
+	if (!FREQUENCIES.includes(raw.frequency)) return { error: `recurrence.frequency must be one of ${FREQUENCIES.join(', ')}` };
+	const interval = raw.interval === undefined ? 1 : Number(raw.interval);
+	if (!Number.isInteger(interval) || interval < 1 || interval > 365) return { error: 'recurrence.interval must be a whole number from 1 to 365' };
+	const rule = { frequency: raw.frequency, interval };
+	if (raw.frequency === 'weekly')
+	{
+		const weekdays = Array.isArray(raw.weekdays) ? Array.from(new Set(raw.weekdays.map(Number))).sort((a, b) => a - b) : [];
+		if (weekdays.length === 0 || weekdays.some((d) => !Number.isInteger(d) || d < 0 || d > 6))
+		{
+			return { error: 'recurrence.weekdays must list days from 0 (Sunday) to 6' };
+		}
+		rule.weekdays = weekdays;
+	}
+	if (raw.frequency === 'monthly')
+	{
+		const dayOfMonth = Number(raw.dayOfMonth);
+		if (!Number.isInteger(dayOfMonth) || dayOfMonth < 1 || dayOfMonth > 31) return { error: 'recurrence.dayOfMonth must be from 1 to 31' };
+		rule.dayOfMonth = dayOfMonth;
+	}
+	return { rule };
+}
+
+// Stored form: keys in a fixed order, so two equal rules compare equal as strings
+function serializeRecurrence(rule)
+{
+	if (!rule) return null;
+	const { frequency, interval, weekdays, dayOfMonth } = rule;
+	return JSON.stringify({ frequency, interval, ...(weekdays ? { weekdays } : {}), ...(dayOfMonth ? { dayOfMonth } : {}) });
+}
+
+function readRecurrence(value)
+{
+	if (!value) return null;
+	try
+	{
+		return JSON.parse(value);
+	}
+	catch (_)
+	{
+		return null;
+	}
+}
+
+const isCalendarRule = (rule) => Boolean(rule && CALENDAR_FREQUENCIES.has(rule.frequency));
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+function describeRecurrence(rule)
+{
+	if (!rule) return null;
+	const every = (unit) => (rule.interval === 1 ? `every ${unit}` : `every ${rule.interval} ${unit}s`);
+	switch (rule.frequency)
+	{
+		case 'daily':
+			return every('day');
+		case 'weekly':
+			return `${every('week')} on ${rule.weekdays.map((d) => WEEKDAY_NAMES[d]).join(', ')}`;
+		case 'monthly':
+			return `${every('month')} on day ${rule.dayOfMonth}`;
+		case 'after_completion':
+			return `${rule.interval} day${rule.interval === 1 ? '' : 's'} after completion`;
+		default:
+			return null;
+	}
+}
+
+const toDate = (seconds) => new Date(seconds * 1000);
+const toSeconds = (date) => Math.floor(date.getTime() / 1000);
+
+function addDays(seconds, days)
+{
+	const date = toDate(seconds);
+	date.setDate(date.getDate() + days);
+	return toSeconds(date);
+}
+
+// Whole calendar weeks (starting Sunday) between the weeks of two dates
+function weeksBetween(from, to)
+{
+	const weekStart = (date) => new Date(date.getFullYear(), date.getMonth(), date.getDate() - date.getDay());
+	return Math.round((weekStart(to) - weekStart(from)) / (7 * 24 * 60 * 60 * 1000));
+}
+
+function monthDay(year, month, day, template)
+{
+	const lastDay = new Date(year, month + 1, 0).getDate();
+	const date = new Date(template);
+	date.setFullYear(year, month, Math.min(day, lastDay));
+	return date;
+}
+
+// The first date of a calendar rule after anchor (unix seconds); keeps the anchor's time of day
+function stepCalendar(rule, anchor)
+{
+	const start = toDate(anchor);
+	switch (rule.frequency)
+	{
+		case 'daily':
+			return addDays(anchor, rule.interval);
+		case 'weekly':
+			for (let offset = 1; offset <= 7 * (rule.interval + 1); offset++)
+			{
+				const candidate = toDate(addDays(anchor, offset));
+				if (rule.weekdays.includes(candidate.getDay()) && weeksBetween(start, candidate) % rule.interval === 0) return toSeconds(candidate);
+			}
+			return null;
+		case 'monthly':
+		{
+			const sameMonth = monthDay(start.getFullYear(), start.getMonth(), rule.dayOfMonth, start);
+			if (sameMonth > start) return toSeconds(sameMonth);
+			return toSeconds(monthDay(start.getFullYear(), start.getMonth() + rule.interval, rule.dayOfMonth, start));
+		}
+		default:
+			return null;
+	}
+}
+
+// Due date of the next occurrence of a task and how many periods before it were skipped. Calendar rules step from
+// the task's due date and land on the latest date not after now once one has passed; after_completion counts from
+// completedAt. Null when the rule can't produce a date (a calendar rule without a due date).
+function planNextOccurrence(rule, { dueDate, completedAt }, now)
+{
+	if (rule.frequency === 'after_completion') return { dueDate: addDays(completedAt, rule.interval), skipped: 0 };
+	if (!dueDate) return null;
+	let next = stepCalendar(rule, dueDate);
+	if (next == null || next > now) return next == null ? null : { dueDate: next, skipped: 0 };
+	let skipped = 0;
+	for (let steps = 0; steps < MAX_STEPS; steps++)
+	{
+		const following = stepCalendar(rule, next);
+		if (following == null || following > now) break;
+		next = following;
+		skipped += 1;
+	}
+	return { dueDate: next, skipped };
+}
+
+// Creates the next occurrence of a recurring task. reason is 'completed' (actorId completed it) or 'scheduled'
+// (its date arrived). Returns the new task, or null when the rule has no next date or another run got there first.
+async function materializeNextOccurrence({ dbApi, auditLogger, task, reason, actorId = null, now = Math.floor(Date.now() / 1000) })
+{
+	const rule = readRecurrence(task.recurrence);
+	if (!rule) return null;
+	const plan = planNextOccurrence(rule, { dueDate: task.dueDate, completedAt: now }, now);
+	if (!plan) return null;
+	const workflow = await resolveWorkflow(dbApi, task.organizationId);
+	const created = await dbApi.advanceRecurrence(task, { dueDate: plan.dueDate, status: initialStatus(workflow) });
+	if (!created) return null;
+	const recurrence = { seriesId: created.seriesId, previousTaskId: task.id, reason, skipped: plan.skipped };
+	await auditLogger({
+		action: 'task.created',
+		entity: 'task',
+		entityId: created.id,
+		actorId,
+		organizationId: created.organizationId,
+		after: created,
+		metadata: { recurrence }
+	});
+	await auditLogger({
+		action: 'task.recurred',
+		entity: 'task',
+		entityId: task.id,
+		actorId,
+		organizationId: task.organizationId,
+		after: { nextTaskId: created.id, dueDate: created.dueDate },
+		metadata: { recurrence }
+	});
+	return created;
+}
+
+// Creates the occurrences whose date has arrived for open recurring tasks
+async function materializeDueOccurrences({ dbApi, auditLogger, now = Math.floor(Date.now() / 1000) })
+{
+	const created = [];
+	for (const task of await dbApi.listRecurringTasks())
+	{
+		const rule = readRecurrence(task.recurrence);
+		if (!isCalendarRule(rule) || task.closed) continue;
+		const plan = planNextOccurrence(rule, task, now);
+		if (!plan || plan.dueDate > now) continue;
+		const next = await materializeNextOccurrence({ dbApi, auditLogger, task, reason: 'scheduled', now });
+		if (next) created.push(next);
+	}
+	return created;
+}
+
+// Runs once at start, catching up on what came due while the server was down, then every minute
+function createRecurrenceScheduler({ dbApi, auditLogger, intervalMs = CHECK_INTERVAL_MS })
+{
+	const check = () => materializeDueOccurrences({ dbApi, auditLogger }).catch((err) => console.error('Recurring task check failed', err));
+	const timer = setInterval(check, intervalMs);
+	timer.unref();
+	return {
+		check,
+		stop: () => clearInterval(timer)
+	};
+}
+
+module.exports = {
+	FREQUENCIES,
+	parseRecurrence,
+	serializeRecurrence,
+	readRecurrence,
+	isCalendarRule,
+	describeRecurrence,
+	planNextOccurrence,
+	materializeNextOccurrence,
+	materializeDueOccurrences,
+	createRecurrenceScheduler
+};
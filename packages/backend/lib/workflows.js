@@ -0,0 +1,162 @@
+// Task workflows. An organization can define its own ordered statuses and the moves allowed between them; one
+// without a definition uses its nearest ancestor's, and DEFAULT_WORKFLOW applies when none has one. New tasks start
+// in the first status. A task in a terminal status counts as done: it no longer blocks other tasks, counts towards
+// its parent's progress and, when it repeats, creates its next occurrence. tasks.closed caches that flag so queries
+// don't need the workflow; refreshClosedFlags brings it up to date when the workflow that applies changes.
+//
+// Status: { key, label, color, terminal, wipLimit? }. wipLimit caps how many of an organization's tasks may be in
+// the status; a task entering it beyond that needs tasks:wip:override.
+// Transition: { from, to, permission? }. With no transitions every move is allowed; otherwise a status change needs
+// a matching transition, and the user needs its permission when it names one.
+
+const { getPermissionDefinition } = require('./permissions');
+
+const DEFAULT_WORKFLOW = {
+	statuses: [
+		{ key: 'todo', label: 'To do', color: '#94a3b8', terminal: false },
+		{ key: 'in_progress', label: 'In progress', color: '#3b82f6', terminal: false },
+		{ key: 'done', label: 'Done', color: '#22c55e', terminal: true }
+	],
+	transitions: []
+};
+
+const MAX_STATUSES = 20;
+const MAX_TRANSITIONS = 200;
+const MAX_WIP_LIMIT = 999;
+const STATUS_KEY = /^[a-z][a-z0-9_]{0,31}$/;
+const COLOR = /^#[0-9a-f]{6}$/i;
+
+function invalid(message)
+{
+	const err = new Error(message);
+	err.code = 'WORKFLOW_INVALID';
+	return err;
+}
+
+// Checks a workflow from a request and returns a normalized copy
+function normalizeWorkflowInput(body)
+{
+	const rawStatuses = body?.statuses;
+	if (!Array.isArray(rawStatuses) || rawStatuses.length === 0) throw invalid('statuses must list at least one status');
+	if (rawStatuses.length > MAX_STATUSES) throw invalid(`A workflow has at most ${MAX_STATUSES} statuses`);
+	const statuses = rawStatuses.map((raw, i) =>
+	{
+		const key = String(raw?.key || '').trim();
+		if (!STATUS_KEY.test(key)) throw invalid(`statuses[${i}].key must be lowercase letters, digits and _ (starting with a letter, at most 32)`);
+		const label = String(raw?.label || '').trim();
+		if (!label || label.length > 40) throw invalid(`statuses[${i}].label must be 1 to 40 characters`);
+		const color = String(raw?.color || '').trim().toLowerCase();
+		if (!COLOR.test(color)) throw invalid(`statuses[${i}].color must be a #rrggbb color`);
+		const wipLimit = raw?.wipLimit ?? null;
+		if (wipLimit !== null && !(Number.isInteger(wipLimit) && wipLimit >= 1 && wipLimit <= MAX_WIP_LIMIT))
+		{
+			throw invalid(`statuses[${i}].wipLimit must be a whole number from 1 to ${MAX_WIP_LIMIT}`);
+		}
+		return { key, label, color, terminal: raw?.terminal === true, ...(wipLimit ? { wipLimit } : {}) };
+	});
+	const keys = new Set();
+	for (const status of statuses)
+	{
+		if (keys.has(status.key)) throw invalid(`Status ${status.key} is listed twice`);
+		keys.add(status.key);
+	}
+	if (statuses[0].terminal) throw invalid('The first status is where new tasks start and cannot be terminal');
+	if (!statuses.some((s) => s.terminal)) throw invalid('At least one status must be terminal');
+
+	const rawTransitions = body?.transitions ?? [];
+	if (!Array.isArray(rawTransitions)) throw invalid('transitions must be a list');
+	if (rawTransitions.length > MAX_TRANSITIONS) throw invalid(`A workflow has at most ${MAX_TRANSITIONS} transitions`);
+	const seen = new Set();
+	const transitions = rawTransitions.map((raw, i) =>
+	{
+		const from = String(raw?.from || '');
+		const to = String(raw?.to || '');
+		if (!keys.has(from) || !keys.has(to)) throw invalid(`transitions[${i}] must go between statuses of the workflow`);
+		if (from === to) throw invalid(`transitions[${i}] must change the status`);
+		if (seen.has(`${from}>${to}`)) throw invalid(`The move from ${from} to ${to} is listed twice`);
+		seen.add(`${from}>${to}`);
+		const permission = raw?.permission ? String(raw.permission) : null;
+		if (permission && !getPermissionDefinition(permission)) throw invalid(`transitions[${i}]: unknown permission ${permission}`);
+		return { from, to, ...(permission ? { permission } : {}) };
+	});
+	return { statuses, transitions };
+}
+
+// remap from a request: { oldStatus: newStatus } for tasks whose status the workflow no longer has
+function normalizeRemap(raw, workflow)
+{
+	if (raw === undefined || raw === null) return {};
+	if (typeof raw !== 'object' || Array.isArray(raw)) throw invalid('remap must map old statuses to new ones');
+	const remap = {};
+	for (const [from, to] of Object.entries(raw))
+	{
+		if (!findStatus(workflow, to)) throw invalid(`remap.${from} must be a status of the workflow`);
+		if (!findStatus(workflow, from)) remap[from] = to;
+	}
+	return remap;
+}
+
+const findStatus = (workflow, key) => workflow.statuses.find((s) => s.key === key) || null;
+const isTerminal = (workflow, key) => Boolean(findStatus(workflow, key)?.terminal);
+const initialStatus = (workflow) => workflow.statuses[0].key;
+
+// Whether a task may move from one status to another: { allowed, permission } where permission, when set, is
+// what the user additionally needs
+function transitionFor(workflow, from, to)
+{
+	if (workflow.transitions.length === 0) return { allowed: true, permission: null };
+	const match = workflow.transitions.find((t) => t.from === from && t.to === to);
+	return match ? { allowed: true, permission: match.permission || null } : { allowed: false, permission: null };
+}
+
+// The workflow that applies in an organization; definedBy is the organization whose definition it is (null for
+// the default)
+async function resolveWorkflow(dbApi, organizationId)
+{
+	const visited = new Set();
+	let current = organizationId;
+	while (current && !visited.has(current))
+	{
+		visited.add(current);
+		const own = await dbApi.getWorkflow(current);
+		if (own) return { organizationId, definedBy: current, statuses: own.statuses, transitions: own.transitions };
+		current = (await dbApi.getOrganizationById(current))?.parent_id || null;
+	}
+	return { organizationId, definedBy: null, ...DEFAULT_WORKFLOW };
+}
+
+// The organization and the descendants that take their workflow from it (those without their own definition, and
+// below them)
+async function inheritingOrganizations(dbApi, organizationId)
+{
+	const ids = [organizationId];
+	for (let i = 0; i < ids.length; i++)
+	{
+		for (const child of await dbApi.getChildOrganizations(ids[i]))
+		{
+			if (!ids.includes(child.id) && !(await dbApi.getWorkflow(child.id))) ids.push(child.id);
+		}
+	}
+	return ids;
+}
+
+// Recomputes tasks.closed where the workflow of organizationId applies
+async function refreshClosedFlags(dbApi, organizationId)
+{
+	const workflow = await resolveWorkflow(dbApi, organizationId);
+	const terminal = workflow.statuses.filter((s) => s.terminal).map((s) => s.key);
+	await dbApi.setTaskClosedFlags(await inheritingOrganizations(dbApi, organizationId), terminal);
+}
+
+module.exports = {
+	DEFAULT_WORKFLOW,
+	normalizeWorkflowInput,
+	normalizeRemap,
+	findStatus,
+	isTerminal,
+	initialStatus,
+	transitionFor,
+	resolveWorkflow,
+	inheritingOrganizations,
+	refreshClosedFlags
+};
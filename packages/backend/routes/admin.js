@@ -1,26 +1,135 @@
 const express = require('express');
 const { ROLES } = require('../lib/database');
-const { PERMISSIONS } = require('../lib/rbac');
+const { PERMISSIONS, explainRolePermission, resolveRolePermission, resolveRoleChain, resolveOrgScopeForUser } = require('../lib/rbac');
+const { PERMISSION_GROUPS, PERMISSION_REGISTRY, assertKnownPermission, describePermissions } = require('../lib/permissions');
+const { createPermissionGuard } = require('../lib/auth');
+const { explainAccess, createSimulatedLookup } = require('../lib/explain');
+const { createOrganizationRouter } = require('./organizations');
+const { createPolicyRouter } = require('./policies');
+const { parseGrantWindow, grantStatus, sweepExpiredGrants } = require('../lib/grants');
+const { approvalMetadata } = require('../lib/approvals');
+const { createApprovalRouter } = require('./approvals');
+const { createBundleRouter } = require('./bundles');
 
-function createAdminRouter({ dbApi, auditLogger })
+function createAdminRouter({ dbApi, auditLogger, approvals })
 {
 	const router = express.Router();
 
-	// Access guard: owners always; others require admin:access dynamic permission
-	router.use(async (req, res, next) =>
+	// Access guard: owners always; others require admin:access
+	router.use(createPermissionGuard('admin:access'));
+
+	// Organization hierarchy management
+	router.use('/organizations', createOrganizationRouter({ dbApi, auditLogger }));
+
+	// Attribute-based task policies
+	router.use('/policies', createPolicyRouter({ dbApi, auditLogger }));
+
+	// Four-eyes approvals inbox
+	router.use('/approvals', createApprovalRouter({ dbApi, auditLogger, approvals }));
+
+	// RBAC configuration export / import as versioned bundles
+	router.use('/rbac', createBundleRouter({ dbApi, auditLogger, approvals }));
+
+	// Changes four-eyes mode can hold back. The routes below run these directly; an approval runs them later on
+	// the requester's behalf, with both users recorded in the audit metadata.
+	async function applyRoleDelete({ role }, context)
 	{
-		try
-		{
-			const user = req.auth?.user;
-			if (!user) return res.status(401).json({ error: 'Unauthenticated' });
-			if (user.role === ROLES.OWNER) return next();
-			const allowed = await dbApi.hasRolePermission({ organizationId: null, role: user.role, permission: 'admin:access' });
-			if (!allowed) return res.status(403).json({ error: 'Forbidden' });
-			next();
-		} catch (err)
-		{
-			next(err);
-		}
+		await dbApi.deleteRole(role);
+		await auditLogger({
+			action: 'role.deleted',
+			entity: 'role',
+			entityId: role,
+			actorId: context.actorId,
+			organizationId: context.organizationId,
+			metadata: approvalMetadata(context)
+		});
+	}
+
+	async function applyRolePermission({ role, permission, enabled, organizationId = null, startsAt = null, expiresAt = null }, context)
+	{
+		// An approval can arrive after the requested window has already run out
+		if (context.approval) parseGrantWindow({ startsAt, expiresAt });
+		await dbApi.setRolePermission({ organizationId, role, permission, enabled, startsAt, expiresAt });
+		await auditLogger({
+			action: 'permission.updated',
+			entity: 'role_permission',
+			entityId: `${role}:${permission}`,
+			actorId: context.actorId,
+			organizationId: organizationId || context.organizationId,
+			after: { role, permission, enabled, organizationId, startsAt, expiresAt },
+			metadata: approvalMetadata(context)
+		});
+		return { role, permission, enabled, organizationId, startsAt, expiresAt };
+	}
+
+	async function applyRolePermissionClear({ role, permission, organizationId = null }, context)
+	{
+		const removed = await dbApi.clearRolePermission({ organizationId, role, permission });
+		if (!removed) throw changeError(404, 'No override set');
+		await auditLogger({
+			action: 'permission.cleared',
+			entity: 'role_permission',
+			entityId: `${role}:${permission}`,
+			actorId: context.actorId,
+			organizationId: organizationId || context.organizationId,
+			before: { role, permission, organizationId },
+			metadata: approvalMetadata(context)
+		});
+		return { role, permission, organizationId, cleared: true };
+	}
+
+	async function applyUserDelete({ userId }, context)
+	{
+		const existing = await dbApi.getUserById(userId);
+		if (!existing) throw changeError(404, 'User not found');
+		await dbApi.deleteUser(userId);
+		await auditLogger({
+			action: 'user.deleted',
+			entity: 'user',
+			entityId: userId,
+			actorId: context.actorId,
+			organizationId: existing.organization_id,
+			before: maskUser(existing),
+			metadata: approvalMetadata(context)
+		});
+		return { userId, deleted: true };
+	}
+
+	async function applyUserUpdate({ userId, updates }, context)
+	{
+		const existing = await dbApi.getUserById(userId);
+		if (!existing) throw changeError(404, 'User not found');
+		const updated = await dbApi.upsertUser({ id: userId, ...existing, ...updates });
+		await auditLogger({
+			action: 'user.updated',
+			entity: 'user',
+			entityId: userId,
+			actorId: context.actorId,
+			organizationId: updated.organization_id,
+			before: maskUser(existing),
+			after: maskUser(updated),
+			metadata: approvalMetadata(context)
+		});
+		return sanitizeUser(updated);
+	}
+
+	approvals.register('role.delete', {
+		authorize: (auth) => auth.can('roles:delete'),
+		apply: applyRoleDelete,
+		describeError: describeRoleDeleteError
+	});
+	// Setting and clearing a role permission are gated together; a clear carries `clear: true` in its payload
+	approvals.register('permission.update', {
+		authorize: (auth) => auth.isOwner,
+		apply: (payload, context) => (payload.clear ? applyRolePermissionClear(payload, context) : applyRolePermission(payload, context)),
+		describeError: (err) => (err.code === 'GRANT_WINDOW_INVALID' ? { status: 409, error: err.message } : describeChangeError(err))
+	});
+	// Deleting a user takes them out as surely as deactivating them, so both wait under user.deactivate
+	approvals.register('user.deactivate', {
+		authorize: (auth, payload) => (auth.orgScope || []).includes(payload.organizationId),
+		apply: (payload, context) => (payload.delete ? applyUserDelete(payload, context) : applyUserUpdate(payload, context)),
+		describeError: describeChangeError,
+		preview: ({ updates, ...rest }) => (updates ? { ...rest, updates: { ...updates, password: updates.password ? '****' : undefined } } : rest)
 	});
 
 	// Users CRUD within org scope
@@ -28,10 +137,8 @@ function createAdminRouter({ dbApi, auditLogger })
 	{
 		try
 		{
-			const actor = req.auth?.user;
 			let users;
-			const canViewAll = actor?.role === ROLES.OWNER
-				|| (await dbApi.hasRolePermission({ organizationId: null, role: actor?.role, permission: 'users:view-all' }));
+			const canViewAll = await req.auth.can('users:view-all');
 			if (canViewAll)
 			{
 				users = await dbApi.listAllUsers();
@@ -40,9 +147,13 @@ function createAdminRouter({ dbApi, auditLogger })
 				const orgIds = req.auth?.orgScope || [];
 				users = await dbApi.listUsersForOrganizations(orgIds);
 			}
+			// Personal overrides are shown with each user, limited to the organizations the viewer can see
+			const scope = new Set(req.auth?.orgScope || []);
+			const overrides = (await dbApi.listPermissionOverrides()).filter((o) => o.organizationId == null || scope.has(o.organizationId));
 			const sanitized = (users || []).map((u) => ({
 				...u,
-				isActive: typeof u.isActive === 'boolean' ? u.isActive : u.isActive === 1
+				isActive: typeof u.isActive === 'boolean' ? u.isActive : u.isActive === 1,
+				overrides: overrides.filter((o) => o.userId === u.id)
 			}));
 			res.json({ users: sanitized });
 		} catch (err)
@@ -80,6 +191,11 @@ function createAdminRouter({ dbApi, auditLogger })
 					return res.status(400).json({ error: 'Invalid role' });
 				}
 			}
+			// The primary role is an assignment too, so the owner role takes an owner here as well
+			if (requestedRole === ROLES.OWNER && !req.auth.isOwner)
+			{
+				return res.status(403).json({ error: 'Owner required to assign the owner role' });
+			}
 			const created = await dbApi.upsertUser({
 				organizationId,
 				email: payload.email,
@@ -128,19 +244,29 @@ function createAdminRouter({ dbApi, auditLogger })
 						return res.status(400).json({ error: 'Invalid role' });
 					}
 				}
+				// Giving or taking away an owner primary role takes an owner, as for other assignments
+				if (requestedRole !== existing.role && (requestedRole === ROLES.OWNER || existing.role === ROLES.OWNER) && !req.auth.isOwner)
+				{
+					return res.status(403).json({ error: requestedRole === ROLES.OWNER ? 'Owner required to assign the owner role' : 'Owner required to remove the owner role' });
+				}
 				updates.role = requestedRole;
 			}
-			const updated = await dbApi.upsertUser({ id, ...existing, ...updates });
-			await auditLogger({
-				action: 'user.updated',
-				entity: 'user',
-				entityId: id,
-				actorId: req.auth?.user?.id,
-				organizationId: updated.organization_id,
-				before: maskUser(existing),
-				after: maskUser(updated)
-			});
-			res.json({ user: sanitizeUser(updated) });
+			// In four-eyes mode a deactivation waits for a second user, together with the rest of the edit. A new
+			// password can't wait with it: the request would keep it in clear text until someone decides.
+			if (updates.isActive === false && existing.is_active !== 0 && approvals.isRequired('user.deactivate'))
+			{
+				if (updates.password)
+				{
+					return res.status(400).json({ error: 'Set the password in a separate edit; a deactivation waiting for approval cannot carry it' });
+				}
+				const request = await approvals.submit(req.auth, 'user.deactivate', { userId: id, organizationId: existing.organization_id, updates }, {
+					summary: `Deactivate user ${existing.email}`,
+					organizationId: existing.organization_id
+				});
+				return res.status(202).json({ pending: true, request });
+			}
+			const user = await applyUserUpdate({ userId: id, updates }, { actorId: req.auth?.user?.id });
+			res.json({ user });
 		} catch (err)
 		{
 			next(err);
@@ -159,17 +285,241 @@ function createAdminRouter({ dbApi, auditLogger })
 			{
 				return res.status(403).json({ error: 'Organization not in scope' });
 			}
-			await dbApi.deleteUser(id);
+			if (approvals.isRequired('user.deactivate'))
+			{
+				const request = await approvals.submit(req.auth, 'user.deactivate', { userId: id, organizationId: existing.organization_id, delete: true }, {
+					summary: `Delete user ${existing.email}`,
+					organizationId: existing.organization_id
+				});
+				return res.status(202).json({ pending: true, request });
+			}
+			await applyUserDelete({ userId: id }, { actorId: req.auth?.user?.id });
+			res.status(204).send();
+		} catch (err)
+		{
+			next(err);
+		}
+	});
+
+	// Role assignments: every (role, organization) pair a user holds. The primary one mirrors the user's role.
+	router.get('/users/:id/roles', async (req, res, next) =>
+	{
+		try
+		{
+			const existing = await dbApi.getUserById(req.params.id);
+			if (!existing) return res.status(404).json({ error: 'User not found' });
+			if (!new Set(req.auth?.orgScope || []).has(existing.organization_id))
+			{
+				return res.status(403).json({ error: 'Organization not in scope' });
+			}
+			const assignments = await dbApi.listUserRoleAssignments(existing.id);
+			res.json({ assignments: assignments.map((a) => describeAssignment(a, existing)) });
+		}
+		catch (err)
+		{
+			next(err);
+		}
+	});
+
+	router.post('/users/:id/roles', async (req, res, next) =>
+	{
+		try
+		{
+			const existing = await dbApi.getUserById(req.params.id);
+			if (!existing) return res.status(404).json({ error: 'User not found' });
+			const orgScope = new Set(req.auth?.orgScope || []);
+			if (!orgScope.has(existing.organization_id))
+			{
+				return res.status(403).json({ error: 'Organization not in scope' });
+			}
+			const roleName = String(req.body?.role || '').trim().toLowerCase();
+			const organizationId = req.body?.organizationId;
+			if (!roleName) return res.status(400).json({ error: 'role is required' });
+			if (!organizationId || !orgScope.has(organizationId))
+			{
+				return res.status(403).json({ error: 'Organization not in scope' });
+			}
+			const role = await dbApi.getRoleByName(roleName);
+			if (!role) return res.status(400).json({ error: 'Invalid role' });
+			// An owner assignment reaches every organization, so only owners may hand it out
+			if (role.name === ROLES.OWNER && !req.auth.isOwner)
+			{
+				return res.status(403).json({ error: 'Owner required to assign the owner role' });
+			}
+			const created = await dbApi.addUserRoleAssignment({ userId: existing.id, role: role.name, organizationId });
 			await auditLogger({
-				action: 'user.deleted',
+				action: 'user.role_assigned',
 				entity: 'user',
-				entityId: id,
+				entityId: existing.id,
 				actorId: req.auth?.user?.id,
-				organizationId: existing.organization_id,
-				before: maskUser(existing)
+				organizationId,
+				after: { assignmentId: created.id, role: created.role, organizationId }
+			});
+			res.status(201).json({ assignment: describeAssignment(created, existing) });
+		}
+		catch (err)
+		{
+			if (err.code === 'ASSIGNMENT_EXISTS') return res.status(409).json({ error: err.message });
+			next(err);
+		}
+	});
+
+	router.delete('/users/:id/roles/:assignmentId', async (req, res, next) =>
+	{
+		try
+		{
+			const existing = await dbApi.getUserById(req.params.id);
+			if (!existing) return res.status(404).json({ error: 'User not found' });
+			const orgScope = new Set(req.auth?.orgScope || []);
+			const assignment = await dbApi.getUserRoleAssignment(req.params.assignmentId);
+			if (!assignment || assignment.userId !== existing.id) return res.status(404).json({ error: 'Assignment not found' });
+			if (!orgScope.has(existing.organization_id) || !orgScope.has(assignment.organizationId))
+			{
+				return res.status(403).json({ error: 'Organization not in scope' });
+			}
+			if (assignment.role === ROLES.OWNER && !req.auth.isOwner)
+			{
+				return res.status(403).json({ error: 'Owner required to remove the owner role' });
+			}
+			await dbApi.removeUserRoleAssignment(assignment.id);
+			await auditLogger({
+				action: 'user.role_unassigned',
+				entity: 'user',
+				entityId: existing.id,
+				actorId: req.auth?.user?.id,
+				organizationId: assignment.organizationId,
+				before: { assignmentId: assignment.id, role: assignment.role, organizationId: assignment.organizationId }
 			});
 			res.status(204).send();
-		} catch (err)
+		}
+		catch (err)
+		{
+			if (err.code === 'ASSIGNMENT_PRIMARY') return res.status(400).json({ error: err.message });
+			next(err);
+		}
+	});
+
+	// Per-user permission overrides. Changing one needs users:permissions:override in the organization it applies
+	// to (overrides for every organization are owner only), and an allow can only hand out what the actor holds.
+	async function loadOverrideTarget(req, res)
+	{
+		const existing = await dbApi.getUserById(req.params.id);
+		if (!existing)
+		{
+			res.status(404).json({ error: 'User not found' });
+			return null;
+		}
+		if (!new Set(req.auth?.orgScope || []).has(existing.organization_id))
+		{
+			res.status(403).json({ error: 'Organization not in scope' });
+			return null;
+		}
+		return existing;
+	}
+
+	async function canOverride(req, organizationId)
+	{
+		if (!organizationId) return req.auth.isOwner;
+		return (req.auth.orgScope || []).includes(organizationId) && req.auth.can('users:permissions:override', { organizationId });
+	}
+
+	router.get('/users/:id/overrides', async (req, res, next) =>
+	{
+		try
+		{
+			const existing = await loadOverrideTarget(req, res);
+			if (!existing) return;
+			const scope = new Set(req.auth?.orgScope || []);
+			const overrides = (await dbApi.listUserPermissionOverrides(existing.id)).filter((o) => o.organizationId == null || scope.has(o.organizationId));
+			res.json({ overrides });
+		}
+		catch (err)
+		{
+			next(err);
+		}
+	});
+
+	// Sets (or replaces) the override for one permission in one organization; organizationId null means everywhere
+	router.put('/users/:id/overrides', async (req, res, next) =>
+	{
+		try
+		{
+			const actor = req.auth.user;
+			const existing = await loadOverrideTarget(req, res);
+			if (!existing) return;
+			const { permission, effect, reason } = req.body || {};
+			const organizationId = typeof req.body?.organizationId === 'string' && req.body.organizationId ? req.body.organizationId : null;
+			if (!PERMISSIONS[permission]) return res.status(400).json({ error: `Unknown permission: ${permission}` });
+			if (!['allow', 'deny'].includes(effect)) return res.status(400).json({ error: 'effect must be allow or deny' });
+			if (!(await canOverride(req, organizationId)))
+			{
+				return res.status(403).json({ error: 'Forbidden', permission: 'users:permissions:override' });
+			}
+			if (existing.id === actor.id) return res.status(400).json({ error: 'You cannot override your own permissions' });
+			const assignments = await dbApi.listUserRoleAssignments(existing.id);
+			if (existing.role === ROLES.OWNER || assignments.some((a) => a.role === ROLES.OWNER))
+			{
+				return res.status(400).json({ error: 'Owners hold every permission; overrides do not apply to them' });
+			}
+			if (organizationId && !resolveOrgScopeForUser(existing, req.auth.organizations, assignments).has(organizationId))
+			{
+				return res.status(400).json({ error: 'Organization is outside the user\'s scope' });
+			}
+			if (effect === 'allow' && !(await req.auth.can(permission, { organizationId: organizationId || actor.organization_id })))
+			{
+				return res.status(403).json({ error: `You do not hold ${permission}`, permission });
+			}
+			const previous = (await dbApi.listUserPermissionOverrides(existing.id))
+				.find((o) => o.permission === permission && (o.organizationId || null) === organizationId) || null;
+			const saved = await dbApi.setUserPermissionOverride({
+				userId: existing.id,
+				organizationId,
+				permission,
+				effect,
+				reason: typeof reason === 'string' && reason.trim() ? reason.trim() : null,
+				createdBy: actor.id
+			});
+			await auditLogger({
+				action: 'user.permission_override_set',
+				entity: 'user',
+				entityId: existing.id,
+				actorId: actor.id,
+				organizationId: organizationId || existing.organization_id,
+				before: previous,
+				after: saved
+			});
+			res.status(previous ? 200 : 201).json({ override: saved });
+		}
+		catch (err)
+		{
+			next(err);
+		}
+	});
+
+	router.delete('/users/:id/overrides/:overrideId', async (req, res, next) =>
+	{
+		try
+		{
+			const existing = await loadOverrideTarget(req, res);
+			if (!existing) return;
+			const override = await dbApi.getPermissionOverrideById(req.params.overrideId);
+			if (!override || override.userId !== existing.id) return res.status(404).json({ error: 'Override not found' });
+			if (!(await canOverride(req, override.organizationId)))
+			{
+				return res.status(403).json({ error: 'Forbidden', permission: 'users:permissions:override' });
+			}
+			await dbApi.removePermissionOverride(override.id);
+			await auditLogger({
+				action: 'user.permission_override_removed',
+				entity: 'user',
+				entityId: existing.id,
+				actorId: req.auth.user.id,
+				organizationId: override.organizationId || existing.organization_id,
+				before: override
+			});
+			res.status(204).send();
+		}
+		catch (err)
 		{
 			next(err);
 		}
@@ -181,7 +531,7 @@ function createAdminRouter({ dbApi, auditLogger })
 		try
 		{
 			const user = req.auth?.user;
-			const enabled = await dbApi.hasRolePermission({ organizationId: null, role: ROLES.ADMIN, permission: 'admin:access' });
+			const enabled = await resolveRolePermission(dbApi, ROLES.ADMIN, 'admin:access', null);
 			res.json({ enabled, role: ROLES.ADMIN, permission: 'admin:access', scope: 'global' });
 		} catch (err)
 		{
@@ -194,17 +544,17 @@ function createAdminRouter({ dbApi, auditLogger })
 		try
 		{
 			const actor = req.auth?.user;
-			if (actor.role !== ROLES.OWNER) return res.status(403).json({ error: 'Owner required' });
+			if (!req.auth.isOwner) return res.status(403).json({ error: 'Owner required' });
 			const enabled = Boolean(req.body?.enabled);
-			await dbApi.setRolePermission({ organizationId: null, role: ROLES.ADMIN, permission: 'admin:access', enabled });
-			await auditLogger({
-				action: 'permission.updated',
-				entity: 'role_permission',
-				entityId: `${ROLES.ADMIN}:admin:access`,
-				actorId: actor.id,
-				organizationId: actor.organization_id,
-				after: { role: ROLES.ADMIN, permission: 'admin:access', enabled }
-			});
+			const change = { role: ROLES.ADMIN, permission: 'admin:access', enabled, organizationId: null };
+			if (approvals.isRequired('permission.update'))
+			{
+				const request = await approvals.submit(req.auth, 'permission.update', change, {
+					summary: `${enabled ? 'Enable' : 'Disable'} Admin access for ${ROLES.ADMIN}`
+				});
+				return res.status(202).json({ pending: true, request });
+			}
+			await applyRolePermission(change, { actorId: actor.id, organizationId: actor.organization_id });
 			res.json({ enabled });
 		} catch (err)
 		{
@@ -212,13 +562,100 @@ function createAdminRouter({ dbApi, auditLogger })
 		}
 	});
 
+	router.get('/permissions/catalog', async (req, res, next) =>
+	{
+		try
+		{
+			if (!(await req.auth.can('roles:view'))) return res.status(403).json({ error: 'Forbidden' });
+			res.json({ permissions: Object.keys(PERMISSIONS), definitions: describePermissions(), groups: PERMISSION_GROUPS });
+		}
+		catch (err)
+		{
+			next(err);
+		}
+	});
+
+	// Explain why a user (or a role within an organization) is allowed or denied an action, optionally
+	// alongside the outcome after a set of proposed role permission changes. Nothing is saved.
+	router.post('/permissions/explain', async (req, res, next) =>
+	{
+		try
+		{
+			if (!(await req.auth.can('roles:view'))) return res.status(403).json({ error: 'Forbidden' });
+			const body = req.body || {};
+			const orgScope = new Set(req.auth?.orgScope || []);
+			const permission = typeof body.permission === 'string' ? body.permission.trim() : '';
+			if (!permission) return res.status(400).json({ error: 'permission is required' });
+
+			let subject;
+			if (typeof body.userId === 'string' && body.userId)
+			{
+				const user = await dbApi.getUserById(body.userId);
+				if (!user) return res.status(404).json({ error: 'User not found' });
+				if (!orgScope.has(user.organization_id)) return res.status(403).json({ error: 'Organization not in scope' });
+				subject = { user };
+			}
+			else if (typeof body.role === 'string' && body.role)
+			{
+				const role = await dbApi.getRoleByName(body.role.trim().toLowerCase());
+				if (!role) return res.status(404).json({ error: 'Role not found' });
+				const organizationId = body.organizationId || req.auth.user.organization_id;
+				if (!orgScope.has(organizationId)) return res.status(403).json({ error: 'Organization not in scope' });
+				subject = { role: role.name, organizationId };
+			}
+			else
+			{
+				return res.status(400).json({ error: 'userId or role is required' });
+			}
+
+			const resource = body.resource && typeof body.resource === 'object' && body.resource.type
+				? { type: String(body.resource.type), id: String(body.resource.id || '') }
+				: null;
+			const changes = Array.isArray(body.changes) ? body.changes : [];
+			for (const change of changes)
+			{
+				if (!change || typeof change.role !== 'string' || typeof change.permission !== 'string'
+					|| !(typeof change.enabled === 'boolean' || change.enabled === null))
+				{
+					return res.status(400).json({ error: 'Each change needs role, permission and enabled (true, false or null)' });
+				}
+			}
+
+			const decision = await explainAccess(dbApi, { subject, permission, resource });
+			const response = {
+				subject: subject.user ? { userId: subject.user.id, role: subject.user.role, organizationId: subject.user.organization_id } : subject,
+				permission,
+				resource,
+				decision
+			};
+			if (changes.length > 0)
+			{
+				const normalized = changes.map((c) => ({
+					role: c.role.trim().toLowerCase(),
+					permission: c.permission.trim(),
+					organizationId: c.organizationId || null,
+					enabled: c.enabled
+				}));
+				const lookup = await createSimulatedLookup(dbApi, normalized);
+				response.simulated = await explainAccess(dbApi, { subject, permission, resource, lookup });
+				response.changed = response.simulated.allowed !== decision.allowed;
+			}
+			res.json(response);
+		}
+		catch (err)
+		{
+			if (err.code === 'RESOURCE_NOT_FOUND') return res.status(404).json({ error: err.message });
+			if (err.code === 'RESOURCE_INVALID') return res.status(400).json({ error: err.message });
+			next(err);
+		}
+	});
+
 	// Roles catalog CRUD (owner required for create/update/delete)
 	router.get('/roles', async (req, res, next) =>
 	{
 		try
 		{
-			const actor = req.auth?.user;
-			const canViewRoles = actor?.role === ROLES.OWNER || (await dbApi.hasRolePermission({ organizationId: null, role: actor?.role, permission: 'roles:view' }));
+			const canViewRoles = await req.auth.can('roles:view');
 			if (!canViewRoles) return res.status(403).json({ error: 'Forbidden' });
 			const roles = await dbApi.listRoles();
 			res.json({ roles });
@@ -233,11 +670,11 @@ function createAdminRouter({ dbApi, auditLogger })
 		try
 		{
 			const actor = req.auth?.user;
-			const canCreate = actor?.role === ROLES.OWNER || (await dbApi.hasRolePermission({ organizationId: null, role: actor?.role, permission: 'roles:create' }));
+			const canCreate = await req.auth.can('roles:create');
 			if (!canCreate) return res.status(403).json({ error: 'Forbidden' });
-			const { name, description } = req.body || {};
+			const { name, description, parentRole } = req.body || {};
 			if (!name || typeof name !== 'string') return res.status(400).json({ error: 'Invalid role name' });
-			const created = await dbApi.createRole({ name, description });
+			const created = await dbApi.createRole({ name, description, parentRole: typeof parentRole === 'string' ? parentRole : null });
 			await auditLogger({
 				action: 'role.created',
 				entity: 'role',
@@ -253,6 +690,8 @@ function createAdminRouter({ dbApi, auditLogger })
 			{
 				return res.status(409).json({ error: 'Role already exists' });
 			}
+			if (err.code === 'ROLE_CYCLE') return res.status(409).json({ error: err.message });
+			if (err.message === 'Parent role not found' || err.message === 'Roles cannot extend owner') return res.status(400).json({ error: err.message });
 			next(err);
 		}
 	});
@@ -262,10 +701,12 @@ function createAdminRouter({ dbApi, auditLogger })
 		try
 		{
 			const actor = req.auth?.user;
-			const canUpdate = actor?.role === ROLES.OWNER || (await dbApi.hasRolePermission({ organizationId: null, role: actor?.role, permission: 'roles:update' }));
+			const canUpdate = await req.auth.can('roles:update');
 			if (!canUpdate) return res.status(403).json({ error: 'Forbidden' });
 			const { name, description } = req.body || {};
-			const updated = await dbApi.updateRole(req.params.name, { name, description });
+			// parentRole: string sets the parent, null detaches, absent leaves it unchanged
+			const parentRole = req.body && 'parentRole' in req.body ? (req.body.parentRole || null) : undefined;
+			const updated = await dbApi.updateRole(req.params.name, { name, description, parentRole });
 			await auditLogger({
 				action: 'role.updated',
 				entity: 'role',
@@ -279,6 +720,8 @@ function createAdminRouter({ dbApi, auditLogger })
 		{
 			if (err.message === 'Role not found') return res.status(404).json({ error: 'Role not found' });
 			if (err.message === 'Cannot modify system role') return res.status(400).json({ error: 'Cannot modify system role' });
+			if (err.code === 'ROLE_CYCLE') return res.status(409).json({ error: err.message });
+			if (err.message === 'Parent role not found' || err.message === 'Roles cannot extend owner') return res.status(400).json({ error: err.message });
 			if (String(err.message || '').toLowerCase().includes('unique'))
 			{
 				return res.status(409).json({ error: 'Role name already exists' });
@@ -292,57 +735,71 @@ function createAdminRouter({ dbApi, auditLogger })
 		try
 		{
 			const actor = req.auth?.user;
-			const canDelete = actor?.role === ROLES.OWNER || (await dbApi.hasRolePermission({ organizationId: null, role: actor?.role, permission: 'roles:delete' }));
+			const canDelete = await req.auth.can('roles:delete');
 			if (!canDelete) return res.status(403).json({ error: 'Forbidden' });
-			await dbApi.deleteRole(req.params.name);
-			await auditLogger({
-				action: 'role.deleted',
-				entity: 'role',
-				entityId: req.params.name,
-				actorId: actor.id,
-				organizationId: actor.organization_id
-			});
+			if (approvals.isRequired('role.delete'))
+			{
+				const role = await dbApi.getRoleByName(req.params.name);
+				if (!role) return res.status(404).json({ error: 'Role not found' });
+				if (role.isSystem) return res.status(400).json({ error: 'Cannot delete system role' });
+				const request = await approvals.submit(req.auth, 'role.delete', { role: role.name }, { summary: `Delete role ${role.name}` });
+				return res.status(202).json({ pending: true, request });
+			}
+			await applyRoleDelete({ role: req.params.name }, { actorId: actor.id, organizationId: actor.organization_id });
 			res.status(204).send();
 		} catch (err)
 		{
-			if (err.message === 'Role not found') return res.status(404).json({ error: 'Role not found' });
-			if (err.message === 'Cannot delete system role') return res.status(400).json({ error: 'Cannot delete system role' });
-			if (err.code === 'ROLE_IN_USE') return res.status(409).json({ error: 'Role in use by users' });
+			const mapped = describeRoleDeleteError(err);
+			if (mapped) return res.status(mapped.status).json({ error: mapped.error });
 			next(err);
 		}
 	});
 
-	// Role permissions (owner required for mutations)
+	// Role permissions (owner required for mutations).
+	// Without ?organizationId the global settings are returned; with it, organization rows override the global ones.
 	router.get('/roles/:name/permissions', async (req, res, next) =>
 	{
 		try
 		{
-			const actor = req.auth?.user;
-			const canViewRoles = actor?.role === ROLES.OWNER || (await dbApi.hasRolePermission({ organizationId: null, role: actor?.role, permission: 'roles:view' }));
+			const canViewRoles = await req.auth.can('roles:view');
 			if (!canViewRoles) return res.status(403).json({ error: 'Forbidden' });
 			const roleName = String(req.params.name || '').trim().toLowerCase();
 			const role = await dbApi.getRoleByName(roleName);
 			if (!role) return res.status(404).json({ error: 'Role not found' });
-			const catalog = Array.from(new Set(['admin:access', ...Object.keys(PERMISSIONS || {})]));
-			const all = await dbApi.listRolePermissions({ organizationId: null });
-			const current = (all || []).filter((r) => (r.role || '').toLowerCase() === roleName && r.organizationId == null);
-			const permissions = catalog.map((key) =>
-			{
-				const found = current.find((r) => r.permission === key);
-				let enabled;
-				if (roleName === ROLES.OWNER)
-				{
-					enabled = true;
-				} else if (roleName === ROLES.ADMIN)
-				{
-					enabled = found ? Boolean(found.enabled) : true; // default to enabled when unspecified
-				} else
-				{
-					enabled = found ? Boolean(found.enabled) : false; // default disabled for other roles
-				}
-				return { permission: key, enabled };
+			const organizationId = typeof req.query.organizationId === 'string' && req.query.organizationId ? req.query.organizationId : null;
+			if (organizationId && !new Set(req.auth?.orgScope || []).has(organizationId))
+			{
+				return res.status(403).json({ error: 'Organization not in scope' });
+			}
+			const catalog = Object.keys(PERMISSIONS);
+			const all = await dbApi.listRolePermissions({ organizationId });
+			const now = Math.floor(Date.now() / 1000);
+			// Rows outside their time window don't apply right now, but the pending/expired window is still reported
+			const current = (all || []).filter((r) => (r.role || '').toLowerCase() === roleName && grantStatus(r, now) === 'active');
+			const timed = (all || []).filter((r) => (r.role || '').toLowerCase() === roleName && (r.startsAt != null || r.expiresAt != null));
+			// Effective values come from the same resolver the guards use
+			const chain = await resolveRoleChain(dbApi, roleName);
+			const permissions = await Promise.all(catalog.map(async (key) =>
+			{
+				const orgRow = organizationId ? current.find((r) => r.permission === key && r.organizationId === organizationId) : null;
+				const globalRow = current.find((r) => r.permission === key && r.organizationId == null);
+				const enabled = await resolveRolePermission(dbApi, roleName, key, organizationId, { chain });
+				const source = orgRow ? 'organization' : globalRow ? 'global' : 'default';
+				const window = timed.find((r) => r.permission === key && r.organizationId === (organizationId || null));
+				return window
+					? { permission: key, enabled, source, startsAt: window.startsAt, expiresAt: window.expiresAt, status: grantStatus(window, now) }
+					: { permission: key, enabled, source };
+			}));
+			res.json({
+				role: role.name,
+				inherits: chain.slice(1),
+				permissions,
+				catalog,
+				definitions: describePermissions(),
+				groups: PERMISSION_GROUPS,
+				scope: organizationId ? 'organization' : 'global',
+				organizationId
 			});
-			res.json({ role: role.name, permissions, catalog, scope: 'global' });
 		} catch (err)
 		{
 			next(err);
@@ -354,25 +811,129 @@ function createAdminRouter({ dbApi, auditLogger })
 		try
 		{
 			const actor = req.auth?.user;
-			if (actor.role !== ROLES.OWNER) return res.status(403).json({ error: 'Owner required' });
+			if (!req.auth.isOwner) return res.status(403).json({ error: 'Owner required' });
 			const roleName = String(req.params.name || '').trim().toLowerCase();
 			const role = await dbApi.getRoleByName(roleName);
 			if (!role) return res.status(404).json({ error: 'Role not found' });
 			if (role.name === ROLES.OWNER) return res.status(400).json({ error: 'Cannot modify owner permissions' });
 			const permission = String(req.params.permission || '').trim();
+			const definition = assertKnownPermission(permission);
 			const enabled = Boolean(req.body?.enabled);
-			await dbApi.setRolePermission({ organizationId: null, role: role.name, permission, enabled });
-			await auditLogger({
-				action: 'permission.updated',
-				entity: 'role_permission',
-				entityId: `${role.name}:${permission}`,
-				actorId: actor.id,
-				organizationId: actor.organization_id,
-				after: { role: role.name, permission, enabled }
-			});
-			res.json({ role: role.name, permission, enabled });
+			const organizationId = typeof req.body?.organizationId === 'string' && req.body.organizationId ? req.body.organizationId : null;
+			// Optional window: the change is stored as a timed grant that outranks the permanent row for the same key
+			// while it lasts; afterwards the permanent row (or the next level when there is none) decides again
+			const { startsAt, expiresAt } = parseGrantWindow(req.body);
+			const organization = organizationId ? await dbApi.getOrganizationById(organizationId) : null;
+			if (organizationId && !organization)
+			{
+				return res.status(404).json({ error: 'Organization not found' });
+			}
+			// A permission is only enabled where the role already holds everything it depends on, and only disabled
+			// where nothing the role holds depends on it. Field permissions that merely follow this one go off with it.
+			const chain = await resolveRoleChain(dbApi, role.name);
+			if (enabled)
+			{
+				const missing = [];
+				for (const dependency of definition.requires)
+				{
+					if (!(await resolveRolePermission(dbApi, role.name, dependency, organizationId, { chain }))) missing.push(dependency);
+				}
+				if (missing.length > 0)
+				{
+					return res.status(400).json({ error: `${permission} requires ${missing.join(', ')}`, missing });
+				}
+			}
+			else
+			{
+				const dependents = [];
+				for (const candidate of PERMISSION_REGISTRY.filter((p) => p.requires.includes(permission)))
+				{
+					const { allowed, trace } = await explainRolePermission(dbApi, role.name, candidate.id, organizationId, { chain });
+					if (allowed && !trace.some((step) => step.step === 'fallback')) dependents.push(candidate.id);
+				}
+				if (dependents.length > 0)
+				{
+					return res.status(409).json({ error: `${dependents.join(', ')} still ${dependents.length === 1 ? 'requires' : 'require'} ${permission}`, dependents });
+				}
+			}
+			const change = { role: role.name, permission, enabled, organizationId, startsAt, expiresAt };
+			if (approvals.isRequired('permission.update'))
+			{
+				const request = await approvals.submit(req.auth, 'permission.update', change, {
+					summary: `${enabled ? 'Enable' : 'Disable'} ${permission} for ${role.name}${organization ? ` in ${organization.name}` : ''}`,
+					organizationId
+				});
+				return res.status(202).json({ pending: true, request });
+			}
+			res.json(await applyRolePermission(change, { actorId: actor.id, organizationId: actor.organization_id }));
+		}
+		catch (err)
+		{
+			if (err.code === 'GRANT_WINDOW_INVALID' || err.code === 'PERMISSION_UNKNOWN') return res.status(400).json({ error: err.message });
+			next(err);
+		}
+	});
+
+	// Time-bound role permissions and delegations in scope, with their current status. Runs the expiry sweep first
+	// so anything that lapsed since the last tick is already in the audit log.
+	router.get('/grants', async (req, res, next) =>
+	{
+		try
+		{
+			const canViewRoles = await req.auth.can('roles:view');
+			if (!canViewRoles) return res.status(403).json({ error: 'Forbidden' });
+			await sweepExpiredGrants({ dbApi, auditLogger });
+			const scope = new Set(req.auth?.orgScope || []);
+			const now = Math.floor(Date.now() / 1000);
+			const rolePermissions = (await dbApi.listTimedRolePermissions())
+				.filter((r) => (r.organizationId ? scope.has(r.organizationId) : req.auth.isOwner))
+				.map((r) => ({ ...r, enabled: r.enabled === 1, status: grantStatus(r, now) }));
+			const delegations = (await dbApi.listDelegations())
+				.filter((d) => scope.has(d.organizationId))
+				.map((d) => ({ ...d, status: grantStatus(d, now) }));
+			res.json({ rolePermissions, delegations });
+		}
+		catch (err)
+		{
+			next(err);
+		}
+	});
+
+	// Remove an override, along with any timed grant for it, so the permission falls back to the global setting (or
+	// the default for global rows)
+	router.delete('/roles/:name/permissions/:permission', async (req, res, next) =>
+	{
+		try
+		{
+			const actor = req.auth?.user;
+			if (!req.auth.isOwner) return res.status(403).json({ error: 'Owner required' });
+			const roleName = String(req.params.name || '').trim().toLowerCase();
+			const role = await dbApi.getRoleByName(roleName);
+			if (!role) return res.status(404).json({ error: 'Role not found' });
+			if (role.name === ROLES.OWNER) return res.status(400).json({ error: 'Cannot modify owner permissions' });
+			const permission = String(req.params.permission || '').trim();
+			const organizationId = typeof req.query.organizationId === 'string' && req.query.organizationId ? req.query.organizationId : null;
+			const change = { role: role.name, permission, organizationId, clear: true };
+			if (approvals.isRequired('permission.update'))
+			{
+				const rows = await dbApi.listRolePermissions({ organizationId });
+				if (!rows.some((r) => r.role === role.name && r.permission === permission && (r.organizationId || null) === organizationId))
+				{
+					return res.status(404).json({ error: 'No override set' });
+				}
+				const organization = organizationId ? await dbApi.getOrganizationById(organizationId) : null;
+				const request = await approvals.submit(req.auth, 'permission.update', change, {
+					summary: `Reset ${permission} for ${role.name}${organization ? ` in ${organization.name}` : ''}`,
+					organizationId
+				});
+				return res.status(202).json({ pending: true, request });
+			}
+			await applyRolePermissionClear(change, { actorId: actor.id, organizationId: actor.organization_id });
+			res.status(204).send();
 		} catch (err)
 		{
+			const mapped = describeChangeError(err);
+			if (mapped) return res.status(mapped.status).json({ error: mapped.error });
 			next(err);
 		}
 	});
@@ -380,6 +941,28 @@ function createAdminRouter({ dbApi, auditLogger })
 	return router;
 }
 
+function changeError(status, message)
+{
+	const err = new Error(message);
+	err.code = 'CHANGE_FAILED';
+	err.status = status;
+	return err;
+}
+
+function describeChangeError(err)
+{
+	return err.code === 'CHANGE_FAILED' ? { status: err.status, error: err.message } : null;
+}
+
+function describeRoleDeleteError(err)
+{
+	if (err.message === 'Role not found') return { status: 404, error: 'Role not found' };
+	if (err.message === 'Cannot delete system role') return { status: 400, error: 'Cannot delete system role' };
+	if (err.code === 'ROLE_IN_USE') return { status: 409, error: 'Role in use by users' };
+	if (err.code === 'ROLE_HAS_CHILDREN') return { status: 409, error: 'Role is extended by other roles' };
+	return null;
+}
+
 function sanitizeUser(u)
 {
 	return {
@@ -392,6 +975,17 @@ function sanitizeUser(u)
 	};
 }
 
+function describeAssignment(a, user)
+{
+	return {
+		id: a.id,
+		role: a.role,
+		organizationId: a.organizationId,
+		primary: a.role === user.role && a.organizationId === user.organization_id,
+		createdAt: a.createdAt
+	};
+}
+
 function sanitizeUserUpdate(body)
 {
 	const out = {};
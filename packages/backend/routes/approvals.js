@@ -0,0 +1,144 @@
+const express = require('express');
+const { APPROVAL_ACTIONS } = require('../lib/approvals');
+
+function createApprovalRouter({ dbApi, auditLogger, approvals })
+{
+	const router = express.Router();
+
+	// Inbox: requests the user filed plus those they may decide, newest first
+	router.get('/', async (req, res, next) =>
+	{
+		try
+		{
+			const userId = req.auth.user.id;
+			const requests = await dbApi.listChangeRequests({ status: req.query.status || undefined });
+			const visible = [];
+			for (const request of requests)
+			{
+				const reviewer = await approvals.canReview(req.auth, request);
+				if (request.requestedBy !== userId && !reviewer) continue;
+				const pending = request.status === 'pending';
+				visible.push({ ...approvals.present(request), canDecide: pending && reviewer, canCancel: pending && request.requestedBy === userId });
+			}
+			res.json({ requests: visible, actions: APPROVAL_ACTIONS, enabled: approvals.enabledActions() });
+		}
+		catch (err)
+		{
+			next(err);
+		}
+	});
+
+	// Approve and apply. The request is claimed first so a concurrent decision can't apply it twice; if applying
+	// fails it goes back to pending.
+	router.post('/:id/approve', async (req, res, next) =>
+	{
+		try
+		{
+			const actor = req.auth.user;
+			const request = await dbApi.getChangeRequestById(req.params.id);
+			if (!request) return res.status(404).json({ error: 'Change request not found' });
+			if (request.status !== 'pending') return res.status(409).json({ error: `Change request is already ${request.status}` });
+			if (request.requestedBy === actor.id) return res.status(403).json({ error: 'A second user must approve this change' });
+			if (!(await approvals.canReview(req.auth, request))) return res.status(403).json({ error: 'Forbidden' });
+			const note = typeof req.body?.note === 'string' && req.body.note.trim() ? req.body.note.trim() : null;
+			const claimed = await dbApi.decideChangeRequest(request.id, { status: 'approved', decidedBy: actor.id, note });
+			if (!claimed) return res.status(409).json({ error: 'Change request was decided by someone else' });
+			const handler = approvals.handlerFor(request.action);
+			const context = {
+				actorId: request.requestedBy,
+				organizationId: request.organizationId,
+				approval: { id: request.id, requestedBy: request.requestedBy, approvedBy: actor.id }
+			};
+			let result;
+			try
+			{
+				result = await handler.apply(request.payload, context);
+			}
+			catch (err)
+			{
+				await dbApi.reopenChangeRequest(request.id);
+				const mapped = handler.describeError ? handler.describeError(err) : null;
+				if (mapped) return res.status(mapped.status === 400 ? 409 : mapped.status).json({ error: `Could not apply: ${mapped.error}` });
+				throw err;
+			}
+			const updated = await dbApi.getChangeRequestById(request.id);
+			await auditLogger({
+				action: 'approval.approved',
+				entity: 'change_request',
+				entityId: request.id,
+				actorId: actor.id,
+				organizationId: request.organizationId,
+				before: approvals.present(request),
+				after: approvals.present(updated),
+				metadata: { requestedBy: request.requestedBy, approvedBy: actor.id }
+			});
+			res.json({ request: approvals.present(updated), result: result === undefined ? null : result });
+		}
+		catch (err)
+		{
+			next(err);
+		}
+	});
+
+	router.post('/:id/reject', async (req, res, next) =>
+	{
+		try
+		{
+			const actor = req.auth.user;
+			const request = await dbApi.getChangeRequestById(req.params.id);
+			if (!request) return res.status(404).json({ error: 'Change request not found' });
+			if (request.status !== 'pending') return res.status(409).json({ error: `Change request is already ${request.status}` });
+			if (!(await approvals.canReview(req.auth, request))) return res.status(403).json({ error: 'Forbidden' });
+			const note = typeof req.body?.note === 'string' && req.body.note.trim() ? req.body.note.trim() : null;
+			const claimed = await dbApi.decideChangeRequest(request.id, { status: 'rejected', decidedBy: actor.id, note });
+			if (!claimed) return res.status(409).json({ error: 'Change request was decided by someone else' });
+			const updated = await dbApi.getChangeRequestById(request.id);
+			await auditLogger({
+				action: 'approval.rejected',
+				entity: 'change_request',
+				entityId: request.id,
+				actorId: actor.id,
+				organizationId: request.organizationId,
+				before: approvals.present(request),
+				after: approvals.present(updated),
+				metadata: { requestedBy: request.requestedBy, rejectedBy: actor.id }
+			});
+			res.json({ request: approvals.present(updated) });
+		}
+		catch (err)
+		{
+			next(err);
+		}
+	});
+
+	// The requester may withdraw a pending request
+	router.delete('/:id', async (req, res, next) =>
+	{
+		try
+		{
+			const actor = req.auth.user;
+			const request = await dbApi.getChangeRequestById(req.params.id);
+			if (!request) return res.status(404).json({ error: 'Change request not found' });
+			if (request.requestedBy !== actor.id) return res.status(403).json({ error: 'Only the requester can cancel' });
+			const claimed = await dbApi.decideChangeRequest(request.id, { status: 'cancelled', decidedBy: actor.id });
+			if (!claimed) return res.status(409).json({ error: `Change request is already ${request.status}` });
+			await auditLogger({
+				action: 'approval.cancelled',
+				entity: 'change_request',
+				entityId: request.id,
+				actorId: actor.id,
+				organizationId: request.organizationId,
+				before: approvals.present(request)
+			});
+			res.status(204).send();
+		}
+		catch (err)
+		{
+			next(err);
+		}
+	});
+
+	return router;
+}
+
+module.exports = { createApprovalRouter };
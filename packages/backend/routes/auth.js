@@ -39,7 +39,8 @@ function createAuthRouter({ env, dbApi, auditLogger })
 			const token = signToken(user, env);
 			const organization = await dbApi.getOrganizationById(user.organization_id);
 			const organizations = await dbApi.listOrganizations();
-			const scope = Array.from(resolveOrgScopeForUser(user, organizations));
+			const assignments = await dbApi.listUserRoleAssignments(user.id);
+			const scope = Array.from(resolveOrgScopeForUser(user, organizations, assignments));
 
 			// Mark first login if applicable and get state
 			const welcomeVersion = Number(process.env.WELCOME_VERSION || 1);
@@ -76,7 +77,7 @@ function createAuthRouter({ env, dbApi, auditLogger })
 
 			res.json({
 				token,
-				user: sanitizeUser(user, organization),
+				user: sanitizeUser(user, organization, assignments),
 				scope,
 				firstLogin: welcomeState ? Boolean(welcomeState.firstLogin && !welcomeState.hasSeenWelcome) : false,
 				firstLoginAt: welcomeState?.firstLoginAt || null,
@@ -104,7 +105,7 @@ async function auditFailedLogin(dbApi, auditLogger, email)
 	}).catch(() => null);
 }
 
-function sanitizeUser(user, organization)
+function sanitizeUser(user, organization, assignments = [])
 {
 	if (!user)
 	{
@@ -116,7 +117,8 @@ function sanitizeUser(user, organization)
 		name: user.name,
 		role: user.role,
 		organizationId: user.organization_id,
-		organizationName: organization?.name ?? null
+		organizationName: organization?.name ?? null,
+		assignments: assignments.map((a) => ({ id: a.id, role: a.role, organizationId: a.organizationId }))
 	};
 }
 
@@ -0,0 +1,73 @@
+const express = require('express');
+const { CONFLICT_STRATEGIES, exportBundle, serializeBundle, parseBundle, planImport, applyImport } = require('../lib/bundles');
+
+function createBundleRouter({ dbApi, auditLogger, approvals })
+{
+	const router = express.Router();
+
+	// Download the RBAC configuration; non-owners get the organizations in their scope only
+	router.get('/export', async (req, res, next) =>
+	{
+		try
+		{
+			const canViewRoles = await req.auth.can('roles:view');
+			if (!canViewRoles) return res.status(403).json({ error: 'Forbidden' });
+			const format = req.query.format === 'yaml' ? 'yaml' : 'json';
+			const bundle = await exportBundle(dbApi, { scope: req.auth.isOwner ? null : new Set(req.auth.orgScope || []) });
+			const stamp = bundle.exportedAt.slice(0, 10);
+			res.set('Content-Type', format === 'yaml' ? 'application/yaml' : 'application/json');
+			res.set('Content-Disposition', `attachment; filename="rbac-bundle-${stamp}.${format === 'yaml' ? 'yaml' : 'json'}"`);
+			res.send(serializeBundle(bundle, format));
+		}
+		catch (err)
+		{
+			next(err);
+		}
+	});
+
+	// Plan (dryRun: true) or apply a bundle. Body: { content: JSON/YAML text } or { bundle: object },
+	// conflict: skip | overwrite | fail, prune: also clear unlisted rows of the bundle's roles.
+	router.post('/import', async (req, res, next) =>
+	{
+		try
+		{
+			if (!req.auth.isOwner) return res.status(403).json({ error: 'Owner required' });
+			const body = req.body || {};
+			const bundle = parseBundle(typeof body.content === 'string' ? body.content : body.bundle);
+			const conflict = body.conflict || 'skip';
+			if (!CONFLICT_STRATEGIES.includes(conflict)) return res.status(400).json({ error: `conflict must be one of ${CONFLICT_STRATEGIES.join(', ')}` });
+			const dryRun = body.dryRun !== false;
+			const plan = await planImport(dbApi, bundle, { conflict, prune: Boolean(body.prune), scope: new Set(req.auth.orgScope || []) });
+			const result = { version: bundle.version, dryRun, ...plan, applied: 0 };
+			if (conflict === 'fail' && plan.conflicts.length > 0)
+			{
+				return res.status(409).json({ ...result, error: 'Bundle conflicts with existing custom roles' });
+			}
+			if (dryRun) return res.json(result);
+			// Permission changes held for a second user can't bypass four-eyes mode through an import
+			if (approvals.isRequired('permission.update'))
+			{
+				return res.status(409).json({ ...result, error: 'Four-eyes mode holds permission changes; apply them individually for approval' });
+			}
+			try
+			{
+				result.applied = await applyImport({ dbApi, auditLogger }, plan.changes, { actor: req.auth.user, bundle });
+			}
+			catch (err)
+			{
+				// Changes before the failing one are applied and audited; report how far the import got
+				return res.status(409).json({ ...result, applied: err.applied || 0, error: `Import stopped: ${err.message}` });
+			}
+			res.json(result);
+		}
+		catch (err)
+		{
+			if (err.code === 'BUNDLE_INVALID') return res.status(400).json({ error: err.message });
+			next(err);
+		}
+	});
+
+	return router;
+}
+
+module.exports = { createBundleRouter };
@@ -1,10 +1,12 @@
 const express = require('express');
 const { createPermissionGuard } = require('../lib/auth');
-const { ROLES } = require('../lib/database');
+const { listAccessibleCategories } = require('../lib/rbac');
 
 function createCategoryRouter({ dbApi, auditLogger })
 {
 	const router = express.Router();
+	const bodyOrg = (req) => req.body?.organizationId;
+	const categoryOrg = async (req) => (await dbApi.getCategoryById(req.params.id))?.organizationId;
 
 	// List categories for organizations in scope
 	router.get('/', async (req, res, next) =>
@@ -12,17 +14,8 @@ function createCategoryRouter({ dbApi, auditLogger })
 		try
 		{
 			const orgScope = req.auth?.orgScope || [];
-			const user = req.auth?.user;
-			let items;
-			if (user?.role === ROLES.OWNER)
-			{
-				// Owner sees all categories in scope
-				items = await dbApi.listCategoriesForOrganizations(orgScope);
-			} else
-			{
-				// Admin and other roles must have explicit access (system categories remain visible by default)
-				items = await dbApi.listAccessibleCategoriesForRole(orgScope, user.role);
-			}
+			// Owner grants see all categories they reach; other roles need explicit access (system categories remain visible by default)
+			const items = await listAccessibleCategories(dbApi, req.auth.grants, orgScope);
 			res.json({ categories: items });
 		} catch (error)
 		{
@@ -31,7 +24,7 @@ function createCategoryRouter({ dbApi, auditLogger })
 	});
 
 	// Create category (requires categories:manage)
-	router.post('/', createPermissionGuard('categories:create'), async (req, res, next) =>
+	router.post('/', createPermissionGuard('categories:create', bodyOrg), async (req, res, next) =>
 	{
 		try
 		{
@@ -65,7 +58,7 @@ function createCategoryRouter({ dbApi, auditLogger })
 	});
 
 	// Update category (requires categories:manage)
-	router.put('/:id', createPermissionGuard('categories:update'), async (req, res, next) =>
+	router.put('/:id', createPermissionGuard('categories:update', categoryOrg), async (req, res, next) =>
 	{
 		try
 		{
@@ -110,7 +103,7 @@ function createCategoryRouter({ dbApi, auditLogger })
 	});
 
 	// Delete category (requires categories:manage)
-	router.delete('/:id', createPermissionGuard('categories:delete'), async (req, res, next) =>
+	router.delete('/:id', createPermissionGuard('categories:delete', categoryOrg), async (req, res, next) =>
 	{
 		try
 		{
@@ -144,7 +137,7 @@ function createCategoryRouter({ dbApi, auditLogger })
 	});
 
 	// Get role access list for a category
-	router.get('/:id/access', createPermissionGuard('categories:view'), async (req, res, next) =>
+	router.get('/:id/access', createPermissionGuard('categories:view', categoryOrg), async (req, res, next) =>
 	{
 		try
 		{
@@ -159,16 +152,11 @@ function createCategoryRouter({ dbApi, auditLogger })
 		}
 	});
 
-	// Update role access list (owner only)
-	router.put('/:id/access', createPermissionGuard('categories:access:configure'), async (req, res, next) =>
+	// Update role access list (owner only by default)
+	router.put('/:id/access', createPermissionGuard('categories:access:configure', categoryOrg), async (req, res, next) =>
 	{
 		try
 		{
-			const user = req.auth?.user;
-			if (user.role !== ROLES.OWNER)
-			{
-				return res.status(403).json({ error: 'Only owner can modify access' });
-			}
 			const { id } = req.params;
 			const existing = await dbApi.getCategoryById(id);
 			if (!existing) return res.status(404).json({ error: 'Category not found' });
@@ -0,0 +1,127 @@
+const express = require('express');
+const { createPermissionGuard } = require('../lib/auth');
+const { PERMISSIONS, createPermissionResolver, resolveOrgScopeForUser } = require('../lib/rbac');
+const { parseGrantWindow, grantStatus } = require('../lib/grants');
+
+function createDelegationRouter({ dbApi, auditLogger })
+{
+	const router = express.Router();
+
+	// Delegations the current user gave or received
+	router.get('/', async (req, res, next) =>
+	{
+		try
+		{
+			const userId = req.auth.user.id;
+			const now = Math.floor(Date.now() / 1000);
+			const all = (await dbApi.listDelegations({ userId })).map((d) => ({ ...d, status: grantStatus(d, now) }));
+			res.json({
+				given: all.filter((d) => d.delegatorId === userId),
+				received: all.filter((d) => d.delegateId === userId)
+			});
+		}
+		catch (err)
+		{
+			next(err);
+		}
+	});
+
+	// Hand some of my own permissions in one organization to another user for a set period
+	router.post('/', createPermissionGuard('permissions:delegate'), async (req, res, next) =>
+	{
+		try
+		{
+			const actor = req.auth.user;
+			const { delegateId, organizationId, reason } = req.body || {};
+			const permissions = Array.isArray(req.body?.permissions) ? Array.from(new Set(req.body.permissions.map(String))) : [];
+			const { startsAt, expiresAt } = parseGrantWindow(req.body, { requireExpiry: true });
+			if (permissions.length === 0) return res.status(400).json({ error: 'At least one permission is required' });
+			const unknown = permissions.find((p) => !PERMISSIONS[p]);
+			if (unknown) return res.status(400).json({ error: `Unknown permission: ${unknown}` });
+			if (!delegateId || delegateId === actor.id) return res.status(400).json({ error: 'Choose another user to delegate to' });
+			if (!organizationId || !(req.auth.orgScope || []).includes(organizationId))
+			{
+				return res.status(403).json({ error: 'Organization not in scope' });
+			}
+			const delegate = await dbApi.getUserById(delegateId);
+			if (!delegate || delegate.is_active === 0) return res.status(404).json({ error: 'User not found' });
+			const delegateScope = resolveOrgScopeForUser(delegate, req.auth.organizations, await dbApi.listUserRoleAssignments(delegate.id));
+			if (!delegateScope.has(organizationId))
+			{
+				return res.status(400).json({ error: 'Organization is outside the delegate\'s scope' });
+			}
+			// Only permissions held through my own roles (or allowed to me personally) can be passed on, never ones
+			// delegated to me
+			const own = createPermissionResolver({ dbApi, user: actor, grants: req.auth.grants, overrides: req.auth.overrides });
+			const missing = [];
+			for (const permission of permissions)
+			{
+				if (!(await own.can(permission, { organizationId }))) missing.push(permission);
+			}
+			if (missing.length > 0)
+			{
+				return res.status(403).json({ error: `You do not hold: ${missing.join(', ')}`, permissions: missing });
+			}
+			const created = await dbApi.createDelegation({
+				delegatorId: actor.id,
+				delegateId: delegate.id,
+				organizationId,
+				permissions,
+				reason: typeof reason === 'string' ? reason.trim() : null,
+				startsAt: startsAt || Math.floor(Date.now() / 1000),
+				expiresAt
+			});
+			await auditLogger({
+				action: 'delegation.created',
+				entity: 'delegation',
+				entityId: created.id,
+				actorId: actor.id,
+				organizationId,
+				after: created
+			});
+			res.status(201).json({ delegation: { ...created, status: grantStatus(created) } });
+		}
+		catch (err)
+		{
+			if (err.code === 'GRANT_WINDOW_INVALID') return res.status(400).json({ error: err.message });
+			next(err);
+		}
+	});
+
+	// The delegator can always revoke; anyone else needs delegations:manage in the delegation's organization
+	router.delete('/:id', async (req, res, next) =>
+	{
+		try
+		{
+			const actor = req.auth.user;
+			const existing = await dbApi.getDelegationById(req.params.id);
+			if (!existing) return res.status(404).json({ error: 'Delegation not found' });
+			if (existing.delegatorId !== actor.id)
+			{
+				const allowed = (req.auth.orgScope || []).includes(existing.organizationId)
+					&& await req.auth.can('delegations:manage', { organizationId: existing.organizationId });
+				if (!allowed) return res.status(403).json({ error: 'Forbidden', permission: 'delegations:manage' });
+			}
+			if (existing.revokedAt) return res.status(409).json({ error: 'Delegation already revoked' });
+			const revoked = await dbApi.revokeDelegation(existing.id, actor.id);
+			await auditLogger({
+				action: 'delegation.revoked',
+				entity: 'delegation',
+				entityId: existing.id,
+				actorId: actor.id,
+				organizationId: existing.organizationId,
+				before: existing,
+				after: revoked
+			});
+			res.status(204).send();
+		}
+		catch (err)
+		{
+			next(err);
+		}
+	});
+
+	return router;
+}
+
+module.exports = { createDelegationRouter };
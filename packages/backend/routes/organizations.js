@@ -0,0 +1,177 @@
+const express = require('express');
+const { createPermissionGuard } = require('../lib/auth');
+const { refreshClosedFlags } = require('../lib/workflows');
+
+function createOrganizationRouter({ dbApi, auditLogger })
+{
+	const router = express.Router();
+
+	// Flat list of organizations in scope; the renderer assembles the tree from parentId
+	router.get('/', createPermissionGuard('organizations:view'), async (req, res, next) =>
+	{
+		try
+		{
+			const scope = new Set(req.auth?.orgScope || []);
+			const organizations = await dbApi.listOrganizationSummaries();
+			res.json({ organizations: organizations.filter((o) => scope.has(o.id)) });
+		}
+		catch (err)
+		{
+			next(err);
+		}
+	});
+
+	router.post('/', createPermissionGuard('organizations:create'), async (req, res, next) =>
+	{
+		try
+		{
+			const actor = req.auth?.user;
+			const scope = new Set(req.auth?.orgScope || []);
+			const name = String(req.body?.name || '').trim();
+			const parentId = req.body?.parentId || null;
+			if (!name) return res.status(400).json({ error: 'Organization name is required' });
+			// Only owners may add new top-level organizations; everyone else nests under an org in scope
+			if (!parentId && !req.auth.isOwner)
+			{
+				return res.status(403).json({ error: 'Owner required to create a root organization' });
+			}
+			if (parentId && !scope.has(parentId))
+			{
+				return res.status(403).json({ error: 'Parent organization not in scope' });
+			}
+			const created = await dbApi.createOrganization({ name, parentId });
+			await auditLogger({
+				action: 'organization.created',
+				entity: 'organization',
+				entityId: created.id,
+				actorId: actor.id,
+				organizationId: created.id,
+				after: created
+			});
+			res.status(201).json({ organization: sanitizeOrganization(created) });
+		}
+		catch (err)
+		{
+			if (err.message === 'Parent organization not found') return res.status(404).json({ error: err.message });
+			next(err);
+		}
+	});
+
+	router.put('/:id', createPermissionGuard('organizations:update'), async (req, res, next) =>
+	{
+		try
+		{
+			const actor = req.auth?.user;
+			const scope = new Set(req.auth?.orgScope || []);
+			const { id } = req.params;
+			const existing = await dbApi.getOrganizationById(id);
+			if (!existing) return res.status(404).json({ error: 'Organization not found' });
+			if (!scope.has(id)) return res.status(403).json({ error: 'Organization not in scope' });
+			const name = String(req.body?.name || '').trim();
+			if (!name) return res.status(400).json({ error: 'Organization name is required' });
+			const updated = await dbApi.renameOrganization(id, name);
+			await auditLogger({
+				action: 'organization.updated',
+				entity: 'organization',
+				entityId: id,
+				actorId: actor.id,
+				organizationId: id,
+				before: existing,
+				after: updated
+			});
+			res.json({ organization: sanitizeOrganization(updated) });
+		}
+		catch (err)
+		{
+			next(err);
+		}
+	});
+
+	// Re-parent an organization (parentId null makes it a root)
+	router.post('/:id/move', createPermissionGuard('organizations:update'), async (req, res, next) =>
+	{
+		try
+		{
+			const actor = req.auth?.user;
+			const scope = new Set(req.auth?.orgScope || []);
+			const { id } = req.params;
+			const parentId = req.body?.parentId || null;
+			const existing = await dbApi.getOrganizationById(id);
+			if (!existing) return res.status(404).json({ error: 'Organization not found' });
+			if (!scope.has(id)) return res.status(403).json({ error: 'Organization not in scope' });
+			if (!parentId && !req.auth.isOwner)
+			{
+				return res.status(403).json({ error: 'Owner required to create a root organization' });
+			}
+			if (parentId && !scope.has(parentId))
+			{
+				return res.status(403).json({ error: 'Parent organization not in scope' });
+			}
+			const updated = await dbApi.moveOrganization(id, parentId);
+			// Without a workflow of its own the organization now follows its new parent's
+			await refreshClosedFlags(dbApi, id);
+			await auditLogger({
+				action: 'organization.moved',
+				entity: 'organization',
+				entityId: id,
+				actorId: actor.id,
+				organizationId: id,
+				before: existing,
+				after: updated
+			});
+			res.json({ organization: sanitizeOrganization(updated) });
+		}
+		catch (err)
+		{
+			if (err.code === 'ORG_CYCLE') return res.status(409).json({ error: err.message });
+			if (err.message === 'Parent organization not found') return res.status(404).json({ error: err.message });
+			next(err);
+		}
+	});
+
+	router.delete('/:id', createPermissionGuard('organizations:delete'), async (req, res, next) =>
+	{
+		try
+		{
+			const actor = req.auth?.user;
+			const scope = new Set(req.auth?.orgScope || []);
+			const { id } = req.params;
+			const existing = await dbApi.getOrganizationById(id);
+			if (!existing) return res.status(404).json({ error: 'Organization not found' });
+			if (!scope.has(id)) return res.status(403).json({ error: 'Organization not in scope' });
+			if (id === actor.organization_id) return res.status(400).json({ error: 'Cannot delete your own organization' });
+			await dbApi.deleteOrganization(id);
+			await auditLogger({
+				action: 'organization.deleted',
+				entity: 'organization',
+				entityId: id,
+				actorId: actor.id,
+				organizationId: actor.organization_id,
+				before: existing
+			});
+			res.status(204).send();
+		}
+		catch (err)
+		{
+			if (err.code === 'ORG_NOT_EMPTY')
+			{
+				return res.status(409).json({ error: 'Organization still has sub-organizations, users or tasks', usage: err.usage });
+			}
+			next(err);
+		}
+	});
+
+	return router;
+}
+
+function sanitizeOrganization(org)
+{
+	return {
+		id: org.id,
+		name: org.name,
+		parentId: org.parent_id || null,
+		createdAt: org.created_at
+	};
+}
+
+module.exports = { createOrganizationRouter };
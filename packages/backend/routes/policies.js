@@ -0,0 +1,129 @@
+const express = require('express');
+const { createPermissionGuard } = require('../lib/auth');
+const {
+	POLICY_ACTIONS,
+	POLICY_EFFECTS,
+	POLICY_ATTRIBUTES,
+	POLICY_OPERATORS,
+	normalizePolicyInput
+} = require('../lib/policies');
+
+function createPolicyRouter({ dbApi, auditLogger })
+{
+	const router = express.Router();
+
+	// Policies that are global or scoped to an organization in scope, plus the vocabulary the editor offers
+	router.get('/', createPermissionGuard('policies:view'), async (req, res, next) =>
+	{
+		try
+		{
+			const scope = new Set(req.auth?.orgScope || []);
+			const policies = await dbApi.listPolicies();
+			res.json({
+				policies: policies.filter((p) => !p.organizationId || scope.has(p.organizationId)),
+				schema: {
+					actions: POLICY_ACTIONS,
+					effects: POLICY_EFFECTS,
+					attributes: POLICY_ATTRIBUTES,
+					operators: POLICY_OPERATORS
+				}
+			});
+		}
+		catch (err)
+		{
+			next(err);
+		}
+	});
+
+	router.post('/', createPermissionGuard('policies:manage'), async (req, res, next) =>
+	{
+		try
+		{
+			const input = normalizePolicyInput(req.body);
+			const denied = checkPolicyScope(req, input.organizationId || null);
+			if (denied) return res.status(403).json({ error: denied });
+			const created = await dbApi.createPolicy(input);
+			await auditLogger({
+				action: 'policy.created',
+				entity: 'policy',
+				entityId: created.id,
+				actorId: req.auth?.user?.id,
+				organizationId: created.organizationId || req.auth?.user?.organization_id,
+				after: created
+			});
+			res.status(201).json({ policy: created });
+		}
+		catch (err)
+		{
+			if (err.code === 'POLICY_INVALID') return res.status(400).json({ error: err.message });
+			next(err);
+		}
+	});
+
+	router.put('/:id', createPermissionGuard('policies:manage'), async (req, res, next) =>
+	{
+		try
+		{
+			const existing = await dbApi.getPolicyById(req.params.id);
+			if (!existing) return res.status(404).json({ error: 'Policy not found' });
+			const updates = normalizePolicyInput(req.body, { partial: true });
+			// Both where the policy applies now and where it would apply afterwards must be in reach
+			const denied = checkPolicyScope(req, existing.organizationId)
+				|| (updates.organizationId !== undefined ? checkPolicyScope(req, updates.organizationId) : null);
+			if (denied) return res.status(403).json({ error: denied });
+			const updated = await dbApi.updatePolicy(existing.id, updates);
+			await auditLogger({
+				action: 'policy.updated',
+				entity: 'policy',
+				entityId: existing.id,
+				actorId: req.auth?.user?.id,
+				organizationId: updated.organizationId || req.auth?.user?.organization_id,
+				before: existing,
+				after: updated
+			});
+			res.json({ policy: updated });
+		}
+		catch (err)
+		{
+			if (err.code === 'POLICY_INVALID') return res.status(400).json({ error: err.message });
+			next(err);
+		}
+	});
+
+	router.delete('/:id', createPermissionGuard('policies:manage'), async (req, res, next) =>
+	{
+		try
+		{
+			const existing = await dbApi.getPolicyById(req.params.id);
+			if (!existing) return res.status(404).json({ error: 'Policy not found' });
+			const denied = checkPolicyScope(req, existing.organizationId);
+			if (denied) return res.status(403).json({ error: denied });
+			await dbApi.deletePolicy(existing.id);
+			await auditLogger({
+				action: 'policy.deleted',
+				entity: 'policy',
+				entityId: existing.id,
+				actorId: req.auth?.user?.id,
+				organizationId: existing.organizationId || req.auth?.user?.organization_id,
+				before: existing
+			});
+			res.status(204).send();
+		}
+		catch (err)
+		{
+			next(err);
+		}
+	});
+
+	return router;
+}
+
+// Global policies affect every organization, so only owners manage them; scoped ones need the org in scope.
+// Returns an error message or null.
+function checkPolicyScope(req, organizationId)
+{
+	if (!organizationId) return req.auth.isOwner ? null : 'Owner required to manage global policies';
+	return (req.auth?.orgScope || []).includes(organizationId) ? null : 'Organization not in scope';
+}
+
+module.exports = { createPolicyRouter };
@@ -1,23 +1,82 @@
 const express = require('express');
 const fs = require('fs');
 const path = require('path');
+const { createPermissionGuard } = require('../lib/auth');
+const { parseDotEnv } = require('../lib/environment');
+const { approvalMetadata } = require('../lib/approvals');
 
-function createSettingsRouter({ envPath, auditLogger })
+function createSettingsRouter({ envPath, auditLogger, approvals })
 {
 	const router = express.Router();
 
-	// Owner/Admin only
-	router.use((req, res, next) =>
+	// Writes the settings file; run directly by PUT / or, in four-eyes mode, once the change is approved
+	async function applySettings({ settings, replace }, context)
 	{
-		const role = req.auth?.user?.role;
-		if (role !== 'owner' && role !== 'admin')
+		// A held request carries its secret values sealed
+		const normalized = context.approval
+			? Object.fromEntries(Object.entries(settings).map(([k, v]) => [k, isSensitiveKey(k) ? approvals.unseal(v) : v]))
+			: settings;
+		const file = ensureEnvFile(envPath);
+		const before = fs.existsSync(file) ? parseDotEnv(fs.readFileSync(file, 'utf8')) : {};
+
+		// Load system keys
+		const examplePath = path.join(path.dirname(file), '.env.example');
+		let systemKeys = [];
+		try
 		{
-			res.status(403).json({ error: 'Forbidden' });
-			return;
+			if (fs.existsSync(examplePath))
+			{
+				const exampleText = fs.readFileSync(examplePath, 'utf8');
+				const exampleSettings = parseDotEnv(exampleText);
+				systemKeys = Object.keys(exampleSettings);
+			}
 		}
-		next();
+		catch (_)
+		{
+			systemKeys = [];
+		}
+
+		// Base merge logic (replace vs additive)
+		let merged = replace ? { ...normalized } : { ...before, ...normalized };
+
+		// Ensure system keys cannot be deleted: if a system key existed before (or is defined in example) but is missing, re-add (empty if never had value)
+		for (const k of systemKeys)
+		{
+			if (!(k in merged))
+			{
+				// If it existed before keep its old value, else set empty string
+				merged[k] = before[k] != null ? before[k] : '';
+			}
+		}
+
+		const content = serializeDotEnv(merged);
+		fs.writeFileSync(file, content, 'utf8');
+
+		await auditLogger({
+			action: 'settings.updated',
+			entity: 'settings',
+			entityId: path.basename(file),
+			actorId: context.actorId || null,
+			organizationId: context.organizationId || null,
+			before: maskSensitive(before),
+			after: maskSensitive(merged),
+			metadata: approvalMetadata(context)
+		}).catch(() => null);
+
+		// Also include systemKeys to keep UI in sync post-save
+		return { settings: merged, systemKeys, filePath: file };
+	}
+
+	approvals.register('settings.update', {
+		authorize: (auth) => auth.can('settings:manage'),
+		apply: applySettings,
+		describeError: (err) => (err.code === 'SEALED_VALUE_UNREADABLE' ? { status: 409, error: err.message } : null),
+		preview: ({ settings, replace }) => ({ settings: maskSensitive(settings), replace })
 	});
 
+	// Owner/Admin by default
+	router.use(createPermissionGuard('settings:manage'));
+
 	router.get('/', async (req, res, next) =>
 	{
 		try
@@ -53,7 +112,6 @@ function createSettingsRouter({ envPath, auditLogger })
 	{
 		try
 		{
-			const file = ensureEnvFile(envPath);
 			const incoming = req.body?.settings || {};
 			const replace = Boolean(req.body?.replace);
 			if (typeof incoming !== 'object')
@@ -68,53 +126,22 @@ function createSettingsRouter({ envPath, auditLogger })
 				normalized[String(k).trim()] = v == null ? '' : String(v);
 			}
 
-			const before = fs.existsSync(file) ? parseDotEnv(fs.readFileSync(file, 'utf8')) : {};
-
-			// Load system keys
-			const examplePath = path.join(path.dirname(file), '.env.example');
-			let systemKeys = [];
-			try
-			{
-				if (fs.existsSync(examplePath))
-				{
-					const exampleText = fs.readFileSync(examplePath, 'utf8');
-					const exampleSettings = parseDotEnv(exampleText);
-					systemKeys = Object.keys(exampleSettings);
-				}
-			} catch (_)
-			{
-				systemKeys = [];
-			}
-
-			// Base merge logic (replace vs additive)
-			let merged = replace ? { ...normalized } : { ...before, ...normalized };
-
-			// Ensure system keys cannot be deleted: if a system key existed before (or is defined in example) but is missing, re-add (empty if never had value)
-			for (const k of systemKeys)
+			// Four-eyes mode holds the whole change until a second user approves it. A change to FOUR_EYES_ACTIONS
+			// itself is held whenever any action is gated, so one user can't switch the gate off and go ahead alone.
+			const current = parseDotEnv(fs.readFileSync(ensureEnvFile(envPath), 'utf8'));
+			const changesGate = changesFourEyesActions(current, normalized, replace);
+			if (approvals.isRequired('settings.update') || (changesGate && approvals.enabledActions().length > 0))
 			{
-				if (!(k in merged))
-				{
-					// If it existed before keep its old value, else set empty string
-					merged[k] = before[k] != null ? before[k] : '';
-				}
+				const keys = Object.keys(normalized);
+				const sealed = Object.fromEntries(Object.entries(normalized).map(([k, v]) => [k, isSensitiveKey(k) ? approvals.seal(v) : v]));
+				const request = await approvals.submit(req.auth, 'settings.update', { settings: sealed, replace }, {
+					summary: `Update settings (${keys.length} ${keys.length === 1 ? 'key' : 'keys'}${replace ? ', replacing the file' : ''}${changesGate ? ', changing FOUR_EYES_ACTIONS' : ''})`
+				});
+				res.status(202).json({ pending: true, request });
+				return;
 			}
-
-			const content = serializeDotEnv(merged);
-			fs.writeFileSync(file, content, 'utf8');
-
 			const actor = req.auth?.user;
-			await auditLogger({
-				action: 'settings.updated',
-				entity: 'settings',
-				entityId: path.basename(file),
-				actorId: actor?.id || null,
-				organizationId: actor?.organization_id || null,
-				before: maskSensitive(before),
-				after: maskSensitive(merged)
-			}).catch(() => null);
-
-			// Also include systemKeys to keep UI in sync post-save
-			res.json({ settings: merged, systemKeys, filePath: file });
+			res.json(await applySettings({ settings: normalized, replace }, { actorId: actor?.id, organizationId: actor?.organization_id }));
 		} catch (err)
 		{
 			next(err);
@@ -134,26 +161,6 @@ function ensureEnvFile(p)
 	return file;
 }
 
-function parseDotEnv(text)
-{
-	const out = {};
-	const lines = String(text || '').split(/\r?\n/);
-	for (const line of lines)
-	{
-		if (!line || /^\s*#/.test(line)) continue;
-		const idx = line.indexOf('=');
-		if (idx === -1) continue;
-		const key = line.slice(0, idx).trim();
-		let value = line.slice(idx + 1);
-		if ((value.startsWith('"') && value.endsWith('"')) || (value.startsWith('\'') && value.endsWith('\'')))
-		{
-			value = value.slice(1, -1);
-		}
-		out[key] = value;
-	}
-	return out;
-}
-
 function serializeDotEnv(obj)
 {
 	const keys = Object.keys(obj).sort();
@@ -183,6 +190,14 @@ function maskSensitive(obj)
 	return out;
 }
 
+// Whether saving `incoming` would change FOUR_EYES_ACTIONS in the file; replacing the file without it removes it
+function changesFourEyesActions(current, incoming, replace)
+{
+	const key = 'FOUR_EYES_ACTIONS';
+	if (!replace && !(key in incoming)) return false;
+	return (incoming[key] ?? null) !== (current[key] ?? null);
+}
+
 function isValidKey(key)
 {
 	return /^[A-Z0-9_\.\-]+$/i.test(String(key));
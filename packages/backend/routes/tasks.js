@@ -1,247 +1,1516 @@
 const express = require('express');
-const { roleAllows } = require('../lib/rbac');
+const { v4: uuidv4 } = require('uuid');
+const { createPermissionGuard } = require('../lib/auth');
+const { TASK_FIELD_PERMISSIONS, listAccessibleCategories, taskAccessorFor } = require('../lib/rbac');
+const { buildPolicyContext, decideWithPolicies, policiesFor } = require('../lib/policies');
+const { buildTaskActivity } = require('../lib/activity');
+const { parseRecurrence, serializeRecurrence, readRecurrence, isCalendarRule, materializeNextOccurrence } = require('../lib/recurrence');
+const { findStatus, isTerminal, initialStatus, transitionFor, resolveWorkflow } = require('../lib/workflows');
+const { TASK_SORTS } = require('../lib/database');
+const { THUMBNAIL_MAX_BYTES, THUMBNAIL_TYPES, readAttachmentLimits, checkContent, sanitizeFilename, contentDisposition } = require('../lib/attachments');
 
-function createTaskRouter({ dbApi, auditLogger })
+const MAX_GRAPH_TASKS = 500;
+const MAX_BULK_TASKS = 100;
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 500;
+// Direction each sort takes unless the request names one
+const DEFAULT_SORT_ORDERS = { rank: 'asc', priority: 'desc', createdAt: 'desc', updatedAt: 'desc', dueDate: 'asc', title: 'asc' };
+
+function createTaskRouter({ dbApi, auditLogger, attachments, envPath })
 {
 	const router = express.Router();
 
-	// Dynamic permission guard that supports both static catalog and DB overrides (for custom roles)
-	const guard = (permission) => async (req, res, next) =>
+	// Overrides are resolved in the organization the request targets
+	const taskOrg = async (req) => (await dbApi.getTaskById(req.params.id))?.organizationId;
+
+	// Task ACL gate for changes: a task shared with the caller read-only can't be changed and one not shared
+	// with them at all is reported as missing. Sends the response and returns false when access is lacking.
+	async function requireTaskEdit(req, res, task)
+	{
+		const access = await dbApi.getTaskAccess(task.id, taskAccessorFor(req.auth));
+		if (access === 'edit') return true;
+		if (access === 'view') res.status(403).json({ error: 'Task is shared with you read-only' });
+		else res.status(404).json({ error: 'Task not found' });
+		return false;
+	}
+
+	// Role permission plus attribute-based policies for an action on a task. Returns the decision when allowed;
+	// otherwise sends the 403 and returns false. A refusal by policy names the policy.
+	async function requireTaskAction(req, res, action, resource, changes)
+	{
+		const decision = await decideTaskAction(dbApi, req.auth, action, resource, changes);
+		if (decision.allowed) return decision;
+		res.status(403).json(actionRefusalBody(decision, action));
+		return false;
+	}
+
+	// What the caller may do with one task under the rules the list applies: 'edit', 'view' or 'none'
+	// (outside org scope, someone else's Personal task, not shared with them, or a category they can't reach)
+	async function taskVisibility(req, task)
+	{
+		if (!(req.auth?.orgScope || []).includes(task.organizationId)) return 'none';
+		if (task.category === 'Personal')
+		{
+			if (task.createdBy !== req.auth.user.id) return 'none';
+		}
+		else if (!req.auth.isOwner)
+		{
+			const categories = await listAccessibleCategories(dbApi, req.auth.grants, [task.organizationId]);
+			if (!categories.some((c) => c.name === task.category)) return 'none';
+		}
+		return (await dbApi.getTaskAccess(task.id, taskAccessorFor(req.auth))) || 'none';
+	}
+
+	// Changing a task takes the same visibility as listing it, plus edit access: a task the caller can't see is
+	// reported as missing. Returns { refusal } like the apply helpers below, or null when the change may go ahead.
+	async function taskEditRefusal(req, task)
+	{
+		const visibility = await taskVisibility(req, task);
+		if (visibility === 'edit') return null;
+		return visibility === 'view' ? refuse(403, { error: 'Task is shared with you read-only' }) : refuse(404, { error: 'Task not found' });
+	}
+
+	// Loads the task of a checklist or comment route. Reading needs it visible; changing its checklist needs edit
+	// access and tasks:update on it (roles and policies). Sends the error response and returns null otherwise.
+	async function loadAccessibleTask(req, res, { edit })
+	{
+		const task = await dbApi.getTaskById(req.params.id);
+		const visibility = task ? await taskVisibility(req, task) : 'none';
+		if (visibility === 'none')
+		{
+			res.status(404).json({ error: 'Task not found' });
+			return null;
+		}
+		if (!edit) return task;
+		if (visibility !== 'edit')
+		{
+			res.status(403).json({ error: 'Task is shared with you read-only' });
+			return null;
+		}
+		return (await requireTaskAction(req, res, 'tasks:update', task, {})) ? task : null;
+	}
+
+	// Query: status, category, search, assignedTo, parentTaskId to filter; sort (one of TASK_SORTS, rank being the
+	// board order) and order (asc or desc) to order; limit (at most MAX_PAGE_SIZE) and cursor, the nextCursor of the
+	// previous page, to page. nextCursor is null on the last page.
+	router.get('/', createPermissionGuard('tasks:view'), async (req, res, next) =>
+	{
+		try
+		{
+			const page = normalizeTaskPage(req.query);
+			if (page.error) return res.status(400).json({ error: page.error });
+			const filters = normalizeTaskFilters(req.query);
+			filters.accessor = taskAccessorFor(req.auth);
+			const orgScope = req.auth?.orgScope || [];
+			// Personal tasks are only visible to their creator, and anyone not holding owner (admin included) sees the
+			// rest only in categories they reach in the task's organization
+			filters.categoryAccess = {
+				userId: req.auth.user.id,
+				categories: req.auth.isOwner ? null : await listAccessibleCategories(dbApi, req.auth.grants, orgScope)
+			};
+			// One task past the page tells whether another page follows
+			const rows = await dbApi.listTasksForOrganizations(orgScope, { ...filters, ...page, limit: page.limit + 1 });
+			const tasks = rows.slice(0, page.limit);
+			const last = tasks[tasks.length - 1];
+			const nextCursor = rows.length > page.limit ? encodeTaskCursor({ sort: page.sort, order: page.order, sortKey: last.sortKey, id: last.id }) : null;
+			// What the caller may do with each task before any particular change is known, so the board can offer
+			// edit / delete where a policy grants them beyond the role
+			const policies = req.auth.isOwner ? [] : await dbApi.listPolicies();
+			for (const task of tasks)
+			{
+				const update = await decideTaskAction(dbApi, req.auth, 'tasks:update', task, {}, policies);
+				task.permissions = {
+					update: update.allowed,
+					delete: (await decideTaskAction(dbApi, req.auth, 'tasks:delete', task, {}, policies)).allowed,
+					fields: update.allowed ? await listChangeableFields(req.auth, task, update) : []
+				};
+			}
+			res.json({ tasks: tasks.map(sanitizeTask), nextCursor });
+		} catch (error)
+		{
+			next(error);
+		}
+	});
+
+	// Query: ids (comma separated, at most MAX_GRAPH_TASKS). Nodes are the requested tasks the caller can see plus
+	// the visible tasks directly linked to them; edges run from blocker to blocked between visible nodes.
+	router.get('/dependency-graph', createPermissionGuard('tasks:view'), async (req, res, next) =>
+	{
+		try
+		{
+			const ids = Array.from(new Set(String(req.query.ids || '').split(',').map((id) => id.trim()).filter(Boolean)));
+			if (ids.length === 0) return res.status(400).json({ error: 'ids is required' });
+			if (ids.length > MAX_GRAPH_TASKS) return res.status(400).json({ error: `At most ${MAX_GRAPH_TASKS} tasks per graph` });
+			const visible = new Map();
+			const reveal = async (id) =>
+			{
+				if (visible.has(id)) return visible.get(id);
+				const task = await dbApi.getTaskById(id);
+				const shown = task && (await taskVisibility(req, task)) !== 'none' ? task : null;
+				visible.set(id, shown);
+				return shown;
+			};
+			const requested = [];
+			for (const id of ids)
+			{
+				if (await reveal(id)) requested.push(id);
+			}
+			const edges = [];
+			for (const link of await dbApi.listTaskDependencies(requested))
+			{
+				if ((await reveal(link.blockerId)) && (await reveal(link.blockedId))) edges.push({ blockerId: link.blockerId, blockedId: link.blockedId });
+			}
+			const requestedSet = new Set(requested);
+			const nodes = Array.from(visible.values()).filter(Boolean).map((task) => ({
+				id: task.id,
+				title: task.title,
+				status: task.status,
+				closed: Boolean(task.closed),
+				openBlockerCount: task.openBlockerCount || 0,
+				requested: requestedSet.has(task.id)
+			}));
+			res.json({ nodes, edges });
+		}
+		catch (error)
+		{
+			next(error);
+		}
+	});
+
+	router.post('/', async (req, res, next) =>
+	{
+		try
+		{
+			const payload = req.body || {};
+			const user = req.auth?.user;
+			const orgScope = new Set(req.auth?.orgScope || []);
+			// A subtask lives in its parent's organization, and one of a Personal task stays Personal
+			const parent = payload.parentTaskId ? await dbApi.getTaskById(payload.parentTaskId) : null;
+			if (payload.parentTaskId)
+			{
+				const parentAccess = parent ? await taskVisibility(req, parent) : 'none';
+				if (parentAccess === 'none') return res.status(404).json({ error: 'Parent task not found' });
+				if (parent.parentTaskId) return res.status(400).json({ error: 'Subtasks cannot have subtasks of their own' });
+				if (payload.organizationId && payload.organizationId !== parent.organizationId)
+				{
+					return res.status(400).json({ error: 'Subtasks stay in their parent task\'s organization' });
+				}
+				if (parent.category === 'Personal' && payload.category && payload.category !== 'Personal')
+				{
+					return res.status(400).json({ error: 'Subtasks of a Personal task are Personal' });
+				}
+				if (parentAccess !== 'edit') return res.status(403).json({ error: 'Parent task is shared with you read-only' });
+				if (!(await requireTaskAction(req, res, 'tasks:update', parent, {}))) return;
+			}
+			const organizationId = parent ? parent.organizationId : payload.organizationId || user.organization_id;
+
+			if (!organizationId || !orgScope.has(organizationId))
+			{
+				res.status(403).json({ error: 'Organization not in scope' });
+				return;
+			}
+			if (!payload.title || typeof payload.title !== 'string')
+			{
+				res.status(400).json({ error: 'Task title is required' });
+				return;
+			}
+			const recurrence = parseRecurrence(payload.recurrence);
+			const recurrenceError = recurrence.error || recurrenceProblem(recurrence.rule, { dueDate: payload.dueDate || null, parentTaskId: parent?.id });
+			if (recurrenceError) return res.status(400).json({ error: recurrenceError });
+			// New tasks start in the first status of the organization's workflow unless they name another of its statuses
+			const workflow = await resolveWorkflow(dbApi, organizationId);
+			const status = payload.status || initialStatus(workflow);
+			if (!findStatus(workflow, status)) return res.status(400).json({ error: unknownStatusMessage(workflow, status) });
+
+			const categoryName = (payload.category || parent?.category || 'Work').trim();
+			const proposed = {
+				organizationId,
+				createdBy: user.id,
+				assignedTo: payload.assignedTo || null,
+				category: categoryName,
+				priority: payload.priority || 'medium',
+				status
+			};
+			if (!(await requireTaskAction(req, res, 'tasks:create', proposed, sanitizeTaskUpdates(payload)))) return;
+			// Enforce Personal tasks only created by their owner (already true) and anyone can create their own Personal; other category must be accessible
+			if (categoryName === 'Personal' && payload.assignedTo && payload.assignedTo !== user.id)
+			{
+				return res.status(400).json({ error: 'Personal task cannot be pre-assigned to another user' });
+			}
+			if (categoryName !== 'Personal')
+			{
+				// Non-owners (including admin) need category access through a role held in the organization
+				if (!req.auth.isOwner)
+				{
+					const categories = await listAccessibleCategories(dbApi, req.auth.grants, [organizationId]);
+					if (!categories.some(c => c.name === categoryName))
+					{
+						return res.status(403).json({ error: 'Category access denied' });
+					}
+				}
+			}
+
+			const created = await dbApi.createTask({
+				organizationId,
+				title: payload.title.trim(),
+				description: payload.description ?? null,
+				status,
+				closed: isTerminal(workflow, status),
+				category: categoryName,
+				priority: payload.priority || 'medium',
+				dueDate: payload.dueDate || null,
+				createdBy: user.id,
+				assignedTo: payload.assignedTo || null,
+				parentTaskId: parent ? parent.id : null,
+				recurrence: serializeRecurrence(recurrence.rule)
+			});
+
+			await auditLogger({
+				action: 'task.created',
+				entity: 'task',
+				entityId: created.id,
+				actorId: user.id,
+				organizationId,
+				after: created
+			});
+
+			res.status(201).json({ task: sanitizeTask(created) });
+		} catch (error)
+		{
+			next(error);
+		}
+	});
+
+	// Body: { taskId, beforeId } or { taskId, afterId }. Moves the task right before or after a task the caller can
+	// see by giving it a rank key between that task and its neighbor; no other task changes. Needs what a position
+	// change through PUT needs: edit access, tasks:update and tasks:update:status.
+	router.post('/reorder', async (req, res, next) =>
+	{
+		try
+		{
+			const { taskId, beforeId, afterId } = req.body || {};
+			const neighborId = typeof afterId === 'string' ? afterId : typeof beforeId === 'string' ? beforeId : null;
+			if (typeof taskId !== 'string' || !neighborId || (afterId !== undefined && beforeId !== undefined))
+			{
+				return res.status(400).json({ error: 'Give taskId and one of beforeId or afterId' });
+			}
+			if (neighborId === taskId) return res.status(400).json({ error: 'A task cannot be placed next to itself' });
+			const task = await dbApi.getTaskById(taskId);
+			const visibility = task ? await taskVisibility(req, task) : 'none';
+			if (visibility === 'none') return res.status(404).json({ error: 'Task not found' });
+			if (visibility !== 'edit') return res.status(403).json({ error: 'Task is shared with you read-only' });
+			const neighbor = await dbApi.getTaskById(neighborId);
+			if (!neighbor || (await taskVisibility(req, neighbor)) === 'none') return res.status(404).json({ error: 'Neighboring task not found' });
+			// Policies see the move as a position change
+			const decision = await requireTaskAction(req, res, 'tasks:update', task, { position: neighbor.position });
+			if (!decision) return;
+			if (!(await listChangeableFields(req.auth, task, decision)).includes('position'))
+			{
+				return res.status(403).json({ error: 'Not allowed to change: position', fields: ['position'], permissions: [TASK_FIELD_PERMISSIONS.position] });
+			}
+			const updated = await dbApi.reorderTask(task.id, typeof afterId === 'string' ? { afterId } : { beforeId });
+			if (!updated) return res.status(404).json({ error: 'Neighboring task not found' });
+			await auditLogger({
+				action: 'task.reordered',
+				entity: 'task',
+				entityId: task.id,
+				actorId: req.auth.user.id,
+				organizationId: task.organizationId,
+				before: { rank: task.rank },
+				after: { rank: updated.rank },
+				metadata: typeof afterId === 'string' ? { afterId } : { beforeId }
+			});
+			res.json({ task: sanitizeTask(updated) });
+		}
+		catch (error)
+		{
+			next(error);
+		}
+	});
+
+	// Body: { taskIds, action } plus what the action needs:
+	//   update    updates: the fields PUT /:id takes
+	//   move      organizationId: the organization the tasks move to
+	//   category  category: the category they move to
+	//   delete
+	// Each task (at most MAX_BULK_TASKS) goes through the checks of PUT or DELETE /:id on its own, in the order given,
+	// so a refused task doesn't hold back the others. results has { id, ok, task? } per task, with the status and
+	// body of the refusal when ok is false. One task.bulk_updated or task.bulk_deleted audit entry records what
+	// changed on each task.
+	router.post('/bulk', async (req, res, next) =>
+	{
+		try
+		{
+			const { taskIds, action } = req.body || {};
+			if (!Array.isArray(taskIds) || taskIds.length === 0 || !taskIds.every((id) => typeof id === 'string'))
+			{
+				return res.status(400).json({ error: 'taskIds must be a list of task ids' });
+			}
+			const ids = Array.from(new Set(taskIds));
+			if (ids.length > MAX_BULK_TASKS) return res.status(400).json({ error: `At most ${MAX_BULK_TASKS} tasks at a time` });
+			const { updates, error } = normalizeBulkAction(req.body);
+			if (error) return res.status(400).json({ error });
+
+			const results = [];
+			const changed = [];
+			for (const id of ids)
+			{
+				const result = updates ? await applyTaskUpdate(req, id, updates) : await applyTaskDelete(req, id);
+				if (result.refusal)
+				{
+					results.push({ id, ok: false, status: result.refusal.status, ...result.refusal.body });
+					continue;
+				}
+				const entry = { id, ok: true };
+				if (updates) entry.task = sanitizeTask(result.updated || result.existing);
+				results.push(entry);
+				if (!updates || result.updated) changed.push({ entry, ...result });
+			}
+
+			if (changed.length > 0)
+			{
+				const organizationIds = new Set(changed.map(({ existing, updated }) => (updated || existing).organizationId));
+				const failed = results.filter((r) => !r.ok);
+				await auditLogger({
+					action: updates ? 'task.bulk_updated' : 'task.bulk_deleted',
+					entity: 'task',
+					entityId: uuidv4(),
+					actorId: req.auth.user.id,
+					organizationId: organizationIds.size === 1 ? Array.from(organizationIds)[0] : req.auth.user.organization_id,
+					metadata: {
+						operation: action,
+						...(updates ? { updates } : {}),
+						tasks: changed.map(({ existing, updated, metadata }) => ({
+							id: existing.id,
+							organizationId: (updated || existing).organizationId,
+							...(updated ? taskDiff(existing, updated) : { before: existing, after: null }),
+							...(metadata ? { metadata } : {})
+						})),
+						...(failed.length > 0 ? { failed: failed.map(({ id, status, error: reason }) => ({ id, status, error: reason })) } : {})
+					}
+				});
+			}
+			// Next occurrences of completed recurring tasks come after the entry that completed them
+			for (const { entry, existing, updated } of changed)
+			{
+				const nextOccurrence = updated ? await startNextOccurrence(req, existing, updated) : null;
+				if (!nextOccurrence) continue;
+				entry.task = sanitizeTask(await dbApi.getTaskById(existing.id));
+				entry.nextOccurrence = sanitizeTask(nextOccurrence);
+			}
+			res.json({ results, succeeded: results.filter((r) => r.ok).length, failed: results.filter((r) => !r.ok).length });
+		}
+		catch (error)
+		{
+			next(error);
+		}
+	});
+
+	router.put('/:id', async (req, res, next) =>
+	{
+		try
+		{
+			const result = await applyTaskUpdate(req, req.params.id, req.body || {});
+			if (result.refusal) return res.status(result.refusal.status).json(result.refusal.body);
+			const { existing, updated, metadata } = result;
+			if (!updated) return res.json({ task: sanitizeTask(existing) });
+			await auditLogger({
+				action: 'task.updated',
+				entity: 'task',
+				entityId: existing.id,
+				actorId: req.auth.user.id,
+				organizationId: updated.organizationId,
+				before: existing,
+				after: updated,
+				metadata
+			});
+
+			const next = await startNextOccurrence(req, existing, updated);
+			res.json({ task: sanitizeTask(next ? await dbApi.getTaskById(existing.id) : updated), ...(next ? { nextOccurrence: sanitizeTask(next) } : {}) });
+		} catch (error)
+		{
+			next(error);
+		}
+	});
+
+	router.delete('/:id', async (req, res, next) =>
+	{
+		try
+		{
+			const result = await applyTaskDelete(req, req.params.id);
+			if (result.refusal) return res.status(result.refusal.status).json(result.refusal.body);
+			const { existing } = result;
+			await auditLogger({
+				action: 'task.deleted',
+				entity: 'task',
+				entityId: existing.id,
+				actorId: req.auth.user.id,
+				organizationId: existing.organizationId,
+				before: existing
+			});
+
+			res.status(204).send();
+		} catch (error)
+		{
+			next(error);
+		}
+	});
+
+	// Checks and applies updates to task id for PUT /:id and bulk updates, leaving the audit entry to the caller.
+	// Returns { refusal: { status, body } } when a check fails, otherwise { existing, updated, metadata } where
+	// updated is null when the updates set nothing and metadata notes the blockers or WIP limit overridden.
+	async function applyTaskUpdate(req, id, updates)
+	{
+		const user = req.auth?.user;
+		const orgScope = new Set(req.auth?.orgScope || []);
+
+		const existing = await dbApi.getTaskById(id);
+		if (!existing) return refuse(404, { error: 'Task not found' });
+		if (!orgScope.has(existing.organizationId)) return refuse(403, { error: 'Task outside allowed scope' });
+		const editRefusal = await taskEditRefusal(req, existing);
+		if (editRefusal) return editRefusal;
+
+		if (updates.organizationId && !orgScope.has(updates.organizationId)) return refuse(403, { error: 'Target organization outside allowed scope' });
+		// The rule as it will be after the update must still work with the task's due date
+		if (updates.recurrence !== undefined || updates.dueDate !== undefined)
+		{
+			const recurrence = updates.recurrence !== undefined ? parseRecurrence(updates.recurrence) : { rule: readRecurrence(existing.recurrence) };
+			const dueDate = updates.dueDate !== undefined ? updates.dueDate : existing.dueDate;
+			const recurrenceError = recurrence.error || recurrenceProblem(recurrence.rule, { dueDate, parentTaskId: existing.parentTaskId });
+			if (recurrenceError) return refuse(400, { error: recurrenceError });
+		}
+		// Subtasks share their parent's organization, so neither side moves on its own
+		if (typeof updates.organizationId === 'string' && updates.organizationId !== existing.organizationId)
+		{
+			if (existing.parentTaskId) return refuse(400, { error: 'Subtasks stay in their parent task\'s organization' });
+			if ((await dbApi.countSubtasks(existing.id)) > 0) return refuse(400, { error: 'A task with subtasks cannot move to another organization' });
+		}
+		// The status must be one of the workflow of the organization the task ends up in
+		const targetOrg = typeof updates.organizationId === 'string' ? updates.organizationId : existing.organizationId;
+		const statusChanged = typeof updates.status === 'string' && updates.status !== existing.status;
+		const workflow = statusChanged || targetOrg !== existing.organizationId ? await resolveWorkflow(dbApi, targetOrg) : null;
+		const status = statusChanged ? updates.status : existing.status;
+		if (workflow && !findStatus(workflow, status)) return refuse(400, { error: unknownStatusMessage(workflow, status) });
+
+		const sanitizedUpdates = sanitizeTaskUpdates(updates);
+		// Policies see only the fields that actually change
+		const changes = Object.fromEntries(Object.entries(sanitizedUpdates).filter(([key, value]) => existing[key] !== value));
+		const decision = await decideTaskAction(dbApi, req.auth, 'tasks:update', existing, changes);
+		if (!decision.allowed) return refuse(403, actionRefusalBody(decision, 'tasks:update'));
+		const changeable = new Set(await listChangeableFields(req.auth, existing, decision, changes.organizationId));
+		const blockedFields = Object.keys(changes).filter((field) => !changeable.has(field));
+		if (blockedFields.length > 0)
+		{
+			return refuse(403, {
+				error: `Not allowed to change: ${blockedFields.join(', ')}`,
+				fields: blockedFields,
+				permissions: Array.from(new Set(blockedFields.map((field) => TASK_FIELD_PERMISSIONS[field])))
+			});
+		}
+		if (Object.keys(sanitizedUpdates).length === 0) return { existing, updated: null, metadata: null };
+		// Within an organization status changes follow the workflow's transitions; a task whose status the workflow
+		// doesn't have may move to any of its statuses
+		if (statusChanged && targetOrg === existing.organizationId && findStatus(workflow, existing.status))
+		{
+			const move = transitionFor(workflow, existing.status, status);
+			if (!move.allowed)
+			{
+				return refuse(409, {
+					error: `Moving from ${findStatus(workflow, existing.status).label} to ${findStatus(workflow, status).label} is not allowed`,
+					from: existing.status,
+					to: status,
+					allowed: workflow.transitions.filter((t) => t.from === existing.status).map((t) => t.to)
+				});
+			}
+			if (move.permission && !(await req.auth.can(move.permission, { organizationId: existing.organizationId })))
+			{
+				return refuse(403, { error: `Moving to ${findStatus(workflow, status).label} needs ${move.permission}`, permission: move.permission });
+			}
+		}
+		const closed = workflow ? isTerminal(workflow, status) : Boolean(existing.closed);
+
+		// Open blockers keep a task from being completed unless the caller may override them
+		let overrodeBlockers = null;
+		if (closed && !existing.closed)
+		{
+			const blockers = await dbApi.listOpenBlockerIds(existing.id);
+			if (blockers.length > 0)
+			{
+				if (!(await req.auth.can('tasks:dependencies:override', { organizationId: existing.organizationId })))
+				{
+					return refuse(409, {
+						error: `Blocked by ${blockers.length} open task${blockers.length === 1 ? '' : 's'}`,
+						blockers,
+						permission: 'tasks:dependencies:override'
+					});
+				}
+				overrodeBlockers = blockers;
+			}
+		}
+
+		// A task entering a status (a new one, or the same in another organization) counts against its WIP limit
+		let overrodeWipLimit = null;
+		const wipLimit = workflow ? findStatus(workflow, status).wipLimit : null;
+		if (wipLimit && (statusChanged || targetOrg !== existing.organizationId))
+		{
+			const count = (await dbApi.countTaskStatuses([targetOrg]))[status] || 0;
+			if (count >= wipLimit)
+			{
+				if (!(await req.auth.can('tasks:wip:override', { organizationId: targetOrg })))
+				{
+					return refuse(409, {
+						error: `${findStatus(workflow, status).label} has reached its WIP limit of ${wipLimit}`,
+						status,
+						limit: wipLimit,
+						count,
+						permission: 'tasks:wip:override'
+					});
+				}
+				overrodeWipLimit = { status, limit: wipLimit, count };
+			}
+		}
+
+		// Enforce Personal privacy: only creator can change Personal task title/desc etc.
+		if (existing.category === 'Personal' && existing.createdBy !== user.id)
+		{
+			return refuse(403, { error: 'Forbidden: cannot modify personal task you do not own' });
+		}
+		if (sanitizedUpdates.category)
+		{
+			const newCat = sanitizedUpdates.category.trim();
+			if (existing.category === 'Personal' && newCat !== 'Personal' && existing.createdBy !== user.id)
+			{
+				return refuse(403, { error: 'Cannot move personal task you do not own' });
+			}
+			if (newCat === 'Personal' && existing.createdBy !== user.id)
+			{
+				return refuse(403, { error: 'Cannot move task into Personal owned by another user' });
+			}
+			if (newCat !== 'Personal' && !req.auth.isOwner)
+			{
+				const categories = await listAccessibleCategories(dbApi, req.auth.grants, [existing.organizationId]);
+				if (!categories.some(c => c.name === newCat))
+				{
+					return refuse(403, { error: 'Category access denied' });
+				}
+			}
+		}
+
+		const updated = await dbApi.updateTask(id, workflow ? { ...sanitizedUpdates, closed } : sanitizedUpdates);
+		const metadata = overrodeBlockers || overrodeWipLimit
+			? { ...(overrodeBlockers ? { overrodeBlockers } : {}), ...(overrodeWipLimit ? { overrodeWipLimit } : {}) }
+			: null;
+		return { existing, updated, metadata };
+	}
+
+	// Completing a recurring task creates its next occurrence, which carries the rule from now on. Returns it, or
+	// null when the update didn't complete a recurring task.
+	async function startNextOccurrence(req, existing, updated)
+	{
+		if (!updated.closed || existing.closed || !updated.recurrence) return null;
+		return materializeNextOccurrence({ dbApi, auditLogger, task: updated, reason: 'completed', actorId: req.auth.user.id });
+	}
+
+	// Checks and deletes task id for DELETE /:id and bulk deletes, leaving the audit entry to the caller. Returns
+	// { refusal: { status, body } } when a check fails, otherwise { existing }.
+	async function applyTaskDelete(req, id)
+	{
+		const existing = await dbApi.getTaskById(id);
+		if (!existing) return refuse(404, { error: 'Task not found' });
+		if (!(req.auth?.orgScope || []).includes(existing.organizationId)) return refuse(403, { error: 'Task outside allowed scope' });
+		const editRefusal = await taskEditRefusal(req, existing);
+		if (editRefusal) return editRefusal;
+		const decision = await decideTaskAction(dbApi, req.auth, 'tasks:delete', existing, {});
+		if (!decision.allowed) return refuse(403, actionRefusalBody(decision, 'tasks:delete'));
+
+		// Attachment rows go with the task; their blobs are released once the rows are gone
+		const blobs = await dbApi.listAttachmentHashesForTask(id);
+		await dbApi.deleteTask(id);
+		await attachments.release(blobs);
+		return { existing };
+	}
+
+	// Sharing: who besides the category rules may see or edit the task
+	router.get('/:id/acl', createPermissionGuard('tasks:view', taskOrg), async (req, res, next) =>
+	{
+		try
+		{
+			const existing = await dbApi.getTaskById(req.params.id);
+			const orgScope = req.auth?.orgScope || [];
+			const access = existing && orgScope.includes(existing.organizationId)
+				? await dbApi.getTaskAccess(existing.id, taskAccessorFor(req.auth))
+				: 'none';
+			if (!existing || access === 'none')
+			{
+				res.status(404).json({ error: 'Task not found' });
+				return;
+			}
+			if (existing.category === 'Personal' && existing.createdBy !== req.auth.user.id)
+			{
+				res.status(404).json({ error: 'Task not found' });
+				return;
+			}
+			const [entries, users, roles] = await Promise.all([
+				dbApi.listTaskAcl(existing.id),
+				dbApi.listUsersForOrganizations(orgScope),
+				dbApi.listRoles()
+			]);
+			res.json({
+				taskId: existing.id,
+				restricted: entries.length > 0,
+				access,
+				entries,
+				// People and roles the task can be shared with
+				candidates: {
+					users: users.filter((u) => u.isActive !== 0).map((u) => ({ id: u.id, name: u.name, email: u.email })),
+					roles: roles.map((r) => r.name)
+				}
+			});
+		}
+		catch (error)
+		{
+			next(error);
+		}
+	});
+
+	router.put('/:id/acl', createPermissionGuard('tasks:update', taskOrg), async (req, res, next) =>
+	{
+		try
+		{
+			const user = req.auth?.user;
+			const orgScope = new Set(req.auth?.orgScope || []);
+			const existing = await dbApi.getTaskById(req.params.id);
+			if (!existing)
+			{
+				res.status(404).json({ error: 'Task not found' });
+				return;
+			}
+			if (!orgScope.has(existing.organizationId))
+			{
+				res.status(403).json({ error: 'Task outside allowed scope' });
+				return;
+			}
+			if (existing.category === 'Personal')
+			{
+				res.status(400).json({ error: 'Personal tasks cannot be shared' });
+				return;
+			}
+			if (!(await requireTaskEdit(req, res, existing))) return;
+
+			const entries = await normalizeAclEntries(dbApi, req.body?.entries, orgScope);
+			if (entries.error)
+			{
+				res.status(400).json({ error: entries.error });
+				return;
+			}
+			const before = await dbApi.listTaskAcl(existing.id);
+			const after = await dbApi.replaceTaskAcl(existing.id, entries.list);
+			const summarize = (list) => list.map((e) => ({ principalType: e.principalType, principalId: e.principalId, access: e.access }));
+			await auditLogger({
+				action: 'task.acl_updated',
+				entity: 'task',
+				entityId: existing.id,
+				actorId: user.id,
+				organizationId: existing.organizationId,
+				before: summarize(before),
+				after: summarize(after)
+			});
+			res.json({ taskId: existing.id, restricted: after.length > 0, entries: after });
+		}
+		catch (error)
+		{
+			next(error);
+		}
+	});
+
+	// Checklist: ordered, checkable steps within a task
+	router.get('/:id/checklist', createPermissionGuard('tasks:view', taskOrg), async (req, res, next) =>
+	{
+		try
+		{
+			const task = await loadAccessibleTask(req, res, { edit: false });
+			if (!task) return;
+			const [items, users] = await Promise.all([
+				dbApi.listChecklistItems(task.id),
+				dbApi.listUsersForOrganizations(req.auth.orgScope || [])
+			]);
+			res.json({
+				taskId: task.id,
+				items: items.map(sanitizeChecklistItem),
+				// People items can be assigned to
+				assignees: users.filter((u) => u.isActive !== 0).map((u) => ({ id: u.id, name: u.name }))
+			});
+		}
+		catch (error)
+		{
+			next(error);
+		}
+	});
+
+	router.post('/:id/checklist', async (req, res, next) =>
+	{
+		try
+		{
+			const task = await loadAccessibleTask(req, res, { edit: true });
+			if (!task) return;
+			const title = typeof req.body?.title === 'string' ? req.body.title.trim() : '';
+			if (!title) return res.status(400).json({ error: 'Checklist item title is required' });
+			const assignee = await normalizeChecklistAssignee(dbApi, req.body?.assignedTo, req.auth.orgScope);
+			if (assignee.error) return res.status(400).json({ error: assignee.error });
+			const created = await dbApi.createChecklistItem({ taskId: task.id, title, assignedTo: assignee.id, createdBy: req.auth.user.id });
+			await auditLogger({
+				action: 'task.checklist_item_created',
+				entity: 'task',
+				entityId: task.id,
+				actorId: req.auth.user.id,
+				organizationId: task.organizationId,
+				after: sanitizeChecklistItem(created)
+			});
+			res.status(201).json({ item: sanitizeChecklistItem(created) });
+		}
+		catch (error)
+		{
+			next(error);
+		}
+	});
+
+	// Body: { itemIds } listing every item of the task in the new order
+	router.put('/:id/checklist/order', async (req, res, next) =>
+	{
+		try
+		{
+			const task = await loadAccessibleTask(req, res, { edit: true });
+			if (!task) return;
+			const itemIds = req.body?.itemIds;
+			const before = await dbApi.listChecklistItems(task.id);
+			const known = new Set(before.map((item) => item.id));
+			if (!Array.isArray(itemIds) || itemIds.length !== known.size || new Set(itemIds).size !== known.size || !itemIds.every((id) => known.has(id)))
+			{
+				return res.status(400).json({ error: 'itemIds must list every checklist item of the task once' });
+			}
+			const items = await dbApi.reorderChecklistItems(task.id, itemIds);
+			await auditLogger({
+				action: 'task.checklist_reordered',
+				entity: 'task',
+				entityId: task.id,
+				actorId: req.auth.user.id,
+				organizationId: task.organizationId,
+				before: before.map((item) => item.id),
+				after: items.map((item) => item.id)
+			});
+			res.json({ taskId: task.id, items: items.map(sanitizeChecklistItem) });
+		}
+		catch (error)
+		{
+			next(error);
+		}
+	});
+
+	// Body: { title?, done?, assignedTo? }
+	router.put('/:id/checklist/:itemId', async (req, res, next) =>
+	{
+		try
+		{
+			const task = await loadAccessibleTask(req, res, { edit: true });
+			if (!task) return;
+			const existing = await dbApi.getChecklistItemById(req.params.itemId);
+			if (!existing || existing.taskId !== task.id) return res.status(404).json({ error: 'Checklist item not found' });
+			const body = req.body || {};
+			const updates = {};
+			if (body.title !== undefined)
+			{
+				const title = typeof body.title === 'string' ? body.title.trim() : '';
+				if (!title) return res.status(400).json({ error: 'Checklist item title is required' });
+				updates.title = title;
+			}
+			if (body.done !== undefined)
+			{
+				if (typeof body.done !== 'boolean') return res.status(400).json({ error: 'done must be a boolean' });
+				updates.done = body.done;
+			}
+			if (body.assignedTo !== undefined)
+			{
+				const assignee = await normalizeChecklistAssignee(dbApi, body.assignedTo, req.auth.orgScope);
+				if (assignee.error) return res.status(400).json({ error: assignee.error });
+				updates.assignedTo = assignee.id;
+			}
+			const updated = await dbApi.updateChecklistItem(existing.id, updates);
+			await auditLogger({
+				action: 'task.checklist_item_updated',
+				entity: 'task',
+				entityId: task.id,
+				actorId: req.auth.user.id,
+				organizationId: task.organizationId,
+				before: sanitizeChecklistItem(existing),
+				after: sanitizeChecklistItem(updated)
+			});
+			res.json({ item: sanitizeChecklistItem(updated) });
+		}
+		catch (error)
+		{
+			next(error);
+		}
+	});
+
+	router.delete('/:id/checklist/:itemId', async (req, res, next) =>
+	{
+		try
+		{
+			const task = await loadAccessibleTask(req, res, { edit: true });
+			if (!task) return;
+			const existing = await dbApi.getChecklistItemById(req.params.itemId);
+			if (!existing || existing.taskId !== task.id) return res.status(404).json({ error: 'Checklist item not found' });
+			await dbApi.deleteChecklistItem(existing.id);
+			await auditLogger({
+				action: 'task.checklist_item_deleted',
+				entity: 'task',
+				entityId: task.id,
+				actorId: req.auth.user.id,
+				organizationId: task.organizationId,
+				before: sanitizeChecklistItem(existing)
+			});
+			res.status(204).send();
+		}
+		catch (error)
+		{
+			next(error);
+		}
+	});
+
+	// Comments: anyone who can see the task reads them; writing needs tasks:comment in the task's organization
+	router.get('/:id/comments', createPermissionGuard('tasks:view', taskOrg), async (req, res, next) =>
+	{
+		try
+		{
+			const task = await loadAccessibleTask(req, res, { edit: false });
+			if (!task) return;
+			const [comments, users] = await Promise.all([
+				dbApi.listTaskComments(task.id),
+				dbApi.listUsersForOrganizations(req.auth.orgScope || [])
+			]);
+			res.json({
+				taskId: task.id,
+				comments: comments.map((c) => sanitizeComment(c, req.auth.user.id)),
+				// People who can be @mentioned
+				mentionable: users.filter((u) => u.isActive !== 0).map((u) => ({ id: u.id, name: u.name }))
+			});
+		}
+		catch (error)
+		{
+			next(error);
+		}
+	});
+
+	// Body: { body, mentions?: [userId] }
+	router.post('/:id/comments', createPermissionGuard('tasks:comment', taskOrg), async (req, res, next) =>
+	{
+		try
+		{
+			const task = await loadAccessibleTask(req, res, { edit: false });
+			if (!task) return;
+			const input = await normalizeCommentInput(dbApi, req.body, req.auth.orgScope);
+			if (input.error) return res.status(400).json({ error: input.error });
+			const created = await dbApi.createTaskComment({ taskId: task.id, authorId: req.auth.user.id, ...input });
+			await auditLogger({
+				action: 'task.comment_created',
+				entity: 'task',
+				entityId: task.id,
+				actorId: req.auth.user.id,
+				organizationId: task.organizationId,
+				after: sanitizeComment(created),
+				metadata: input.mentions.length > 0 ? { mentions: input.mentions } : null
+			});
+			res.status(201).json({ comment: sanitizeComment(created, req.auth.user.id) });
+		}
+		catch (error)
+		{
+			next(error);
+		}
+	});
+
+	// Only the author edits a comment
+	router.put('/:id/comments/:commentId', createPermissionGuard('tasks:comment', taskOrg), async (req, res, next) =>
+	{
+		try
+		{
+			const task = await loadAccessibleTask(req, res, { edit: false });
+			if (!task) return;
+			const existing = await dbApi.getTaskCommentById(req.params.commentId);
+			if (!existing || existing.taskId !== task.id) return res.status(404).json({ error: 'Comment not found' });
+			if (existing.authorId !== req.auth.user.id) return res.status(403).json({ error: 'Only the author can edit a comment' });
+			const input = await normalizeCommentInput(dbApi, req.body, req.auth.orgScope);
+			if (input.error) return res.status(400).json({ error: input.error });
+			const updated = await dbApi.updateTaskComment(existing.id, input);
+			await auditLogger({
+				action: 'task.comment_updated',
+				entity: 'task',
+				entityId: task.id,
+				actorId: req.auth.user.id,
+				organizationId: task.organizationId,
+				before: sanitizeComment(existing),
+				after: sanitizeComment(updated)
+			});
+			res.json({ comment: sanitizeComment(updated, req.auth.user.id) });
+		}
+		catch (error)
+		{
+			next(error);
+		}
+	});
+
+	// The author, or a moderator (tasks:comments:moderate) for anyone's comment
+	router.delete('/:id/comments/:commentId', async (req, res, next) =>
+	{
+		try
+		{
+			const task = await loadAccessibleTask(req, res, { edit: false });
+			if (!task) return;
+			const existing = await dbApi.getTaskCommentById(req.params.commentId);
+			if (!existing || existing.taskId !== task.id) return res.status(404).json({ error: 'Comment not found' });
+			const isAuthor = existing.authorId === req.auth.user.id;
+			if (!isAuthor && !(await req.auth.can('tasks:comments:moderate', { organizationId: task.organizationId })))
+			{
+				return res.status(403).json({ error: 'Only the author or a moderator can delete a comment', permission: 'tasks:comments:moderate' });
+			}
+			await dbApi.deleteTaskComment(existing.id);
+			await auditLogger({
+				action: 'task.comment_deleted',
+				entity: 'task',
+				entityId: task.id,
+				actorId: req.auth.user.id,
+				organizationId: task.organizationId,
+				before: sanitizeComment(existing),
+				metadata: isAuthor ? null : { moderated: true }
+			});
+			res.status(204).send();
+		}
+		catch (error)
+		{
+			next(error);
+		}
+	});
+
+	// Comments and readable field changes from the audit trail, oldest first
+	router.get('/:id/activity', createPermissionGuard('tasks:view', taskOrg), async (req, res, next) =>
+	{
+		try
+		{
+			const task = await loadAccessibleTask(req, res, { edit: false });
+			if (!task) return;
+			const [comments, events, bulkEvents, organizations, workflow] = await Promise.all([
+				dbApi.listTaskComments(task.id),
+				dbApi.listAuditEventsForEntity('task', task.id),
+				dbApi.listBulkTaskAuditEvents(task.id),
+				dbApi.listOrganizations(),
+				resolveWorkflow(dbApi, task.organizationId)
+			]);
+			res.json({
+				taskId: task.id,
+				items: buildTaskActivity({
+					comments: comments.map((c) => sanitizeComment(c, req.auth.user.id)),
+					events: [...events, ...bulkEvents],
+					organizations,
+					statuses: workflow.statuses
+				})
+			});
+		}
+		catch (error)
+		{
+			next(error);
+		}
+	});
+
+	// Attachments: the request body is the file itself (any Content-Type, application/octet-stream preferred so the
+	// JSON parser leaves it alone); name and type come from the query string. Reading needs the task visible,
+	// adding and removing needs edit access and tasks:update on it.
+	router.get('/:id/attachments', createPermissionGuard('tasks:view', taskOrg), async (req, res, next) =>
 	{
 		try
 		{
-			const user = req.auth?.user;
-			if (!user) return res.status(401).json({ error: 'Unauthenticated' });
-			if (user.role === 'owner') return next();
-			const allowedStatic = roleAllows(user.role, permission);
-			const allowedDynamic = await dbApi.hasRolePermission({ organizationId: null, role: user.role, permission });
-			if (allowedStatic || allowedDynamic) return next();
-			return res.status(403).json({ error: 'Forbidden', permission });
-		} catch (err)
+			const task = await loadAccessibleTask(req, res, { edit: false });
+			if (!task) return;
+			const { maxBytes, types } = readAttachmentLimits(envPath);
+			res.json({
+				taskId: task.id,
+				attachments: (await dbApi.listTaskAttachments(task.id)).map(sanitizeAttachment),
+				limits: { maxBytes, types: Array.from(types) }
+			});
+		}
+		catch (error)
 		{
-			next(err);
+			next(error);
 		}
-	};
+	});
 
-	router.get('/', guard('tasks:view'), async (req, res, next) =>
+	// Query: filename, type (the file's MIME type)
+	router.post('/:id/attachments', async (req, res, next) =>
 	{
 		try
 		{
-			const filters = normalizeTaskFilters(req.query);
-			const orgScope = req.auth?.orgScope || [];
-			const user = req.auth?.user;
-			let tasks = await dbApi.listTasksForOrganizations(orgScope, filters);
-			// Personal tasks are only visible to creator
-			tasks = tasks.filter(t =>
-			{
-				if (t.category === 'Personal')
-				{
-					return t.createdBy === user.id; // only owner of task sees it
-				}
-				return true;
+			const task = await loadAccessibleTask(req, res, { edit: true });
+			if (!task) return;
+			const filename = sanitizeFilename(req.query.filename);
+			if (!filename) return res.status(400).json({ error: 'filename is required' });
+			const mimeType = String(req.query.type || '').split(';')[0].trim().toLowerCase();
+			const { maxBytes, types } = readAttachmentLimits(envPath);
+			const content = await readUpload(req, res, maxBytes);
+			if (!content) return;
+			const refused = checkContent(content, mimeType, types);
+			if (refused) return res.status(415).json({ error: refused });
+			const created = await attachments.store(content, (contentHash) => dbApi.createTaskAttachment({
+				taskId: task.id,
+				filename,
+				mimeType,
+				size: content.length,
+				contentHash,
+				uploadedBy: req.auth.user.id
+			}));
+			await auditLogger({
+				action: 'task.attachment_added',
+				entity: 'task',
+				entityId: task.id,
+				actorId: req.auth.user.id,
+				organizationId: task.organizationId,
+				after: sanitizeAttachment(created)
 			});
-			// Apply category access restrictions for all non-owner roles (admin included)
-			if (user && user.role !== 'owner')
-			{
-				// For performance: get accessible categories list
-				const categories = await dbApi.listAccessibleCategoriesForRole(orgScope, user.role);
-				const allowedCategoryNames = new Set(categories.map(c => c.name));
-				tasks = tasks.filter(t => t.category === 'Personal' || allowedCategoryNames.has(t.category));
-			}
-			res.json({ tasks: tasks.map(sanitizeTask) });
-		} catch (error)
+			res.status(201).json({ attachment: sanitizeAttachment(created) });
+		}
+		catch (error)
 		{
 			next(error);
 		}
 	});
 
-	router.post('/', guard('tasks:create'), async (req, res, next) =>
+	router.get('/:id/attachments/:attachmentId', createPermissionGuard('tasks:view', taskOrg), async (req, res, next) =>
 	{
 		try
 		{
-			const payload = req.body || {};
-			const user = req.auth?.user;
-			const orgScope = new Set(req.auth?.orgScope || []);
-			const organizationId = payload.organizationId || user.organization_id;
-
-			if (!organizationId || !orgScope.has(organizationId))
-			{
-				res.status(403).json({ error: 'Organization not in scope' });
-				return;
-			}
-			if (!payload.title || typeof payload.title !== 'string')
-			{
-				res.status(400).json({ error: 'Task title is required' });
-				return;
-			}
+			const task = await loadAccessibleTask(req, res, { edit: false });
+			if (!task) return;
+			const attachment = await dbApi.getTaskAttachmentById(req.params.attachmentId);
+			if (!attachment || attachment.taskId !== task.id) return res.status(404).json({ error: 'Attachment not found' });
+			sendBlob(res, attachment.contentHash, {
+				'Content-Type': attachment.mimeType,
+				'Content-Length': attachment.size,
+				'Content-Disposition': contentDisposition('attachment', attachment.filename)
+			}, next);
+		}
+		catch (error)
+		{
+			next(error);
+		}
+	});
 
-			const categoryName = (payload.category || 'Work').trim();
-			// Enforce Personal tasks only created by their owner (already true) and anyone can create their own Personal; other category must be accessible
-			if (categoryName === 'Personal' && payload.assignedTo && payload.assignedTo !== user.id)
-			{
-				return res.status(400).json({ error: 'Personal task cannot be pre-assigned to another user' });
-			}
-			if (categoryName !== 'Personal')
-			{
-				// Non-owner roles (including admin) must have category access
-				if (user.role !== 'owner')
-				{
-					const categories = await dbApi.listAccessibleCategoriesForRole([organizationId], user.role);
-					if (!categories.some(c => c.name === categoryName))
-					{
-						return res.status(403).json({ error: 'Category access denied' });
-					}
-				}
-			}
+	// Thumbnails are made by the uploading client (a small PNG, JPEG or WebP) and only for image attachments
+	router.get('/:id/attachments/:attachmentId/thumbnail', createPermissionGuard('tasks:view', taskOrg), async (req, res, next) =>
+	{
+		try
+		{
+			const task = await loadAccessibleTask(req, res, { edit: false });
+			if (!task) return;
+			const attachment = await dbApi.getTaskAttachmentById(req.params.attachmentId);
+			if (!attachment || attachment.taskId !== task.id || !attachment.thumbnailHash) return res.status(404).json({ error: 'Thumbnail not found' });
+			sendBlob(res, attachment.thumbnailHash, { 'Content-Type': attachment.thumbnailType, 'Cache-Control': 'private, max-age=3600' }, next);
+		}
+		catch (error)
+		{
+			next(error);
+		}
+	});
 
-			const maxPosition = await dbApi.getMaxTaskPosition(organizationId);
-			const created = await dbApi.createTask({
-				organizationId,
-				title: payload.title.trim(),
-				description: payload.description ?? null,
-				status: payload.status || 'todo',
-				category: categoryName,
-				priority: payload.priority || 'medium',
-				dueDate: payload.dueDate || null,
-				position: maxPosition + 1,
-				createdBy: user.id,
-				assignedTo: payload.assignedTo || null
-			});
+	// Query: type (image/png, image/jpeg or image/webp)
+	router.put('/:id/attachments/:attachmentId/thumbnail', async (req, res, next) =>
+	{
+		try
+		{
+			const task = await loadAccessibleTask(req, res, { edit: true });
+			if (!task) return;
+			const attachment = await dbApi.getTaskAttachmentById(req.params.attachmentId);
+			if (!attachment || attachment.taskId !== task.id) return res.status(404).json({ error: 'Attachment not found' });
+			if (!attachment.mimeType.startsWith('image/')) return res.status(400).json({ error: 'Only image attachments have thumbnails' });
+			const content = await readUpload(req, res, THUMBNAIL_MAX_BYTES);
+			if (!content) return;
+			const mimeType = String(req.query.type || '').toLowerCase();
+			const refused = checkContent(content, mimeType, new Set(THUMBNAIL_TYPES));
+			if (refused) return res.status(415).json({ error: refused });
+			await attachments.store(content, (hash) => dbApi.setTaskAttachmentThumbnail(attachment.id, hash, mimeType));
+			await attachments.release([attachment.thumbnailHash]);
+			res.json({ attachment: sanitizeAttachment(await dbApi.getTaskAttachmentById(attachment.id)) });
+		}
+		catch (error)
+		{
+			next(error);
+		}
+	});
 
+	router.delete('/:id/attachments/:attachmentId', async (req, res, next) =>
+	{
+		try
+		{
+			const task = await loadAccessibleTask(req, res, { edit: true });
+			if (!task) return;
+			const existing = await dbApi.getTaskAttachmentById(req.params.attachmentId);
+			if (!existing || existing.taskId !== task.id) return res.status(404).json({ error: 'Attachment not found' });
+			await dbApi.deleteTaskAttachment(existing.id);
+			await attachments.release([existing.contentHash, existing.thumbnailHash]);
 			await auditLogger({
-				action: 'task.created',
+				action: 'task.attachment_removed',
 				entity: 'task',
-				entityId: created.id,
-				actorId: user.id,
-				organizationId,
-				after: created
+				entityId: task.id,
+				actorId: req.auth.user.id,
+				organizationId: task.organizationId,
+				before: sanitizeAttachment(existing)
 			});
-
-			res.status(201).json({ task: sanitizeTask(created) });
-		} catch (error)
+			res.status(204).send();
+		}
+		catch (error)
 		{
 			next(error);
 		}
 	});
 
-	router.put('/:id', guard('tasks:update'), async (req, res, next) =>
+	// Dependencies: GET lists the visible tasks blocking this one and those it blocks. Adding or removing a blocker
+	// changes this task's workflow, so it needs edit access and tasks:update on it; the blocker only has to be visible.
+	router.get('/:id/dependencies', createPermissionGuard('tasks:view', taskOrg), async (req, res, next) =>
 	{
 		try
 		{
-			const { id } = req.params;
-			const updates = req.body || {};
-			const user = req.auth?.user;
-			const orgScope = new Set(req.auth?.orgScope || []);
-
-			const existing = await dbApi.getTaskById(id);
-			if (!existing)
-			{
-				res.status(404).json({ error: 'Task not found' });
-				return;
-			}
-			if (!orgScope.has(existing.organizationId))
-			{
-				res.status(403).json({ error: 'Task outside allowed scope' });
-				return;
-			}
-
-			if (updates.organizationId && !orgScope.has(updates.organizationId))
-			{
-				res.status(403).json({ error: 'Target organization outside allowed scope' });
-				return;
-			}
-
-			const sanitizedUpdates = sanitizeTaskUpdates(updates);
-			if (Object.keys(sanitizedUpdates).length === 0)
+			const task = await loadAccessibleTask(req, res, { edit: false });
+			if (!task) return;
+			const blockedBy = [];
+			const blocks = [];
+			for (const link of await dbApi.listTaskDependencies([task.id]))
 			{
-				res.json({ task: sanitizeTask(existing) });
-				return;
+				const otherId = link.blockedId === task.id ? link.blockerId : link.blockedId;
+				const other = await dbApi.getTaskById(otherId);
+				if (!other || (await taskVisibility(req, other)) === 'none') continue;
+				(link.blockedId === task.id ? blockedBy : blocks).push(sanitizeDependency(other));
 			}
+			res.json({ taskId: task.id, blockedBy, blocks });
+		}
+		catch (error)
+		{
+			next(error);
+		}
+	});
 
-			// Enforce Personal privacy: only creator can change Personal task title/desc etc.
-			if (existing.category === 'Personal' && existing.createdBy !== user.id)
+	// Body: { blockerId } — the task that has to be done first
+	router.post('/:id/dependencies', async (req, res, next) =>
+	{
+		try
+		{
+			const task = await loadAccessibleTask(req, res, { edit: true });
+			if (!task) return;
+			const blockerId = typeof req.body?.blockerId === 'string' ? req.body.blockerId : '';
+			const blocker = blockerId ? await dbApi.getTaskById(blockerId) : null;
+			if (!blocker || (await taskVisibility(req, blocker)) === 'none') return res.status(404).json({ error: 'Blocking task not found' });
+			if (blocker.id === task.id) return res.status(400).json({ error: 'A task cannot block itself' });
+			if (blocker.organizationId !== task.organizationId) return res.status(400).json({ error: 'Blocking task must be in the same organization' });
+			if (await dbApi.dependsOn(blocker.id, task.id))
 			{
-				return res.status(403).json({ error: 'Forbidden: cannot modify personal task you do not own' });
+				return res.status(409).json({ error: `"${blocker.title}" already waits on this task; the link would make a cycle` });
 			}
-			if (sanitizedUpdates.category)
+			if (!(await dbApi.addTaskDependency(blocker.id, task.id, req.auth.user.id)))
 			{
-				const newCat = sanitizedUpdates.category.trim();
-				if (existing.category === 'Personal' && newCat !== 'Personal' && existing.createdBy !== user.id)
-				{
-					return res.status(403).json({ error: 'Cannot move personal task you do not own' });
-				}
-				if (newCat === 'Personal' && existing.createdBy !== user.id)
-				{
-					return res.status(403).json({ error: 'Cannot move task into Personal owned by another user' });
-				}
-				if (newCat !== 'Personal' && user.role !== 'owner')
-				{
-					const categories = await dbApi.listAccessibleCategoriesForRole([existing.organizationId], user.role);
-					if (!categories.some(c => c.name === newCat))
-					{
-						return res.status(403).json({ error: 'Category access denied' });
-					}
-				}
+				return res.status(409).json({ error: 'This task is already blocked by that task' });
 			}
-
-			const updated = await dbApi.updateTask(id, sanitizedUpdates);
 			await auditLogger({
-				action: 'task.updated',
+				action: 'task.dependency_added',
 				entity: 'task',
-				entityId: id,
-				actorId: user.id,
-				organizationId: updated.organizationId,
-				before: existing,
-				after: updated
+				entityId: task.id,
+				actorId: req.auth.user.id,
+				organizationId: task.organizationId,
+				after: { blockerId: blocker.id }
 			});
-
-			res.json({ task: sanitizeTask(updated) });
-		} catch (error)
+			res.status(201).json({ blocker: sanitizeDependency(blocker) });
+		}
+		catch (error)
 		{
 			next(error);
 		}
 	});
 
-	router.delete('/:id', guard('tasks:delete'), async (req, res, next) =>
+	router.delete('/:id/dependencies/:blockerId', async (req, res, next) =>
 	{
 		try
 		{
-			const { id } = req.params;
-			const user = req.auth?.user;
-			const orgScope = new Set(req.auth?.orgScope || []);
-
-			const existing = await dbApi.getTaskById(id);
-			if (!existing)
-			{
-				res.status(404).json({ error: 'Task not found' });
-				return;
-			}
-			if (!orgScope.has(existing.organizationId))
-			{
-				res.status(403).json({ error: 'Task outside allowed scope' });
-				return;
-			}
-
-			await dbApi.deleteTask(id);
+			const task = await loadAccessibleTask(req, res, { edit: true });
+			if (!task) return;
+			if (!(await dbApi.removeTaskDependency(req.params.blockerId, task.id))) return res.status(404).json({ error: 'Dependency not found' });
 			await auditLogger({
-				action: 'task.deleted',
+				action: 'task.dependency_removed',
 				entity: 'task',
-				entityId: id,
-				actorId: user.id,
-				organizationId: existing.organizationId,
-				before: existing
+				entityId: task.id,
+				actorId: req.auth.user.id,
+				organizationId: task.organizationId,
+				before: { blockerId: req.params.blockerId }
 			});
-
 			res.status(204).send();
-		} catch (error)
+		}
+		catch (error)
 		{
 			next(error);
 		}
 	});
 
+	// Streams a blob with headers that keep browsers from rendering or sniffing it; a missing blob is a 404
+	function sendBlob(res, hash, headers, next)
+	{
+		if (!attachments.exists(hash))
+		{
+			res.status(404).json({ error: 'Attachment content is missing' });
+			return;
+		}
+		res.set({ 'X-Content-Type-Options': 'nosniff', 'Content-Security-Policy': "default-src 'none'", ...headers });
+		const stream = attachments.createReadStream(hash);
+		stream.on('error', next);
+		stream.pipe(res);
+	}
+
 	return router;
 }
 
+// Role check for a task action followed by the policies that apply in the task's organization. Owners are not
+// subject to policies. policies may be passed in when deciding for many tasks at once.
+async function decideTaskAction(dbApi, auth, action, resource, changes, policies)
+{
+	const roleAllowed = await auth.can(action, { organizationId: resource.organizationId });
+	if (auth.isOwner) return { allowed: roleAllowed, policy: null };
+	const applicable = policiesFor(policies || (await dbApi.listPolicies()), action, resource.organizationId);
+	if (applicable.length === 0) return { allowed: roleAllowed, policy: null };
+	const context = buildPolicyContext({ user: auth.user, grants: auth.grants, resource, changes });
+	return decideWithPolicies({ roleAllowed, policies: applicable, context });
+}
+
+// Task fields the caller may change, given an allowed tasks:update decision. When an allow policy granted the
+// update the policy's own conditions govern the fields; otherwise each field needs its permission in the task's
+// organization, and moving needs tasks:move-org in the target organization as well.
+async function listChangeableFields(auth, task, decision, targetOrganizationId)
+{
+	const fields = Object.keys(TASK_FIELD_PERMISSIONS);
+	if (decision.policy) return fields;
+	const allowed = [];
+	for (const field of fields)
+	{
+		const permission = TASK_FIELD_PERMISSIONS[field];
+		if (!(await auth.can(permission, { organizationId: task.organizationId }))) continue;
+		if (field === 'organizationId' && targetOrganizationId && !(await auth.can(permission, { organizationId: targetOrganizationId }))) continue;
+		allowed.push(field);
+	}
+	return allowed;
+}
+
+// Validates ACL entries from a request: users must exist within the caller's organizations, roles in the catalog.
+// Returns { list } or { error }.
+async function normalizeAclEntries(dbApi, raw, orgScope)
+{
+	if (!Array.isArray(raw)) return { error: 'entries must be an array' };
+	const list = [];
+	const seen = new Set();
+	for (const entry of raw)
+	{
+		const principalType = entry?.principalType;
+		const access = entry?.access || 'view';
+		if (principalType !== 'user' && principalType !== 'role') return { error: 'principalType must be user or role' };
+		if (access !== 'view' && access !== 'edit') return { error: 'access must be view or edit' };
+		let principalId = typeof entry.principalId === 'string' ? entry.principalId.trim() : '';
+		if (principalType === 'user')
+		{
+			const target = principalId ? await dbApi.getUserById(principalId) : null;
+			if (!target || !orgScope.has(target.organization_id)) return { error: `Unknown user: ${principalId}` };
+		}
+		else
+		{
+			principalId = principalId.toLowerCase();
+			if (!principalId || !(await dbApi.getRoleByName(principalId))) return { error: `Unknown role: ${principalId}` };
+		}
+		const key = `${principalType}:${principalId}`;
+		if (seen.has(key)) continue;
+		seen.add(key);
+		list.push({ principalType, principalId, access });
+	}
+	return { list };
+}
+
+// Checklist assignee from a request: null/empty clears it, otherwise an active user within the caller's organizations.
+// Returns { id } or { error }.
+async function normalizeChecklistAssignee(dbApi, raw, orgScope)
+{
+	if (raw === undefined || raw === null || raw === '') return { id: null };
+	const target = typeof raw === 'string' ? await dbApi.getUserById(raw) : null;
+	if (!target || target.is_active === 0 || !(orgScope || []).includes(target.organization_id)) return { error: `Unknown user: ${raw}` };
+	return { id: target.id };
+}
+
+// Comment body and mentions from a request: mentioned users must be active and within the caller's organizations.
+// Returns { body, mentions } or { error }.
+async function normalizeCommentInput(dbApi, raw, orgScope)
+{
+	const body = typeof raw?.body === 'string' ? raw.body.trim() : '';
+	if (!body) return { error: 'Comment body is required' };
+	if (body.length > 10000) return { error: 'Comment is too long' };
+	if (raw.mentions !== undefined && !Array.isArray(raw.mentions)) return { error: 'mentions must be an array of user ids' };
+	const mentions = Array.from(new Set(raw.mentions || []));
+	for (const id of mentions)
+	{
+		const target = typeof id === 'string' ? await dbApi.getUserById(id) : null;
+		if (!target || target.is_active === 0 || !(orgScope || []).includes(target.organization_id)) return { error: `Unknown user: ${id}` };
+	}
+	return { body, mentions };
+}
+
+// Why a recurrence rule can't be set on a task, or null: calendar rules count from the due date, and subtasks
+// don't repeat on their own
+function recurrenceProblem(rule, { dueDate, parentTaskId })
+{
+	if (!rule) return null;
+	if (parentTaskId) return 'Subtasks cannot repeat on their own';
+	if (isCalendarRule(rule) && !dueDate) return 'A task repeating on a schedule needs a due date';
+	return null;
+}
+
+// Reads a raw request body of at most limit bytes. Sends 413 (too large) or 400 and returns null on failure.
+function readUpload(req, res, limit)
+{
+	return new Promise((resolve, reject) =>
+	{
+		express.raw({ type: () => true, limit })(req, res, (err) =>
+		{
+			if (!err) return resolve(Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0));
+			if (err.type === 'entity.too.large')
+			{
+				res.status(413).json({ error: `File is larger than ${limit} bytes`, maxBytes: limit });
+				return resolve(null);
+			}
+			if (err.status === 400)
+			{
+				res.status(400).json({ error: 'Could not read the upload' });
+				return resolve(null);
+			}
+			reject(err);
+		});
+	});
+}
+
+// The body of the 403 for a refused role or policy decision; a refusal by policy names the policy
+function actionRefusalBody(decision, action)
+{
+	if (!decision.policy) return { error: 'Forbidden', permission: action };
+	return { error: `Denied by policy: ${decision.policy.name}`, permission: action, policy: { id: decision.policy.id, name: decision.policy.name } };
+}
+
+// A check that failed, with the response status and body that report it
+function refuse(status, body)
+{
+	return { refusal: { status, body } };
+}
+
+// The updates a bulk request applies to each task: { updates }, null updates for delete, or { error }
+function normalizeBulkAction(body)
+{
+	switch (body.action)
+	{
+		case 'update':
+			if (!body.updates || typeof body.updates !== 'object' || Array.isArray(body.updates)) return { error: 'updates must be an object of task fields' };
+			return { updates: body.updates };
+		case 'move':
+			if (typeof body.organizationId !== 'string' || !body.organizationId) return { error: 'organizationId is required' };
+			return { updates: { organizationId: body.organizationId } };
+		case 'category':
+			if (typeof body.category !== 'string' || !body.category.trim()) return { error: 'category is required' };
+			return { updates: { category: body.category.trim() } };
+		case 'delete':
+			return { updates: null };
+		default:
+			return { error: 'action must be one of update, move, category or delete' };
+	}
+}
+
+// The fields that differ between two versions of a task, as { before, after } holding just those fields
+function taskDiff(before, after)
+{
+	const diff = { before: {}, after: {} };
+	for (const key of new Set([...Object.keys(before), ...Object.keys(after)]))
+	{
+		if (key === 'updatedAt' || (before[key] ?? null) === (after[key] ?? null)) continue;
+		diff.before[key] = before[key] ?? null;
+		diff.after[key] = after[key] ?? null;
+	}
+	return diff;
+}
+
+function unknownStatusMessage(workflow, status)
+{
+	return `Unknown status "${status}"; the workflow has ${workflow.statuses.map((s) => s.key).join(', ')}`;
+}
+
+// A linked task as the dependency lists show it
+function sanitizeDependency(task)
+{
+	return { id: task.id, title: task.title, status: task.status, closed: Boolean(task.closed), openBlockerCount: task.openBlockerCount || 0 };
+}
+
+// Blob hashes stay on the server
+function sanitizeAttachment(attachment)
+{
+	return {
+		id: attachment.id,
+		taskId: attachment.taskId,
+		filename: attachment.filename,
+		mimeType: attachment.mimeType,
+		size: attachment.size,
+		hasThumbnail: Boolean(attachment.thumbnailHash),
+		uploadedBy: attachment.uploadedBy,
+		uploadedByName: attachment.uploadedByName || null,
+		createdAt: attachment.createdAt
+	};
+}
+
+// viewerId marks the caller's own comments so the client can offer edit/delete
+function sanitizeComment(comment, viewerId)
+{
+	return {
+		id: comment.id,
+		taskId: comment.taskId,
+		authorId: comment.authorId,
+		authorName: comment.authorName,
+		body: comment.body,
+		mentions: comment.mentions || [],
+		editedAt: comment.editedAt,
+		createdAt: comment.createdAt,
+		...(viewerId ? { own: comment.authorId === viewerId } : {})
+	};
+}
+
+function sanitizeChecklistItem(item)
+{
+	return {
+		id: item.id,
+		taskId: item.taskId,
+		title: item.title,
+		done: Boolean(item.done),
+		position: item.position,
+		assignedTo: item.assignedTo,
+		assignedToName: item.assignedToName,
+		completedAt: item.completedAt,
+		createdAt: item.createdAt,
+		updatedAt: item.updatedAt
+	};
+}
+
+// Rollup of a task's checklist and subtasks (done = in a terminal status); percent is null when it has neither
+function taskProgress(task)
+{
+	const checklist = { done: task.checklistDone || 0, total: task.checklistTotal || 0 };
+	const subtasks = { done: task.subtaskDone || 0, total: task.subtaskTotal || 0 };
+	const total = checklist.total + subtasks.total;
+	return {
+		checklist,
+		subtasks,
+		percent: total > 0 ? Math.round(((checklist.done + subtasks.done) / total) * 100) : null
+	};
+}
+
 function sanitizeTask(task)
 {
 	if (!task)
@@ -258,12 +1527,28 @@ function sanitizeTask(task)
 		priority: task.priority,
 		dueDate: task.dueDate,
 		position: task.position,
+		rank: task.rank,
 		createdBy: task.createdBy,
 		createdByName: task.createdByName,
 		assignedTo: task.assignedTo,
 		assignedToName: task.assignedToName,
+		parentTaskId: task.parentTaskId || null,
+		recurrence: readRecurrence(task.recurrence),
+		seriesId: task.seriesId || null,
+		progress: taskProgress(task),
+		commentCount: task.commentCount || 0,
+		attachmentCount: task.attachmentCount || 0,
+		// Open tasks blocking this one, counting those the caller can't see
+		openBlockerCount: task.openBlockerCount || 0,
+		// In a terminal status of its organization's workflow
+		closed: Boolean(task.closed),
 		createdAt: task.createdAt,
-		updatedAt: task.updatedAt
+		updatedAt: task.updatedAt,
+		// Shared through a task ACL, and what the caller may do with it (list queries report view-only shares)
+		restricted: Boolean(task.isRestricted),
+		access: task.canEdit === 0 ? 'view' : 'edit',
+		// Role and policy decisions for the board (list responses only)
+		...(task.permissions ? { permissions: task.permissions } : {})
 	};
 }
 
@@ -298,6 +1583,11 @@ function sanitizeTaskUpdates(updates)
 	{
 		payload.assignedTo = updates.assignedTo;
 	}
+	if (updates.recurrence !== undefined)
+	{
+		const { rule, error } = parseRecurrence(updates.recurrence);
+		if (!error) payload.recurrence = serializeRecurrence(rule);
+	}
 	if (typeof updates.position === 'number')
 	{
 		payload.position = updates.position;
@@ -328,13 +1618,50 @@ function normalizeTaskFilters(query)
 	{
 		filters.assignedTo = query.assignedTo.trim();
 	}
-	if (typeof query?.orderBy === 'string' && ['dueDate', 'position'].includes(query.orderBy))
+	if (typeof query?.parentTaskId === 'string' && query.parentTaskId.trim())
 	{
-		filters.orderBy = query.orderBy;
+		filters.parentTaskId = query.parentTaskId.trim();
 	}
 	return filters;
 }
 
+// Sort, direction, page size and resume point of a task list request: { sort, order, limit, after? } or { error }.
+// orderBy=dueDate|position is the older spelling of sort=dueDate|rank. A cursor only continues the order it came from.
+function normalizeTaskPage(query)
+{
+	const legacySort = { dueDate: 'dueDate', position: 'rank' }[query?.orderBy];
+	const sort = query?.sort === undefined ? legacySort || 'rank' : query.sort;
+	if (!Object.prototype.hasOwnProperty.call(TASK_SORTS, sort)) return { error: `sort must be one of ${Object.keys(TASK_SORTS).join(', ')}` };
+	const order = query?.order === undefined ? DEFAULT_SORT_ORDERS[sort] : query.order;
+	if (order !== 'asc' && order !== 'desc') return { error: 'order must be asc or desc' };
+	const limit = query?.limit === undefined ? DEFAULT_PAGE_SIZE : Number(query.limit);
+	if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) return { error: `limit must be a whole number from 1 to ${MAX_PAGE_SIZE}` };
+	if (query?.cursor === undefined || query.cursor === '') return { sort, order, limit };
+	const cursor = decodeTaskCursor(query.cursor);
+	if (!cursor || cursor.sort !== sort || cursor.order !== order) return { error: 'cursor does not belong to this sort order' };
+	return { sort, order, limit, after: { sortKey: cursor.sortKey, id: cursor.id } };
+}
+
+// Cursors are opaque to clients: the sort they continue and the sort key and id of the last task listed
+function encodeTaskCursor(cursor)
+{
+	return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeTaskCursor(raw)
+{
+	try
+	{
+		const cursor = JSON.parse(Buffer.from(String(raw), 'base64url').toString('utf8'));
+		const keyOk = typeof cursor?.sortKey === 'string' || typeof cursor?.sortKey === 'number';
+		return keyOk && typeof cursor.id === 'string' ? cursor : null;
+	}
+	catch (error)
+	{
+		return null;
+	}
+}
+
 module.exports = {
 	createTaskRouter
 };
@@ -1,5 +1,5 @@
 const express = require('express');
-const { getInheritedRoles } = require('../lib/rbac');
+const { PERMISSIONS } = require('../lib/rbac');
 
 function createUserRouter()
 {
@@ -22,12 +22,49 @@ function createUserRouter()
 				role: user.role,
 				organizationId: user.organization_id,
 				organizationName: organization?.name || null,
-				inheritedRoles: getInheritedRoles(user.role)
+				// Every role held, with the organization it was assigned in, and everything those roles inherit
+				assignments: (req.auth?.grants || []).map((g) => ({ id: g.id, role: g.role, organizationId: g.organizationId })),
+				inheritedRoles: Array.from(new Set((req.auth?.grants || []).flatMap((g) => g.chain)))
 			},
 			scope: req.auth?.orgScope || []
 		});
 	});
 
+	// Effective permission set for the caller, resolved in their own organization unless
+	// ?organizationId= names another organization in scope
+	router.get('/me/permissions', async (req, res, next) =>
+	{
+		try
+		{
+			const user = req.auth?.user;
+			if (!user)
+			{
+				res.status(401).json({ error: 'Unauthenticated' });
+				return;
+			}
+			const scope = req.auth?.orgScope || [];
+			const requested = typeof req.query.organizationId === 'string' ? req.query.organizationId : '';
+			if (requested && !scope.includes(requested))
+			{
+				res.status(403).json({ error: 'Organization not in scope' });
+				return;
+			}
+			const organizationId = requested || user.organization_id;
+			const keys = Object.keys(PERMISSIONS);
+			const allowed = await Promise.all(keys.map((permission) => req.auth.can(permission, { organizationId })));
+			res.json({
+				role: user.role,
+				organizationId,
+				permissions: keys.filter((_, i) => allowed[i]),
+				scope
+			});
+		}
+		catch (err)
+		{
+			next(err);
+		}
+	});
+
 	router.get('/organizations', (req, res) =>
 	{
 		const scope = new Set(req.auth?.orgScope || []);
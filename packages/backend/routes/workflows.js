@@ -0,0 +1,124 @@
+const express = require('express');
+const { createPermissionGuard } = require('../lib/auth');
+const {
+	normalizeWorkflowInput,
+	normalizeRemap,
+	findStatus,
+	resolveWorkflow,
+	inheritingOrganizations,
+	refreshClosedFlags
+} = require('../lib/workflows');
+
+function createWorkflowRouter({ dbApi, auditLogger })
+{
+	const router = express.Router();
+	const paramOrg = (req) => req.params.organizationId;
+
+	// The workflow that applies in each organization in scope; the board builds its columns from these
+	router.get('/', createPermissionGuard('tasks:view'), async (req, res, next) =>
+	{
+		try
+		{
+			const workflows = [];
+			for (const organizationId of req.auth?.orgScope || [])
+			{
+				workflows.push(await resolveWorkflow(dbApi, organizationId));
+			}
+			res.json({ workflows });
+		}
+		catch (err)
+		{
+			next(err);
+		}
+	});
+
+	router.get('/:organizationId', createPermissionGuard('tasks:view', paramOrg), async (req, res, next) =>
+	{
+		try
+		{
+			if (!(req.auth?.orgScope || []).includes(req.params.organizationId)) return res.status(403).json({ error: 'Organization not in scope' });
+			res.json({ workflow: await resolveWorkflow(dbApi, req.params.organizationId) });
+		}
+		catch (err)
+		{
+			next(err);
+		}
+	});
+
+	// Body: { statuses, transitions, remap? }. Tasks whose status the workflow drops need a remap entry
+	// ({ oldStatus: newStatus }), or the change is refused with 409 listing those statuses (with task counts) and the
+	// ones available.
+	router.put('/:organizationId', createPermissionGuard('workflows:manage', paramOrg), async (req, res, next) =>
+	{
+		try
+		{
+			const { organizationId } = req.params;
+			if (!(await dbApi.getOrganizationById(organizationId))) return res.status(404).json({ error: 'Organization not found' });
+			if (!(req.auth?.orgScope || []).includes(organizationId)) return res.status(403).json({ error: 'Organization not in scope' });
+			const workflow = normalizeWorkflowInput(req.body);
+			await replaceWorkflow(req, res, organizationId, workflow, workflow);
+		}
+		catch (err)
+		{
+			if (err.code === 'WORKFLOW_INVALID') return res.status(400).json({ error: err.message });
+			next(err);
+		}
+	});
+
+	// Drops the organization's own workflow so it follows its parent's again; body { remap? } as for PUT
+	router.delete('/:organizationId', createPermissionGuard('workflows:manage', paramOrg), async (req, res, next) =>
+	{
+		try
+		{
+			const { organizationId } = req.params;
+			const organization = await dbApi.getOrganizationById(organizationId);
+			if (!organization) return res.status(404).json({ error: 'Organization not found' });
+			if (!(req.auth?.orgScope || []).includes(organizationId)) return res.status(403).json({ error: 'Organization not in scope' });
+			if (!(await dbApi.getWorkflow(organizationId))) return res.status(404).json({ error: 'The organization has no workflow of its own' });
+			const inherited = await resolveWorkflow(dbApi, organization.parent_id);
+			await replaceWorkflow(req, res, organizationId, null, inherited);
+		}
+		catch (err)
+		{
+			if (err.code === 'WORKFLOW_INVALID') return res.status(400).json({ error: err.message });
+			next(err);
+		}
+	});
+
+	// Stores workflow (null to remove it) once every task it would affect has a status in applied, the workflow
+	// that then applies
+	async function replaceWorkflow(req, res, organizationId, workflow, applied)
+	{
+		const remap = normalizeRemap(req.body?.remap, applied);
+		const organizationIds = await inheritingOrganizations(dbApi, organizationId);
+		const counts = await dbApi.countTaskStatuses(organizationIds);
+		const unmapped = Object.fromEntries(Object.entries(counts).filter(([status]) => !findStatus(applied, status) && !remap[status]));
+		if (Object.keys(unmapped).length > 0)
+		{
+			return res.status(409).json({
+				error: `Tasks use statuses the workflow doesn't have: ${Object.keys(unmapped).join(', ')}. Map them to new statuses with remap.`,
+				statuses: unmapped,
+				available: applied.statuses.map(({ key, label }) => ({ key, label }))
+			});
+		}
+		const before = await resolveWorkflow(dbApi, organizationId);
+		const moved = await dbApi.saveWorkflow(organizationId, workflow, req.auth.user.id, { organizationIds, remap });
+		await refreshClosedFlags(dbApi, organizationId);
+		const after = await resolveWorkflow(dbApi, organizationId);
+		await auditLogger({
+			action: workflow ? 'workflow.updated' : 'workflow.removed',
+			entity: 'workflow',
+			entityId: organizationId,
+			actorId: req.auth.user.id,
+			organizationId,
+			before,
+			after,
+			metadata: Object.keys(remap).length > 0 ? { remap, movedTasks: moved } : null
+		});
+		res.json({ workflow: after, movedTasks: moved });
+	}
+
+	return router;
+}
+
+module.exports = { createWorkflowRouter };
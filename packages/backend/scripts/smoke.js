@@ -1,4 +1,6 @@
  
+const fs = require('fs');
+const os = require('os');
 const path = require('path');
 const { createBackendServer } = require('..');
 
@@ -7,11 +9,243 @@ async function wait(ms)
 	return new Promise((r) => setTimeout(r, ms));
 }
 
+function expect(condition, message, detail)
+{
+	if (!condition) throw new Error(`${message}${detail === undefined ? '' : `: ${JSON.stringify(detail)}`}`);
+}
+
+// Sends a JSON request as the given user; resolves to the status and the parsed body (null when there is none)
+async function request(base, token, method, url, body)
+{
+	const headers = { Authorization: `Bearer ${token}` };
+	if (body !== undefined) headers['Content-Type'] = 'application/json';
+	const res = await fetch(`${base}${url}`, { method, headers, body: body === undefined ? undefined : JSON.stringify(body) });
+	const text = await res.text();
+	return { status: res.status, body: text ? JSON.parse(text) : null };
+}
+
+async function login(base, email, password)
+{
+	const res = await fetch(`${base}/auth/login`, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify({ email, password })
+	});
+	if (!res.ok) throw new Error(`Login failed: ${await res.text()}`);
+	return res.json();
+}
+
+// A timed grant outranks the permanent row only while it lasts: once it runs out, a permanent disable applies again
+async function checkTimedGrants(base, owner, admin)
+{
+	const url = '/api/admin/roles/admin/permissions/tasks:create';
+	const createTask = () => request(base, admin.token, 'POST', '/api/tasks', { title: 'Timed grant task', category: 'Work' });
+	let res = await request(base, owner.token, 'PUT', url, { enabled: false });
+	expect(res.status === 200, 'Disable failed', res.body);
+	expect((await createTask()).status === 403, 'Disabled permission still allowed');
+	res = await request(base, owner.token, 'PUT', url, { enabled: true, expiresAt: Math.floor(Date.now() / 1000) + 2 });
+	expect(res.status === 200, 'Timed grant failed', res.body);
+	expect((await createTask()).status === 201, 'Timed grant not applied');
+	await wait(2500);
+	expect((await createTask()).status === 403, 'Permanent disable not restored after the grant expired');
+	res = await request(base, owner.token, 'DELETE', url);
+	expect(res.status === 204, 'Clearing the permission failed', res.body);
+	console.log('Timed grants: ok');
+}
+
+// Export and import a bundle holding overrides for two nested organizations with the same name; each override has
+// to come back on its own organization
+async function checkBundleRoundTrip(base, owner)
+{
+	const createOrganization = async (name, parentId) =>
+	{
+		const res = await request(base, owner.token, 'POST', '/api/admin/organizations', { name, parentId });
+		expect(res.status === 201, `Creating organization ${name} failed`, res.body);
+		return res.body.organization;
+	};
+	const sales = await createOrganization('Sales', owner.user.organizationId);
+	const support = await createOrganization('Support', owner.user.organizationId);
+	const salesTeam = await createOrganization('Team', sales.id);
+	const supportTeam = await createOrganization('Team', support.id);
+	const overrides = [[salesTeam, 'tasks:create'], [supportTeam, 'tasks:update']];
+	for (const [organization, permission] of overrides)
+	{
+		const res = await request(base, owner.token, 'PUT', `/api/admin/roles/viewer/permissions/${permission}`, { enabled: true, organizationId: organization.id });
+		expect(res.status === 200, `Setting ${permission} failed`, res.body);
+	}
+
+	const exported = await request(base, owner.token, 'GET', '/api/admin/rbac/export');
+	expect(exported.status === 200, 'Export failed', exported.body);
+	const paths = exported.body.permissions.filter((p) => p.role === 'viewer' && p.organization).map((p) => `${p.organization}: ${p.permission}`);
+	expect(paths.some((p) => p.endsWith(' / Sales / Team: tasks:create')) && paths.some((p) => p.endsWith(' / Support / Team: tasks:update')),
+		'Export lost the organization paths', paths);
+
+	for (const [organization, permission] of overrides)
+	{
+		const res = await request(base, owner.token, 'DELETE', `/api/admin/roles/viewer/permissions/${permission}?organizationId=${organization.id}`);
+		expect(res.status === 204, `Clearing ${permission} failed`, res.body);
+	}
+	const imported = await request(base, owner.token, 'POST', '/api/admin/rbac/import', { bundle: exported.body, dryRun: false });
+	expect(imported.status === 200 && imported.body.applied === 2 && imported.body.warnings.length === 0, 'Import failed', imported.body);
+	for (const [organization, permission] of overrides)
+	{
+		const res = await request(base, owner.token, 'GET', `/api/admin/roles/viewer/permissions?organizationId=${organization.id}`);
+		const overridden = res.body.permissions.filter((p) => p.source === 'organization').map((p) => p.permission);
+		expect(overridden.length === 1 && overridden[0] === permission, `Import restored the wrong overrides for ${organization.name}`, overridden);
+	}
+	console.log('Bundle round trip: ok');
+}
+
+// With four-eyes mode on, a permission change waits for a second owner; switching the mode off waits as well
+async function checkFourEyes(base, owner, viewer)
+{
+	let res = await request(base, owner.token, 'PUT', '/api/settings', { settings: { FOUR_EYES_ACTIONS: 'permission.update' } });
+	expect(res.status === 200, 'Enabling four-eyes mode failed', res.body);
+	res = await request(base, owner.token, 'POST', '/api/admin/users', {
+		email: 'second-owner@acme.test', name: 'Second Owner', role: 'owner', password: 'Second123!', organizationId: owner.user.organizationId
+	});
+	expect(res.status === 201, 'Creating a second owner failed', res.body);
+	const reviewer = await login(base, 'second-owner@acme.test', 'Second123!');
+	const approve = (id) => request(base, reviewer.token, 'POST', `/api/admin/approvals/${id}/approve`);
+	const viewerCanCreate = async () => (await request(base, viewer.token, 'POST', '/api/tasks', { title: 'Four-eyes task', category: 'Work' })).status === 201;
+
+	res = await request(base, owner.token, 'PUT', '/api/admin/roles/viewer/permissions/tasks:create', { enabled: true });
+	expect(res.status === 202 && res.body.request.status === 'pending', 'Permission change was not held for approval', res.body);
+	const change = res.body.request;
+	expect(!(await viewerCanCreate()), 'Held permission change was applied');
+	res = await request(base, owner.token, 'POST', `/api/admin/approvals/${change.id}/approve`);
+	expect(res.status === 403, 'Requester approved their own change', res.body);
+	res = await approve(change.id);
+	expect(res.status === 200 && res.body.request.status === 'approved', 'Approval failed', res.body);
+	expect(await viewerCanCreate(), 'Approved permission change was not applied');
+
+	res = await request(base, owner.token, 'PUT', '/api/settings', { settings: { FOUR_EYES_ACTIONS: '' } });
+	expect(res.status === 202, 'Switching four-eyes mode off was not held for approval', res.body);
+	expect((await approve(res.body.request.id)).status === 200, 'Approving the settings change failed');
+	res = await request(base, owner.token, 'DELETE', '/api/admin/roles/viewer/permissions/tasks:create');
+	expect(res.status === 204, 'Four-eyes mode still on after approval', res.body);
+	console.log('Four-eyes approvals: ok');
+}
+
+// Every task in a bulk change gets its own checks: a task in a category the caller can't reach is reported missing,
+// one the caller may see but not delete is refused, and the rest still change
+async function checkBulkRefusals(base, owner, admin)
+{
+	const organizationId = owner.user.organizationId;
+	let res = await request(base, owner.token, 'POST', '/api/categories', { name: 'Board only', organizationId });
+	expect(res.status === 201, 'Creating a category failed', res.body);
+	res = await request(base, owner.token, 'PUT', `/api/categories/${res.body.category.id}/access`, { roles: ['owner'] });
+	expect(res.status === 200, 'Restricting the category failed', res.body);
+	const createTask = async (title, category) =>
+	{
+		const created = await request(base, owner.token, 'POST', '/api/tasks', { title, category, organizationId });
+		expect(created.status === 201, `Creating ${title} failed`, created.body);
+		return created.body.task;
+	};
+	const hidden = await createTask('Bulk hidden', 'Board only');
+	const visible = await createTask('Bulk visible', 'Work');
+
+	res = await request(base, admin.token, 'POST', '/api/tasks/bulk', { taskIds: [hidden.id, visible.id], action: 'update', updates: { priority: 'high' } });
+	const results = new Map((res.body.results || []).map((r) => [r.id, r]));
+	expect(res.status === 200 && results.get(hidden.id)?.status === 404 && results.get(visible.id)?.ok, 'Bulk update ignored category access', res.body);
+	res = await request(base, admin.token, 'POST', '/api/tasks/bulk', { taskIds: [visible.id], action: 'delete' });
+	expect(res.body.results?.[0]?.status === 403, 'Bulk delete ignored tasks:delete', res.body);
+	res = await request(base, owner.token, 'GET', '/api/tasks?limit=500');
+	expect(res.body.tasks.find((t) => t.id === hidden.id)?.priority !== 'high', 'Hidden task was changed');
+	console.log('Bulk refusals: ok');
+}
+
+// A delegation lends the delegator's permissions until it is revoked; a delegated tasks:update covers the task
+// fields as well
+async function checkDelegations(base, owner, admin, viewer)
+{
+	const organizationId = admin.user.organizationId;
+	const created = await request(base, owner.token, 'POST', '/api/tasks', { title: 'Delegated task', category: 'Work', organizationId });
+	expect(created.status === 201, 'Creating a task failed', created.body);
+	const readAudit = async () => (await request(base, viewer.token, 'GET', '/api/audit-log')).status;
+	const setPriority = (priority) => request(base, viewer.token, 'PUT', `/api/tasks/${created.body.task.id}`, { priority });
+	expect(await readAudit() === 403, 'Viewer could read the audit log before the delegation');
+	expect((await setPriority('high')).status === 403, 'Viewer could change a task before the delegation');
+	let res = await request(base, admin.token, 'POST', '/api/delegations', {
+		delegateId: viewer.user.id,
+		organizationId,
+		permissions: ['audit:view', 'tasks:update'],
+		expiresAt: Math.floor(Date.now() / 1000) + 60,
+		reason: 'Smoke test'
+	});
+	expect(res.status === 201 && res.body.delegation.status === 'active', 'Delegation failed', res.body);
+	const delegation = res.body.delegation;
+	expect(await readAudit() === 200, 'Delegated permission not applied');
+	res = await setPriority('high');
+	expect(res.status === 200 && res.body.task.priority === 'high', 'Delegate could not change a task field', res.body);
+	res = await request(base, owner.token, 'DELETE', `/api/delegations/${delegation.id}`);
+	expect(res.status === 204, 'Revoking the delegation failed', res.body);
+	expect(await readAudit() === 403, 'Revoked delegation still applies');
+	expect((await setPriority('low')).status === 403, 'Revoked delegation still lets the delegate change tasks');
+	console.log('Delegations: ok');
+}
+
+// Following nextCursor lists every task once, in the requested order
+async function checkCursorPagination(base, owner)
+{
+	for (const title of ['Paging E', 'Paging B', 'Paging D', 'Paging A', 'Paging C'])
+	{
+		const res = await request(base, owner.token, 'POST', '/api/tasks', { title, category: 'Work' });
+		expect(res.status === 201, `Creating ${title} failed`, res.body);
+	}
+	const all = await request(base, owner.token, 'GET', '/api/tasks?sort=title&order=asc&limit=500');
+	expect(all.status === 200 && all.body.nextCursor === null, 'Listing all tasks failed', all.body);
+	const listed = [];
+	let cursor = '';
+	do
+	{
+		const res = await request(base, owner.token, 'GET', `/api/tasks?sort=title&order=asc&limit=2&cursor=${encodeURIComponent(cursor)}`);
+		expect(res.status === 200 && res.body.tasks.length <= 2, 'Listing a page failed', res.body);
+		listed.push(...res.body.tasks);
+		cursor = res.body.nextCursor;
+	} while (cursor);
+	expect(listed.map((t) => t.id).join() === all.body.tasks.map((t) => t.id).join(), 'Pages differ from the full list', listed.map((t) => t.title));
+	const titles = listed.map((t) => t.title.toLowerCase());
+	expect(titles.every((title, i) => i === 0 || titles[i - 1] <= title), 'Pages are out of order', titles);
+	const invalid = await request(base, owner.token, 'GET', '/api/tasks?sort=priority&limit=2&cursor=not-a-cursor');
+	expect(invalid.status === 400, 'Invalid cursor accepted', invalid.body);
+	console.log('Cursor pagination: ok');
+}
+
+// A deny policy overrides the role for the actions it names, and the refusal names the policy
+async function checkPolicyDeny(base, owner, admin)
+{
+	const organizationId = admin.user.organizationId;
+	const created = await request(base, admin.token, 'POST', '/api/tasks', { title: 'Policy task', category: 'Work', organizationId });
+	expect(created.status === 201, 'Creating a task failed', created.body);
+	const rename = (title) => request(base, admin.token, 'PUT', `/api/tasks/${created.body.task.id}`, { title });
+	expect((await rename('Renamed once')).status === 200, 'Admin could not rename a task before the policy');
+	let res = await request(base, owner.token, 'POST', '/api/admin/policies', {
+		name: 'No renames',
+		effect: 'deny',
+		actions: ['tasks:update'],
+		conditions: { attr: 'changes', op: 'contains', value: 'title' }
+	});
+	expect(res.status === 201, 'Creating the policy failed', res.body);
+	const policy = res.body.policy;
+	res = await rename('Renamed twice');
+	expect(res.status === 403 && res.body.policy && res.body.policy.id === policy.id, 'Deny policy did not refuse the rename', res.body);
+	res = await request(base, admin.token, 'PUT', `/api/tasks/${created.body.task.id}`, { description: 'Still allowed' });
+	expect(res.status === 200, 'Deny policy refused a change it does not cover', res.body);
+	res = await request(base, owner.token, 'DELETE', `/api/admin/policies/${policy.id}`);
+	expect(res.status === 204, 'Deleting the policy failed', res.body);
+	expect((await rename('Renamed again')).status === 200, 'Deleted policy still applies');
+	console.log('Policy deny: ok');
+}
+
 async function main()
 {
 	process.env.JWT_SECRET = process.env.JWT_SECRET || 'dev_secret_change_me';
 	const cwd = path.resolve(__dirname, '..', '..', '..');
-	const backend = createBackendServer({ cwd, dataDir: path.join(cwd, 'data'), port: 0, envPath: path.join(cwd, '.env') });
+	// A fresh database each run, so the checks below start from the seed data; removed however the run ends
+	const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rbac-smoke-'));
+	process.on('exit', () => fs.rmSync(dataDir, { recursive: true, force: true }));
+	const backend = createBackendServer({ cwd, dataDir, port: 0, envPath: path.join(dataDir, '.env') });
 
 	let port = backend.getPort();
 	for (let i = 0; i < 50 && !port; i++)
@@ -25,15 +259,9 @@ async function main()
 	console.log('Health:', await (await fetch(`${base}/system/health`)).json());
 
 	// Login as owner
-	const loginRes = await fetch(`${base}/auth/login`, {
-		method: 'POST',
-		headers: { 'Content-Type': 'application/json' },
-		body: JSON.stringify({ email: 'owner@acme.test', password: 'Owner123!' })
-	});
-	if (!loginRes.ok) throw new Error(`Login failed: ${await loginRes.text()}`);
-	const login = await loginRes.json();
-	console.log('Login user:', login.user);
-	const token = login.token;
+	const owner = await login(base, 'owner@acme.test', 'Owner123!');
+	console.log('Login user:', owner.user);
+	const token = owner.token;
 
 	// List tasks
 	const list1 = await fetch(`${base}/api/tasks`, { headers: { Authorization: `Bearer ${token}` } });
@@ -74,6 +302,16 @@ async function main()
 	const audit = await auditRes.json();
 	console.log('Audit events:', audit.events.length);
 
+	const admin = await login(base, 'admin@acme.test', 'Admin123!');
+	const viewer = await login(base, 'viewer@acme.test', 'Viewer123!');
+	await checkTimedGrants(base, owner, admin);
+	await checkBundleRoundTrip(base, owner);
+	await checkFourEyes(base, owner, viewer);
+	await checkBulkRefusals(base, owner, admin);
+	await checkDelegations(base, owner, admin, viewer);
+	await checkCursorPagination(base, owner);
+	await checkPolicyDeny(base, owner, admin);
+
 	await backend.stop();
 }
 
@@ -1,4 +1,4 @@
-import { useEffect, useMemo, useState } from 'react';
+import { useMemo } from 'react';
 import { NavLink, Route, Routes, Navigate, useNavigate } from 'react-router';
 import { FiSettings, FiHome, FiLoader, FiClipboard, FiShield, FiLogOut, FiUser } from 'react-icons/fi';
 import { Dashboard } from './pages/Dashboard';
@@ -6,6 +6,7 @@ import { Settings } from './pages/Settings';
 import { useBackend } from './hooks/useBackend';
 import { TitleBar } from './components/TitleBar';
 import { AuthProvider, useAuth } from './context/AuthContext';
+import { PermissionsProvider, usePermissions } from './context/PermissionsContext';
 import { ThemeProvider } from './context/ThemeContext';
 import { Login } from './pages/Login';
 import { Tasks } from './pages/Tasks';
@@ -32,32 +33,11 @@ export default function App()
 	const Shell = () =>
 	{
 		const auth = useAuth();
+		const perms = usePermissions();
 		const navigate = useNavigate();
-		const role = auth.user?.role;
-		const [adminAllowed, setAdminAllowed] = useState<boolean>(false);
-
-		useEffect(() =>
-		{
-			let cancelled = false;
-			async function checkAdmin()
-			{
-				try
-				{
-					// No user => no admin access
-					if (!auth.user) { if (!cancelled) setAdminAllowed(false); return; }
-					// Owner always allowed
-					if (role === 'owner') { if (!cancelled) setAdminAllowed(true); return; }
-					// Probe an admin endpoint: if it returns 200, current role has admin:access
-					const res = await auth.apiFetch(`/api/admin/permissions/admin-access`).catch(() => null as any);
-					if (!cancelled) setAdminAllowed(Boolean(res && res.ok));
-				} catch
-				{
-					if (!cancelled) setAdminAllowed(false);
-				}
-			}
-			checkAdmin();
-			return () => { cancelled = true; };
-		}, [role, auth.user, auth.apiFetch]);
+		const adminAllowed = perms.can('admin:access');
+		const settingsAllowed = perms.can('settings:manage');
+		const auditAllowed = perms.can('audit:view');
 		// Curtain is now managed globally by WelcomeManager
 		return (
 			<div className="h-screen bg-app text-fg flex flex-col relative">
@@ -95,7 +75,7 @@ export default function App()
 										>
 											<FiClipboard /> Tasks
 										</NavLink>
-										{(role === 'owner' || adminAllowed) && (
+										{adminAllowed && (
 											<NavLink
 												to="/admin"
 												className={({ isActive }) =>
@@ -108,7 +88,7 @@ export default function App()
 												<FiUser /> Admin
 											</NavLink>
 										)}
-										{(role === 'owner' || role === 'admin') && (
+										{settingsAllowed && (
 											<NavLink
 												to="/settings"
 												className={({ isActive }) =>
@@ -121,7 +101,7 @@ export default function App()
 												<FiSettings /> Settings
 											</NavLink>
 										)}
-										{(role === 'owner' || role === 'admin') && (
+										{auditAllowed && (
 											<NavLink
 												to="/audit"
 												className={({ isActive }) =>
@@ -162,7 +142,7 @@ export default function App()
 						</header>
 
 						<main className="flex-1 pb-10">
-							{loading || auth.loading ? (
+							{loading || auth.loading || perms.loading ? (
 								<div className="flex flex-col items-center justify-center gap-3 rounded-3xl border border-subtle bg-surface-token py-20 text-fg-muted">
 									<FiLoader className="animate-spin text-3xl" />
 									<span>Preparing your session…</span>
@@ -184,15 +164,15 @@ export default function App()
 									/>
 									<Route
 										path="/admin"
-										element={auth.user && (role === 'owner' || adminAllowed) ? <Admin port={serverInfo.port} /> : <Navigate to="/" replace />}
+										element={auth.user && adminAllowed ? <Admin port={serverInfo.port} /> : <Navigate to="/" replace />}
 									/>
 									<Route
 										path="/audit"
-										element={auth.user && (role === 'owner' || role === 'admin') ? <AuditLog port={serverInfo.port} /> : <Navigate to="/" replace />}
+										element={auth.user && auditAllowed ? <AuditLog port={serverInfo.port} /> : <Navigate to="/" replace />}
 									/>
 									<Route
 										path="/settings"
-										element={auth.user && (role === 'owner' || role === 'admin') ? <Settings port={serverInfo.port} /> : <Navigate to="/" replace />}
+										element={auth.user && settingsAllowed ? <Settings port={serverInfo.port} /> : <Navigate to="/" replace />}
 									/>
 								</Routes>
 							)}
@@ -215,7 +195,9 @@ export default function App()
 	return (
 		<ThemeProvider>
 			<AuthProvider baseUrl={apiBase}>
-				<Shell />
+				<PermissionsProvider>
+					<Shell />
+				</PermissionsProvider>
 			</AuthProvider>
 		</ThemeProvider>
 	);
@@ -0,0 +1,172 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { Button, Card, Input, SectionHeader } from './UI';
+import Dropdown from './Dropdown';
+
+type ChangeRequestStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+export type ChangeRequest = {
+	id: string;
+	action: string;
+	payload: Record<string, unknown>;
+	summary: string;
+	organizationId: string | null;
+	requestedBy: string;
+	requestedByName: string | null;
+	status: ChangeRequestStatus;
+	decidedBy: string | null;
+	decidedByName: string | null;
+	decisionNote: string | null;
+	decidedAt: number | null;
+	createdAt: number;
+	canDecide: boolean;
+	canCancel: boolean;
+};
+
+type ApprovalsResponse = { requests?: ChangeRequest[]; enabled?: string[] };
+
+const actionLabels: Record<string, string> = {
+	'role.delete': 'Role deletion',
+	'permission.update': 'Permission change',
+	'user.deactivate': 'User deactivation',
+	'settings.update': 'Settings update'
+};
+
+const statusClass: Record<ChangeRequestStatus, string> = {
+	pending: 'bg-amber-500/10 text-amber-300',
+	approved: 'bg-emerald-500/10 text-emerald-300',
+	rejected: 'bg-red-500/10 text-red-300',
+	cancelled: 'bg-surface-token text-fg-muted'
+};
+
+const formatTime = (seconds: number | null) => (seconds ? new Date(seconds * 1000).toLocaleString() : '');
+
+// Inbox for four-eyes mode: changes others filed that the current user may approve or reject, and the user's
+// own requests. Approving applies the change on the requester's behalf.
+export function ApprovalsTab()
+{
+	const { apiFetch } = useAuth();
+	const [requests, setRequests] = useState<ChangeRequest[]>([]);
+	const [enabled, setEnabled] = useState<string[]>([]);
+	const [filter, setFilter] = useState<'pending' | 'all'>('pending');
+	const [notes, setNotes] = useState<Record<string, string>>({});
+	const [busy, setBusy] = useState<string | null>(null);
+	const [loading, setLoading] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	const load = async () =>
+	{
+		setLoading(true);
+		try
+		{
+			const res = await apiFetch(`/api/admin/approvals${filter === 'pending' ? '?status=pending' : ''}`);
+			if (!res.ok) throw new Error((await res.json().catch(() => null))?.error || 'Failed to load approvals');
+			const data = (await res.json()) as ApprovalsResponse;
+			setRequests(data.requests || []);
+			setEnabled(data.enabled || []);
+			setError(null);
+		}
+		catch (err)
+		{
+			setError(err instanceof Error && err.message ? err.message : 'Failed to load approvals');
+		}
+		finally
+		{
+			setLoading(false);
+		}
+	};
+
+	useEffect(() => { load(); }, [apiFetch, filter]);
+
+	const decide = async (request: ChangeRequest, decision: 'approve' | 'reject' | 'cancel') =>
+	{
+		setBusy(request.id);
+		try
+		{
+			const res = decision === 'cancel'
+				? await apiFetch(`/api/admin/approvals/${request.id}`, { method: 'DELETE' })
+				: await apiFetch(`/api/admin/approvals/${request.id}/${decision}`, { method: 'POST', body: JSON.stringify({ note: notes[request.id] || null }) });
+			if (!res.ok) throw new Error((await res.json().catch(() => null))?.error || `Failed to ${decision}`);
+			await load();
+		}
+		catch (err)
+		{
+			setError(err instanceof Error && err.message ? err.message : `Failed to ${decision}`);
+		}
+		finally
+		{
+			setBusy(null);
+		}
+	};
+
+	return (
+		<div className="mt-6 space-y-6">
+			<Card className="p-4">
+				<SectionHeader
+					title="Approvals"
+					actions={
+						<Dropdown
+							className="min-w-[8rem]"
+							value={filter}
+							onChange={(v) => setFilter(v as 'pending' | 'all')}
+							options={[{ label: 'Pending', value: 'pending' }, { label: 'All', value: 'all' }]}
+							ariaLabel="Show"
+						/>
+					}
+				/>
+				<div className="mt-2 text-sm text-fg-muted">
+					{enabled.length > 0
+						? `Four-eyes mode holds back: ${enabled.map((a) => actionLabels[a] || a).join(', ')}. A second user who could make the change must approve it.`
+						: 'Four-eyes mode is off; set FOUR_EYES_ACTIONS in Settings to hold sensitive changes for approval.'}
+				</div>
+				{error && <div className="mt-3 rounded-xl border border-red-500/30 bg-red-500/10 px-3 py-2 text-sm text-red-200">{error}</div>}
+				{loading && <div className="p-3 text-fg-muted">Loading…</div>}
+			</Card>
+
+			<Card className="p-0 overflow-hidden">
+				<ul className="text-sm -mt-px">
+					{requests.map((request) => (
+						<li key={request.id} className="border-t border-subtle p-3">
+							<div className="flex items-start justify-between gap-3">
+								<div className="min-w-0">
+									<div className="flex items-center gap-2">
+										<span className={`inline-flex rounded-full px-2 py-0.5 text-xs ${statusClass[request.status]}`}>{request.status}</span>
+										<span className="truncate text-fg">{request.summary}</span>
+									</div>
+									<div className="mt-1 text-xs text-fg-muted">
+										{actionLabels[request.action] || request.action} · requested by {request.requestedByName || request.requestedBy} · {formatTime(request.createdAt)}
+										{request.decidedByName && ` · ${request.status} by ${request.decidedByName} ${formatTime(request.decidedAt)}`}
+										{request.decisionNote && ` · “${request.decisionNote}”`}
+									</div>
+									<pre className="mt-2 max-h-40 overflow-auto rounded-lg bg-surface-token p-2 font-mono text-xs text-fg-muted">{JSON.stringify(request.payload, null, 2)}</pre>
+								</div>
+								<div className="flex shrink-0 flex-col items-end gap-2">
+									{request.canDecide && (
+										<>
+											<Input
+												value={notes[request.id] || ''}
+												placeholder="Note (optional)"
+												onChange={(e) => setNotes((n) => ({ ...n, [request.id]: e.target.value }))}
+												aria-label="Decision note"
+											/>
+											<div className="flex gap-2">
+												<Button size="sm" variant="primary" disabled={busy === request.id} onClick={() => decide(request, 'approve')}>Approve</Button>
+												<Button size="sm" variant="danger" disabled={busy === request.id} onClick={() => decide(request, 'reject')}>Reject</Button>
+											</div>
+										</>
+									)}
+									{request.canCancel && (
+										<Button size="sm" variant="pill" disabled={busy === request.id} onClick={() => decide(request, 'cancel')}>Withdraw</Button>
+									)}
+								</div>
+							</div>
+						</li>
+					))}
+				</ul>
+				{!loading && requests.length === 0 && <div className="p-4 text-fg-muted">{filter === 'pending' ? 'Nothing waiting for approval.' : 'No change requests yet.'}</div>}
+			</Card>
+		</div>
+	);
+}
+
+export default ApprovalsTab;
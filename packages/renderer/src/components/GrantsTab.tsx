@@ -0,0 +1,378 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { usePermissions } from '../context/PermissionsContext';
+import { Button, Card, Checkbox, Input, SectionHeader, Toggle } from './UI';
+import ConfirmDialog from './ConfirmDialog';
+import Dropdown from './Dropdown';
+import type { Role } from './RolesTab';
+import type { AdminUser } from './UsersTab';
+
+type GrantStatus = 'scheduled' | 'active' | 'expired' | 'revoked';
+
+type TimedRolePermission = {
+	id: string;
+	organizationId: string | null;
+	role: string;
+	permission: string;
+	enabled: boolean;
+	startsAt: number | null;
+	expiresAt: number | null;
+	status: GrantStatus;
+};
+
+export type Delegation = {
+	id: string;
+	delegatorId: string;
+	delegatorName: string;
+	delegateId: string;
+	delegateName: string;
+	organizationId: string;
+	permissions: string[];
+	reason: string | null;
+	startsAt: number;
+	expiresAt: number;
+	revokedAt: number | null;
+	status: GrantStatus;
+};
+
+type GrantsResponse = { rolePermissions?: TimedRolePermission[]; delegations?: Delegation[] };
+
+interface GrantsTabProps
+{
+	users: AdminUser[];
+	roles: Role[];
+	organizations: { id: string; name: string }[];
+	isOwnerActor: boolean;
+	canDelegate: boolean;
+	canManageDelegations: boolean;
+}
+
+const GLOBAL_SCOPE = '__global__';
+
+const statusClass: Record<GrantStatus, string> = {
+	scheduled: 'bg-amber-500/10 text-amber-300',
+	active: 'bg-emerald-500/10 text-emerald-300',
+	expired: 'bg-surface-token text-fg-muted',
+	revoked: 'bg-red-500/10 text-red-300'
+};
+
+// Times travel as unix seconds; the form works with datetime-local strings
+const toSeconds = (value: string) => (value ? Math.floor(new Date(value).getTime() / 1000) : null);
+const formatTime = (seconds: number | null) => (seconds ? new Date(seconds * 1000).toLocaleString() : '—');
+
+function StatusBadge({ status }: { status: GrantStatus })
+{
+	return <span className={`inline-flex rounded-full px-2 py-0.5 text-xs ${statusClass[status]}`}>{status}</span>;
+}
+
+// Temporary role permissions and delegations. Both stop applying on their own when they expire; the list is
+// where they are reviewed and delegations revoked early.
+export function GrantsTab({ users, roles, organizations, isOwnerActor, canDelegate, canManageDelegations }: GrantsTabProps)
+{
+	const { apiFetch, user } = useAuth();
+	const { permissions: held } = usePermissions();
+	const [rolePermissions, setRolePermissions] = useState<TimedRolePermission[]>([]);
+	const [delegations, setDelegations] = useState<Delegation[]>([]);
+	const [catalog, setCatalog] = useState<string[]>([]);
+	const [loading, setLoading] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	const [form, setForm] = useState<'role' | 'delegation' | null>(null);
+	const [roleDraft, setRoleDraft] = useState({ role: '', permission: '', organizationId: GLOBAL_SCOPE, enabled: true, startsAt: '', expiresAt: '' });
+	const [delegationDraft, setDelegationDraft] = useState({ delegateId: '', organizationId: user?.organizationId || '', permissions: [] as string[], reason: '', startsAt: '', expiresAt: '' });
+	const [pendingRevoke, setPendingRevoke] = useState<Delegation | null>(null);
+
+	const orgName = (id: string | null) => (id ? organizations.find((o) => o.id === id)?.name || id : 'All organizations');
+
+	const load = async () =>
+	{
+		setLoading(true);
+		try
+		{
+			const res = await apiFetch(`/api/admin/grants`);
+			if (!res.ok) throw new Error((await res.json().catch(() => null))?.error || 'Failed to load grants');
+			const data = (await res.json()) as GrantsResponse;
+			setRolePermissions(data.rolePermissions || []);
+			setDelegations(data.delegations || []);
+			setError(null);
+		}
+		catch (err)
+		{
+			setError(err instanceof Error && err.message ? err.message : 'Failed to load grants');
+		}
+		finally
+		{
+			setLoading(false);
+		}
+	};
+
+	useEffect(() => { load(); }, [apiFetch]);
+
+	useEffect(() =>
+	{
+		let ignore = false;
+		apiFetch(`/api/admin/permissions/catalog`)
+			.then((res) => (res.ok ? (res.json() as Promise<{ permissions?: string[] }>) : { permissions: [] }))
+			.then((data) => { if (!ignore) setCatalog(data.permissions || []); })
+			.catch(() => { if (!ignore) setCatalog([]); });
+		return () => { ignore = true; };
+	}, [apiFetch]);
+
+	const saveRolePermission = async () =>
+	{
+		try
+		{
+			const res = await apiFetch(`/api/admin/roles/${encodeURIComponent(roleDraft.role)}/permissions/${encodeURIComponent(roleDraft.permission)}`, {
+				method: 'PUT',
+				body: JSON.stringify({
+					enabled: roleDraft.enabled,
+					organizationId: roleDraft.organizationId === GLOBAL_SCOPE ? null : roleDraft.organizationId,
+					startsAt: toSeconds(roleDraft.startsAt),
+					expiresAt: toSeconds(roleDraft.expiresAt)
+				})
+			});
+			if (!res.ok) throw new Error((await res.json().catch(() => null))?.error || 'Failed to save permission');
+			setForm(null);
+			await load();
+		}
+		catch (err)
+		{
+			setError(err instanceof Error && err.message ? err.message : 'Error saving permission');
+		}
+	};
+
+	const saveDelegation = async () =>
+	{
+		try
+		{
+			const res = await apiFetch(`/api/delegations`, {
+				method: 'POST',
+				body: JSON.stringify({
+					delegateId: delegationDraft.delegateId,
+					organizationId: delegationDraft.organizationId,
+					permissions: delegationDraft.permissions,
+					reason: delegationDraft.reason.trim() || null,
+					startsAt: toSeconds(delegationDraft.startsAt),
+					expiresAt: toSeconds(delegationDraft.expiresAt)
+				})
+			});
+			if (!res.ok) throw new Error((await res.json().catch(() => null))?.error || 'Failed to delegate');
+			setForm(null);
+			setDelegationDraft((d) => ({ ...d, delegateId: '', permissions: [], reason: '', startsAt: '', expiresAt: '' }));
+			await load();
+		}
+		catch (err)
+		{
+			setError(err instanceof Error && err.message ? err.message : 'Error delegating permissions');
+		}
+	};
+
+	const confirmRevoke = async () =>
+	{
+		if (!pendingRevoke) return;
+		try
+		{
+			const res = await apiFetch(`/api/delegations/${pendingRevoke.id}`, { method: 'DELETE' });
+			if (!res.ok) throw new Error((await res.json().catch(() => null))?.error || 'Failed to revoke');
+			await load();
+		}
+		catch (err)
+		{
+			setError(err instanceof Error && err.message ? err.message : 'Error revoking delegation');
+		}
+		finally
+		{
+			setPendingRevoke(null);
+		}
+	};
+
+	const orgOptions = organizations.map((o) => ({ label: o.name, value: o.id }));
+	// Only what the current user holds can be delegated; the server checks it again per organization
+	const delegatable = catalog.filter((p) => held.has(p));
+
+	const renderRoleForm = () => (
+		<form className="mt-4 space-y-4" onSubmit={(e) => { e.preventDefault(); saveRolePermission(); }}>
+			<div className="grid gap-4 grid-cols-1 sm:grid-cols-2">
+				<label className="flex flex-col gap-1 text-sm">
+					<span className="form-label">Role</span>
+					<Dropdown
+						value={roleDraft.role}
+						onChange={(v) => setRoleDraft((d) => ({ ...d, role: v }))}
+						options={roles.filter((r) => r.name !== 'owner').map((r) => ({ label: r.name, value: r.name }))}
+						placeholder="Choose a role…"
+						ariaLabel="Role"
+					/>
+				</label>
+				<label className="flex flex-col gap-1 text-sm">
+					<span className="form-label">Permission</span>
+					<Dropdown value={roleDraft.permission} onChange={(v) => setRoleDraft((d) => ({ ...d, permission: v }))} options={catalog} placeholder="Choose a permission…" ariaLabel="Permission" />
+				</label>
+				<label className="flex flex-col gap-1 text-sm">
+					<span className="form-label">Applies in</span>
+					<Dropdown
+						value={roleDraft.organizationId}
+						onChange={(v) => setRoleDraft((d) => ({ ...d, organizationId: v }))}
+						options={[{ label: 'All organizations', value: GLOBAL_SCOPE }, ...orgOptions]}
+						ariaLabel="Organization"
+					/>
+				</label>
+				<div className="flex items-end gap-2 pb-2 text-sm">
+					<Toggle checked={roleDraft.enabled} onChange={(v) => setRoleDraft((d) => ({ ...d, enabled: v }))} />
+					<span className="text-fg">{roleDraft.enabled ? 'Grant' : 'Revoke'} while active</span>
+				</div>
+				<Input label="Starts" type="datetime-local" value={roleDraft.startsAt} onChange={(e) => setRoleDraft((d) => ({ ...d, startsAt: e.target.value }))} />
+				<Input label="Expires" type="datetime-local" value={roleDraft.expiresAt} onChange={(e) => setRoleDraft((d) => ({ ...d, expiresAt: e.target.value }))} required />
+			</div>
+			<div className="text-xs text-fg-muted">
+				While active this replaces any permanent setting for the same role, permission and scope. Once it expires the global setting or the role default applies again.
+			</div>
+			<div className="flex items-center gap-2">
+				<Button type="submit" variant="primary" disabled={!roleDraft.role || !roleDraft.permission || !roleDraft.expiresAt}>Save</Button>
+				<Button type="button" variant="pill" onClick={() => setForm(null)}>Cancel</Button>
+			</div>
+		</form>
+	);
+
+	const renderDelegationForm = () => (
+		<form className="mt-4 space-y-4" onSubmit={(e) => { e.preventDefault(); saveDelegation(); }}>
+			<div className="grid gap-4 grid-cols-1 sm:grid-cols-2">
+				<label className="flex flex-col gap-1 text-sm">
+					<span className="form-label">Delegate to</span>
+					<Dropdown
+						value={delegationDraft.delegateId}
+						onChange={(v) => setDelegationDraft((d) => ({ ...d, delegateId: v }))}
+						options={users.filter((u) => u.isActive && u.id !== user?.id).map((u) => ({ label: `${u.name} (${u.email})`, value: u.id }))}
+						placeholder="Choose a user…"
+						ariaLabel="Delegate"
+					/>
+				</label>
+				<label className="flex flex-col gap-1 text-sm">
+					<span className="form-label">Organization</span>
+					<Dropdown value={delegationDraft.organizationId} onChange={(v) => setDelegationDraft((d) => ({ ...d, organizationId: v }))} options={orgOptions} ariaLabel="Organization" />
+				</label>
+				<Input label="Starts" type="datetime-local" value={delegationDraft.startsAt} onChange={(e) => setDelegationDraft((d) => ({ ...d, startsAt: e.target.value }))} />
+				<Input label="Expires" type="datetime-local" value={delegationDraft.expiresAt} onChange={(e) => setDelegationDraft((d) => ({ ...d, expiresAt: e.target.value }))} required />
+			</div>
+			<Input label="Reason" value={delegationDraft.reason} onChange={(e) => setDelegationDraft((d) => ({ ...d, reason: e.target.value }))} />
+			<div className="flex flex-wrap items-center gap-4">
+				<span className="form-label text-sm">Permissions</span>
+				{delegatable.map((permission) => (
+					<Checkbox
+						key={permission}
+						label={permission}
+						checked={delegationDraft.permissions.includes(permission)}
+						onChange={(e) => setDelegationDraft((d) => ({
+							...d,
+							permissions: e.target.checked ? [...d.permissions, permission] : d.permissions.filter((p) => p !== permission)
+						}))}
+					/>
+				))}
+			</div>
+			<div className="flex items-center gap-2">
+				<Button
+					type="submit"
+					variant="primary"
+					disabled={!delegationDraft.delegateId || !delegationDraft.organizationId || delegationDraft.permissions.length === 0 || !delegationDraft.expiresAt}
+				>
+					Delegate
+				</Button>
+				<Button type="button" variant="pill" onClick={() => setForm(null)}>Cancel</Button>
+			</div>
+		</form>
+	);
+
+	return (
+		<div className="mt-6 space-y-6">
+			<Card className="p-4">
+				<SectionHeader
+					title="Temporary Grants"
+					actions={
+						<div className="flex items-center gap-2">
+							{isOwnerActor && (
+								<Button variant={form === 'role' ? 'primary' : 'outline'} size="sm" className="u-press-accent" onClick={() => setForm(form === 'role' ? null : 'role')}>
+									{form === 'role' ? 'Close' : 'Time-bound Permission'}
+								</Button>
+							)}
+							{canDelegate && (
+								<Button variant={form === 'delegation' ? 'primary' : 'outline'} size="sm" className="u-press-accent" onClick={() => setForm(form === 'delegation' ? null : 'delegation')}>
+									{form === 'delegation' ? 'Close' : 'Delegate'}
+								</Button>
+							)}
+						</div>
+					}
+				/>
+				<div className="mt-2 text-sm text-fg-muted">
+					Time-bound role permissions and delegated permissions stop applying when they expire; each expiry is recorded in the audit log.
+					A delegation only works while its delegator still holds the permission.
+				</div>
+				{error && <div className="mt-3 rounded-xl border border-red-500/30 bg-red-500/10 px-3 py-2 text-sm text-red-200">{error}</div>}
+				{form === 'role' && isOwnerActor && renderRoleForm()}
+				{form === 'delegation' && canDelegate && renderDelegationForm()}
+				{loading && <div className="p-3 text-fg-muted">Loading…</div>}
+			</Card>
+
+			<Card className="p-0 overflow-hidden">
+				<div className="px-4 pt-4 font-medium text-fg">Role permissions</div>
+				<ul className="mt-2 text-sm">
+					{rolePermissions.map((row) => (
+						<li key={row.id} className="border-t border-subtle p-3">
+							<div className="flex items-start justify-between gap-3">
+								<div className="min-w-0">
+									<div className="truncate text-fg">
+										{row.role} · <span className="font-mono text-xs">{row.permission}</span> {row.enabled ? 'granted' : 'revoked'}
+									</div>
+									<div className="text-xs text-fg-muted">
+										{orgName(row.organizationId)} · {formatTime(row.startsAt)} → {formatTime(row.expiresAt)}
+									</div>
+								</div>
+								<StatusBadge status={row.status} />
+							</div>
+						</li>
+					))}
+				</ul>
+				{!loading && rolePermissions.length === 0 && <div className="p-4 text-fg-muted">No time-bound role permissions.</div>}
+			</Card>
+
+			<Card className="p-0 overflow-hidden">
+				<div className="px-4 pt-4 font-medium text-fg">Delegations</div>
+				<ul className="mt-2 text-sm">
+					{delegations.map((d) => (
+						<li key={d.id} className="border-t border-subtle p-3">
+							<div className="flex items-start justify-between gap-3">
+								<div className="min-w-0">
+									<div className="truncate text-fg">{d.delegatorName} → {d.delegateName}</div>
+									<div className="mt-1 flex flex-wrap gap-1">
+										{d.permissions.map((p) => <span key={p} className="rounded-full bg-surface-token px-2 py-0.5 font-mono text-xs text-fg">{p}</span>)}
+									</div>
+									<div className="mt-1 text-xs text-fg-muted">
+										{orgName(d.organizationId)} · {formatTime(d.startsAt)} → {formatTime(d.expiresAt)}{d.reason ? ` · ${d.reason}` : ''}
+									</div>
+								</div>
+								<div className="flex shrink-0 items-center gap-2">
+									<StatusBadge status={d.status} />
+									{(d.status === 'active' || d.status === 'scheduled') && (d.delegatorId === user?.id || canManageDelegations) && (
+										<Button size="sm" variant="danger" onClick={() => setPendingRevoke(d)}>Revoke</Button>
+									)}
+								</div>
+							</div>
+						</li>
+					))}
+				</ul>
+				{!loading && delegations.length === 0 && <div className="p-4 text-fg-muted">No delegations.</div>}
+			</Card>
+			<ConfirmDialog
+				open={Boolean(pendingRevoke)}
+				title="Revoke Delegation"
+				body={pendingRevoke ? (
+					<span>Revoke the permissions <strong className="text-fg">{pendingRevoke.delegatorName}</strong> delegated to <strong className="text-fg">{pendingRevoke.delegateName}</strong>?</span>
+				) : null}
+				confirmLabel="Revoke"
+				cancelLabel="Cancel"
+				destructive
+				onConfirm={confirmRevoke}
+				onCancel={() => setPendingRevoke(null)}
+			/>
+		</div>
+	);
+}
+
+export default GrantsTab;
@@ -0,0 +1,304 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { Button, Card, Input, SectionHeader } from './UI';
+import ConfirmDialog from './ConfirmDialog';
+import Dropdown from './Dropdown';
+
+export type Organization = {
+	id: string;
+	name: string;
+	parentId: string | null;
+	createdAt: number;
+	userCount?: number;
+	taskCount?: number;
+};
+
+type OrgNode = Organization & { children: OrgNode[] };
+
+type OrganizationsResponse = { organizations?: Organization[] };
+
+interface OrganizationsTabProps
+{
+	canCreate: boolean;
+	canCreateRoot: boolean;
+	canUpdate: boolean;
+	canDelete: boolean;
+}
+
+const ROOT_VALUE = '__root__';
+
+function buildTree(list: Organization[]): OrgNode[]
+{
+	const byId = new Map<string, OrgNode>();
+	list.forEach((o) => byId.set(o.id, { ...o, children: [] }));
+	const roots: OrgNode[] = [];
+	byId.forEach((node) =>
+	{
+		const parent = node.parentId ? byId.get(node.parentId) : undefined;
+		// Orgs whose parent is outside the caller's scope render as roots
+		if (parent) parent.children.push(node);
+		else roots.push(node);
+	});
+	const sort = (nodes: OrgNode[]) =>
+	{
+		nodes.sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }));
+		nodes.forEach((n) => sort(n.children));
+	};
+	sort(roots);
+	return roots;
+}
+
+function collectSubtreeIds(node: OrgNode, acc = new Set<string>())
+{
+	acc.add(node.id);
+	node.children.forEach((c) => collectSubtreeIds(c, acc));
+	return acc;
+}
+
+export function OrganizationsTab({ canCreate, canCreateRoot, canUpdate, canDelete }: OrganizationsTabProps)
+{
+	const { apiFetch } = useAuth();
+	const [organizations, setOrganizations] = useState<Organization[]>([]);
+	const [loading, setLoading] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	const [showCreateRoot, setShowCreateRoot] = useState(false);
+	const [rootDraft, setRootDraft] = useState('');
+	const [addingUnder, setAddingUnder] = useState<string | null>(null);
+	const [childDraft, setChildDraft] = useState('');
+	const [renamingId, setRenamingId] = useState<string | null>(null);
+	const [renameDraft, setRenameDraft] = useState('');
+	const [movingId, setMovingId] = useState<string | null>(null);
+	const [moveTarget, setMoveTarget] = useState<string>(ROOT_VALUE);
+	const [pendingDelete, setPendingDelete] = useState<Organization | null>(null);
+
+	const tree = useMemo(() => buildTree(organizations), [organizations]);
+
+	const load = async () =>
+	{
+		setLoading(true);
+		try
+		{
+			const res = await apiFetch(`/api/admin/organizations`);
+			if (!res.ok) throw new Error((await res.json().catch(() => null))?.error || 'Failed to load organizations');
+			const data = (await res.json()) as OrganizationsResponse;
+			setOrganizations(data.organizations || []);
+			setError(null);
+		}
+		catch (err)
+		{
+			setError(err instanceof Error && err.message ? err.message : 'Failed to load organizations');
+		}
+		finally
+		{
+			setLoading(false);
+		}
+	};
+
+	useEffect(() => { load(); }, [apiFetch]);
+
+	const createOrganization = async (name: string, parentId: string | null) =>
+	{
+		try
+		{
+			const trimmed = name.trim();
+			if (!trimmed) return;
+			const res = await apiFetch(`/api/admin/organizations`, { method: 'POST', body: JSON.stringify({ name: trimmed, parentId }) });
+			if (!res.ok) throw new Error((await res.json().catch(() => null))?.error || 'Failed to create');
+			await load();
+			setAddingUnder(null);
+			setChildDraft('');
+			setRootDraft('');
+			setShowCreateRoot(false);
+		}
+		catch (err)
+		{
+			setError(err instanceof Error && err.message ? err.message : 'Error creating organization');
+		}
+	};
+
+	const renameOrganization = async (id: string) =>
+	{
+		try
+		{
+			const name = renameDraft.trim();
+			if (!name) return;
+			const res = await apiFetch(`/api/admin/organizations/${id}`, { method: 'PUT', body: JSON.stringify({ name }) });
+			if (!res.ok) throw new Error((await res.json().catch(() => null))?.error || 'Failed to rename');
+			const data = (await res.json()) as { organization: Organization };
+			setOrganizations((list) => list.map((o) => (o.id === id ? { ...o, name: data.organization.name } : o)));
+			setRenamingId(null);
+			setError(null);
+		}
+		catch (err)
+		{
+			setError(err instanceof Error && err.message ? err.message : 'Error renaming organization');
+		}
+	};
+
+	const moveOrganization = async (id: string) =>
+	{
+		try
+		{
+			const parentId = moveTarget === ROOT_VALUE ? null : moveTarget;
+			const res = await apiFetch(`/api/admin/organizations/${id}/move`, { method: 'POST', body: JSON.stringify({ parentId }) });
+			if (!res.ok) throw new Error((await res.json().catch(() => null))?.error || 'Failed to move');
+			setOrganizations((list) => list.map((o) => (o.id === id ? { ...o, parentId } : o)));
+			setMovingId(null);
+			setError(null);
+		}
+		catch (err)
+		{
+			setError(err instanceof Error && err.message ? err.message : 'Error moving organization');
+		}
+	};
+
+	const confirmDelete = async () =>
+	{
+		if (!pendingDelete) return;
+		try
+		{
+			const res = await apiFetch(`/api/admin/organizations/${pendingDelete.id}`, { method: 'DELETE' });
+			if (!res.ok) throw new Error((await res.json().catch(() => null))?.error || 'Failed to delete');
+			setOrganizations((list) => list.filter((o) => o.id !== pendingDelete.id));
+			setError(null);
+		}
+		catch (err)
+		{
+			setError(err instanceof Error && err.message ? err.message : 'Error deleting organization');
+		}
+		finally
+		{
+			setPendingDelete(null);
+		}
+	};
+
+	const moveOptions = (node: OrgNode) =>
+	{
+		// A node can't move under itself or anything beneath it
+		const excluded = collectSubtreeIds(node);
+		const options = organizations
+			.filter((o) => !excluded.has(o.id))
+			.sort((a, b) => a.name.localeCompare(b.name))
+			.map((o) => ({ label: o.name, value: o.id }));
+		return canCreateRoot ? [{ label: '(Top level)', value: ROOT_VALUE }, ...options] : options;
+	};
+
+	const renderNode = (node: OrgNode, depth: number) =>
+	{
+		const isEmpty = node.children.length === 0 && !node.userCount && !node.taskCount;
+		return (
+			<li key={node.id}>
+				<div className="flex items-center justify-between gap-3 border-t border-subtle p-3" style={{ paddingLeft: `${0.75 + depth * 1.5}rem` }}>
+					<div className="min-w-0">
+						{renamingId === node.id ? (
+							<Input value={renameDraft} onChange={(e) => setRenameDraft(e.target.value)} />
+						) : (
+							<div className="text-fg truncate">{node.name}</div>
+						)}
+						<div className="text-xs text-fg-muted">
+							{node.userCount ?? 0} users · {node.taskCount ?? 0} tasks · {node.children.length} sub-organizations
+						</div>
+					</div>
+					<div className="flex shrink-0 gap-2">
+						{renamingId === node.id ? (
+							<>
+								<Button size="sm" variant="primary" onClick={() => renameOrganization(node.id)}>Save</Button>
+								<Button size="sm" variant="pill" onClick={() => setRenamingId(null)}>Cancel</Button>
+							</>
+						) : movingId === node.id ? (
+							<>
+								<Dropdown className="min-w-[12rem]" value={moveTarget} onChange={setMoveTarget} options={moveOptions(node)} ariaLabel="New parent" />
+								<Button size="sm" variant="primary" onClick={() => moveOrganization(node.id)}>Move</Button>
+								<Button size="sm" variant="pill" onClick={() => setMovingId(null)}>Cancel</Button>
+							</>
+						) : (
+							<>
+								{canCreate && <Button size="sm" variant="pill" onClick={() => { setAddingUnder(node.id); setChildDraft(''); }}>Add Sub-org</Button>}
+								{canUpdate && <Button size="sm" variant="pill" onClick={() => { setRenamingId(node.id); setRenameDraft(node.name); }}>Rename</Button>}
+								{canUpdate && <Button size="sm" variant="pill" onClick={() => { setMovingId(node.id); setMoveTarget(node.parentId || ROOT_VALUE); }}>Move</Button>}
+								{canDelete && (
+									<Button
+										size="sm"
+										variant="danger"
+										disabled={!isEmpty}
+										title={isEmpty ? 'Delete organization' : 'Only empty organizations can be deleted'}
+										onClick={() => isEmpty && setPendingDelete(node)}
+									>
+										Delete
+									</Button>
+								)}
+							</>
+						)}
+					</div>
+				</div>
+				{addingUnder === node.id && (
+					<form
+						className="flex items-center gap-2 border-t border-subtle bg-surface-token/40 p-3"
+						style={{ paddingLeft: `${0.75 + (depth + 1) * 1.5}rem` }}
+						onSubmit={(e) => { e.preventDefault(); createOrganization(childDraft, node.id); }}
+					>
+						<div className="flex-1">
+							<Input placeholder={`New sub-organization of ${node.name}`} value={childDraft} onChange={(e) => setChildDraft(e.target.value)} required />
+						</div>
+						<Button type="submit" size="sm" variant="primary" disabled={!childDraft.trim()}>Create</Button>
+						<Button type="button" size="sm" variant="pill" onClick={() => setAddingUnder(null)}>Cancel</Button>
+					</form>
+				)}
+				{node.children.length > 0 && <ul>{node.children.map((c) => renderNode(c, depth + 1))}</ul>}
+			</li>
+		);
+	};
+
+	return (
+		<div className="mt-6 space-y-6">
+			<Card className="p-4">
+				<SectionHeader
+					title="Organizations"
+					actions={canCreateRoot ? (
+						<Button
+							variant={showCreateRoot ? 'primary' : 'outline'}
+							size="sm"
+							className="u-press-accent"
+							onClick={() => setShowCreateRoot((v) => !v)}
+						>
+							{showCreateRoot ? 'Close' : 'Create Organization'}
+						</Button>
+					) : null}
+				/>
+				{error && <div className="mt-3 rounded-xl border border-red-500/30 bg-red-500/10 px-3 py-2 text-sm text-red-200">{error}</div>}
+				{showCreateRoot && canCreateRoot && (
+					<form
+						className="mt-4 space-y-4"
+						onSubmit={(e) => { e.preventDefault(); createOrganization(rootDraft, null); }}
+					>
+						<Input placeholder="Organization name" value={rootDraft} onChange={(e) => setRootDraft(e.target.value)} required />
+						<div className="flex items-center gap-2">
+							<Button type="submit" variant="primary" disabled={!rootDraft.trim()}>Create</Button>
+							<Button type="button" variant="pill" onClick={() => { setRootDraft(''); setShowCreateRoot(false); }}>Cancel</Button>
+						</div>
+					</form>
+				)}
+				{loading && <div className="p-3 text-fg-muted">Loading…</div>}
+			</Card>
+
+			<Card className="p-0 overflow-hidden">
+				<ul className="text-sm -mt-px">{tree.map((n) => renderNode(n, 0))}</ul>
+				{!loading && tree.length === 0 && <div className="p-4 text-fg-muted">No organizations in scope.</div>}
+			</Card>
+			<ConfirmDialog
+				open={Boolean(pendingDelete)}
+				title="Delete Organization"
+				body={pendingDelete ? (
+					<span>Are you sure you want to delete <strong className="text-fg">{pendingDelete.name}</strong>? Its categories will be removed as well.</span>
+				) : null}
+				confirmLabel="Delete"
+				cancelLabel="Cancel"
+				destructive
+				onConfirm={confirmDelete}
+				onCancel={() => setPendingDelete(null)}
+			/>
+		</div>
+	);
+}
+
+export default OrganizationsTab;
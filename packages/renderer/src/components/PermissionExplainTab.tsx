@@ -0,0 +1,250 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { Button, Card, FormRow, Input, SectionHeader } from './UI';
+import Dropdown from './Dropdown';
+import type { Role } from './RolesTab';
+import type { AdminUser } from './UsersTab';
+
+export type TraceStep = {
+	step: string;
+	effect: 'allow' | 'deny' | 'skip';
+	detail: string;
+};
+
+export type Decision = {
+	allowed: boolean;
+	trace: TraceStep[];
+};
+
+type ExplainResponse = {
+	permission: string;
+	decision: Decision;
+	simulated?: Decision;
+	changed?: boolean;
+};
+
+type ProposedChange = {
+	role: string;
+	permission: string;
+	organizationId: string;
+	value: 'enable' | 'disable' | 'clear';
+};
+
+const GLOBAL_SCOPE = '__global__';
+const NO_RESOURCE = '__none__';
+
+const effectClass: Record<TraceStep['effect'], string> = {
+	allow: 'text-emerald-300',
+	deny: 'text-red-300',
+	skip: 'text-fg-muted'
+};
+
+function DecisionCard({ title, decision }: { title: string; decision: Decision })
+{
+	return (
+		<Card className="p-4">
+			<div className="flex items-center justify-between">
+				<div className="font-medium text-fg">{title}</div>
+				<span className={`inline-flex rounded-full px-2 py-0.5 text-xs ${decision.allowed ? 'bg-emerald-500/10 text-emerald-300' : 'bg-red-500/10 text-red-300'}`}>
+					{decision.allowed ? 'Allowed' : 'Denied'}
+				</span>
+			</div>
+			<ol className="mt-3 space-y-1 text-sm">
+				{decision.trace.map((s, i) => (
+					<li key={i} className="flex gap-3">
+						<span className={`w-40 shrink-0 font-mono text-xs leading-5 ${effectClass[s.effect]}`}>{s.step}</span>
+						<span className="text-fg">{s.detail}</span>
+					</li>
+				))}
+			</ol>
+		</Card>
+	);
+}
+
+export function PermissionExplainTab({ users, roles, organizations }: { users: AdminUser[]; roles: Role[]; organizations: { id: string; name: string }[] })
+{
+	const { apiFetch, user } = useAuth();
+	const [catalog, setCatalog] = useState<string[]>([]);
+	const [subjectType, setSubjectType] = useState<'user' | 'role'>('user');
+	const [userId, setUserId] = useState('');
+	const [roleName, setRoleName] = useState('');
+	const [subjectOrg, setSubjectOrg] = useState(user?.organizationId || '');
+	const [permission, setPermission] = useState('');
+	const [resourceType, setResourceType] = useState<string>(NO_RESOURCE);
+	const [resourceId, setResourceId] = useState('');
+	const [changes, setChanges] = useState<ProposedChange[]>([]);
+	const [result, setResult] = useState<ExplainResponse | null>(null);
+	const [running, setRunning] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() =>
+	{
+		let ignore = false;
+		apiFetch(`/api/admin/permissions/catalog`)
+			.then((res) => (res.ok ? (res.json() as Promise<{ permissions?: string[] }>) : { permissions: [] }))
+			.then((data) => { if (!ignore) setCatalog(data.permissions || []); })
+			.catch(() => { if (!ignore) setCatalog([]); });
+		return () => { ignore = true; };
+	}, [apiFetch]);
+
+	const run = async () =>
+	{
+		setRunning(true);
+		try
+		{
+			const body: Record<string, unknown> = { permission };
+			if (subjectType === 'user') body.userId = userId;
+			else { body.role = roleName; body.organizationId = subjectOrg || undefined; }
+			if (resourceType !== NO_RESOURCE && resourceId.trim()) body.resource = { type: resourceType, id: resourceId.trim() };
+			body.changes = changes
+				.filter((c) => c.role && c.permission)
+				.map((c) => ({
+					role: c.role,
+					permission: c.permission,
+					organizationId: c.organizationId === GLOBAL_SCOPE ? null : c.organizationId,
+					enabled: c.value === 'clear' ? null : c.value === 'enable'
+				}));
+			const res = await apiFetch(`/api/admin/permissions/explain`, { method: 'POST', body: JSON.stringify(body) });
+			if (!res.ok) throw new Error((await res.json().catch(() => null))?.error || 'Failed to explain');
+			setResult((await res.json()) as ExplainResponse);
+			setError(null);
+		}
+		catch (err)
+		{
+			setError(err instanceof Error && err.message ? err.message : 'Failed to explain');
+			setResult(null);
+		}
+		finally
+		{
+			setRunning(false);
+		}
+	};
+
+	const updateChange = (index: number, patch: Partial<ProposedChange>) =>
+		setChanges((list) => list.map((c, i) => (i === index ? { ...c, ...patch } : c)));
+
+	const roleOptions = roles.map((r) => ({ label: r.name, value: r.name }));
+	const orgOptions = organizations.map((o) => ({ label: o.name, value: o.id }));
+	const ready = Boolean(permission) && (subjectType === 'user' ? Boolean(userId) : Boolean(roleName));
+
+	return (
+		<div className="mt-6 space-y-6">
+			<Card className="p-4">
+				<SectionHeader title="Explain Access" />
+				{error && <div className="mt-3 rounded-xl border border-red-500/30 bg-red-500/10 px-3 py-2 text-sm text-red-200">{error}</div>}
+				<form className="mt-4 space-y-4" onSubmit={(e) => { e.preventDefault(); if (ready) run(); }}>
+					<FormRow>
+						<div className="flex flex-col gap-1 text-sm">
+							<span className="form-label">Subject</span>
+							<Dropdown
+								value={subjectType}
+								onChange={(v) => setSubjectType(v as 'user' | 'role')}
+								options={[{ label: 'User', value: 'user' }, { label: 'Role', value: 'role' }]}
+								className="w-full"
+								ariaLabel="Subject type"
+							/>
+						</div>
+						{subjectType === 'user' ? (
+							<div className="flex flex-col gap-1 text-sm">
+								<span className="form-label">User</span>
+								<Dropdown
+									value={userId}
+									onChange={setUserId}
+									options={users.map((u) => ({ label: `${u.name} (${u.email})`, value: u.id }))}
+									className="w-full"
+									ariaLabel="User"
+								/>
+							</div>
+						) : (
+							<div className="grid grid-cols-2 gap-2">
+								<div className="flex flex-col gap-1 text-sm">
+									<span className="form-label">Role</span>
+									<Dropdown value={roleName} onChange={setRoleName} options={roleOptions} className="w-full" ariaLabel="Role" />
+								</div>
+								<div className="flex flex-col gap-1 text-sm">
+									<span className="form-label">Organization</span>
+									<Dropdown value={subjectOrg} onChange={setSubjectOrg} options={orgOptions} className="w-full" ariaLabel="Organization" />
+								</div>
+							</div>
+						)}
+					</FormRow>
+					<FormRow>
+						<div className="flex flex-col gap-1 text-sm">
+							<span className="form-label">Permission</span>
+							<Dropdown value={permission} onChange={setPermission} options={catalog} className="w-full" ariaLabel="Permission" />
+						</div>
+						<div className="grid grid-cols-2 gap-2">
+							<div className="flex flex-col gap-1 text-sm">
+								<span className="form-label">Resource</span>
+								<Dropdown
+									value={resourceType}
+									onChange={setResourceType}
+									options={[
+										{ label: 'None', value: NO_RESOURCE },
+										{ label: 'Task', value: 'task' },
+										{ label: 'Category', value: 'category' },
+										{ label: 'Organization', value: 'organization' }
+									]}
+									className="w-full"
+									ariaLabel="Resource type"
+								/>
+							</div>
+							<Input label="Resource ID" value={resourceId} disabled={resourceType === NO_RESOURCE} onChange={(e) => setResourceId(e.target.value)} />
+						</div>
+					</FormRow>
+
+					<div className="space-y-2">
+						<SectionHeader
+							title="What-if Changes"
+							actions={
+								<Button
+									type="button"
+									size="sm"
+									variant="pill"
+									onClick={() => setChanges((list) => [...list, { role: roleName || roles[0]?.name || '', permission, organizationId: GLOBAL_SCOPE, value: 'enable' }])}
+								>
+									Add Change
+								</Button>
+							}
+						/>
+						{changes.length === 0 && <div className="text-xs text-fg-muted">Add proposed role permission changes to compare the outcome before saving them.</div>}
+						{changes.map((c, i) => (
+							<div key={i} className="flex flex-wrap items-center gap-2 rounded-xl border border-subtle p-3">
+								<Dropdown className="min-w-[8rem]" value={c.role} onChange={(v) => updateChange(i, { role: v })} options={roleOptions} ariaLabel="Change role" />
+								<Dropdown className="min-w-[12rem]" value={c.permission} onChange={(v) => updateChange(i, { permission: v })} options={catalog} ariaLabel="Change permission" />
+								<Dropdown
+									className="min-w-[10rem]"
+									value={c.organizationId}
+									onChange={(v) => updateChange(i, { organizationId: v })}
+									options={[{ label: 'Global', value: GLOBAL_SCOPE }, ...orgOptions]}
+									ariaLabel="Change scope"
+								/>
+								<Dropdown
+									className="min-w-[8rem]"
+									value={c.value}
+									onChange={(v) => updateChange(i, { value: v as ProposedChange['value'] })}
+									options={[{ label: 'Enable', value: 'enable' }, { label: 'Disable', value: 'disable' }, { label: 'Clear', value: 'clear' }]}
+									ariaLabel="Change value"
+								/>
+								<Button type="button" size="sm" variant="danger" onClick={() => setChanges((list) => list.filter((_, j) => j !== i))}>Remove</Button>
+							</div>
+						))}
+					</div>
+
+					<Button type="submit" variant="primary" disabled={!ready || running}>{running ? 'Explaining…' : 'Explain'}</Button>
+				</form>
+			</Card>
+
+			{result && (
+				<div className={`grid gap-4 ${result.simulated ? 'lg:grid-cols-2' : ''}`}>
+					<DecisionCard title="Current" decision={result.decision} />
+					{result.simulated && (
+						<DecisionCard title={result.changed ? 'With proposed changes (outcome changes)' : 'With proposed changes (no change)'} decision={result.simulated} />
+					)}
+				</div>
+			)}
+		</div>
+	);
+}
+
+export default PermissionExplainTab;
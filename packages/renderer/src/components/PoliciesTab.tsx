@@ -0,0 +1,425 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { Button, Card, Checkbox, Input, SectionHeader, Toggle } from './UI';
+import ConfirmDialog from './ConfirmDialog';
+import Dropdown from './Dropdown';
+
+type Comparison = { attr: string; op: string; value?: unknown };
+export type PolicyCondition = { all: PolicyCondition[] } | { any: PolicyCondition[] } | { not: PolicyCondition } | Comparison;
+
+export type Policy = {
+	id: string;
+	name: string;
+	description: string | null;
+	effect: 'allow' | 'deny';
+	actions: string[];
+	conditions: PolicyCondition;
+	organizationId: string | null;
+	enabled: boolean;
+	createdAt: number;
+	updatedAt: number;
+};
+
+type PolicySchema = { actions: string[]; effects: string[]; attributes: string[]; operators: string[] };
+type PoliciesResponse = { policies?: Policy[]; schema: PolicySchema };
+
+interface PoliciesTabProps
+{
+	organizations: { id: string; name: string }[];
+	canManage: boolean;
+	isOwnerActor: boolean;
+}
+
+// One comparison in the builder. value is typed text: lists are comma separated and @attribute refers to another
+// attribute (e.g. @actor.id).
+type ConditionRow = { attr: string; op: string; value: string };
+type Draft = {
+	name: string;
+	description: string;
+	effect: 'allow' | 'deny';
+	actions: string[];
+	organizationId: string;
+	match: 'all' | 'any';
+	rows: ConditionRow[];
+	// Trees the builder can't show (nesting, not) are edited as JSON
+	json: string | null;
+};
+
+const ALL_ORGS = '__all__';
+const LIST_OPS = ['in', 'notIn', 'subsetOf', 'intersects'];
+
+function encodeValue(value: unknown): string
+{
+	if (value && typeof value === 'object' && !Array.isArray(value)) return `@${(value as { attr: string }).attr}`;
+	if (Array.isArray(value)) return value.join(', ');
+	return value == null ? '' : String(value);
+}
+
+function decodeValue(text: string, op: string): unknown
+{
+	const trimmed = text.trim();
+	if (trimmed.startsWith('@')) return { attr: trimmed.slice(1) };
+	if (LIST_OPS.includes(op)) return trimmed ? trimmed.split(',').map((v) => v.trim()).filter(Boolean) : [];
+	return trimmed === '' ? null : trimmed;
+}
+
+// Flat all/any lists of comparisons fit the builder; anything else stays JSON
+function toBuilder(conditions: PolicyCondition): { match: 'all' | 'any'; rows: ConditionRow[] } | null
+{
+	const group = 'all' in conditions ? { match: 'all' as const, list: conditions.all } : 'any' in conditions ? { match: 'any' as const, list: conditions.any } : null;
+	const list = group ? group.list : [conditions];
+	if (!list.every((c) => 'attr' in c)) return null;
+	return { match: group ? group.match : 'all', rows: (list as Comparison[]).map((c) => ({ attr: c.attr, op: c.op, value: encodeValue(c.value) })) };
+}
+
+function fromBuilder(match: 'all' | 'any', rows: ConditionRow[]): PolicyCondition
+{
+	const list = rows.map((r) => (r.op === 'exists' ? { attr: r.attr, op: r.op } : { attr: r.attr, op: r.op, value: decodeValue(r.value, r.op) }));
+	return match === 'all' ? { all: list } : { any: list };
+}
+
+function describeCondition(node: PolicyCondition): string
+{
+	if ('all' in node) return node.all.length === 0 ? 'always' : node.all.map(describeCondition).join(' and ');
+	if ('any' in node) return `(${node.any.map(describeCondition).join(' or ')})`;
+	if ('not' in node) return `not ${describeCondition(node.not)}`;
+	return node.op === 'exists' ? `${node.attr} is set` : `${node.attr} ${node.op} ${encodeValue(node.value)}`;
+}
+
+const emptyDraft = (): Draft => ({ name: '', description: '', effect: 'allow', actions: ['tasks:update'], organizationId: ALL_ORGS, match: 'all', rows: [], json: null });
+
+function draftFromPolicy(policy: Policy): Draft
+{
+	const builder = toBuilder(policy.conditions);
+	return {
+		name: policy.name,
+		description: policy.description || '',
+		effect: policy.effect,
+		actions: policy.actions,
+		organizationId: policy.organizationId || ALL_ORGS,
+		match: builder ? builder.match : 'all',
+		rows: builder ? builder.rows : [],
+		json: builder ? null : JSON.stringify(policy.conditions, null, 2)
+	};
+}
+
+export function PoliciesTab({ organizations, canManage, isOwnerActor }: PoliciesTabProps)
+{
+	const { apiFetch } = useAuth();
+	const [policies, setPolicies] = useState<Policy[]>([]);
+	const [schema, setSchema] = useState<PolicySchema | null>(null);
+	const [loading, setLoading] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	// null: closed, 'new': create form, otherwise the id being edited
+	const [editing, setEditing] = useState<string | null>(null);
+	const [draft, setDraft] = useState<Draft>(emptyDraft);
+	const [pendingDelete, setPendingDelete] = useState<Policy | null>(null);
+
+	const orgName = (id: string | null) => (id ? organizations.find((o) => o.id === id)?.name || id : 'All organizations');
+
+	const load = async () =>
+	{
+		setLoading(true);
+		try
+		{
+			const res = await apiFetch(`/api/admin/policies`);
+			if (!res.ok) throw new Error((await res.json().catch(() => null))?.error || 'Failed to load policies');
+			const data = (await res.json()) as PoliciesResponse;
+			setPolicies(data.policies || []);
+			setSchema(data.schema);
+			setError(null);
+		}
+		catch (err)
+		{
+			setError(err instanceof Error && err.message ? err.message : 'Failed to load policies');
+		}
+		finally
+		{
+			setLoading(false);
+		}
+	};
+
+	useEffect(() => { load(); }, [apiFetch]);
+
+	const openEditor = (policy: Policy | null) =>
+	{
+		setDraft(policy ? draftFromPolicy(policy) : { ...emptyDraft(), organizationId: isOwnerActor ? ALL_ORGS : organizations[0]?.id || ALL_ORGS });
+		setEditing(policy ? policy.id : 'new');
+	};
+
+	const save = async () =>
+	{
+		try
+		{
+			let conditions: PolicyCondition;
+			try
+			{
+				conditions = draft.json !== null ? JSON.parse(draft.json) : fromBuilder(draft.match, draft.rows);
+			}
+			catch
+			{
+				throw new Error('Conditions are not valid JSON');
+			}
+			const payload = {
+				name: draft.name.trim(),
+				description: draft.description.trim() || null,
+				effect: draft.effect,
+				actions: draft.actions,
+				conditions,
+				organizationId: draft.organizationId === ALL_ORGS ? null : draft.organizationId
+			};
+			const isNew = editing === 'new';
+			const res = await apiFetch(isNew ? `/api/admin/policies` : `/api/admin/policies/${editing}`, {
+				method: isNew ? 'POST' : 'PUT',
+				body: JSON.stringify(payload)
+			});
+			if (!res.ok) throw new Error((await res.json().catch(() => null))?.error || 'Failed to save policy');
+			const saved = (await res.json()).policy as Policy;
+			setPolicies((list) => (isNew ? [...list, saved] : list.map((p) => (p.id === saved.id ? saved : p))));
+			setEditing(null);
+			setError(null);
+		}
+		catch (err)
+		{
+			setError(err instanceof Error && err.message ? err.message : 'Error saving policy');
+		}
+	};
+
+	const setEnabled = async (policy: Policy, enabled: boolean) =>
+	{
+		try
+		{
+			const res = await apiFetch(`/api/admin/policies/${policy.id}`, { method: 'PUT', body: JSON.stringify({ enabled }) });
+			if (!res.ok) throw new Error((await res.json().catch(() => null))?.error || 'Failed to update policy');
+			const saved = (await res.json()).policy as Policy;
+			setPolicies((list) => list.map((p) => (p.id === saved.id ? saved : p)));
+		}
+		catch (err)
+		{
+			setError(err instanceof Error && err.message ? err.message : 'Error updating policy');
+		}
+	};
+
+	const confirmDelete = async () =>
+	{
+		if (!pendingDelete) return;
+		try
+		{
+			const res = await apiFetch(`/api/admin/policies/${pendingDelete.id}`, { method: 'DELETE' });
+			if (!res.ok) throw new Error((await res.json().catch(() => null))?.error || 'Failed to delete');
+			setPolicies((list) => list.filter((p) => p.id !== pendingDelete.id));
+			setError(null);
+		}
+		catch (err)
+		{
+			setError(err instanceof Error && err.message ? err.message : 'Error deleting policy');
+		}
+		finally
+		{
+			setPendingDelete(null);
+		}
+	};
+
+	const updateRow = (index: number, patch: Partial<ConditionRow>) =>
+		setDraft((d) => ({ ...d, rows: d.rows.map((r, i) => (i === index ? { ...r, ...patch } : r)) }));
+
+	const toggleJson = () =>
+	{
+		if (draft.json === null)
+		{
+			setDraft((d) => ({ ...d, json: JSON.stringify(fromBuilder(d.match, d.rows), null, 2) }));
+			return;
+		}
+		try
+		{
+			const builder = toBuilder(JSON.parse(draft.json));
+			if (!builder)
+			{
+				setError('Nested conditions can only be edited as JSON');
+				return;
+			}
+			setDraft((d) => ({ ...d, ...builder, json: null }));
+			setError(null);
+		}
+		catch
+		{
+			setError('Conditions are not valid JSON');
+		}
+	};
+
+	const orgOptions = [
+		...(isOwnerActor ? [{ label: 'All organizations', value: ALL_ORGS }] : []),
+		...organizations.map((o) => ({ label: o.name, value: o.id }))
+	];
+
+	const renderEditor = () => (
+		<form className="mt-4 space-y-4" onSubmit={(e) => { e.preventDefault(); save(); }}>
+			<div className="grid gap-4 grid-cols-1 sm:grid-cols-2">
+				<Input label="Name" value={draft.name} onChange={(e) => setDraft((d) => ({ ...d, name: e.target.value }))} required />
+				<Input label="Description" value={draft.description} onChange={(e) => setDraft((d) => ({ ...d, description: e.target.value }))} />
+				<label className="flex flex-col gap-1 text-sm">
+					<span className="form-label">Effect</span>
+					<Dropdown
+						value={draft.effect}
+						onChange={(v) => setDraft((d) => ({ ...d, effect: v as Draft['effect'] }))}
+						options={[{ label: 'Allow', value: 'allow' }, { label: 'Deny', value: 'deny' }]}
+						ariaLabel="Effect"
+					/>
+				</label>
+				<label className="flex flex-col gap-1 text-sm">
+					<span className="form-label">Applies in</span>
+					<Dropdown value={draft.organizationId} onChange={(v) => setDraft((d) => ({ ...d, organizationId: v }))} options={orgOptions} ariaLabel="Organization" />
+				</label>
+			</div>
+			<div className="flex flex-wrap items-center gap-4">
+				<span className="form-label text-sm">Actions</span>
+				{(schema?.actions || []).map((action) => (
+					<Checkbox
+						key={action}
+						label={action}
+						checked={draft.actions.includes(action)}
+						onChange={(e) => setDraft((d) => ({ ...d, actions: e.target.checked ? [...d.actions, action] : d.actions.filter((a) => a !== action) }))}
+					/>
+				))}
+			</div>
+			<div className="space-y-2">
+				<div className="flex items-center justify-between gap-2">
+					<span className="form-label text-sm">Conditions</span>
+					<Button
+						type="button"
+						size="sm"
+						variant="pill"
+						onClick={toggleJson}
+					>
+						{draft.json !== null ? 'Use builder' : 'Edit as JSON'}
+					</Button>
+				</div>
+				{draft.json !== null ? (
+					<textarea
+						className="w-full rounded-xl border border-subtle bg-surface-token px-3 py-2 font-mono text-xs text-fg"
+						rows={8}
+						value={draft.json}
+						onChange={(e) => setDraft((d) => ({ ...d, json: e.target.value }))}
+						aria-label="Conditions JSON"
+					/>
+				) : (
+					<>
+						<div className="flex items-center gap-2 text-sm text-fg-muted">
+							Match
+							<Dropdown
+								className="min-w-[8rem]"
+								value={draft.match}
+								onChange={(v) => setDraft((d) => ({ ...d, match: v as Draft['match'] }))}
+								options={[{ label: 'all of', value: 'all' }, { label: 'any of', value: 'any' }]}
+								ariaLabel="Match"
+							/>
+							{draft.rows.length === 0 ? 'nothing (always applies)' : 'the following'}
+						</div>
+						{draft.rows.map((row, i) => (
+							<div key={i} className="flex flex-wrap items-center gap-2">
+								<Dropdown className="min-w-[12rem]" value={row.attr} onChange={(v) => updateRow(i, { attr: v })} options={schema?.attributes || []} ariaLabel="Attribute" />
+								<Dropdown className="min-w-[8rem]" value={row.op} onChange={(v) => updateRow(i, { op: v })} options={schema?.operators || []} ariaLabel="Operator" />
+								{row.op !== 'exists' && (
+									<div className="flex-1">
+										<Input
+											value={row.value}
+											placeholder={LIST_OPS.includes(row.op) ? 'a, b, c' : 'value or @actor.id'}
+											onChange={(e) => updateRow(i, { value: e.target.value })}
+											aria-label="Value"
+										/>
+									</div>
+								)}
+								<Button type="button" size="sm" variant="danger" onClick={() => setDraft((d) => ({ ...d, rows: d.rows.filter((_, j) => j !== i) }))}>Remove</Button>
+							</div>
+						))}
+						<Button
+							type="button"
+							size="sm"
+							variant="outline"
+							onClick={() => setDraft((d) => ({ ...d, rows: [...d.rows, { attr: 'resource.assignedTo', op: 'eq', value: '@actor.id' }] }))}
+						>
+							Add condition
+						</Button>
+						<div className="text-xs text-fg-muted">
+							Lists are comma separated; <code>@attribute</code> compares against another attribute. <code>changes</code> holds the names of the fields being changed.
+						</div>
+					</>
+				)}
+			</div>
+			<div className="flex items-center gap-2">
+				<Button type="submit" variant="primary" disabled={!draft.name.trim() || draft.actions.length === 0}>{editing === 'new' ? 'Create' : 'Save'}</Button>
+				<Button type="button" variant="pill" onClick={() => setEditing(null)}>Cancel</Button>
+			</div>
+		</form>
+	);
+
+	return (
+		<div className="mt-6 space-y-6">
+			<Card className="p-4">
+				<SectionHeader
+					title="Policies"
+					actions={canManage ? (
+						<Button
+							variant={editing === 'new' ? 'primary' : 'outline'}
+							size="sm"
+							className="u-press-accent"
+							onClick={() => (editing === 'new' ? setEditing(null) : openEditor(null))}
+						>
+							{editing === 'new' ? 'Close' : 'Create Policy'}
+						</Button>
+					) : null}
+				/>
+				<div className="mt-2 text-sm text-fg-muted">
+					Policies run after the role check on task changes. A matching deny refuses the change; a matching allow grants it even when the role does not. Owners are not affected.
+				</div>
+				{error && <div className="mt-3 rounded-xl border border-red-500/30 bg-red-500/10 px-3 py-2 text-sm text-red-200">{error}</div>}
+				{editing === 'new' && canManage && renderEditor()}
+				{loading && <div className="p-3 text-fg-muted">Loading…</div>}
+			</Card>
+
+			<Card className="p-0 overflow-hidden">
+				<ul className="text-sm -mt-px">
+					{policies.map((policy) => (
+						<li key={policy.id} className="border-t border-subtle p-3">
+							<div className="flex items-start justify-between gap-3">
+								<div className="min-w-0">
+									<div className="flex items-center gap-2">
+										<span className={['rounded-full px-2 py-0.5 text-xs font-medium', policy.effect === 'deny' ? 'bg-red-500/15 text-red-300' : 'bg-primary/15 text-primary-token'].join(' ')}>
+											{policy.effect}
+										</span>
+										<span className="truncate text-fg">{policy.name}</span>
+									</div>
+									{policy.description && <div className="text-xs text-fg-muted">{policy.description}</div>}
+									<div className="mt-1 text-xs text-fg-muted">
+										{policy.actions.join(', ')} · {orgName(policy.organizationId)} · when {describeCondition(policy.conditions)}
+									</div>
+								</div>
+								<div className="flex shrink-0 items-center gap-2">
+									<Toggle checked={policy.enabled} disabled={!canManage} onChange={(v) => setEnabled(policy, v)} />
+									{canManage && <Button size="sm" variant="pill" onClick={() => openEditor(policy)}>Edit</Button>}
+									{canManage && <Button size="sm" variant="danger" onClick={() => setPendingDelete(policy)}>Delete</Button>}
+								</div>
+							</div>
+							{editing === policy.id && canManage && renderEditor()}
+						</li>
+					))}
+				</ul>
+				{!loading && policies.length === 0 && <div className="p-4 text-fg-muted">No policies yet. Role permissions alone decide.</div>}
+			</Card>
+			<ConfirmDialog
+				open={Boolean(pendingDelete)}
+				title="Delete Policy"
+				body={pendingDelete ? (
+					<span>Are you sure you want to delete <strong className="text-fg">{pendingDelete.name}</strong>?</span>
+				) : null}
+				confirmLabel="Delete"
+				cancelLabel="Cancel"
+				destructive
+				onConfirm={confirmDelete}
+				onCancel={() => setPendingDelete(null)}
+			/>
+		</div>
+	);
+}
+
+export default PoliciesTab;
@@ -0,0 +1,247 @@
+import { useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { Button, Card, Checkbox, SectionHeader } from './UI';
+import ConfirmDialog from './ConfirmDialog';
+import Dropdown from './Dropdown';
+
+type ConflictStrategy = 'skip' | 'overwrite' | 'fail';
+
+// The parts of a role, permission row or category access entry before and after a change that the preview shows
+type BundleChangeValues = {
+	description?: string | null;
+	parentRole?: string | null;
+	permission?: string;
+	enabled?: boolean;
+	roles?: string[];
+};
+
+type BundleChange = {
+	type: 'role.create' | 'role.update' | 'permission.set' | 'permission.clear' | 'category_access.set';
+	role?: string;
+	category?: string;
+	organization?: string | null;
+	before?: BundleChangeValues | null;
+	after?: BundleChangeValues;
+};
+
+type RoleConflict = {
+	role: string;
+	existing: { description: string | null; parentRole: string | null };
+	incoming: { description: string | null; parentRole: string | null };
+};
+
+type ImportResult = {
+	version: number;
+	dryRun: boolean;
+	changes: BundleChange[];
+	conflicts: RoleConflict[];
+	warnings: string[];
+	applied: number;
+	error?: string;
+};
+
+const changeLabels: Record<BundleChange['type'], string> = {
+	'role.create': 'Create role',
+	'role.update': 'Update role',
+	'permission.set': 'Set permission',
+	'permission.clear': 'Clear permission',
+	'category_access.set': 'Category access'
+};
+
+const describeChange = (change: BundleChange) =>
+{
+	const where = change.organization ? ` in ${change.organization}` : change.type.startsWith('permission') ? ' (global)' : '';
+	switch (change.type)
+	{
+		case 'role.create':
+		case 'role.update':
+			return `${change.role}${change.after?.parentRole ? ` extends ${change.after.parentRole}` : ''}${change.after?.description ? ` — ${change.after.description}` : ''}`;
+		case 'permission.set':
+			return `${change.role}: ${change.after?.permission} ${change.after?.enabled ? 'allowed' : 'denied'}${where}${change.before ? ` (was ${change.before.enabled ? 'allowed' : 'denied'})` : ''}`;
+		case 'permission.clear':
+			return `${change.role}: ${change.before?.permission}${where}`;
+		case 'category_access.set':
+			return `${change.category}${where}: ${(change.after?.roles || []).join(', ') || 'no roles'} (was ${(change.before?.roles || []).join(', ') || 'no roles'})`;
+		default:
+			return '';
+	}
+};
+
+interface PolicyBundleCardProps
+{
+	canImport: boolean;
+	onApplied: () => void;
+}
+
+// Export the RBAC configuration as a versioned JSON/YAML bundle, or import one: the bundle is always previewed as
+// a dry run first so every change and conflicting custom role can be reviewed before anything is applied.
+export function PolicyBundleCard({ canImport, onApplied }: PolicyBundleCardProps)
+{
+	const { apiFetch } = useAuth();
+	const [content, setContent] = useState('');
+	const [conflict, setConflict] = useState<ConflictStrategy>('skip');
+	const [prune, setPrune] = useState(false);
+	const [preview, setPreview] = useState<ImportResult | null>(null);
+	const [confirmOpen, setConfirmOpen] = useState(false);
+	const [busy, setBusy] = useState(false);
+	const [message, setMessage] = useState<string | null>(null);
+	const [error, setError] = useState<string | null>(null);
+
+	const download = async (format: 'json' | 'yaml') =>
+	{
+		setError(null);
+		try
+		{
+			const res = await apiFetch(`/api/admin/rbac/export?format=${format}`);
+			if (!res.ok) throw new Error((await res.json().catch(() => null))?.error || 'Export failed');
+			const blob = new Blob([await res.text()], { type: format === 'yaml' ? 'application/yaml' : 'application/json' });
+			const url = URL.createObjectURL(blob);
+			const link = document.createElement('a');
+			link.href = url;
+			link.download = `rbac-bundle-${new Date().toISOString().slice(0, 10)}.${format}`;
+			link.click();
+			URL.revokeObjectURL(url);
+		}
+		catch (err)
+		{
+			setError(err instanceof Error && err.message ? err.message : 'Export failed');
+		}
+	};
+
+	const runImport = async (dryRun: boolean) =>
+	{
+		setBusy(true);
+		setError(null);
+		setMessage(null);
+		try
+		{
+			const res = await apiFetch('/api/admin/rbac/import', { method: 'POST', body: JSON.stringify({ content, conflict, prune, dryRun }) });
+			const data = (await res.json().catch(() => null)) as ImportResult | null;
+			if (!res.ok)
+			{
+				// A 409 still carries the plan (conflicts, or how far an import got)
+				if (data && Array.isArray(data.changes)) setPreview(data);
+				throw new Error(data?.error || 'Import failed');
+			}
+			if (dryRun)
+			{
+				setPreview(data);
+			}
+			else
+			{
+				setPreview(null);
+				setContent('');
+				setMessage(`Applied ${data?.applied ?? 0} change${data?.applied === 1 ? '' : 's'}.`);
+				onApplied();
+			}
+		}
+		catch (err)
+		{
+			setError(err instanceof Error && err.message ? err.message : 'Import failed');
+		}
+		finally
+		{
+			setBusy(false);
+		}
+	};
+
+	const loadFile = async (file: File | undefined) =>
+	{
+		if (!file) return;
+		setContent(await file.text());
+		setPreview(null);
+	};
+
+	return (
+		<Card className="mt-6 p-4">
+			<SectionHeader
+				title="Policy Bundles"
+				actions={
+					<div className="flex gap-2">
+						<Button size="sm" variant="pill" onClick={() => download('json')}>Export JSON</Button>
+						<Button size="sm" variant="pill" onClick={() => download('yaml')}>Export YAML</Button>
+					</div>
+				}
+			/>
+			<div className="mt-2 text-sm text-fg-muted">
+				Custom roles, role permissions and category access as one versioned file. Organizations and categories are matched by name on import.
+			</div>
+			{error && <div className="mt-3 rounded-xl border border-red-500/30 bg-red-500/10 px-3 py-2 text-sm text-red-200">{error}</div>}
+			{message && <div className="mt-3 rounded-xl border border-emerald-500/30 bg-emerald-500/10 px-3 py-2 text-sm text-emerald-200">{message}</div>}
+			{canImport && (
+				<div className="mt-4 space-y-3">
+					<textarea
+						className="w-full rounded-xl border border-subtle bg-surface-token px-3 py-2 font-mono text-xs text-fg"
+						rows={6}
+						value={content}
+						placeholder="Paste a JSON or YAML bundle, or choose a file"
+						onChange={(e) => { setContent(e.target.value); setPreview(null); }}
+						aria-label="Bundle content"
+					/>
+					<div className="flex flex-wrap items-center gap-3 text-sm">
+						<input type="file" accept=".json,.yaml,.yml" onChange={(e) => loadFile(e.target.files?.[0])} aria-label="Bundle file" className="text-fg-muted" />
+						<Dropdown
+							className="min-w-[12rem]"
+							value={conflict}
+							onChange={(v) => { setConflict(v as ConflictStrategy); setPreview(null); }}
+							options={[
+								{ label: 'Keep existing roles', value: 'skip' },
+								{ label: 'Overwrite existing roles', value: 'overwrite' },
+								{ label: 'Stop on conflict', value: 'fail' }
+							]}
+							ariaLabel="On conflict"
+						/>
+						<Checkbox label="Clear unlisted permissions of these roles" checked={prune} onChange={(e) => { setPrune(e.target.checked); setPreview(null); }} />
+						<Button size="sm" variant="primary" disabled={busy || !content.trim()} onClick={() => runImport(true)}>Preview</Button>
+					</div>
+					{preview && (
+						<div className="space-y-3 rounded-xl border border-subtle p-3 text-sm">
+							<div className="text-fg">
+								Bundle version {preview.version}: {preview.changes.length} change{preview.changes.length === 1 ? '' : 's'}
+								{preview.conflicts.length > 0 && `, ${preview.conflicts.length} conflicting role${preview.conflicts.length === 1 ? '' : 's'}`}
+							</div>
+							{preview.conflicts.length > 0 && (
+								<ul className="space-y-1 text-amber-300">
+									{preview.conflicts.map((c) => (
+										<li key={c.role}>
+											{c.role}: here “{c.existing.description || 'no description'}”{c.existing.parentRole ? ` extends ${c.existing.parentRole}` : ''},
+											bundle “{c.incoming.description || 'no description'}”{c.incoming.parentRole ? ` extends ${c.incoming.parentRole}` : ''}
+											{conflict === 'skip' ? ' — kept' : conflict === 'overwrite' ? ' — replaced' : ''}
+										</li>
+									))}
+								</ul>
+							)}
+							{preview.warnings.length > 0 && (
+								<ul className="space-y-1 text-fg-muted">
+									{preview.warnings.map((w) => <li key={w}>{w}</li>)}
+								</ul>
+							)}
+							<ul className="space-y-1">
+								{preview.changes.map((change, i) => (
+									<li key={i} className="flex gap-2">
+										<span className="w-32 shrink-0 text-xs text-fg-muted">{changeLabels[change.type]}</span>
+										<span className="text-fg">{describeChange(change)}</span>
+									</li>
+								))}
+							</ul>
+							{preview.dryRun && preview.changes.length > 0 && !(conflict === 'fail' && preview.conflicts.length > 0) && (
+								<Button size="sm" variant="primary" disabled={busy} onClick={() => setConfirmOpen(true)}>Apply {preview.changes.length} change{preview.changes.length === 1 ? '' : 's'}</Button>
+							)}
+						</div>
+					)}
+				</div>
+			)}
+			<ConfirmDialog
+				open={confirmOpen}
+				title="Apply Bundle"
+				body={<span>Apply {preview?.changes.length ?? 0} change{preview?.changes.length === 1 ? '' : 's'} to roles and permissions? Each change is recorded in the audit log.</span>}
+				confirmLabel="Apply"
+				cancelLabel="Cancel"
+				onCancel={() => setConfirmOpen(false)}
+				onConfirm={() => { setConfirmOpen(false); runImport(false); }}
+			/>
+		</Card>
+	);
+}
+
+export default PolicyBundleCard;
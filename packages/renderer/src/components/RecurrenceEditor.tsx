@@ -0,0 +1,140 @@
+import Dropdown from './Dropdown';
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'after_completion';
+
+export type RecurrenceRule = {
+	frequency: RecurrenceFrequency;
+	interval: number;
+	weekdays?: number[];
+	dayOfMonth?: number;
+};
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const NEVER = '';
+
+// Rules with fixed dates count from the due date, so they need one
+export const needsDueDate = (rule: RecurrenceRule | null) => Boolean(rule && rule.frequency !== 'after_completion');
+
+// Same wording as the server's activity entries
+export function describeRecurrence(rule: RecurrenceRule): string
+{
+	const every = (unit: string) => (rule.interval === 1 ? `every ${unit}` : `every ${rule.interval} ${unit}s`);
+	switch (rule.frequency)
+	{
+		case 'daily':
+			return every('day');
+		case 'weekly':
+			return `${every('week')} on ${(rule.weekdays || []).map((d) => WEEKDAYS[d]).join(', ')}`;
+		case 'monthly':
+			return `${every('month')} on day ${rule.dayOfMonth}`;
+		case 'after_completion':
+			return `${rule.interval} day${rule.interval === 1 ? '' : 's'} after completion`;
+	}
+}
+
+// Starting values when switching frequency: weekly on the due date's weekday, monthly on its day of the month
+function defaultRule(frequency: RecurrenceFrequency, dueDate: number | null): RecurrenceRule
+{
+	const due = dueDate ? new Date(dueDate * 1000) : new Date();
+	switch (frequency)
+	{
+		case 'weekly':
+			return { frequency, interval: 1, weekdays: [due.getDay()] };
+		case 'monthly':
+			return { frequency, interval: 1, dayOfMonth: due.getDate() };
+		default:
+			return { frequency, interval: 1 };
+	}
+}
+
+// Repeat settings of a task in its editor. Occurrences are created by the server when a task is completed or,
+// for the scheduled frequencies, when the next date arrives.
+export function RecurrenceEditor({ value, dueDate, disabled, onChange }: {
+	value: RecurrenceRule | null;
+	dueDate: number | null;
+	disabled?: boolean;
+	onChange: (rule: RecurrenceRule | null) => void;
+})
+{
+	const unit = value?.frequency === 'weekly' ? 'week(s)' : value?.frequency === 'monthly' ? 'month(s)' : 'day(s)';
+	const inputClass = 'w-16 rounded-md bg-white/5 border border-white/10 px-2 py-1 text-sm';
+
+	const toggleWeekday = (day: number) =>
+	{
+		if (!value) return;
+		const current = value.weekdays || [];
+		const weekdays = current.includes(day) ? current.filter((d) => d !== day) : [...current, day].sort((a, b) => a - b);
+		if (weekdays.length > 0) onChange({ ...value, weekdays });
+	};
+
+	return (
+		<div className="mt-2 space-y-2 text-sm" data-actionable="true">
+			<div className="flex flex-wrap items-center gap-2">
+				<span className="text-xs uppercase tracking-wide text-fg-muted">Repeat</span>
+				<Dropdown
+					className="min-w-[11rem]"
+					value={value?.frequency || NEVER}
+					onChange={(v) => onChange(v ? defaultRule(v as RecurrenceFrequency, dueDate) : null)}
+					options={[
+						{ label: 'Does not repeat', value: NEVER },
+						{ label: 'Daily', value: 'daily' },
+						{ label: 'Weekly', value: 'weekly' },
+						{ label: 'Monthly', value: 'monthly' },
+						{ label: 'After completion', value: 'after_completion' }
+					]}
+					ariaLabel="Repeat"
+				/>
+				{value && (
+					<label className="inline-flex items-center gap-1 text-fg-muted">
+						{value.frequency === 'after_completion' ? 'after' : 'every'}
+						<input
+							type="number"
+							min={1}
+							max={365}
+							className={inputClass}
+							value={value.interval}
+							disabled={disabled}
+							onChange={(e) => onChange({ ...value, interval: Math.min(365, Math.max(1, Number(e.target.value) || 1)) })}
+							aria-label="Interval"
+						/>
+						{unit}
+					</label>
+				)}
+				{value?.frequency === 'monthly' && (
+					<label className="inline-flex items-center gap-1 text-fg-muted">
+						on day
+						<input
+							type="number"
+							min={1}
+							max={31}
+							className={inputClass}
+							value={value.dayOfMonth ?? 1}
+							disabled={disabled}
+							onChange={(e) => onChange({ ...value, dayOfMonth: Math.min(31, Math.max(1, Number(e.target.value) || 1)) })}
+							aria-label="Day of month"
+						/>
+					</label>
+				)}
+			</div>
+			{value?.frequency === 'weekly' && (
+				<div className="flex flex-wrap gap-1" role="group" aria-label="Weekdays">
+					{WEEKDAYS.map((name, day) => (
+						<button
+							key={name}
+							type="button"
+							className={`rounded-full px-2.5 py-0.5 text-xs ${value.weekdays?.includes(day) ? 'bg-primary text-white' : 'bg-pill text-fg'}`}
+							aria-pressed={value.weekdays?.includes(day)}
+							disabled={disabled}
+							onClick={() => toggleWeekday(day)}
+						>
+							{name}
+						</button>
+					))}
+				</div>
+			)}
+			{needsDueDate(value) && !dueDate && <div className="text-xs text-amber-300">Set a due date; the schedule counts from it.</div>}
+		</div>
+	);
+}
+
+export default RecurrenceEditor;
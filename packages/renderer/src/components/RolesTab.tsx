@@ -1,50 +1,195 @@
 import { useEffect, useState, Fragment } from 'react';
 import { Button, Card, FormRow, Input, SectionHeader, Checkbox } from './UI';
+import Dropdown from './Dropdown';
 
 export type Role = {
 	id: string;
 	name: string; // lowercase key
 	description?: string | null;
 	isSystem: boolean;
+	parentRole?: string | null; // custom roles only; system roles follow the built-in chain
 	createdAt?: number;
 };
 
 export type RolePermissionsResponse = {
 	role: string;
-	permissions: { permission: string; enabled: boolean }[];
+	inherits?: string[];
+	permissions: { permission: string; enabled: boolean; source?: PermissionSource }[];
 	catalog: string[];
-	scope?: 'global' | 'org';
+	definitions?: PermissionDefinition[];
+	groups?: PermissionGroup[];
+	scope?: 'global' | 'organization';
+	organizationId?: string | null;
 };
 
-function RolesTab({ roles, canEdit, canCreate, canUpdate, canDelete, isOwnerActor, onCreate, onUpdate, onDelete, onOpenPermissions, permissionsApi, activePermRole, onClosePermissions }: {
+export type PermissionRisk = 'low' | 'medium' | 'high';
+
+// Registry entry for a permission; requires lists what a role must also hold for it to be enabled
+export type PermissionDefinition = {
+	id: string;
+	group: string;
+	risk: PermissionRisk;
+	description: string;
+	requires: string[];
+};
+
+export type PermissionGroup = { id: string; label: string };
+
+// Where an effective value comes from: an organization override, the global row, or the built-in default
+export type PermissionSource = 'organization' | 'global' | 'default';
+
+const GLOBAL_SCOPE = '__global__';
+const NO_PARENT = '__none__';
+
+// Built-in chain for system roles (owner -> admin -> viewer); mirrors ROLE_HIERARCHY on the server
+const SYSTEM_PARENTS: Record<string, string> = { owner: 'admin', admin: 'viewer' };
+
+const riskClass: Record<PermissionRisk, string> = {
+	low: 'bg-surface-token text-fg-muted',
+	medium: 'bg-amber-500/10 text-amber-300',
+	high: 'bg-red-500/10 text-red-300'
+};
+
+// Splits a catalog into the registry's groups, keeping the registry order; anything unknown lands under "Other"
+function groupCatalog(catalog: string[], definitions: PermissionDefinition[] = [], groups: PermissionGroup[] = [])
+{
+	const byId = new Map(definitions.map((d) => [d.id, d]));
+	const sections = groups.map((g) => ({ ...g, permissions: [] as string[] }));
+	const other = { id: 'other', label: 'Other', permissions: [] as string[] };
+	for (const perm of catalog)
+	{
+		const section = sections.find((g) => g.id === byId.get(perm)?.group) || other;
+		section.permissions.push(perm);
+	}
+	return [...sections, other].filter((g) => g.permissions.length > 0);
+}
+
+// A permission plus everything it requires, transitively
+function withRequirements(perm: string, byId: Map<string, PermissionDefinition>, into = new Set<string>())
+{
+	if (into.has(perm)) return into;
+	into.add(perm);
+	for (const req of byId.get(perm)?.requires || []) withRequirements(req, byId, into);
+	return into;
+}
+
+// Orders permissions so each comes after the ones it requires; the server refuses them the other way round
+function orderByRequirements(perms: string[], byId: Map<string, PermissionDefinition>)
+{
+	const ordered: string[] = [];
+	const wanted = new Set(perms);
+	const visit = (perm: string) =>
+	{
+		if (ordered.includes(perm) || !wanted.has(perm)) return;
+		for (const req of byId.get(perm)?.requires || []) visit(req);
+		ordered.push(perm);
+	};
+	perms.forEach(visit);
+	return ordered;
+}
+
+function PermissionLabel({ perm, definition, detail, detailClass = 'text-fg-muted' }: { perm: string; definition?: PermissionDefinition; detail: string; detailClass?: string })
+{
+	return (
+		<div className="min-w-0">
+			<div className="flex items-center gap-2">
+				<span className="font-medium text-fg">{perm}</span>
+				{definition && <span className={`inline-flex rounded-full px-2 py-0.5 text-xs ${riskClass[definition.risk]}`}>{definition.risk} risk</span>}
+			</div>
+			{definition?.description && <div className="text-xs text-fg">{definition.description}</div>}
+			<div className={`text-xs ${detailClass}`}>
+				{detail}
+				{definition && definition.requires.length > 0 && ` · Requires ${definition.requires.join(', ')}`}
+			</div>
+		</div>
+	);
+}
+
+function parentOf(role: Role)
+{
+	return role.isSystem ? SYSTEM_PARENTS[role.name] || null : role.parentRole || null;
+}
+
+// Orders roles depth-first under their parents so the table reads as an inheritance tree
+function buildRoleTree(roles: Role[])
+{
+	const names = new Set(roles.map((r) => r.name));
+	const children = new Map<string | null, Role[]>();
+	for (const role of roles)
+	{
+		const parent = parentOf(role);
+		const key = parent && names.has(parent) ? parent : null;
+		children.set(key, [...(children.get(key) || []), role]);
+	}
+	const ordered: { role: Role; depth: number }[] = [];
+	const visit = (key: string | null, depth: number) =>
+	{
+		for (const role of children.get(key) || [])
+		{
+			ordered.push({ role, depth });
+			visit(role.name, depth + 1);
+		}
+	};
+	visit(null, 0);
+	return ordered;
+}
+
+// Roles that may be chosen as parent of `name`: never owner, itself, or anything that already inherits from it
+function parentCandidates(roles: Role[], name: string | null)
+{
+	const inheritsFrom = (role: Role) =>
+	{
+		const seen = new Set<string>();
+		let current: string | null = role.name;
+		while (current && !seen.has(current))
+		{
+			if (current === name) return true;
+			seen.add(current);
+			const next = roles.find((r) => r.name === current);
+			current = next ? parentOf(next) : null;
+		}
+		return false;
+	};
+	return [
+		{ label: 'None', value: NO_PARENT },
+		...roles.filter((r) => r.name !== 'owner' && !(name && inheritsFrom(r))).map((r) => ({ label: r.name, value: r.name }))
+	];
+}
+
+function RolesTab({ roles, organizations = [], canEdit, canCreate, canUpdate, canDelete, isOwnerActor, onCreate, onUpdate, onDelete, onOpenPermissions, permissionsApi, activePermRole, onClosePermissions }: {
 	roles: Role[];
+	organizations?: { id: string; name: string }[];
 	canEdit?: boolean;
 	canCreate?: boolean;
 	canUpdate?: boolean;
 	canDelete?: boolean;
 	isOwnerActor?: boolean;
-	onCreate: (p: { name: string; description?: string; permissions?: string[] }) => Promise<void>;
-	onUpdate: (name: string, p: { name?: string; description?: string }) => Promise<void>;
+	onCreate: (p: { name: string; description?: string; parentRole?: string | null; permissions?: string[] }) => Promise<void>;
+	onUpdate: (name: string, p: { name?: string; description?: string; parentRole?: string | null }) => Promise<void>;
 	onDelete: (name: string) => Promise<void>;
 	onOpenPermissions: (name: string) => void;
 	permissionsApi: {
-		fetchRolePermissions: (name: string) => Promise<RolePermissionsResponse>;
-		setRolePermission: (name: string, permission: string, enabled: boolean) => Promise<{ role: string; permission: string; enabled: boolean }>;
+		fetchRolePermissions: (name: string, organizationId?: string | null) => Promise<RolePermissionsResponse>;
+		// pending: held for a second user's approval, nothing changed yet
+		setRolePermission: (name: string, permission: string, enabled: boolean, organizationId?: string | null) => Promise<{ role: string; permission: string; enabled: boolean; pending?: boolean }>;
+		clearRolePermission: (name: string, permission: string, organizationId?: string | null) => Promise<void>;
 		fetchAdminAccess: () => Promise<{ enabled: boolean }>;
-		setAdminAccess: (enabled: boolean) => Promise<{ enabled: boolean }>;
+		setAdminAccess: (enabled: boolean) => Promise<{ enabled: boolean; pending?: boolean }>;
 	};
 	activePermRole: string | null;
 	onClosePermissions: () => void;
 })
 {
 	const [showCreate, setShowCreate] = useState(false);
-	const [form, setForm] = useState({ name: '', description: '' });
+	const [form, setForm] = useState({ name: '', description: '', parentRole: NO_PARENT });
 	const [filter, setFilter] = useState('');
-	const filtered = roles.filter((r) => r.name.includes(filter.toLowerCase()));
+	const filtered = buildRoleTree(roles).filter(({ role }) => role.name.includes(filter.toLowerCase()));
 	const [permData, setPermData] = useState<RolePermissionsResponse | null>(null);
 	const [permLoading, setPermLoading] = useState(false);
 	const [permError, setPermError] = useState<string | null>(null);
 	const [permSaving, setPermSaving] = useState<Record<string, boolean>>({});
+	const [permScope, setPermScope] = useState<string>(GLOBAL_SCOPE);
+	const scopeOrgId = permScope === GLOBAL_SCOPE ? null : permScope;
 	const [adminAccessEnabled, setAdminAccessEnabled] = useState<boolean | null>(null);
 	const [adminAccessSaving, setAdminAccessSaving] = useState(false);
 	const [adminAccessError, setAdminAccessError] = useState<string | null>(null);
@@ -53,6 +198,8 @@ function RolesTab({ roles, canEdit, canCreate, canUpdate, canDelete, isOwnerActo
 	const [deleteError, setDeleteError] = useState<string | null>(null);
 	const [animating, setAnimating] = useState(false);
 	const [createCatalog, setCreateCatalog] = useState<string[] | null>(null);
+	const [createDefinitions, setCreateDefinitions] = useState<PermissionDefinition[]>([]);
+	const [createGroups, setCreateGroups] = useState<PermissionGroup[]>([]);
 	const [createCatalogLoading, setCreateCatalogLoading] = useState(false);
 	const [selectedPermissions, setSelectedPermissions] = useState<Set<string>>(new Set());
 
@@ -75,7 +222,7 @@ function RolesTab({ roles, canEdit, canCreate, canUpdate, canDelete, isOwnerActo
 			setPermLoading(true);
 			setPermError(null);
 			permissionsApi
-				.fetchRolePermissions(activePermRole)
+				.fetchRolePermissions(activePermRole, scopeOrgId)
 				.then((data) => { if (!ignore) setPermData(data); })
 				.catch((err) => { if (!ignore) setPermError((err as Error).message); })
 				.finally(() => { if (!ignore) setPermLoading(false); });
@@ -98,11 +245,12 @@ function RolesTab({ roles, canEdit, canCreate, canUpdate, canDelete, isOwnerActo
 			setPermLoading(false);
 			setPermError(null);
 			setPermSaving({});
+			setPermScope(GLOBAL_SCOPE);
 			setAdminAccessEnabled(null);
 			setAdminAccessError(null);
 		}
 		return () => { ignore = true; };
-	}, [activePermRole, permissionsApi]);
+	}, [activePermRole, permissionsApi, scopeOrgId]);
 
 	useEffect(() =>
 	{
@@ -114,6 +262,8 @@ function RolesTab({ roles, canEdit, canCreate, canUpdate, canDelete, isOwnerActo
 				.then((data) =>
 				{
 					setCreateCatalog(data.catalog || []);
+					setCreateDefinitions(data.definitions || []);
+					setCreateGroups(data.groups || []);
 				})
 				.catch((err) =>
 				{
@@ -140,9 +290,11 @@ function RolesTab({ roles, canEdit, canCreate, canUpdate, canDelete, isOwnerActo
 		setPermSaving((s) => ({ ...s, [permission]: true }));
 		try
 		{
-			await permissionsApi.setRolePermission(activePermRole, permission, enabled);
+			const result = await permissionsApi.setRolePermission(activePermRole, permission, enabled, scopeOrgId);
+			if (result.pending) return;
+			const source: PermissionSource = scopeOrgId ? 'organization' : 'global';
 			setPermData((d) =>
-				d ? { ...d, permissions: d.permissions.map((p) => (p.permission === permission ? { ...p, enabled } : p)) } : d
+				d ? { ...d, permissions: d.permissions.map((p) => (p.permission === permission ? { ...p, enabled, source } : p)) } : d
 			);
 		} catch (err)
 		{
@@ -152,6 +304,63 @@ function RolesTab({ roles, canEdit, canCreate, canUpdate, canDelete, isOwnerActo
 			setPermSaving((s) => ({ ...s, [permission]: false }));
 		}
 	};
+
+	// Drop an organization override so the permission follows the global setting again
+	const resetPermission = async (permission: string) =>
+	{
+		if (!activePermRole || !scopeOrgId) return;
+		setPermSaving((s) => ({ ...s, [permission]: true }));
+		try
+		{
+			await permissionsApi.clearRolePermission(activePermRole, permission, scopeOrgId);
+			setPermData(await permissionsApi.fetchRolePermissions(activePermRole, scopeOrgId));
+		}
+		catch (err)
+		{
+			setPermError((err as Error).message);
+		}
+		finally
+		{
+			setPermSaving((s) => ({ ...s, [permission]: false }));
+		}
+	};
+
+	const createDefinitionsById = new Map(createDefinitions.map((d) => [d.id, d]));
+	const permDefinitionsById = new Map((permData?.definitions || []).map((d) => [d.id, d]));
+
+	// Selecting a permission for a new role brings its requirements along; dropping one drops what depends on it
+	const toggleSelected = (perm: string) =>
+	{
+		setSelectedPermissions((prev) =>
+		{
+			const next = new Set(prev);
+			if (next.has(perm))
+			{
+				for (const other of prev)
+				{
+					if (withRequirements(other, createDefinitionsById).has(perm)) next.delete(other);
+				}
+			}
+			else
+			{
+				withRequirements(perm, createDefinitionsById).forEach((p) => next.add(p));
+			}
+			return next;
+		});
+	};
+
+	const describeSource = (source?: PermissionSource) =>
+	{
+		if (!scopeOrgId) return 'Global scope';
+		if (source === 'organization') return 'Organization override';
+		return source === 'global' ? 'Inherited from global' : 'Default';
+	};
+
+	const scopeOptions = [
+		{ label: 'Global (all organizations)', value: GLOBAL_SCOPE },
+		...organizations.map((o) => ({ label: o.name, value: o.id }))
+	];
+
 	return (
 		<div className="mt-6 space-y-6">
 			<Card className="p-4">
@@ -181,14 +390,26 @@ function RolesTab({ roles, canEdit, canCreate, canUpdate, canDelete, isOwnerActo
 							e.preventDefault();
 							const name = form.name.trim().toLowerCase();
 							if (!name) return;
-							const permissions = Array.from(selectedPermissions);
-							onCreate({ name, description: form.description || undefined, permissions }).then(() => { setForm({ name: '', description: '' }); setSelectedPermissions(new Set()); setShowCreate(false); });
+							const permissions = orderByRequirements(Array.from(selectedPermissions), createDefinitionsById);
+							const parentRole = form.parentRole === NO_PARENT ? null : form.parentRole;
+							onCreate({ name, description: form.description || undefined, parentRole, permissions }).then(() => { setForm({ name: '', description: '', parentRole: NO_PARENT }); setSelectedPermissions(new Set()); setShowCreate(false); });
 						}}
 					>
 						<FormRow>
 							<Input label="Name" placeholder="e.g. editor" value={form.name} onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))} required />
 							<Input label="Description" value={form.description} onChange={(e) => setForm((f) => ({ ...f, description: e.target.value }))} />
 						</FormRow>
+						<div className="flex flex-col gap-1 text-sm">
+							<span className="form-label">Extends</span>
+							<Dropdown
+								className="w-full"
+								value={form.parentRole}
+								onChange={(v) => setForm((f) => ({ ...f, parentRole: v }))}
+								options={parentCandidates(roles, null)}
+								ariaLabel="Parent role"
+							/>
+							<span className="text-xs text-fg-muted">The new role inherits every permission and category the parent has unless overridden on this role.</span>
+						</div>
 						{createCatalogLoading && <div className="text-fg-muted">Loading permissions…</div>}
 						{createCatalog && createCatalog.length > 0 && (
 							<div className="space-y-2">
@@ -215,35 +436,23 @@ function RolesTab({ roles, canEdit, canCreate, canUpdate, canDelete, isOwnerActo
 										</div>
 									}
 								/>
-								<div className="max-h-48 overflow-y-auto space-y-2">
-									{createCatalog.map((perm) => (
-										<div key={perm} className="flex items-center justify-between rounded-xl border border-subtle p-3">
-											<div>
-												<div className="font-medium text-fg">{perm}</div>
-												<div className="text-xs text-fg-muted">Global scope</div>
-											</div>
-											<Button
-												size="sm"
-												type="button"
-												variant={selectedPermissions.has(perm) ? 'primary' : 'pill'}
-												onClick={() =>
-												{
-													setSelectedPermissions((prev) =>
-													{
-														const newSet = new Set(prev);
-														if (newSet.has(perm))
-														{
-															newSet.delete(perm);
-														} else
-														{
-															newSet.add(perm);
-														}
-														return newSet;
-													});
-												}}
-											>
-												{selectedPermissions.has(perm) ? 'Enabled' : 'Disabled'}
-											</Button>
+								<div className="max-h-64 overflow-y-auto space-y-3">
+									{groupCatalog(createCatalog, createDefinitions, createGroups).map((group) => (
+										<div key={group.id} className="space-y-2">
+											<div className="text-xs font-semibold uppercase tracking-wide text-fg-muted">{group.label}</div>
+											{group.permissions.map((perm) => (
+												<div key={perm} className="flex items-center justify-between gap-3 rounded-xl border border-subtle p-3">
+													<PermissionLabel perm={perm} definition={createDefinitionsById.get(perm)} detail="Global scope" />
+													<Button
+														size="sm"
+														type="button"
+														variant={selectedPermissions.has(perm) ? 'primary' : 'pill'}
+														onClick={() => toggleSelected(perm)}
+													>
+														{selectedPermissions.has(perm) ? 'Enabled' : 'Disabled'}
+													</Button>
+												</div>
+											))}
 										</div>
 									))}
 								</div>
@@ -251,7 +460,7 @@ function RolesTab({ roles, canEdit, canCreate, canUpdate, canDelete, isOwnerActo
 						)}
 						<div className="flex items-center gap-2">
 							<Button type="submit" variant="primary" disabled={!(canEdit && canCreate)}>Create</Button>
-							<Button type="button" variant="pill" onClick={() => { setForm({ name: '', description: '' }); setSelectedPermissions(new Set()); setShowCreate(false); }}>Cancel</Button>
+							<Button type="button" variant="pill" onClick={() => { setForm({ name: '', description: '', parentRole: NO_PARENT }); setSelectedPermissions(new Set()); setShowCreate(false); }}>Cancel</Button>
 						</div>
 					</form>
 				)}
@@ -262,17 +471,20 @@ function RolesTab({ roles, canEdit, canCreate, canUpdate, canDelete, isOwnerActo
 					<thead className="bg-surface">
 						<tr>
 							<th className="text-left p-3 text-fg-subtle">Name</th>
+							<th className="text-left p-3 text-fg-subtle">Extends</th>
 							<th className="text-left p-3 text-fg-subtle">Description</th>
 							<th className="text-left p-3 text-fg-subtle">Type</th>
 							<th className="text-left p-3 text-fg-subtle">Actions</th>
 						</tr>
 					</thead>
 					<tbody>
-						{filtered.map((r) => (
+						{filtered.map(({ role: r, depth }) => (
 							<Fragment key={r.id}>
 								<RoleRow
 									key={r.id}
 									role={r}
+									depth={depth}
+									parentOptions={parentCandidates(roles, r.name)}
 									canEdit={!!canEdit}
 									canUpdate={!!canUpdate}
 									canDelete={!!canDelete}
@@ -282,15 +494,27 @@ function RolesTab({ roles, canEdit, canCreate, canUpdate, canDelete, isOwnerActo
 								/>
 								{activePermRole === r.name && (
 									<tr key={`perm-${r.id}`}>
-										<td colSpan={4} className="p-0">
+										<td colSpan={5} className="p-0">
 											<Card className={`mt-6 pt-4 m-4 rounded-none border-0 border-t border-subtle transition-opacity duration-300 ease-in-out ${animating ? 'opacity-100' : 'opacity-0'}`}>
 												<SectionHeader
 													title={`Permissions: ${activePermRole}`}
-													actions={<Button variant="pill" size="sm" onClick={onClosePermissions}>Close</Button>}
+													actions={
+														<div className="flex items-center gap-2">
+															{activePermRole !== 'owner' && organizations.length > 0 && (
+																<Dropdown className="min-w-[12rem]" value={permScope} onChange={setPermScope} options={scopeOptions} ariaLabel="Permission scope" />
+															)}
+															<Button variant="pill" size="sm" onClick={onClosePermissions}>Close</Button>
+														</div>
+													}
 												/>
 												{permError && <div className="mt-3 rounded-xl border border-red-500/30 bg-red-500/10 px-3 py-2 text-sm text-red-200">{permError}</div>}
 												{adminAccessError && <div className="mt-3 rounded-xl border border-red-500/30 bg-red-500/10 px-3 py-2 text-sm text-red-200">{adminAccessError}</div>}
 												{permLoading && <div className="p-3 text-fg-muted">Loading permissions…</div>}
+												{!permLoading && permData && activePermRole !== 'owner' && (permData.inherits || []).length > 0 && (
+													<div className="mt-3 text-xs text-fg-muted">
+														Inherits from <span className="font-mono text-fg">{(permData.inherits || []).join(' → ')}</span>; permissions not set on this role follow the nearest ancestor.
+													</div>
+												)}
 												{!permLoading && permData && (
 													<div className="mt-4 space-y-2">
 														{activePermRole === 'owner' && (
@@ -299,7 +523,7 @@ function RolesTab({ roles, canEdit, canCreate, canUpdate, canDelete, isOwnerActo
 																<div className="text-xs text-fg-muted">Owner permissions are locked and always enabled.</div>
 															</div>
 														)}
-														{activePermRole === 'admin' && adminAccessEnabled !== null && (
+														{activePermRole === 'admin' && !scopeOrgId && adminAccessEnabled !== null && (
 															<div className="flex items-center justify-between rounded-xl border border-subtle p-3">
 																<div>
 																	<div className="font-medium text-fg">Admin UI Access</div>
@@ -316,7 +540,7 @@ function RolesTab({ roles, canEdit, canCreate, canUpdate, canDelete, isOwnerActo
 																			setAdminAccessSaving(true);
 																			const next = !adminAccessEnabled;
 																			const res = await permissionsApi.setAdminAccess(next);
-																			setAdminAccessEnabled(Boolean(res.enabled));
+																			if (!res.pending) setAdminAccessEnabled(Boolean(res.enabled));
 																		} catch (err)
 																		{
 																			setAdminAccessError((err as Error).message);
@@ -330,40 +554,55 @@ function RolesTab({ roles, canEdit, canCreate, canUpdate, canDelete, isOwnerActo
 																</Button>
 															</div>
 														)}
-														{(permData.catalog || []).filter((perm) =>
+														{groupCatalog((permData.catalog || []).filter((perm) =>
 														{
-															// Hide the dedicated admin:access entry from the general list when admin role panel is shown
-															if (activePermRole === 'admin' && perm === 'admin:access') return false;
+															// Hide the dedicated admin:access entry from the general list when the global admin toggle is shown
+															if (activePermRole === 'admin' && !scopeOrgId && perm === 'admin:access') return false;
 															return true;
-														}).map((perm) =>
-														{
-															const current = permData.permissions.find((p) => p.permission === perm);
-															const roleName = activePermRole;
-															const isOwner = roleName === 'owner';
-															const isAdmin = roleName === 'admin';
-															const effectiveEnabled = isOwner ? true : (isAdmin ? (current ? current.enabled : true) : (current ? current.enabled : false));
-															const saving = !!permSaving[perm];
-															return (
-																<div key={perm} className="flex items-center justify-between rounded-xl border border-subtle p-3">
-																	<div>
-																		<div className="font-medium text-fg">{perm}</div>
-																		<div className="text-xs text-fg-muted">Global scope</div>
-																	</div>
-																	<Button
-																		size="sm"
-																		variant={effectiveEnabled ? 'primary' : 'pill'}
-																		disabled={!isOwnerActor || saving || isOwner}
-																		onClick={() =>
-																		{
-																			if (isOwner || !isOwnerActor) return; // Only owner actor may change
-																			togglePermission(perm, !effectiveEnabled);
-																		}}
-																	>
-																		{saving ? 'Saving…' : effectiveEnabled ? 'Enabled' : 'Disabled'}
-																	</Button>
-																</div>
-															);
-														})}
+														}), permData.definitions, permData.groups).map((group) => (
+															<div key={group.id} className="space-y-2 pt-2">
+																<div className="text-xs font-semibold uppercase tracking-wide text-fg-muted">{group.label}</div>
+																{group.permissions.map((perm) =>
+																{
+																	const current = permData.permissions.find((p) => p.permission === perm);
+																	const roleName = activePermRole;
+																	const isOwner = roleName === 'owner';
+																	const isAdmin = roleName === 'admin';
+																	const effectiveEnabled = isOwner ? true : (isAdmin ? (current ? current.enabled : true) : (current ? current.enabled : false));
+																	const saving = !!permSaving[perm];
+																	const overridden = Boolean(scopeOrgId) && current?.source === 'organization';
+																	return (
+																		<div key={perm} className="flex items-center justify-between gap-3 rounded-xl border border-subtle p-3">
+																			<PermissionLabel
+																				perm={perm}
+																				definition={permDefinitionsById.get(perm)}
+																				detail={isOwner ? 'Global scope' : describeSource(current?.source)}
+																				detailClass={overridden ? 'text-amber-300' : 'text-fg-muted'}
+																			/>
+																			<div className="flex shrink-0 gap-2">
+																				{overridden && (
+																					<Button size="sm" variant="pill" disabled={!isOwnerActor || saving} onClick={() => resetPermission(perm)}>
+																						Reset
+																					</Button>
+																				)}
+																				<Button
+																					size="sm"
+																					variant={effectiveEnabled ? 'primary' : 'pill'}
+																					disabled={!isOwnerActor || saving || isOwner}
+																					onClick={() =>
+																					{
+																						if (isOwner || !isOwnerActor) return; // Only owner actor may change
+																						togglePermission(perm, !effectiveEnabled);
+																					}}
+																				>
+																					{saving ? 'Saving…' : effectiveEnabled ? 'Enabled' : 'Disabled'}
+																				</Button>
+																			</div>
+																		</div>
+																	);
+																})}
+															</div>
+														))}
 													</div>
 												)}
 											</Card>
@@ -422,17 +661,29 @@ function RolesTab({ roles, canEdit, canCreate, canUpdate, canDelete, isOwnerActo
 	);
 }
 
-function RoleRow({ role, canEdit, canUpdate, canDelete, onUpdate, onRequestDelete, onOpenPermissions }: { role: Role; canEdit: boolean; canUpdate?: boolean; canDelete?: boolean; onUpdate: (name: string, p: { name?: string; description?: string }) => Promise<void>; onRequestDelete: (name: string) => void; onOpenPermissions: (name: string) => void; })
+function RoleRow({ role, depth, parentOptions, canEdit, canUpdate, canDelete, onUpdate, onRequestDelete, onOpenPermissions }: { role: Role; depth: number; parentOptions: { label: string; value: string }[]; canEdit: boolean; canUpdate?: boolean; canDelete?: boolean; onUpdate: (name: string, p: { name?: string; description?: string; parentRole?: string | null }) => Promise<void>; onRequestDelete: (name: string) => void; onOpenPermissions: (name: string) => void; })
 {
 	const [editing, setEditing] = useState(false);
-	const [local, setLocal] = useState({ name: role.name, description: role.description || '' });
+	const initial = () => ({ name: role.name, description: role.description || '', parentRole: role.parentRole || NO_PARENT });
+	const [local, setLocal] = useState(initial);
+	const parent = parentOf(role);
 	return (
 		<tr className="border-t border-subtle">
 			<td className="p-3 align-middle">
 				{editing ? (
 					<Input value={local.name} onChange={(e) => setLocal((l) => ({ ...l, name: e.target.value }))} />
 				) : (
-					<span className="text-fg">{role.name}</span>
+					<span className="text-fg" style={{ paddingLeft: `${depth * 1.25}rem` }}>
+						{depth > 0 && <span className="mr-1 text-fg-subtle" aria-hidden>↳</span>}
+						{role.name}
+					</span>
+				)}
+			</td>
+			<td className="p-3 align-middle">
+				{editing && !role.isSystem ? (
+					<Dropdown className="min-w-[8rem]" value={local.parentRole} onChange={(v) => setLocal((l) => ({ ...l, parentRole: v }))} options={parentOptions} ariaLabel="Parent role" />
+				) : (
+					<span className={parent ? 'font-mono text-fg' : 'text-fg-subtle'}>{parent || '—'}</span>
 				)}
 			</td>
 			<td className="p-3 align-middle">
@@ -451,8 +702,13 @@ function RoleRow({ role, canEdit, canUpdate, canDelete, onUpdate, onRequestDelet
 				{canEdit ? (
 					editing ? (
 						<div className="flex gap-2">
-							<Button variant="primary" size="sm" disabled={!(canEdit && (canUpdate ?? true))} onClick={() => { onUpdate(role.name, { name: local.name.trim().toLowerCase(), description: local.description }).then(() => setEditing(false)); }}>Save</Button>
-							<Button variant="pill" size="sm" onClick={() => { setLocal({ name: role.name, description: role.description || '' }); setEditing(false); }}>Cancel</Button>
+							<Button variant="primary" size="sm" disabled={!(canEdit && (canUpdate ?? true))} onClick={() =>
+							{
+								const patch: { name?: string; description?: string; parentRole?: string | null } = { name: local.name.trim().toLowerCase(), description: local.description };
+								if (!role.isSystem) patch.parentRole = local.parentRole === NO_PARENT ? null : local.parentRole;
+								onUpdate(role.name, patch).then(() => setEditing(false));
+							}}>Save</Button>
+							<Button variant="pill" size="sm" onClick={() => { setLocal(initial()); setEditing(false); }}>Cancel</Button>
 						</div>
 					) : (
 						<div className="flex gap-2">
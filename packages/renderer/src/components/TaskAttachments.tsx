@@ -0,0 +1,242 @@
+import { useEffect, useState } from 'react';
+import { MdAttachFile, MdClose, MdDownload } from 'react-icons/md';
+import { useAuth } from '../context/AuthContext';
+
+export type TaskAttachment = {
+	id: string;
+	taskId: string;
+	filename: string;
+	mimeType: string;
+	size: number;
+	hasThumbnail: boolean;
+	uploadedBy: string | null;
+	uploadedByName: string | null;
+	createdAt: number;
+};
+
+type ApiFetch = ReturnType<typeof useAuth>['apiFetch'];
+
+const THUMBNAIL_SIZE = 240;
+const THUMBNAIL_SOURCES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+export const formatBytes = (bytes: number) =>
+	bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+// Scales an image down to a JPEG the server stores as the attachment's thumbnail; null when the browser can't decode it
+async function makeThumbnail(file: File): Promise<Blob | null>
+{
+	try
+	{
+		const bitmap = await createImageBitmap(file);
+		const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+		const canvas = document.createElement('canvas');
+		canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+		canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+		canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+		bitmap.close();
+		return await new Promise((resolve) => canvas.toBlob(resolve, 'image/jpeg', 0.8));
+	}
+	catch
+	{
+		return null;
+	}
+}
+
+// Uploads one file as the raw request body, then its thumbnail when it is an image. A failed thumbnail leaves the
+// attachment without one.
+export async function uploadAttachment(apiFetch: ApiFetch, taskId: string, file: File, baseUrl?: string): Promise<TaskAttachment>
+{
+	const query = new URLSearchParams({ filename: file.name, type: file.type || 'application/octet-stream' });
+	const res = await apiFetch(`/api/tasks/${taskId}/attachments?${query}`, {
+		baseUrl,
+		method: 'POST',
+		headers: { 'Content-Type': 'application/octet-stream' },
+		body: file
+	});
+	if (!res.ok) throw new Error((await res.json().catch(() => null))?.error || `Failed to upload ${file.name}`);
+	const { attachment } = (await res.json()) as { attachment: TaskAttachment };
+	if (!THUMBNAIL_SOURCES.includes(attachment.mimeType)) return attachment;
+	const thumbnail = await makeThumbnail(file);
+	if (!thumbnail) return attachment;
+	const thumbRes = await apiFetch(`/api/tasks/${taskId}/attachments/${attachment.id}/thumbnail?type=image/jpeg`, {
+		baseUrl,
+		method: 'PUT',
+		headers: { 'Content-Type': 'application/octet-stream' },
+		body: thumbnail
+	});
+	return thumbRes.ok ? ((await thumbRes.json()) as { attachment: TaskAttachment }).attachment : attachment;
+}
+
+// Attachment content needs the bearer token, so images are fetched and shown through object URLs
+function AttachmentThumbnail({ attachment, baseUrl }: { attachment: TaskAttachment; baseUrl?: string })
+{
+	const { apiFetch } = useAuth();
+	const [url, setUrl] = useState<string | null>(null);
+
+	useEffect(() =>
+	{
+		if (!attachment.hasThumbnail) return;
+		let objectUrl: string | null = null;
+		let ignore = false;
+		apiFetch(`/api/tasks/${attachment.taskId}/attachments/${attachment.id}/thumbnail`, { baseUrl })
+			.then(async (res) =>
+			{
+				if (!res.ok || ignore) return;
+				objectUrl = URL.createObjectURL(await res.blob());
+				setUrl(objectUrl);
+			})
+			.catch(() => {});
+		return () =>
+		{
+			ignore = true;
+			if (objectUrl) URL.revokeObjectURL(objectUrl);
+		};
+	}, [apiFetch, baseUrl, attachment.taskId, attachment.id, attachment.hasThumbnail]);
+
+	if (!url) return <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-md bg-white/5 text-fg-subtle"><MdAttachFile /></div>;
+	return <img src={url} alt="" className="h-10 w-10 shrink-0 rounded-md object-cover" />;
+}
+
+// Files attached to a task: thumbnails for images, download, and with edit access upload (picker or drop) and removal
+export function TaskAttachments({ taskId, baseUrl, canEdit, onCountChange }: {
+	taskId: string;
+	baseUrl?: string;
+	canEdit: boolean;
+	onCountChange: (delta: number) => void;
+})
+{
+	const { apiFetch } = useAuth();
+	const [attachments, setAttachments] = useState<TaskAttachment[] | null>(null);
+	const [maxBytes, setMaxBytes] = useState<number | null>(null);
+	const [busy, setBusy] = useState(false);
+	const [dragOver, setDragOver] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() =>
+	{
+		let ignore = false;
+		apiFetch(`/api/tasks/${taskId}/attachments`, { baseUrl })
+			.then(async (res) =>
+			{
+				if (!res.ok) throw new Error((await res.json().catch(() => null))?.error || 'Failed to load attachments');
+				return res.json() as Promise<{ attachments: TaskAttachment[]; limits: { maxBytes: number } }>;
+			})
+			.then((json) => { if (!ignore) { setAttachments(json.attachments); setMaxBytes(json.limits.maxBytes); } })
+			.catch((err) => { if (!ignore) setError((err as Error).message); });
+		return () => { ignore = true; };
+	}, [apiFetch, baseUrl, taskId]);
+
+	const upload = async (files: File[]) =>
+	{
+		if (files.length === 0) return;
+		setBusy(true);
+		setError(null);
+		try
+		{
+			for (const file of files)
+			{
+				if (maxBytes != null && file.size > maxBytes) throw new Error(`${file.name} is larger than ${formatBytes(maxBytes)}`);
+				const attachment = await uploadAttachment(apiFetch, taskId, file, baseUrl);
+				setAttachments((list) => [...(list || []), attachment]);
+				onCountChange(1);
+			}
+		}
+		catch (err)
+		{
+			setError((err as Error).message);
+		}
+		finally
+		{
+			setBusy(false);
+		}
+	};
+
+	const download = async (attachment: TaskAttachment) =>
+	{
+		setError(null);
+		try
+		{
+			const res = await apiFetch(`/api/tasks/${taskId}/attachments/${attachment.id}`, { baseUrl });
+			if (!res.ok) throw new Error((await res.json().catch(() => null))?.error || 'Download failed');
+			const url = URL.createObjectURL(await res.blob());
+			const link = document.createElement('a');
+			link.href = url;
+			link.download = attachment.filename;
+			link.click();
+			URL.revokeObjectURL(url);
+		}
+		catch (err)
+		{
+			setError((err as Error).message);
+		}
+	};
+
+	const remove = async (attachment: TaskAttachment) =>
+	{
+		setBusy(true);
+		setError(null);
+		try
+		{
+			const res = await apiFetch(`/api/tasks/${taskId}/attachments/${attachment.id}`, { baseUrl, method: 'DELETE' });
+			if (!res.ok) throw new Error((await res.json().catch(() => null))?.error || 'Failed to remove attachment');
+			setAttachments((list) => (list || []).filter((a) => a.id !== attachment.id));
+			onCountChange(-1);
+		}
+		catch (err)
+		{
+			setError((err as Error).message);
+		}
+		finally
+		{
+			setBusy(false);
+		}
+	};
+
+	return (
+		<div
+			className={['rounded-xl', dragOver ? 'ring-2 ring-primary/40' : ''].join(' ')}
+			onDragOver={(e) =>
+			{
+				if (!canEdit || !e.dataTransfer.types.includes('Files')) return;
+				e.preventDefault();
+				setDragOver(true);
+			}}
+			onDragLeave={() => setDragOver(false)}
+			onDrop={(e) =>
+			{
+				if (!canEdit) return;
+				e.preventDefault();
+				setDragOver(false);
+				upload(Array.from(e.dataTransfer.files));
+			}}
+		>
+			<div className="mb-2 text-xs uppercase tracking-wide text-fg-muted">Attachments</div>
+			{error && <div className="mb-2 rounded-md border border-red-500/30 bg-red-500/10 px-2 py-1 text-xs text-red-200">{error}</div>}
+			<ul className="space-y-2">
+				{(attachments || []).map((attachment) => (
+					<li key={attachment.id} className="flex items-center gap-2">
+						<AttachmentThumbnail attachment={attachment} baseUrl={baseUrl} />
+						<div className="min-w-0 flex-1">
+							<div className="truncate text-fg">{attachment.filename}</div>
+							<div className="text-xs text-fg-muted">{formatBytes(attachment.size)}{attachment.uploadedByName ? ` · ${attachment.uploadedByName}` : ''}</div>
+						</div>
+						<button className="text-primary-token" onClick={() => download(attachment)} aria-label={`Download ${attachment.filename}`}><MdDownload /></button>
+						{canEdit && (
+							<button className="text-danger-token disabled:opacity-40" disabled={busy} onClick={() => remove(attachment)} aria-label={`Remove ${attachment.filename}`}><MdClose /></button>
+						)}
+					</li>
+				))}
+			</ul>
+			{attachments && attachments.length === 0 && <div className="text-fg-muted">No attachments.</div>}
+			{canEdit && (
+				<label className="mt-2 inline-flex cursor-pointer items-center gap-1 text-xs text-primary-token hover:underline">
+					<MdAttachFile aria-hidden />
+					{busy ? 'Uploading…' : 'Add files (or drop them here)'}
+					<input type="file" multiple className="sr-only" disabled={busy} onChange={(e) => { upload(Array.from(e.target.files || [])); e.target.value = ''; }} />
+				</label>
+			)}
+		</div>
+	);
+}
+
+export default TaskAttachments;
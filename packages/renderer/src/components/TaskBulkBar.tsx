@@ -0,0 +1,123 @@
+import { useState } from 'react';
+import { MdClose, MdDelete } from 'react-icons/md';
+import { Button } from './UI';
+import Dropdown from './Dropdown';
+import ConfirmDialog from './ConfirmDialog';
+
+// What POST /api/tasks/bulk applies to every selected task
+export type BulkRequest =
+	| { action: 'update'; updates: { status?: string; priority?: string; assignedTo?: string | null } }
+	| { action: 'move'; organizationId: string }
+	| { action: 'category'; category: string }
+	| { action: 'delete' };
+
+// A selected task the server refused, with its reason
+export type BulkFailure = { id: string; title: string; error: string };
+
+type Option = { label: string; value: string };
+
+const UNASSIGNED = '__unassigned__';
+
+// Actions for the tasks selected on the board. Each choice applies to all of them at once; the server checks every
+// task on its own, so some may be refused while the rest change, and those are listed with the reason.
+export function TaskBulkBar({ count, statuses, priorities, assignees, categories, organizations, canDelete, busy, failures, onApply, onClear }: {
+	count: number;
+	statuses: Option[];
+	priorities: string[];
+	assignees: Option[];
+	categories: string[];
+	organizations: Option[];
+	canDelete: boolean;
+	busy: boolean;
+	failures: BulkFailure[];
+	onApply: (request: BulkRequest) => void;
+	onClear: () => void;
+})
+{
+	const [confirmingDelete, setConfirmingDelete] = useState(false);
+	const plural = count === 1 ? '' : 's';
+
+	return (
+		<div className="sticky bottom-4 z-40 rounded-3xl border border-primary/40 bg-surface-token p-4 shadow-xl" role="region" aria-label="Bulk actions">
+			<div className="flex flex-wrap items-center gap-3">
+				<span className="text-sm font-medium text-fg">{count} task{plural} selected</span>
+				<Dropdown
+					className="min-w-[10rem]"
+					value=""
+					onChange={(status) => { if (status) onApply({ action: 'update', updates: { status } }); }}
+					options={statuses}
+					placeholder="Set status…"
+					ariaLabel="Set the status of the selected tasks"
+					disabled={busy}
+				/>
+				<Dropdown
+					className="min-w-[10rem]"
+					value=""
+					onChange={(priority) => { if (priority) onApply({ action: 'update', updates: { priority } }); }}
+					options={priorities.map((p) => ({ label: p.charAt(0).toUpperCase() + p.slice(1), value: p }))}
+					placeholder="Set priority…"
+					ariaLabel="Set the priority of the selected tasks"
+					disabled={busy}
+				/>
+				<Dropdown
+					className="min-w-[10rem]"
+					value=""
+					onChange={(id) => { if (id) onApply({ action: 'update', updates: { assignedTo: id === UNASSIGNED ? null : id } }); }}
+					options={[{ label: 'Unassigned', value: UNASSIGNED }, ...assignees]}
+					placeholder="Assign to…"
+					ariaLabel="Assign the selected tasks"
+					disabled={busy}
+				/>
+				<Dropdown
+					className="min-w-[10rem]"
+					value=""
+					onChange={(category) => { if (category) onApply({ action: 'category', category }); }}
+					options={categories}
+					placeholder="Move to category…"
+					ariaLabel="Move the selected tasks to a category"
+					disabled={busy}
+				/>
+				{organizations.length > 1 && (
+					<Dropdown
+						className="min-w-[10rem]"
+						value=""
+						onChange={(organizationId) => { if (organizationId) onApply({ action: 'move', organizationId }); }}
+						options={organizations}
+						placeholder="Move to organization…"
+						ariaLabel="Move the selected tasks to an organization"
+						disabled={busy}
+					/>
+				)}
+				{canDelete && (
+					<Button type="button" variant="danger" size="sm" className="gap-1" disabled={busy} onClick={() => setConfirmingDelete(true)}>
+						<MdDelete aria-hidden /> Delete
+					</Button>
+				)}
+				<Button type="button" variant="neutral" size="sm" className="ml-auto gap-1" onClick={onClear}>
+					<MdClose aria-hidden /> Clear selection
+				</Button>
+				{busy && <span className="text-xs text-fg-subtle animate-pulse">Applying…</span>}
+			</div>
+			{failures.length > 0 && (
+				<ul className="mt-3 space-y-1 text-xs text-warning" role="alert">
+					{failures.map((f) => <li key={f.id}>&quot;{f.title}&quot; was not changed: {f.error}</li>)}
+				</ul>
+			)}
+			<ConfirmDialog
+				open={confirmingDelete}
+				title={`Delete ${count} task${plural}`}
+				body={`The selected task${plural} and their comments, checklists and attachments will be removed. Tasks you may not delete are left as they are.`}
+				confirmLabel="Delete"
+				destructive
+				onConfirm={() =>
+				{
+					setConfirmingDelete(false);
+					onApply({ action: 'delete' });
+				}}
+				onCancel={() => setConfirmingDelete(false)}
+			/>
+		</div>
+	);
+}
+
+export default TaskBulkBar;
@@ -0,0 +1,226 @@
+import { useEffect, useState } from 'react';
+import { MdArrowDownward, MdArrowUpward, MdClose } from 'react-icons/md';
+import { useAuth } from '../context/AuthContext';
+import Dropdown from './Dropdown';
+
+export type ChecklistItem = {
+	id: string;
+	taskId: string;
+	title: string;
+	done: boolean;
+	position: number;
+	assignedTo: string | null;
+	assignedToName?: string | null;
+	completedAt: number | null;
+};
+
+export type TaskProgress = {
+	checklist: { done: number; total: number };
+	subtasks: { done: number; total: number };
+	percent: number | null;
+};
+
+export type SubtaskSummary = { id: string; title: string; closed: boolean; canToggle: boolean };
+
+type ChecklistResponse = { items: ChecklistItem[]; assignees: { id: string; name: string }[] };
+
+const UNASSIGNED = '';
+
+// Recomputes the rollup after a local change to either part
+export function rollupProgress(progress: TaskProgress | undefined, patch: Partial<Pick<TaskProgress, 'checklist' | 'subtasks'>>): TaskProgress
+{
+	const checklist = patch.checklist || progress?.checklist || { done: 0, total: 0 };
+	const subtasks = patch.subtasks || progress?.subtasks || { done: 0, total: 0 };
+	const total = checklist.total + subtasks.total;
+	return { checklist, subtasks, percent: total > 0 ? Math.round(((checklist.done + subtasks.done) / total) * 100) : null };
+}
+
+// Inline breakdown of a task in its editor: checklist items (ordered, checkable, assignable) and the subtasks the
+// board shows for it. readOnly lists them without controls.
+export function TaskChecklist({ taskId, baseUrl, readOnly, subtasks, canAddSubtask, onAddSubtask, onToggleSubtask, onChecklistChange }: {
+	taskId: string;
+	baseUrl?: string;
+	readOnly: boolean;
+	subtasks: SubtaskSummary[];
+	canAddSubtask: boolean;
+	onAddSubtask: (title: string) => Promise<void>;
+	onToggleSubtask: (id: string, done: boolean) => Promise<void>;
+	onChecklistChange: (checklist: TaskProgress['checklist']) => void;
+})
+{
+	const { apiFetch } = useAuth();
+	const [items, setItems] = useState<ChecklistItem[]>([]);
+	const [assignees, setAssignees] = useState<{ id: string; name: string }[]>([]);
+	const [newItem, setNewItem] = useState('');
+	const [newSubtask, setNewSubtask] = useState('');
+	const [busy, setBusy] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() =>
+	{
+		let ignore = false;
+		apiFetch(`/api/tasks/${taskId}/checklist`, { baseUrl })
+			.then(async (res) =>
+			{
+				if (!res.ok) throw new Error((await res.json().catch(() => null))?.error || 'Failed to load checklist');
+				return res.json() as Promise<ChecklistResponse>;
+			})
+			.then((json) => { if (!ignore) { setItems(json.items); setAssignees(json.assignees); } })
+			.catch((err) => { if (!ignore) setError((err as Error).message); });
+		return () => { ignore = true; };
+	}, [apiFetch, baseUrl, taskId]);
+
+	const apply = (next: ChecklistItem[]) =>
+	{
+		setItems(next);
+		onChecklistChange({ done: next.filter((i) => i.done).length, total: next.length });
+	};
+
+	// Runs one request; failures show inline and leave the list as it was
+	const send = async (path: string, method: string, body?: unknown) =>
+	{
+		setBusy(true);
+		setError(null);
+		try
+		{
+			const res = await apiFetch(`/api/tasks/${taskId}/checklist${path}`, { baseUrl, method, body: body === undefined ? undefined : JSON.stringify(body) });
+			if (!res.ok) throw new Error((await res.json().catch(() => null))?.error || 'Failed to update checklist');
+			return res.status === 204 ? null : await res.json();
+		}
+		catch (err)
+		{
+			setError((err as Error).message);
+			return undefined;
+		}
+		finally
+		{
+			setBusy(false);
+		}
+	};
+
+	const addItem = async () =>
+	{
+		if (!newItem.trim()) return;
+		const data = await send('', 'POST', { title: newItem.trim() });
+		if (!data) return;
+		apply([...items, data.item]);
+		setNewItem('');
+	};
+
+	const updateItem = async (item: ChecklistItem, patch: { done?: boolean; assignedTo?: string | null }) =>
+	{
+		const data = await send(`/${item.id}`, 'PUT', patch);
+		if (data) apply(items.map((i) => (i.id === item.id ? data.item : i)));
+	};
+
+	const removeItem = async (item: ChecklistItem) =>
+	{
+		if ((await send(`/${item.id}`, 'DELETE')) !== undefined) apply(items.filter((i) => i.id !== item.id));
+	};
+
+	const moveItem = async (index: number, delta: number) =>
+	{
+		const target = index + delta;
+		if (target < 0 || target >= items.length) return;
+		const next = [...items];
+		[next[index], next[target]] = [next[target], next[index]];
+		const data = await send('/order', 'PUT', { itemIds: next.map((i) => i.id) });
+		if (data) apply(data.items);
+	};
+
+	const addSubtask = async () =>
+	{
+		if (!newSubtask.trim()) return;
+		setBusy(true);
+		setError(null);
+		try
+		{
+			await onAddSubtask(newSubtask.trim());
+			setNewSubtask('');
+		}
+		catch (err)
+		{
+			setError((err as Error).message);
+		}
+		finally
+		{
+			setBusy(false);
+		}
+	};
+
+	const toggleSubtask = async (subtask: SubtaskSummary) =>
+	{
+		setError(null);
+		try
+		{
+			await onToggleSubtask(subtask.id, !subtask.closed);
+		}
+		catch (err)
+		{
+			setError((err as Error).message);
+		}
+	};
+
+	const assigneeOptions = [{ label: 'Unassigned', value: UNASSIGNED }, ...assignees.map((u) => ({ label: u.name, value: u.id }))];
+	const inputClass = 'flex-1 rounded-md bg-white/5 border border-white/10 px-2 py-1 text-sm';
+
+	return (
+		<div className="mt-3 space-y-3 text-sm" data-actionable="true">
+			{error && <div className="rounded-md border border-red-500/30 bg-red-500/10 px-2 py-1 text-xs text-red-200">{error}</div>}
+			<div>
+				<div className="mb-1 text-xs uppercase tracking-wide text-fg-muted">Checklist</div>
+				<ul className="space-y-1">
+					{items.map((item, index) => (
+						<li key={item.id} className="flex items-center gap-2">
+							<input type="checkbox" checked={item.done} disabled={readOnly || busy} onChange={(e) => updateItem(item, { done: e.target.checked })} aria-label={`Done: ${item.title}`} />
+							<span className={`min-w-0 flex-1 truncate ${item.done ? 'text-fg-muted line-through' : 'text-fg'}`}>{item.title}</span>
+							{readOnly ? (
+								item.assignedToName && <span className="text-xs text-fg-muted">{item.assignedToName}</span>
+							) : (
+								<>
+									<Dropdown
+										className="min-w-[7rem]"
+										value={item.assignedTo || UNASSIGNED}
+										onChange={(v) => updateItem(item, { assignedTo: v || null })}
+										options={assigneeOptions}
+										ariaLabel={`Assignee: ${item.title}`}
+									/>
+									<button className="text-fg-subtle disabled:opacity-40" disabled={busy || index === 0} onClick={() => moveItem(index, -1)} aria-label="Move up"><MdArrowUpward /></button>
+									<button className="text-fg-subtle disabled:opacity-40" disabled={busy || index === items.length - 1} onClick={() => moveItem(index, 1)} aria-label="Move down"><MdArrowDownward /></button>
+									<button className="text-danger-token disabled:opacity-40" disabled={busy} onClick={() => removeItem(item)} aria-label="Remove item"><MdClose /></button>
+								</>
+							)}
+						</li>
+					))}
+				</ul>
+				{items.length === 0 && <div className="text-xs text-fg-muted">No checklist items.</div>}
+				{!readOnly && (
+					<div className="mt-2 flex gap-2">
+						<input className={inputClass} value={newItem} placeholder="Add an item" onChange={(e) => setNewItem(e.target.value)} onKeyDown={(e) => { if (e.key === 'Enter') addItem(); }} />
+						<button className="rounded-full bg-pill px-3 py-1 text-xs text-fg disabled:opacity-50" disabled={busy || !newItem.trim()} onClick={addItem}>Add</button>
+					</div>
+				)}
+			</div>
+			<div>
+				<div className="mb-1 text-xs uppercase tracking-wide text-fg-muted">Subtasks</div>
+				<ul className="space-y-1">
+					{subtasks.map((subtask) => (
+						<li key={subtask.id} className="flex items-center gap-2">
+							<input type="checkbox" checked={subtask.closed} disabled={!subtask.canToggle} onChange={() => toggleSubtask(subtask)} aria-label={`Done: ${subtask.title}`} />
+							<span className={`min-w-0 flex-1 truncate ${subtask.closed ? 'text-fg-muted line-through' : 'text-fg'}`}>{subtask.title}</span>
+						</li>
+					))}
+				</ul>
+				{subtasks.length === 0 && <div className="text-xs text-fg-muted">No subtasks.</div>}
+				{canAddSubtask && (
+					<div className="mt-2 flex gap-2">
+						<input className={inputClass} value={newSubtask} placeholder="Add a subtask" onChange={(e) => setNewSubtask(e.target.value)} onKeyDown={(e) => { if (e.key === 'Enter') addSubtask(); }} />
+						<button className="rounded-full bg-pill px-3 py-1 text-xs text-fg disabled:opacity-50" disabled={busy || !newSubtask.trim()} onClick={addSubtask}>Add</button>
+					</div>
+				)}
+			</div>
+		</div>
+	);
+}
+
+export default TaskChecklist;
@@ -0,0 +1,120 @@
+import { useCallback, useEffect, useState } from 'react';
+import { MdBlock, MdClose } from 'react-icons/md';
+import { useAuth } from '../context/AuthContext';
+import Dropdown from './Dropdown';
+
+export type LinkedTask = {
+	id: string;
+	title: string;
+	status: string;
+	closed: boolean;
+	openBlockerCount: number;
+};
+
+function LinkedTaskRow({ task, statusLabels, onRemove, busy }: { task: LinkedTask; statusLabels: Record<string, string>; onRemove?: () => void; busy: boolean })
+{
+	return (
+		<li className="flex items-center gap-2">
+			<div className="min-w-0 flex-1">
+				<div className={`truncate ${task.closed ? 'text-fg-muted line-through' : 'text-fg'}`}>{task.title}</div>
+				<div className="text-xs text-fg-muted">{statusLabels[task.status] || task.status}</div>
+			</div>
+			{onRemove && (
+				<button className="text-danger-token disabled:opacity-40" disabled={busy} onClick={onRemove} aria-label={`Remove link to ${task.title}`}><MdClose /></button>
+			)}
+		</li>
+	);
+}
+
+// Tasks blocking this one and the tasks it blocks. With edit access blockers can be added from candidates (the
+// tasks on the board it may link to) and removed; the server refuses links that would make a cycle.
+export function TaskDependencies({ taskId, baseUrl, canEdit, candidates, statusLabels, onChange }: {
+	taskId: string;
+	baseUrl?: string;
+	canEdit: boolean;
+	statusLabels: Record<string, string>;
+	candidates: { id: string; title: string }[];
+	onChange: () => void;
+})
+{
+	const { apiFetch } = useAuth();
+	const [blockedBy, setBlockedBy] = useState<LinkedTask[] | null>(null);
+	const [blocks, setBlocks] = useState<LinkedTask[]>([]);
+	const [busy, setBusy] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	const load = useCallback(async () =>
+	{
+		try
+		{
+			const res = await apiFetch(`/api/tasks/${taskId}/dependencies`, { baseUrl });
+			if (!res.ok) throw new Error((await res.json().catch(() => null))?.error || 'Failed to load dependencies');
+			const json = (await res.json()) as { blockedBy: LinkedTask[]; blocks: LinkedTask[] };
+			setBlockedBy(json.blockedBy);
+			setBlocks(json.blocks);
+		}
+		catch (err)
+		{
+			setError((err as Error).message);
+		}
+	}, [apiFetch, baseUrl, taskId]);
+
+	useEffect(() => { load(); }, [load]);
+
+	const send = async (path: string, method: string, body?: unknown) =>
+	{
+		setBusy(true);
+		setError(null);
+		try
+		{
+			const res = await apiFetch(`/api/tasks/${taskId}/dependencies${path}`, { baseUrl, method, body: body === undefined ? undefined : JSON.stringify(body) });
+			if (!res.ok) throw new Error((await res.json().catch(() => null))?.error || 'Failed to save dependency');
+			await load();
+			onChange();
+		}
+		catch (err)
+		{
+			setError((err as Error).message);
+		}
+		finally
+		{
+			setBusy(false);
+		}
+	};
+
+	const linked = new Set([taskId, ...(blockedBy || []).map((t) => t.id)]);
+	const options = candidates.filter((t) => !linked.has(t.id)).map((t) => ({ label: t.title, value: t.id }));
+
+	return (
+		<div>
+			<div className="mb-2 flex items-center gap-1 text-xs uppercase tracking-wide text-fg-muted"><MdBlock aria-hidden /> Blocked by</div>
+			{error && <div className="mb-2 rounded-md border border-red-500/30 bg-red-500/10 px-2 py-1 text-xs text-red-200">{error}</div>}
+			<ul className="space-y-2">
+				{(blockedBy || []).map((task) => (
+					<LinkedTaskRow key={task.id} task={task} statusLabels={statusLabels} busy={busy} onRemove={canEdit ? () => send(`/${task.id}`, 'DELETE') : undefined} />
+				))}
+			</ul>
+			{blockedBy && blockedBy.length === 0 && <div className="text-fg-muted">Nothing blocks this task.</div>}
+			{canEdit && options.length > 0 && (
+				<Dropdown
+					className="mt-2 min-w-[12rem]"
+					value=""
+					onChange={(blockerId) => { if (blockerId) send('', 'POST', { blockerId }); }}
+					options={options}
+					placeholder="Add a blocking task…"
+					ariaLabel="Add a blocking task"
+				/>
+			)}
+			{blocks.length > 0 && (
+				<>
+					<div className="mb-2 mt-3 text-xs uppercase tracking-wide text-fg-muted">Blocks</div>
+					<ul className="space-y-2">
+						{blocks.map((task) => <LinkedTaskRow key={task.id} task={task} statusLabels={statusLabels} busy={busy} />)}
+					</ul>
+				</>
+			)}
+		</div>
+	);
+}
+
+export default TaskDependencies;
@@ -0,0 +1,309 @@
+import { Fragment, useCallback, useEffect, useState } from 'react';
+import { MdClose } from 'react-icons/md';
+import { useAuth } from '../context/AuthContext';
+import { Button } from './UI';
+import Dropdown from './Dropdown';
+import Portal from './Portal';
+import type { TaskProgress } from './TaskChecklist';
+import TaskAttachments from './TaskAttachments';
+import TaskDependencies from './TaskDependencies';
+import { describeRecurrence, type RecurrenceRule } from './RecurrenceEditor';
+
+export type TaskComment = {
+	id: string;
+	taskId: string;
+	authorId: string | null;
+	authorName: string | null;
+	body: string;
+	mentions: string[];
+	editedAt: number | null;
+	createdAt: number;
+	own?: boolean;
+};
+
+type FieldChange = { field: string; label: string; from: string | null; to: string | null };
+
+type ActivityItem =
+	| { type: 'event'; id: string; action: string; actorId: string | null; actorName: string | null; createdAt: number; summary: string; changes: FieldChange[] }
+	| { type: 'comment'; id: string; actorId: string | null; actorName: string | null; createdAt: number; comment: TaskComment };
+
+export type DrawerTask = {
+	id: string;
+	title: string;
+	description: string | null;
+	status: string;
+	category: string;
+	priority: string;
+	dueDate: number | null;
+	assignedToName?: string | null;
+	createdByName?: string | null;
+	progress?: TaskProgress;
+	recurrence?: RecurrenceRule | null;
+};
+
+const formatTime = (seconds: number) => new Date(seconds * 1000).toLocaleString();
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Highlights "@Name" for each mentioned user the viewer knows by name
+function CommentBody({ comment, names }: { comment: TaskComment; names: Map<string, string> })
+{
+	const mentioned = comment.mentions.map((id) => names.get(id)).filter((n): n is string => Boolean(n));
+	if (mentioned.length === 0) return <p className="whitespace-pre-wrap text-fg">{comment.body}</p>;
+	const pattern = new RegExp(`(${mentioned.map((n) => `@${escapeRegExp(n)}`).join('|')})`, 'g');
+	return (
+		<p className="whitespace-pre-wrap text-fg">
+			{comment.body.split(pattern).map((part, i) => (
+				mentioned.some((n) => part === `@${n}`)
+					? <span key={i} className="rounded bg-primary/10 px-1 text-primary-token">{part}</span>
+					: <Fragment key={i}>{part}</Fragment>
+			))}
+		</p>
+	);
+}
+
+// Side panel with a task's details and its activity: comments interleaved with readable field changes from the
+// audit trail, its blocking tasks and its attachments. Commenting needs tasks:comment; authors edit and delete their
+// own comments, moderators any.
+export function TaskDrawer({ task, baseUrl, canComment, canModerate, canEditAttachments, canEditDependencies, dependencyCandidates, statusLabels, onClose, onCommentCountChange, onAttachmentCountChange, onDependenciesChange }: {
+	task: DrawerTask;
+	baseUrl?: string;
+	canComment: boolean;
+	canModerate: boolean;
+	canEditAttachments: boolean;
+	canEditDependencies: boolean;
+	dependencyCandidates: { id: string; title: string }[];
+	// Labels of the statuses in the task's workflow
+	statusLabels: Record<string, string>;
+	onClose: () => void;
+	onCommentCountChange: (delta: number) => void;
+	onAttachmentCountChange: (delta: number) => void;
+	onDependenciesChange: () => void;
+})
+{
+	const { apiFetch } = useAuth();
+	const [items, setItems] = useState<ActivityItem[] | null>(null);
+	const [mentionable, setMentionable] = useState<{ id: string; name: string }[]>([]);
+	const [draft, setDraft] = useState('');
+	const [draftMentions, setDraftMentions] = useState<string[]>([]);
+	const [editing, setEditing] = useState<{ id: string; body: string } | null>(null);
+	const [busy, setBusy] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	const names = new Map(mentionable.map((u) => [u.id, u.name]));
+
+	const load = useCallback(async () =>
+	{
+		try
+		{
+			const [activityRes, commentsRes] = await Promise.all([
+				apiFetch(`/api/tasks/${task.id}/activity`, { baseUrl }),
+				apiFetch(`/api/tasks/${task.id}/comments`, { baseUrl })
+			]);
+			if (!activityRes.ok) throw new Error((await activityRes.json().catch(() => null))?.error || 'Failed to load activity');
+			setItems(((await activityRes.json()) as { items: ActivityItem[] }).items);
+			if (commentsRes.ok) setMentionable(((await commentsRes.json()) as { mentionable: { id: string; name: string }[] }).mentionable);
+		}
+		catch (err)
+		{
+			setError((err as Error).message);
+		}
+	}, [apiFetch, baseUrl, task.id]);
+
+	useEffect(() => { load(); }, [load]);
+
+	useEffect(() =>
+	{
+		const handler = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+		document.addEventListener('keydown', handler);
+		return () => document.removeEventListener('keydown', handler);
+	}, [onClose]);
+
+	// Mentions whose "@Name" was edited out of the text are dropped
+	const mentionsIn = (body: string, ids: string[]) => ids.filter((id) => names.has(id) && body.includes(`@${names.get(id)}`));
+
+	const addMention = (id: string) =>
+	{
+		const name = names.get(id);
+		if (!name) return;
+		setDraft((d) => `${d}${d && !d.endsWith(' ') ? ' ' : ''}@${name} `);
+		setDraftMentions((m) => (m.includes(id) ? m : [...m, id]));
+	};
+
+	const send = async (path: string, method: string, body?: unknown) =>
+	{
+		setBusy(true);
+		setError(null);
+		try
+		{
+			const res = await apiFetch(`/api/tasks/${task.id}/comments${path}`, { baseUrl, method, body: body === undefined ? undefined : JSON.stringify(body) });
+			if (!res.ok) throw new Error((await res.json().catch(() => null))?.error || 'Failed to save comment');
+			await load();
+			return true;
+		}
+		catch (err)
+		{
+			setError((err as Error).message);
+			return false;
+		}
+		finally
+		{
+			setBusy(false);
+		}
+	};
+
+	const post = async () =>
+	{
+		if (!draft.trim()) return;
+		if (await send('', 'POST', { body: draft, mentions: mentionsIn(draft, draftMentions) }))
+		{
+			setDraft('');
+			setDraftMentions([]);
+			onCommentCountChange(1);
+		}
+	};
+
+	const saveEdit = async (comment: TaskComment) =>
+	{
+		if (!editing?.body.trim()) return;
+		if (await send(`/${comment.id}`, 'PUT', { body: editing.body, mentions: mentionsIn(editing.body, comment.mentions) })) setEditing(null);
+	};
+
+	const remove = async (comment: TaskComment) =>
+	{
+		if (await send(`/${comment.id}`, 'DELETE')) onCommentCountChange(-1);
+	};
+
+	const details: [string, string | null][] = [
+		['Status', statusLabels[task.status] || task.status],
+		['Category', task.category],
+		['Priority', task.priority],
+		['Assignee', task.assignedToName || null],
+		['Due', task.dueDate ? new Date(task.dueDate * 1000).toLocaleDateString() : null],
+		['Repeats', task.recurrence ? describeRecurrence(task.recurrence) : null],
+		['Created by', task.createdByName || null],
+		['Progress', task.progress?.percent != null ? `${task.progress.percent}%` : null]
+	];
+
+	return (
+		<Portal>
+			<div role="dialog" aria-modal="true" aria-label={`Task: ${task.title}`} className="fixed inset-0 z-[100]">
+				<div className="absolute inset-0 bg-black/40" onClick={onClose} />
+				<aside className="absolute right-0 top-0 flex h-full w-full max-w-md flex-col border-l border-subtle bg-surface-token shadow-xl">
+					<header className="flex items-start justify-between gap-3 border-b border-subtle p-4">
+						<div className="min-w-0">
+							<h2 className="truncate text-lg font-semibold text-fg">{task.title}</h2>
+							{task.description && <p className="mt-1 whitespace-pre-wrap text-sm text-fg-muted">{task.description}</p>}
+						</div>
+						<button className="text-fg-subtle hover:text-fg" onClick={onClose} aria-label="Close"><MdClose size={20} /></button>
+					</header>
+					<div className="flex-1 space-y-4 overflow-y-auto p-4 text-sm">
+						<dl className="grid grid-cols-2 gap-x-4 gap-y-1">
+							{details.filter(([, value]) => value).map(([label, value]) => (
+								<Fragment key={label}>
+									<dt className="text-fg-muted">{label}</dt>
+									<dd className="text-fg">{value}</dd>
+								</Fragment>
+							))}
+						</dl>
+						<TaskDependencies
+							taskId={task.id}
+							baseUrl={baseUrl}
+							canEdit={canEditDependencies}
+							candidates={dependencyCandidates}
+							statusLabels={statusLabels}
+							onChange={() => { onDependenciesChange(); load(); }}
+						/>
+						<TaskAttachments
+							taskId={task.id}
+							baseUrl={baseUrl}
+							canEdit={canEditAttachments}
+							onCountChange={(delta) => { onAttachmentCountChange(delta); load(); }}
+						/>
+						{error && <div className="rounded-xl border border-red-500/30 bg-red-500/10 px-3 py-2 text-red-200">{error}</div>}
+						<div>
+							<div className="mb-2 text-xs uppercase tracking-wide text-fg-muted">Activity</div>
+							{!items && !error && <div className="text-fg-muted">Loading…</div>}
+							<ol className="space-y-3">
+								{(items || []).map((item) => item.type === 'event' ? (
+									<li key={item.id} className="text-fg-muted">
+										<span className="text-fg">{item.actorName || 'Someone'}</span> {item.summary}
+										<span className="ml-1 text-xs text-fg-subtle">· {formatTime(item.createdAt)}</span>
+										{item.changes.length > 1 && (
+											<ul className="mt-1 space-y-0.5 pl-3 text-xs">
+												{item.changes.map((change) => (
+													<li key={change.field}>
+														{change.label}: {change.field === 'description' ? 'changed' : `${change.from ?? 'none'} → ${change.to ?? 'none'}`}
+													</li>
+												))}
+											</ul>
+										)}
+									</li>
+								) : (
+									<li key={item.id} className="rounded-xl border border-subtle p-3">
+										<div className="mb-1 flex items-center justify-between gap-2 text-xs text-fg-muted">
+											<span>
+												<span className="font-medium text-fg">{item.comment.authorName || 'Someone'}</span> · {formatTime(item.createdAt)}
+												{item.comment.editedAt && ' · edited'}
+											</span>
+											<span className="flex gap-2">
+												{item.comment.own && canComment && editing?.id !== item.id && (
+													<button className="text-primary-token hover:underline" onClick={() => setEditing({ id: item.id, body: item.comment.body })}>Edit</button>
+												)}
+												{(item.comment.own || canModerate) && (
+													<button className="text-danger-token hover:underline" disabled={busy} onClick={() => remove(item.comment)}>Delete</button>
+												)}
+											</span>
+										</div>
+										{editing?.id === item.id ? (
+											<div className="space-y-2">
+												<textarea
+													className="w-full rounded-md border border-white/10 bg-white/5 px-2 py-1"
+													rows={3}
+													value={editing.body}
+													onChange={(e) => setEditing({ id: item.id, body: e.target.value })}
+													aria-label="Edit comment"
+												/>
+												<div className="flex gap-2">
+													<Button size="sm" variant="primary" disabled={busy || !editing.body.trim()} onClick={() => saveEdit(item.comment)}>Save</Button>
+													<Button size="sm" variant="pill" onClick={() => setEditing(null)}>Cancel</Button>
+												</div>
+											</div>
+										) : (
+											<CommentBody comment={item.comment} names={names} />
+										)}
+									</li>
+								))}
+							</ol>
+							{items && items.length === 0 && <div className="text-fg-muted">No activity yet.</div>}
+						</div>
+					</div>
+					{canComment && (
+						<footer className="space-y-2 border-t border-subtle p-4">
+							<textarea
+								className="w-full rounded-md border border-white/10 bg-white/5 px-2 py-2 text-sm"
+								rows={3}
+								placeholder="Write a comment"
+								value={draft}
+								onChange={(e) => setDraft(e.target.value)}
+								aria-label="Comment"
+							/>
+							<div className="flex items-center justify-between gap-2">
+								<Dropdown
+									className="min-w-[10rem]"
+									value=""
+									onChange={addMention}
+									options={mentionable.map((u) => ({ label: `@${u.name}`, value: u.id }))}
+									placeholder="Mention…"
+									ariaLabel="Mention someone"
+								/>
+								<Button size="sm" variant="primary" disabled={busy || !draft.trim()} onClick={post}>Comment</Button>
+							</div>
+						</footer>
+					)}
+				</aside>
+			</div>
+		</Portal>
+	);
+}
+
+export default TaskDrawer;
@@ -0,0 +1,145 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { Button, Card, SectionHeader } from './UI';
+import Dropdown from './Dropdown';
+import Portal from './Portal';
+
+export type TaskAclEntry = {
+	principalType: 'user' | 'role';
+	principalId: string;
+	principalName?: string | null;
+	access: 'view' | 'edit';
+};
+
+type TaskAclResponse = {
+	restricted: boolean;
+	access: 'view' | 'edit';
+	entries: TaskAclEntry[];
+	candidates: { users: { id: string; name: string; email: string }[]; roles: string[] };
+};
+
+// Edits a task's access list. With no entries the task follows category rules; once someone is added only the
+// listed users and roles (plus the creator and owners) can see it.
+export function TaskShareDialog({ taskId, taskTitle, baseUrl, onClose, onSaved }: { taskId: string; taskTitle: string; baseUrl?: string; onClose: () => void; onSaved: (restricted: boolean) => void })
+{
+	const { apiFetch } = useAuth();
+	const [data, setData] = useState<TaskAclResponse | null>(null);
+	const [entries, setEntries] = useState<TaskAclEntry[]>([]);
+	const [principal, setPrincipal] = useState('');
+	const [saving, setSaving] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() =>
+	{
+		let ignore = false;
+		apiFetch(`/api/tasks/${taskId}/acl`, { baseUrl })
+			.then(async (res) =>
+			{
+				if (!res.ok) throw new Error((await res.json().catch(() => null))?.error || 'Failed to load sharing');
+				return res.json() as Promise<TaskAclResponse>;
+			})
+			.then((json) => { if (!ignore) { setData(json); setEntries(json.entries); } })
+			.catch((err) => { if (!ignore) setError((err as Error).message); });
+		return () => { ignore = true; };
+	}, [apiFetch, baseUrl, taskId]);
+
+	const readOnly = data?.access !== 'edit';
+	const principalKey = (e: { principalType: string; principalId: string }) => `${e.principalType}:${e.principalId}`;
+	const taken = new Set(entries.map(principalKey));
+	const principalOptions = data
+		? [
+			...data.candidates.roles.map((r) => ({ label: `Role: ${r}`, value: `role:${r}` })),
+			...data.candidates.users.map((u) => ({ label: `${u.name} (${u.email})`, value: `user:${u.id}` }))
+		].filter((o) => !taken.has(o.value))
+		: [];
+
+	const addEntry = () =>
+	{
+		const [type, ...rest] = principal.split(':');
+		const id = rest.join(':');
+		if (!id) return;
+		const name = type === 'user' ? data?.candidates.users.find((u) => u.id === id)?.name : id;
+		setEntries((list) => [...list, { principalType: type as TaskAclEntry['principalType'], principalId: id, principalName: name, access: 'view' }]);
+		setPrincipal('');
+	};
+
+	const save = async () =>
+	{
+		setSaving(true);
+		try
+		{
+			const res = await apiFetch(`/api/tasks/${taskId}/acl`, {
+				baseUrl,
+				method: 'PUT',
+				body: JSON.stringify({ entries: entries.map(({ principalType, principalId, access }) => ({ principalType, principalId, access })) })
+			});
+			if (!res.ok) throw new Error((await res.json().catch(() => null))?.error || 'Failed to save sharing');
+			const json = (await res.json()) as { restricted: boolean };
+			onSaved(json.restricted);
+			onClose();
+		}
+		catch (err)
+		{
+			setError((err as Error).message);
+		}
+		finally
+		{
+			setSaving(false);
+		}
+	};
+
+	return (
+		<Portal>
+			<div role="dialog" aria-modal="true" aria-label={`Share ${taskTitle}`} className="fixed inset-0 z-[100]">
+				<div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={() => (!saving ? onClose() : null)} />
+				<Card className="relative z-10 mx-auto mt-24 w-full max-w-lg p-6 shadow-xl">
+					<SectionHeader title={`Share: ${taskTitle}`} />
+					<div className="mt-2 text-xs text-fg-muted">
+						{entries.length === 0
+							? 'Not restricted: everyone with access to the category can see this task.'
+							: 'Restricted: only the people and roles below, the creator and owners can see this task.'}
+					</div>
+					{error && <div className="mt-3 rounded-xl border border-red-500/30 bg-red-500/10 px-3 py-2 text-sm text-red-200">{error}</div>}
+					{!data && !error && <div className="mt-4 text-fg-muted">Loading…</div>}
+					{data && (
+						<div className="mt-4 space-y-2">
+							{entries.map((e) => (
+								<div key={principalKey(e)} className="flex items-center justify-between gap-2 rounded-xl border border-subtle p-3">
+									<div className="min-w-0">
+										<div className="truncate font-medium text-fg">{e.principalName || e.principalId}</div>
+										<div className="text-xs text-fg-muted">{e.principalType === 'role' ? 'Role' : 'User'}</div>
+									</div>
+									<div className="flex items-center gap-2">
+										<Dropdown
+											className="min-w-[7rem]"
+											value={e.access}
+											disabled={readOnly}
+											onChange={(v) => setEntries((list) => list.map((x) => (principalKey(x) === principalKey(e) ? { ...x, access: v as TaskAclEntry['access'] } : x)))}
+											options={[{ label: 'Can view', value: 'view' }, { label: 'Can edit', value: 'edit' }]}
+											ariaLabel="Access"
+										/>
+										{!readOnly && (
+											<Button size="sm" variant="danger" onClick={() => setEntries((list) => list.filter((x) => principalKey(x) !== principalKey(e)))}>Remove</Button>
+										)}
+									</div>
+								</div>
+							))}
+							{!readOnly && (
+								<div className="flex items-center gap-2">
+									<Dropdown className="flex-1" value={principal} onChange={setPrincipal} options={principalOptions} placeholder="Add a person or role…" ariaLabel="Share with" />
+									<Button size="sm" variant="pill" disabled={!principal} onClick={addEntry}>Add</Button>
+								</div>
+							)}
+						</div>
+					)}
+					<div className="mt-5 flex justify-end gap-2">
+						<Button variant="pill" onClick={onClose} disabled={saving}>{readOnly ? 'Close' : 'Cancel'}</Button>
+						{!readOnly && <Button variant="primary" onClick={save} disabled={saving || !data}>{saving ? 'Saving…' : 'Save'}</Button>}
+					</div>
+				</Card>
+			</div>
+		</Portal>
+	);
+}
+
+export default TaskShareDialog;
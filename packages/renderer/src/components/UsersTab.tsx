@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { Fragment, useEffect, useState } from 'react';
 import { HiRefresh, HiEye, HiEyeOff } from 'react-icons/hi';
 import { Button, Card, FormRow, Input, SectionHeader, Toggle } from './UI';
 import Portal from './Portal';
@@ -12,9 +12,44 @@ export type AdminUser = {
 	name: string;
 	role: 'owner' | 'admin' | 'viewer';
 	isActive: boolean;
+	overrides?: PermissionOverride[];
 };
 
-function UsersTab({ users, rolesCatalog, canManage, canCreate, onCreate, onUpdate, onDelete, loading }: { users: AdminUser[]; rolesCatalog: Role[]; canManage: boolean; canCreate: boolean; onCreate: (p: any) => Promise<void>; onUpdate: (id: string, p: any) => Promise<void>; onDelete: (id: string) => Promise<void>; loading: boolean; })
+// A personal allow or deny on top of the user's roles; without an organization it applies everywhere
+export type PermissionOverride = {
+	id: string;
+	userId: string;
+	organizationId: string | null;
+	organizationName: string | null;
+	permission: string;
+	effect: 'allow' | 'deny';
+	reason: string | null;
+	createdByName: string | null;
+	createdAt: number;
+};
+
+export type PermissionOverridesApi = {
+	listPermissions: () => Promise<string[]>;
+	setOverride: (userId: string, override: { permission: string; effect: 'allow' | 'deny'; organizationId: string | null; reason?: string }) => Promise<PermissionOverride>;
+	removeOverride: (userId: string, overrideId: string) => Promise<void>;
+};
+
+// One (role, organization) pair held by a user; the primary one mirrors the user's role and organization
+export type UserRoleAssignment = {
+	id: string;
+	role: string;
+	organizationId: string;
+	primary: boolean;
+	createdAt?: number;
+};
+
+export type RoleAssignmentsApi = {
+	listAssignments: (userId: string) => Promise<UserRoleAssignment[]>;
+	addAssignment: (userId: string, role: string, organizationId: string) => Promise<UserRoleAssignment>;
+	removeAssignment: (userId: string, assignmentId: string) => Promise<void>;
+};
+
+function UsersTab({ users, rolesCatalog, organizations = [], canManage, canCreate, canOverride, isOwnerActor, onCreate, onUpdate, onDelete, assignmentsApi, overridesApi, loading }: { users: AdminUser[]; rolesCatalog: Role[]; organizations?: { id: string; name: string }[]; canManage: boolean; canCreate: boolean; canOverride: boolean; isOwnerActor: boolean; onCreate: (p: any) => Promise<void>; onUpdate: (id: string, p: any) => Promise<void>; onDelete: (id: string) => Promise<void>; assignmentsApi: RoleAssignmentsApi; overridesApi: PermissionOverridesApi; loading: boolean; })
 {
 	const [showCreate, setShowCreate] = useState(false);
 	const [form, setForm] = useState({ email: '', name: '', role: 'viewer', password: '' });
@@ -23,6 +58,8 @@ function UsersTab({ users, rolesCatalog, canManage, canCreate, onCreate, onUpdat
 	const [deleteError, setDeleteError] = useState<string | null>(null);
 	const [deleteLoading, setDeleteLoading] = useState(false);
 	const [filter, setFilter] = useState('');
+	const [assignmentsFor, setAssignmentsFor] = useState<string | null>(null);
+	const [overridesFor, setOverridesFor] = useState<string | null>(null);
 	const generatePseudoPassword = () =>
 	{
 		// Simple readable pseudo password: consonant-vowel pairs + number + symbol
@@ -165,7 +202,45 @@ function UsersTab({ users, rolesCatalog, canManage, canCreate, onCreate, onUpdat
 								);
 							})
 							.map((u) => (
-								<UserRow key={u.id} user={u} roleOptions={roleOptions} canManage={canManage} onUpdate={onUpdate} onRequestDelete={(user) => { setPendingDelete(user); setDeleteError(null); }} />
+								<Fragment key={u.id}>
+									<UserRow
+										user={u}
+										roleOptions={roleOptions}
+										canManage={canManage}
+										canOverride={canOverride}
+										onUpdate={onUpdate}
+										onRequestDelete={(user) => { setPendingDelete(user); setDeleteError(null); }}
+										onToggleAssignments={(user) => setAssignmentsFor((current) => (current === user.id ? null : user.id))}
+										onToggleOverrides={(user) => setOverridesFor((current) => (current === user.id ? null : user.id))}
+									/>
+									{assignmentsFor === u.id && (
+										<tr>
+											<td colSpan={5} className="p-0">
+												<RoleAssignmentsEditor
+													user={u}
+													roleOptions={roleOptions}
+													organizations={organizations}
+													canManage={canManage}
+													api={assignmentsApi}
+													onClose={() => setAssignmentsFor(null)}
+												/>
+											</td>
+										</tr>
+									)}
+									{overridesFor === u.id && (
+										<tr>
+											<td colSpan={5} className="p-0">
+												<PermissionOverridesEditor
+													user={u}
+													organizations={organizations}
+													isOwnerActor={isOwnerActor}
+													api={overridesApi}
+													onClose={() => setOverridesFor(null)}
+												/>
+											</td>
+										</tr>
+									)}
+								</Fragment>
 							))}
 					</tbody>
 				</table>
@@ -199,7 +274,7 @@ function UsersTab({ users, rolesCatalog, canManage, canCreate, onCreate, onUpdat
 	);
 }
 
-function UserRow({ user, roleOptions, canManage, onUpdate, onRequestDelete }: { user: AdminUser; roleOptions: { label: string; value: string }[]; canManage: boolean; onUpdate: (id: string, p: any) => Promise<void>; onRequestDelete: (user: AdminUser) => void })
+function UserRow({ user, roleOptions, canManage, canOverride, onUpdate, onRequestDelete, onToggleAssignments, onToggleOverrides }: { user: AdminUser; roleOptions: { label: string; value: string }[]; canManage: boolean; canOverride: boolean; onUpdate: (id: string, p: any) => Promise<void>; onRequestDelete: (user: AdminUser) => void; onToggleAssignments: (user: AdminUser) => void; onToggleOverrides: (user: AdminUser) => void })
 {
 	const [editing, setEditing] = useState(false);
 	const [local, setLocal] = useState({ email: user.email, name: user.name, role: user.role, isActive: user.isActive });
@@ -234,6 +309,19 @@ function UserRow({ user, roleOptions, canManage, onUpdate, onRequestDelete }: {
 				) : (
 					<span className="text-fg">{user.role}</span>
 				)}
+				{(user.overrides || []).length > 0 && (
+					<div className="mt-1 flex flex-wrap gap-1">
+						{(user.overrides || []).map((o) => (
+							<span
+								key={o.id}
+								className={`inline-flex rounded-full px-2 py-0.5 text-xs ${o.effect === 'deny' ? 'bg-red-500/10 text-red-300' : 'bg-emerald-500/10 text-emerald-300'}`}
+								title={`${o.effect === 'deny' ? 'Denied' : 'Allowed'} ${o.organizationName ? `in ${o.organizationName}` : 'everywhere'}${o.reason ? `: ${o.reason}` : ''}`}
+							>
+								{o.effect === 'deny' ? '−' : '+'} {o.permission}
+							</span>
+						))}
+					</div>
+				)}
 			</td>
 			<td className="p-3 align-middle">
 				{editing ? (
@@ -254,6 +342,8 @@ function UserRow({ user, roleOptions, canManage, onUpdate, onRequestDelete }: {
 					) : (
 						<div className="flex gap-2">
 							<Button variant="pill" size="sm" onClick={() => setEditing(true)}>Edit</Button>
+							<Button variant="pill" size="sm" onClick={() => onToggleAssignments(user)}>Roles</Button>
+							{canOverride && <Button variant="pill" size="sm" onClick={() => onToggleOverrides(user)}>Overrides</Button>}
 							<Button variant="danger" size="sm" onClick={() => onRequestDelete(user)}>Delete</Button>
 						</div>
 					)
@@ -265,6 +355,217 @@ function UserRow({ user, roleOptions, canManage, onUpdate, onRequestDelete }: {
 	);
 }
 
+// Lists every role the user holds per organization and lets managers add or remove the extra ones
+function RoleAssignmentsEditor({ user, roleOptions, organizations, canManage, api, onClose }: { user: AdminUser; roleOptions: { label: string; value: string }[]; organizations: { id: string; name: string }[]; canManage: boolean; api: RoleAssignmentsApi; onClose: () => void })
+{
+	const [assignments, setAssignments] = useState<UserRoleAssignment[]>([]);
+	const [loading, setLoading] = useState(true);
+	const [saving, setSaving] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	const [draft, setDraft] = useState({ role: 'viewer', organizationId: user.organizationId });
+
+	useEffect(() =>
+	{
+		let ignore = false;
+		setLoading(true);
+		api.listAssignments(user.id)
+			.then((list) => { if (!ignore) { setAssignments(list); setError(null); } })
+			.catch((err) => { if (!ignore) setError((err as Error).message); })
+			.finally(() => { if (!ignore) setLoading(false); });
+		return () => { ignore = true; };
+	}, [api, user.id, user.role, user.organizationId]);
+
+	const orgName = (id: string) => organizations.find((o) => o.id === id)?.name || id;
+
+	const add = async () =>
+	{
+		setSaving(true);
+		try
+		{
+			const created = await api.addAssignment(user.id, draft.role, draft.organizationId);
+			setAssignments((list) => [...list, created]);
+			setError(null);
+		}
+		catch (err)
+		{
+			setError((err as Error).message);
+		}
+		finally
+		{
+			setSaving(false);
+		}
+	};
+
+	const remove = async (assignment: UserRoleAssignment) =>
+	{
+		setSaving(true);
+		try
+		{
+			await api.removeAssignment(user.id, assignment.id);
+			setAssignments((list) => list.filter((a) => a.id !== assignment.id));
+			setError(null);
+		}
+		catch (err)
+		{
+			setError((err as Error).message);
+		}
+		finally
+		{
+			setSaving(false);
+		}
+	};
+
+	return (
+		<Card className="m-4 rounded-none border-0 border-t border-subtle pt-4">
+			<SectionHeader title={`Roles: ${user.email}`} actions={<Button variant="pill" size="sm" onClick={onClose}>Close</Button>} />
+			{error && <div className="mt-3 rounded-xl border border-red-500/30 bg-red-500/10 px-3 py-2 text-sm text-red-200">{error}</div>}
+			{loading ? (
+				<div className="p-3 text-fg-muted">Loading roles…</div>
+			) : (
+				<div className="mt-4 space-y-2">
+					{assignments.map((a) => (
+						<div key={a.id} className="flex items-center justify-between rounded-xl border border-subtle p-3">
+							<div>
+								<div className="font-medium text-fg">{a.role}</div>
+								<div className="text-xs text-fg-muted">
+									{orgName(a.organizationId)}
+									{a.primary && ' · primary role, change it by editing the user'}
+								</div>
+							</div>
+							{!a.primary && canManage && (
+								<Button size="sm" variant="danger" disabled={saving} onClick={() => remove(a)}>Remove</Button>
+							)}
+						</div>
+					))}
+					{canManage && (
+						<div className="flex flex-wrap items-center gap-2 rounded-xl border border-dashed border-subtle p-3">
+							<Dropdown className="min-w-[10rem]" value={draft.role} onChange={(v) => setDraft((d) => ({ ...d, role: v }))} options={roleOptions} ariaLabel="Assignment role" />
+							<Dropdown
+								className="min-w-[12rem]"
+								value={draft.organizationId}
+								onChange={(v) => setDraft((d) => ({ ...d, organizationId: v }))}
+								options={organizations.map((o) => ({ label: o.name, value: o.id }))}
+								ariaLabel="Assignment organization"
+							/>
+							<Button size="sm" variant="primary" disabled={saving || !draft.role || !draft.organizationId} onClick={add}>Add Role</Button>
+						</div>
+					)}
+				</div>
+			)}
+		</Card>
+	);
+}
+
+// Personal allow / deny overrides for one user. A deny beats every role the user holds; an allow grants the
+// permission where the user's roles reach.
+const ALL_ORGANIZATIONS = '__all__';
+
+function PermissionOverridesEditor({ user, organizations, isOwnerActor, api, onClose }: { user: AdminUser; organizations: { id: string; name: string }[]; isOwnerActor: boolean; api: PermissionOverridesApi; onClose: () => void })
+{
+	const [catalog, setCatalog] = useState<string[]>([]);
+	const [saving, setSaving] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	const [draft, setDraft] = useState({ permission: '', effect: 'deny' as 'allow' | 'deny', organizationId: isOwnerActor ? ALL_ORGANIZATIONS : user.organizationId, reason: '' });
+	const overrides = user.overrides || [];
+
+	useEffect(() =>
+	{
+		let ignore = false;
+		api.listPermissions()
+			.then((list) => { if (!ignore) setCatalog(list); })
+			.catch((err) => { if (!ignore) setError((err as Error).message); });
+		return () => { ignore = true; };
+	}, [api]);
+
+	const organizationOptions = [
+		...(isOwnerActor ? [{ label: 'All organizations', value: ALL_ORGANIZATIONS }] : []),
+		...organizations.map((o) => ({ label: o.name, value: o.id }))
+	];
+
+	const save = async () =>
+	{
+		setSaving(true);
+		try
+		{
+			await api.setOverride(user.id, {
+				permission: draft.permission,
+				effect: draft.effect,
+				organizationId: draft.organizationId === ALL_ORGANIZATIONS ? null : draft.organizationId,
+				reason: draft.reason.trim() || undefined
+			});
+			setDraft((d) => ({ ...d, permission: '', reason: '' }));
+			setError(null);
+		}
+		catch (err)
+		{
+			setError((err as Error).message);
+		}
+		finally
+		{
+			setSaving(false);
+		}
+	};
+
+	const remove = async (override: PermissionOverride) =>
+	{
+		setSaving(true);
+		try
+		{
+			await api.removeOverride(user.id, override.id);
+			setError(null);
+		}
+		catch (err)
+		{
+			setError((err as Error).message);
+		}
+		finally
+		{
+			setSaving(false);
+		}
+	};
+
+	return (
+		<Card className="m-4 rounded-none border-0 border-t border-subtle pt-4">
+			<SectionHeader title={`Overrides: ${user.email}`} actions={<Button variant="pill" size="sm" onClick={onClose}>Close</Button>} />
+			<div className="mt-2 text-sm text-fg-muted">A deny wins over every role the user holds; an allow grants the permission where the user&apos;s roles reach. Owners are not affected.</div>
+			{error && <div className="mt-3 rounded-xl border border-red-500/30 bg-red-500/10 px-3 py-2 text-sm text-red-200">{error}</div>}
+			<div className="mt-4 space-y-2">
+				{overrides.length === 0 && <div className="text-sm text-fg-muted">No overrides; permissions come from the user&apos;s roles only.</div>}
+				{overrides.map((o) => (
+					<div key={o.id} className="flex items-center justify-between rounded-xl border border-subtle p-3">
+						<div>
+							<div className="font-medium text-fg">
+								<span className={o.effect === 'deny' ? 'text-red-300' : 'text-emerald-300'}>{o.effect === 'deny' ? 'Deny' : 'Allow'}</span> {o.permission}
+							</div>
+							<div className="text-xs text-fg-muted">
+								{o.organizationName || 'All organizations'}
+								{o.reason && ` · ${o.reason}`}
+								{o.createdByName && ` · set by ${o.createdByName}`}
+							</div>
+						</div>
+						{(o.organizationId !== null || isOwnerActor) && (
+							<Button size="sm" variant="danger" disabled={saving} onClick={() => remove(o)}>Remove</Button>
+						)}
+					</div>
+				))}
+				<div className="flex flex-wrap items-center gap-2 rounded-xl border border-dashed border-subtle p-3">
+					<Dropdown
+						className="min-w-[8rem]"
+						value={draft.effect}
+						onChange={(v) => setDraft((d) => ({ ...d, effect: v as 'allow' | 'deny' }))}
+						options={[{ label: 'Deny', value: 'deny' }, { label: 'Allow', value: 'allow' }]}
+						ariaLabel="Override effect"
+					/>
+					<Dropdown className="min-w-[14rem]" value={draft.permission} onChange={(v) => setDraft((d) => ({ ...d, permission: v }))} options={catalog} placeholder="Choose a permission…" ariaLabel="Override permission" />
+					<Dropdown className="min-w-[12rem]" value={draft.organizationId} onChange={(v) => setDraft((d) => ({ ...d, organizationId: v }))} options={organizationOptions} ariaLabel="Override organization" />
+					<Input value={draft.reason} placeholder="Reason (optional)" onChange={(e) => setDraft((d) => ({ ...d, reason: e.target.value }))} aria-label="Override reason" />
+					<Button size="sm" variant="primary" disabled={saving || !draft.permission || !draft.organizationId} onClick={save}>Set Override</Button>
+				</div>
+			</div>
+		</Card>
+	);
+}
+
 function DeleteUserModal({ user, loading, error, onCancel, onConfirm }: { user: AdminUser; loading: boolean; error: string | null; onCancel: () => void; onConfirm: () => void; })
 {
 	return (
@@ -0,0 +1,321 @@
+import { useEffect, useState } from 'react';
+import { MdArrowDownward, MdArrowUpward } from 'react-icons/md';
+import { useAuth } from '../context/AuthContext';
+import { Button, Card, Checkbox, Input, SectionHeader } from './UI';
+import Dropdown from './Dropdown';
+
+// wipLimit caps how many of an organization's tasks may be in the status
+export type WorkflowStatus = { key: string; label: string; color: string; terminal: boolean; wipLimit?: number };
+export type WorkflowTransition = { from: string; to: string; permission?: string };
+export type Workflow = {
+	organizationId: string | null;
+	// Organization whose definition applies; null for the built-in default
+	definedBy: string | null;
+	statuses: WorkflowStatus[];
+	transitions: WorkflowTransition[];
+};
+
+// Same as the server's default, used on the board until the workflows have loaded
+export const DEFAULT_WORKFLOW: Workflow = {
+	organizationId: null,
+	definedBy: null,
+	statuses: [
+		{ key: 'todo', label: 'To do', color: '#94a3b8', terminal: false },
+		{ key: 'in_progress', label: 'In progress', color: '#3b82f6', terminal: false },
+		{ key: 'done', label: 'Done', color: '#22c55e', terminal: true }
+	],
+	transitions: []
+};
+
+// Whether a move is allowed and which permission it needs on top; with no transitions every move is allowed
+export function transitionFor(workflow: Workflow, from: string, to: string): { allowed: boolean; permission: string | null }
+{
+	if (workflow.transitions.length === 0) return { allowed: true, permission: null };
+	const match = workflow.transitions.find((t) => t.from === from && t.to === to);
+	return match ? { allowed: true, permission: match.permission || null } : { allowed: false, permission: null };
+}
+
+interface WorkflowsTabProps
+{
+	organizations: { id: string; name: string }[];
+	canManage: boolean;
+}
+
+type Conflict = { statuses: Record<string, number>; available: { key: string; label: string }[]; remove: boolean };
+
+// A new status's key follows its label until it is edited by hand
+const keyFromLabel = (label: string) => label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^[^a-z]+|_+$/g, '').slice(0, 32);
+
+// Statuses and allowed moves per organization. Saving a workflow that drops statuses tasks still use asks where
+// those tasks should go.
+export function WorkflowsTab({ organizations, canManage }: WorkflowsTabProps)
+{
+	const { apiFetch } = useAuth();
+	const [organizationId, setOrganizationId] = useState(organizations[0]?.id || '');
+	const [workflow, setWorkflow] = useState<Workflow | null>(null);
+	const [statuses, setStatuses] = useState<WorkflowStatus[]>([]);
+	const [transitions, setTransitions] = useState<WorkflowTransition[]>([]);
+	const [catalog, setCatalog] = useState<{ id: string; description: string }[]>([]);
+	const [conflict, setConflict] = useState<Conflict | null>(null);
+	const [remap, setRemap] = useState<Record<string, string>>({});
+	const [busy, setBusy] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	const [notice, setNotice] = useState<string | null>(null);
+
+	const orgName = (id: string | null) => (id ? organizations.find((o) => o.id === id)?.name || id : null);
+
+	const show = (next: Workflow) =>
+	{
+		setWorkflow(next);
+		setStatuses(next.statuses);
+		setTransitions(next.transitions);
+		setConflict(null);
+		setRemap({});
+	};
+
+	useEffect(() =>
+	{
+		if (!organizationId && organizations[0]) setOrganizationId(organizations[0].id);
+	}, [organizations, organizationId]);
+
+	useEffect(() =>
+	{
+		if (!organizationId) return;
+		let ignore = false;
+		setError(null);
+		setNotice(null);
+		apiFetch(`/api/workflows/${organizationId}`)
+			.then(async (res) =>
+			{
+				if (!res.ok) throw new Error((await res.json().catch(() => null))?.error || 'Failed to load the workflow');
+				return res.json() as Promise<{ workflow: Workflow }>;
+			})
+			.then((json) => { if (!ignore) show(json.workflow); })
+			.catch((err) => { if (!ignore) setError((err as Error).message); });
+		return () => { ignore = true; };
+	}, [apiFetch, organizationId]);
+
+	useEffect(() =>
+	{
+		let ignore = false;
+		apiFetch(`/api/admin/permissions/catalog`)
+			.then((res) => (res.ok ? res.json() : { permissions: [] }))
+			.then((data) => { if (!ignore) setCatalog(data.permissions || []); })
+			.catch(() => { if (!ignore) setCatalog([]); });
+		return () => { ignore = true; };
+	}, [apiFetch]);
+
+	const updateStatus = (index: number, patch: Partial<WorkflowStatus>) =>
+	{
+		const previous = statuses[index].key;
+		setStatuses((list) => list.map((s, i) => (i === index ? { ...s, ...patch } : s)));
+		// Transitions follow a renamed key
+		if (patch.key !== undefined && patch.key !== previous)
+		{
+			setTransitions((list) => list.map((t) => ({ ...t, from: t.from === previous ? patch.key! : t.from, to: t.to === previous ? patch.key! : t.to })));
+		}
+	};
+
+	const moveStatus = (index: number, delta: number) =>
+	{
+		const target = index + delta;
+		if (target < 0 || target >= statuses.length) return;
+		setStatuses((list) =>
+		{
+			const next = [...list];
+			[next[index], next[target]] = [next[target], next[index]];
+			return next;
+		});
+	};
+
+	const removeStatus = (index: number) =>
+	{
+		const key = statuses[index].key;
+		setStatuses((list) => list.filter((_, i) => i !== index));
+		setTransitions((list) => list.filter((t) => t.from !== key && t.to !== key));
+	};
+
+	const send = async (method: 'PUT' | 'DELETE') =>
+	{
+		setBusy(true);
+		setError(null);
+		setNotice(null);
+		try
+		{
+			const body = method === 'PUT' ? { statuses, transitions, remap } : { remap };
+			const res = await apiFetch(`/api/workflows/${organizationId}`, { method, body: JSON.stringify(body) });
+			const json = await res.json().catch(() => null);
+			if (res.status === 409 && json?.statuses)
+			{
+				setConflict({ statuses: json.statuses, available: json.available || [], remove: method === 'DELETE' });
+				setRemap((current) => Object.fromEntries(Object.keys(json.statuses).map((s) => [s, current[s] || json.available?.[0]?.key || ''])));
+				return;
+			}
+			if (!res.ok) throw new Error(json?.error || 'Failed to save the workflow');
+			show(json.workflow as Workflow);
+			setNotice(json.movedTasks ? `Saved; ${json.movedTasks} task${json.movedTasks === 1 ? '' : 's'} moved to new statuses.` : 'Saved.');
+		}
+		catch (err)
+		{
+			setError((err as Error).message);
+		}
+		finally
+		{
+			setBusy(false);
+		}
+	};
+
+	const own = Boolean(workflow && workflow.definedBy === organizationId);
+	const statusOptions = statuses.map((s) => ({ label: s.label || s.key, value: s.key }));
+	const permissionOptions = [{ label: 'No extra permission', value: '' }, ...catalog.map((p) => ({ label: p.id, value: p.id }))];
+
+	return (
+		<div className="mt-6 space-y-6">
+			<Card className="p-4">
+				<SectionHeader
+					title="Workflows"
+					actions={(
+						<Dropdown
+							className="min-w-[12rem]"
+							value={organizationId}
+							onChange={setOrganizationId}
+							options={organizations.map((o) => ({ label: o.name, value: o.id }))}
+							ariaLabel="Organization"
+						/>
+					)}
+				/>
+				<div className="mt-2 text-sm text-fg-muted">
+					The board shows one column per status, in this order. New tasks start in the first status; tasks in a terminal status count as done. A WIP limit caps how many tasks a status holds.
+					{workflow && (own
+						? ' This organization has its own workflow.'
+						: ` This organization uses ${workflow.definedBy ? `the workflow of ${orgName(workflow.definedBy)}` : 'the default workflow'}; saving gives it its own.`)}
+				</div>
+				{error && <div className="mt-3 rounded-xl border border-red-500/30 bg-red-500/10 px-3 py-2 text-sm text-red-200">{error}</div>}
+				{notice && <div className="mt-3 rounded-xl border border-subtle px-3 py-2 text-sm text-fg-muted">{notice}</div>}
+			</Card>
+
+			{workflow && (
+				<Card className="p-4 space-y-4">
+					<div className="space-y-2">
+						<span className="form-label text-sm">Statuses</span>
+						{statuses.map((status, i) => (
+							<div key={i} className="flex flex-wrap items-center gap-2">
+								<input
+									type="color"
+									className="h-8 w-10 rounded border border-subtle bg-transparent"
+									value={status.color}
+									disabled={!canManage}
+									onChange={(e) => updateStatus(i, { color: e.target.value })}
+									aria-label={`Color of ${status.label}`}
+								/>
+								<div className="min-w-[10rem] flex-1">
+									<Input
+										value={status.label}
+										disabled={!canManage}
+										placeholder="Label"
+										onChange={(e) => updateStatus(i, { label: e.target.value, ...(status.key === keyFromLabel(status.label) ? { key: keyFromLabel(e.target.value) } : {}) })}
+										aria-label="Label"
+									/>
+								</div>
+								<div className="w-40">
+									<Input value={status.key} disabled={!canManage} placeholder="key" onChange={(e) => updateStatus(i, { key: e.target.value })} aria-label="Key" />
+								</div>
+								<div className="w-28">
+									<Input
+										type="number"
+										min={1}
+										max={999}
+										value={status.wipLimit ?? ''}
+										disabled={!canManage}
+										placeholder="No limit"
+										onChange={(e) => updateStatus(i, { wipLimit: e.target.value ? Number(e.target.value) : undefined })}
+										aria-label="WIP limit"
+									/>
+								</div>
+								<Checkbox label="Terminal" checked={status.terminal} disabled={!canManage} onChange={(e) => updateStatus(i, { terminal: e.target.checked })} />
+								{canManage && (
+									<>
+										<button type="button" className="text-fg-muted disabled:opacity-30" disabled={i === 0} onClick={() => moveStatus(i, -1)} aria-label="Move up"><MdArrowUpward /></button>
+										<button type="button" className="text-fg-muted disabled:opacity-30" disabled={i === statuses.length - 1} onClick={() => moveStatus(i, 1)} aria-label="Move down"><MdArrowDownward /></button>
+										<Button type="button" size="sm" variant="danger" disabled={statuses.length === 1} onClick={() => removeStatus(i)}>Remove</Button>
+									</>
+								)}
+							</div>
+						))}
+						{canManage && (
+							<Button type="button" size="sm" variant="outline" onClick={() => setStatuses((list) => [...list, { key: '', label: '', color: '#64748b', terminal: false }])}>
+								Add status
+							</Button>
+						)}
+					</div>
+
+					<div className="space-y-2">
+						<span className="form-label text-sm">Allowed moves</span>
+						<div className="text-xs text-fg-muted">
+							{transitions.length === 0 ? 'Any status can move to any other.' : 'Only these moves are allowed; a permission limits a move to users who hold it.'}
+						</div>
+						{transitions.map((transition, i) => (
+							<div key={i} className="flex flex-wrap items-center gap-2">
+								<Dropdown className="min-w-[9rem]" value={transition.from} onChange={(v) => setTransitions((list) => list.map((t, j) => (j === i ? { ...t, from: v } : t)))} options={statusOptions} ariaLabel="From" disabled={!canManage} />
+								<span className="text-fg-muted">→</span>
+								<Dropdown className="min-w-[9rem]" value={transition.to} onChange={(v) => setTransitions((list) => list.map((t, j) => (j === i ? { ...t, to: v } : t)))} options={statusOptions} ariaLabel="To" disabled={!canManage} />
+								<Dropdown
+									className="min-w-[14rem]"
+									value={transition.permission || ''}
+									onChange={(v) => setTransitions((list) => list.map((t, j) => (j === i ? { from: t.from, to: t.to, ...(v ? { permission: v } : {}) } : t)))}
+									options={permissionOptions}
+									ariaLabel="Permission"
+									disabled={!canManage}
+								/>
+								{canManage && <Button type="button" size="sm" variant="danger" onClick={() => setTransitions((list) => list.filter((_, j) => j !== i))}>Remove</Button>}
+							</div>
+						))}
+						{canManage && statuses.length > 1 && (
+							<Button
+								type="button"
+								size="sm"
+								variant="outline"
+								onClick={() => setTransitions((list) => [...list, { from: statuses[0].key, to: statuses[1].key }])}
+							>
+								Add move
+							</Button>
+						)}
+					</div>
+
+					{conflict && (
+						<div className="space-y-2 rounded-xl border border-amber-500/30 bg-amber-500/10 p-3 text-sm">
+							<div className="text-fg">Some tasks are in statuses the workflow no longer has. Choose where they go:</div>
+							{Object.entries(conflict.statuses).map(([status, count]) => (
+								<div key={status} className="flex flex-wrap items-center gap-2">
+									<span className="min-w-[8rem] text-fg-muted">{status} ({count})</span>
+									<span className="text-fg-muted">→</span>
+									<Dropdown
+										className="min-w-[10rem]"
+										value={remap[status] || ''}
+										onChange={(v) => setRemap((r) => ({ ...r, [status]: v }))}
+										options={conflict.available.map((s) => ({ label: s.label, value: s.key }))}
+										ariaLabel={`New status for ${status}`}
+									/>
+								</div>
+							))}
+						</div>
+					)}
+
+					{canManage && (
+						<div className="flex flex-wrap items-center gap-2">
+							<Button type="button" variant="primary" disabled={busy} onClick={() => send(conflict?.remove ? 'DELETE' : 'PUT')}>
+								{conflict ? 'Move tasks and save' : 'Save'}
+							</Button>
+							{own && !conflict && (
+								<Button type="button" variant="pill" disabled={busy} onClick={() => send('DELETE')}>Use the parent&apos;s workflow</Button>
+							)}
+							{conflict && <Button type="button" variant="pill" onClick={() => { setConflict(null); setRemap({}); }}>Cancel</Button>}
+						</div>
+					)}
+				</Card>
+			)}
+		</div>
+	);
+}
+
+export default WorkflowsTab;
@@ -4,6 +4,7 @@ export { default as ConfirmDialog } from './ConfirmDialog';
 export { default as Dropdown } from './Dropdown';
 export { default as Portal } from './Portal';
 export { default as RoleAccessSelector } from './RoleAccessSelector';
+export { default as TaskShareDialog } from './TaskShareDialog';
 export { default as WelcomeAnimation } from './WelcomeAnimation';
 export { default as WelcomeManager } from './WelcomeManager';
 export { TitleBar } from './TitleBar';
@@ -7,9 +7,17 @@ type User = {
 	role: string;
 	organizationId: string;
 	organizationName?: string | null;
+	// Every role held and the organization it applies in; role is the primary one
+	assignments?: RoleAssignment[];
 	inheritedRoles?: string[];
 };
 
+export type RoleAssignment = {
+	id: string | null;
+	role: string;
+	organizationId: string;
+};
+
 type AuthState = {
 	token: string | null;
 	user: User | null;
@@ -0,0 +1,71 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { useAuth } from './AuthContext';
+
+type PermissionsState = {
+	permissions: Set<string>;
+	scope: string[];
+	error: string | null;
+	// User the permissions were loaded for; lets loading stay true until the current user's set arrives
+	loadedFor: string | null;
+};
+
+type PermissionsContextValue = Omit<PermissionsState, 'loadedFor'> & {
+	loading: boolean;
+	can: (permission: string) => boolean;
+	refresh: () => Promise<void>;
+};
+
+const PermissionsContext = createContext<PermissionsContextValue | undefined>(undefined);
+
+const EMPTY: PermissionsState = { permissions: new Set(), scope: [], error: null, loadedFor: null };
+
+// Loads the resolved permission set for the signed-in user from /api/me/permissions
+export function PermissionsProvider({ children }: { children: React.ReactNode })
+{
+	const { apiFetch, token, user, loading: authLoading } = useAuth();
+	const [state, setState] = useState<PermissionsState>(EMPTY);
+	const userId = user?.id ?? null;
+
+	const refresh = useCallback(async () =>
+	{
+		if (!token || !userId)
+		{
+			setState(EMPTY);
+			return;
+		}
+		try
+		{
+			const res = await apiFetch(`/api/me/permissions`);
+			if (!res.ok) throw new Error(await res.text());
+			const data = (await res.json()) as { permissions: string[]; scope: string[] };
+			setState({ permissions: new Set(data.permissions || []), scope: data.scope || [], error: null, loadedFor: userId });
+		}
+		catch (err)
+		{
+			setState({ ...EMPTY, error: (err as Error).message, loadedFor: userId });
+		}
+	}, [apiFetch, token, userId]);
+
+	useEffect(() => { refresh(); }, [refresh]);
+
+	const can = useCallback((permission: string) => state.permissions.has(permission), [state.permissions]);
+	const loading = authLoading || (userId !== null && state.loadedFor !== userId);
+
+	const value = useMemo<PermissionsContextValue>(() => ({
+		permissions: state.permissions,
+		scope: state.scope,
+		error: state.error,
+		loading,
+		can,
+		refresh
+	}), [state, loading, can, refresh]);
+
+	return <PermissionsContext.Provider value={value}>{children}</PermissionsContext.Provider>;
+}
+
+export function usePermissions()
+{
+	const ctx = useContext(PermissionsContext);
+	if (!ctx) throw new Error('usePermissions must be used within PermissionsProvider');
+	return ctx;
+}
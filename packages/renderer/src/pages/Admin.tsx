@@ -1,42 +1,68 @@
-import { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
 import { useAuth } from '../context/AuthContext';
+import { usePermissions } from '../context/PermissionsContext';
 import { Button, Card, Checkbox, FormRow, Input, SectionHeader, Toggle } from '../components/UI';
 import { CategoriesTab } from '../components/CategoriesTab';
 import RolesTab from '../components/RolesTab';
 import UsersTab from '../components/UsersTab';
+import OrganizationsTab from '../components/OrganizationsTab';
+import PermissionExplainTab from '../components/PermissionExplainTab';
+import PoliciesTab from '../components/PoliciesTab';
+import WorkflowsTab from '../components/WorkflowsTab';
+import GrantsTab from '../components/GrantsTab';
+import ApprovalsTab from '../components/ApprovalsTab';
+import PolicyBundleCard from '../components/PolicyBundleCard';
 import type { Role, RolePermissionsResponse } from '../components/RolesTab';
-import type { AdminUser } from '../components/UsersTab';
+import type { AdminUser, PermissionOverride, PermissionOverridesApi, RoleAssignmentsApi, UserRoleAssignment } from '../components/UsersTab';
 
 type Category = { id: string; organizationId: string; organizationName?: string; name: string; isSystem?: boolean; createdAt: number };
 
 export function Admin({ port }: { port: number | null })
 {
 	const { apiFetch, user } = useAuth();
-	const [activeTab, setActiveTab] = useState<'users' | 'roles' | 'categories'>('users');
+	const { can } = usePermissions();
+	const [activeTab, setActiveTab] = useState<'users' | 'roles' | 'categories' | 'organizations' | 'workflows' | 'policies' | 'grants' | 'approvals' | 'explain'>('users');
 	const [users, setUsers] = useState<AdminUser[]>([]);
 	const [loading, setLoading] = useState(false);
 	const [error, setError] = useState<string | null>(null);
+	// Set when a change was held for approval (four-eyes mode) instead of applied
+	const [notice, setNotice] = useState<string | null>(null);
 	const [roles, setRoles] = useState<Role[]>([]);
 	const [permEditorRole, setPermEditorRole] = useState<string | null>(null);
+	// Organizations in scope, used to pick the target of per-organization permission overrides
+	const [scopeOrganizations, setScopeOrganizations] = useState<{ id: string; name: string }[]>([]);
 	// Tabs positioning
 	const containerRef = useRef<HTMLDivElement | null>(null);
 	const usersRef = useRef<HTMLSpanElement | null>(null);
 	const rolesRef = useRef<HTMLSpanElement | null>(null);
 	const catsRef = useRef<HTMLSpanElement | null>(null);
+	const orgsRef = useRef<HTMLSpanElement | null>(null);
+	const workflowsRef = useRef<HTMLSpanElement | null>(null);
+	const policiesRef = useRef<HTMLSpanElement | null>(null);
+	const grantsRef = useRef<HTMLSpanElement | null>(null);
+	const approvalsRef = useRef<HTMLSpanElement | null>(null);
+	const explainRef = useRef<HTMLSpanElement | null>(null);
 	const [sliderRect, setSliderRect] = useState<{ left: number; width: number }>({ left: 0, width: 0 });
 	const [categories, setCategories] = useState<Category[]>([]);
 	const [catLoading, setCatLoading] = useState(false);
 	const [catError, setCatError] = useState<string | null>(null);
-	const [canManageCategories, setCanManageCategories] = useState<boolean>(false);
-	const [canConfigureCategoryAccess, setCanConfigureCategoryAccess] = useState<boolean>(false);
-	const [canCreateCategories, setCanCreateCategories] = useState<boolean>(false);
+	const canManageCategories = can('categories:manage') || can('categories:update') || can('categories:delete');
+	const canConfigureCategoryAccess = can('categories:access:configure');
+	const canCreateCategories = can('categories:create') || can('categories:manage');
 	// Roles permissions
-	const [canViewRoles, setCanViewRoles] = useState<boolean>(false);
-	const [canCreateRoles, setCanCreateRoles] = useState<boolean>(false);
-	const [canUpdateRoles, setCanUpdateRoles] = useState<boolean>(false);
-	const [canDeleteRoles, setCanDeleteRoles] = useState<boolean>(false);
+	const canViewRoles = can('roles:view');
+	const canCreateRoles = can('roles:create');
+	const canUpdateRoles = can('roles:update');
+	const canDeleteRoles = can('roles:delete');
+	// Organizations: admins may browse the hierarchy; changing it is owner-only by default
+	const canViewOrganizations = can('organizations:view');
+	// Attribute-based task policies
+	const canViewPolicies = can('policies:view');
+	// Roles held in any organization; the primary role alone no longer tells the whole story
+	const heldRoles = new Set([user?.role, ...(user?.assignments || []).map((a) => a.role)]);
+	const isOwner = heldRoles.has('owner');
 	// Users manage capability (UI): reserve to owner/admin
-	const canManageUsers = user?.role === 'owner' || user?.role === 'admin';
+	const canManageUsers = isOwner || heldRoles.has('admin');
 	// Users create capability (UI): align with manage for now
 	const canCreateUsers = canManageUsers;
 
@@ -47,26 +73,6 @@ export function Admin({ port }: { port: number | null })
 			setLoading(true);
 			try
 			{
-				// Fetch permissions for current role to gate roles tab/actions
-				const permsRes = await apiFetch(`/api/admin/roles/${user?.role}/permissions`).catch(() => null);
-				if (permsRes && permsRes.ok)
-				{
-					const pdata = await permsRes.json();
-					const find = (k: string) => Boolean((pdata.permissions || []).find((x: any) => x.permission === k)?.enabled);
-					setCanViewRoles(user?.role === 'owner' ? true : find('roles:view'));
-					setCanCreateRoles(user?.role === 'owner' ? true : find('roles:create'));
-					setCanUpdateRoles(user?.role === 'owner' ? true : find('roles:update'));
-					setCanDeleteRoles(user?.role === 'owner' ? true : find('roles:delete'));
-				} else
-				{
-					// Fallback (conservative): hide roles for non-owners if fetch fails
-					const isOwner = user?.role === 'owner';
-					setCanViewRoles(!!isOwner);
-					setCanCreateRoles(!!isOwner);
-					setCanUpdateRoles(!!isOwner);
-					setCanDeleteRoles(!!isOwner);
-				}
-
 				const [uRes, rRes] = await Promise.all([
 					apiFetch(`/api/admin/users`),
 					canViewRoles ? apiFetch(`/api/admin/roles`) : Promise.resolve({ ok: false, json: async () => ({ roles: [] }) } as any)
@@ -92,9 +98,19 @@ export function Admin({ port }: { port: number | null })
 				setLoading(false);
 			}
 		})();
-	}, [apiFetch, user?.role, canViewRoles]);
+	}, [apiFetch, canViewRoles]);
 
-	// Categories: load list and permission
+	useEffect(() =>
+	{
+		let ignore = false;
+		apiFetch(`/api/organizations`)
+			.then((res) => (res.ok ? (res.json() as Promise<{ organizations?: { id: string; name: string }[] }>) : { organizations: [] }))
+			.then((data) => { if (!ignore) setScopeOrganizations((data.organizations || []).map((o) => ({ id: o.id, name: o.name }))); })
+			.catch(() => { if (!ignore) setScopeOrganizations([]); });
+		return () => { ignore = true; };
+	}, [apiFetch]);
+
+	// Categories: load list
 	useEffect(() =>
 	{
 		let ignore = false;
@@ -114,29 +130,6 @@ export function Admin({ port }: { port: number | null })
 				{
 					if (!ignore) setCatError(await res.text());
 				}
-				// Check permission catalog for categories permissions
-				const permsRes = await apiFetch(`/api/admin/roles/${user?.role}/permissions`).catch(() => null);
-				if (permsRes && permsRes.ok)
-				{
-					const pdata = await permsRes.json();
-					const manage = (pdata.permissions || []).find((x: any) => x.permission === 'categories:manage' || x.permission === 'categories:update' || x.permission === 'categories:delete');
-					const create = (pdata.permissions || []).find((x: any) => x.permission === 'categories:create' || x.permission === 'categories:manage');
-					const configure = (pdata.permissions || []).find((x: any) => x.permission === 'categories:access:configure');
-					if (!ignore)
-					{
-						setCanManageCategories(Boolean(manage?.enabled));
-						setCanCreateCategories(Boolean(create?.enabled));
-						setCanConfigureCategoryAccess(Boolean(configure?.enabled));
-					}
-				} else
-				{
-					if (!ignore)
-					{
-						setCanManageCategories(user?.role === 'owner' || user?.role === 'admin');
-						setCanCreateCategories(user?.role === 'owner' || user?.role === 'admin');
-						setCanConfigureCategoryAccess(user?.role === 'owner');
-					}
-				}
 			} catch (e: any)
 			{
 				if (!ignore) setCatError(e.message || 'Failed to load categories');
@@ -146,7 +139,7 @@ export function Admin({ port }: { port: number | null })
 			}
 		})();
 		return () => { ignore = true; };
-	}, [apiFetch, user?.role]);
+	}, [apiFetch]);
 
 
 	// Measure tab positions and update slider
@@ -154,10 +147,16 @@ export function Admin({ port }: { port: number | null })
 	{
 		const measure = () =>
 		{
-			const map: Record<'users' | 'roles' | 'categories', React.RefObject<HTMLSpanElement>> = {
+			const map: Record<'users' | 'roles' | 'categories' | 'organizations' | 'workflows' | 'policies' | 'grants' | 'approvals' | 'explain', React.RefObject<HTMLSpanElement>> = {
 				users: usersRef,
 				roles: rolesRef,
-				categories: catsRef
+				categories: catsRef,
+				organizations: orgsRef,
+				workflows: workflowsRef,
+				policies: policiesRef,
+				grants: grantsRef,
+				approvals: approvalsRef,
+				explain: explainRef
 			};
 			const el = map[activeTab]?.current;
 			const container = containerRef.current;
@@ -208,17 +207,80 @@ export function Admin({ port }: { port: number | null })
 			body: JSON.stringify(patch)
 		});
 		if (!res.ok) throw new Error(await res.text());
+		if (await heldForApproval(res)) return;
 		const data = (await res.json()) as { user: AdminUser };
 		setUsers((prev) => prev.map((u) => (u.id === id ? data.user : u)));
 	};
 
+	// 202 means four-eyes mode filed a change request; the change applies once someone else approves it
+	const heldForApproval = async (res: Response) =>
+	{
+		if (res.status !== 202) return false;
+		const data = (await res.json()) as { request: { summary: string } };
+		setNotice(`Sent for approval: ${data.request.summary}. It takes effect once another administrator approves it.`);
+		return true;
+	};
+
 	const onDelete = async (id: string) =>
 	{
 		const res = await apiFetch(`/api/admin/users/${id}`, { method: 'DELETE' });
 		if (!res.ok) throw new Error(await res.text());
+		if (await heldForApproval(res)) return;
 		setUsers((prev) => prev.filter((u) => u.id !== id));
 	};
 
+	// Role assignments per user; kept stable so the editor's load effect doesn't refire on every render
+	const assignmentsApi = useMemo<RoleAssignmentsApi>(() => ({
+		listAssignments: async (userId) =>
+		{
+			const res = await apiFetch(`/api/admin/users/${userId}/roles`);
+			if (!res.ok) throw new Error(await res.text());
+			const data = (await res.json()) as { assignments: UserRoleAssignment[] };
+			return data.assignments || [];
+		},
+		addAssignment: async (userId, role, organizationId) =>
+		{
+			const res = await apiFetch(`/api/admin/users/${userId}/roles`, {
+				method: 'POST',
+				body: JSON.stringify({ role, organizationId })
+			});
+			if (!res.ok) throw new Error(await res.text());
+			const data = (await res.json()) as { assignment: UserRoleAssignment };
+			return data.assignment;
+		},
+		removeAssignment: async (userId, assignmentId) =>
+		{
+			const res = await apiFetch(`/api/admin/users/${userId}/roles/${assignmentId}`, { method: 'DELETE' });
+			if (!res.ok) throw new Error(await res.text());
+		}
+	}), [apiFetch]);
+
+	// Personal permission overrides; the users list carries them, so each change is reflected there
+	const overridesApi = useMemo<PermissionOverridesApi>(() => ({
+		listPermissions: async () =>
+		{
+			const res = await apiFetch(`/api/admin/permissions/catalog`);
+			if (!res.ok) throw new Error(await res.text());
+			return ((await res.json()) as { permissions: string[] }).permissions || [];
+		},
+		setOverride: async (userId, override) =>
+		{
+			const res = await apiFetch(`/api/admin/users/${userId}/overrides`, { method: 'PUT', body: JSON.stringify(override) });
+			if (!res.ok) throw new Error((await res.json().catch(() => null))?.error || 'Failed to save override');
+			const saved = ((await res.json()) as { override: PermissionOverride }).override;
+			setUsers((prev) => prev.map((u) => (u.id === userId
+				? { ...u, overrides: [...(u.overrides || []).filter((o) => o.id !== saved.id), saved].sort((a, b) => a.permission.localeCompare(b.permission)) }
+				: u)));
+			return saved;
+		},
+		removeOverride: async (userId, overrideId) =>
+		{
+			const res = await apiFetch(`/api/admin/users/${userId}/overrides/${overrideId}`, { method: 'DELETE' });
+			if (!res.ok) throw new Error((await res.json().catch(() => null))?.error || 'Failed to remove override');
+			setUsers((prev) => prev.map((u) => (u.id === userId ? { ...u, overrides: (u.overrides || []).filter((o) => o.id !== overrideId) } : u)));
+		}
+	}), [apiFetch]);
+
 	// Admin UI Access (for admin role) API helpers
 	const fetchAdminAccess = async (): Promise<{ enabled: boolean }> =>
 	{
@@ -227,23 +289,31 @@ export function Admin({ port }: { port: number | null })
 		return res.json();
 	};
 
-	const setAdminAccess = async (enabled: boolean): Promise<{ enabled: boolean }> =>
+	const setAdminAccess = async (enabled: boolean): Promise<{ enabled: boolean; pending?: boolean }> =>
 	{
 		const res = await apiFetch(`/api/admin/permissions/admin-access`, {
 			method: 'PUT',
 			body: JSON.stringify({ enabled })
 		});
 		if (!res.ok) throw new Error(await res.text());
+		if (await heldForApproval(res)) return { enabled, pending: true };
 		return res.json();
 	};
 
+	// A bundle import can touch any role, so the list is fetched again afterwards
+	const reloadRoles = async () =>
+	{
+		const res = await apiFetch(`/api/admin/roles`);
+		if (res.ok) setRoles(((await res.json()) as { roles: Role[] }).roles || []);
+	};
+
 	// Roles CRUD (owner only for mutations)
-	const createRole = async (payload: { name: string; description?: string; permissions?: string[] }) =>
+	const createRole = async (payload: { name: string; description?: string; parentRole?: string | null; permissions?: string[] }) =>
 	{
 		setError(null);
 		const res = await apiFetch(`/api/admin/roles`, {
 			method: 'POST',
-			body: JSON.stringify({ name: payload.name, description: payload.description })
+			body: JSON.stringify({ name: payload.name, description: payload.description, parentRole: payload.parentRole || undefined })
 		});
 		if (!res.ok) throw new Error(await res.text());
 		const data = (await res.json()) as { role: Role };
@@ -258,7 +328,7 @@ export function Admin({ port }: { port: number | null })
 		}
 	};
 
-	const updateRole = async (name: string, patch: { name?: string; description?: string }) =>
+	const updateRole = async (name: string, patch: { name?: string; description?: string; parentRole?: string | null }) =>
 	{
 		setError(null);
 		const res = await apiFetch(`/api/admin/roles/${encodeURIComponent(name)}`, {
@@ -267,7 +337,10 @@ export function Admin({ port }: { port: number | null })
 		});
 		if (!res.ok) throw new Error(await res.text());
 		const data = (await res.json()) as { role: Role };
-		setRoles((prev) => prev.map((r) => (r.id === data.role.id ? data.role : r)).sort((a, b) => Number(b.isSystem) - Number(a.isSystem) || a.name.localeCompare(b.name)));
+		// A rename is carried over to roles that extend this one
+		setRoles((prev) => prev
+			.map((r) => (r.id === data.role.id ? data.role : r.parentRole === name ? { ...r, parentRole: data.role.name } : r))
+			.sort((a, b) => Number(b.isSystem) - Number(a.isSystem) || a.name.localeCompare(b.name)));
 	};
 
 	const deleteRole = async (name: string) =>
@@ -275,26 +348,39 @@ export function Admin({ port }: { port: number | null })
 		if (!confirm('Delete this role? Users assigned to it must be reassigned first.')) return;
 		const res = await apiFetch(`/api/admin/roles/${encodeURIComponent(name)}`, { method: 'DELETE' });
 		if (!res.ok) throw new Error(await res.text());
+		if (await heldForApproval(res)) return;
 		setRoles((prev) => prev.filter((r) => r.name !== name));
 	};
 
-	const fetchRolePermissions = async (name: string): Promise<RolePermissionsResponse> =>
+	const fetchRolePermissions = async (name: string, organizationId?: string | null): Promise<RolePermissionsResponse> =>
 	{
-		const res = await apiFetch(`/api/admin/roles/${encodeURIComponent(name)}/permissions`);
+		const query = organizationId ? `?organizationId=${encodeURIComponent(organizationId)}` : '';
+		const res = await apiFetch(`/api/admin/roles/${encodeURIComponent(name)}/permissions${query}`);
 		if (!res.ok) throw new Error(await res.text());
 		return res.json();
 	};
 
-	const setRolePermission = async (name: string, permission: string, enabled: boolean): Promise<{ role: string; permission: string; enabled: boolean }> =>
+	const setRolePermission = async (name: string, permission: string, enabled: boolean, organizationId?: string | null): Promise<{ role: string; permission: string; enabled: boolean; pending?: boolean }> =>
 	{
 		const res = await apiFetch(`/api/admin/roles/${encodeURIComponent(name)}/permissions/${encodeURIComponent(permission)}`, {
 			method: 'PUT',
-			body: JSON.stringify({ enabled })
+			body: JSON.stringify({ enabled, organizationId: organizationId || null })
 		});
-		if (!res.ok) throw new Error(await res.text());
+		// Enabling a permission whose requirements the role lacks, or disabling one that others still require, is
+		// refused with a readable reason
+		if (!res.ok) throw new Error((await res.json().catch(() => null))?.error || 'Failed to update permission');
+		if (await heldForApproval(res)) return { role: name, permission, enabled, pending: true };
 		return res.json();
 	};
 
+	const clearRolePermission = async (name: string, permission: string, organizationId?: string | null): Promise<void> =>
+	{
+		const query = organizationId ? `?organizationId=${encodeURIComponent(organizationId)}` : '';
+		const res = await apiFetch(`/api/admin/roles/${encodeURIComponent(name)}/permissions/${encodeURIComponent(permission)}${query}`, { method: 'DELETE' });
+		if (!res.ok) throw new Error(await res.text());
+		await heldForApproval(res);
+	};
+
 	return (
 		<section className="bg-surface-token rounded-3xl p-6 border border-subtle backdrop-blur">
 			<SectionHeader
@@ -347,39 +433,143 @@ export function Admin({ port }: { port: number | null })
 								Categories
 							</Button>
 						</span>
+						{canViewOrganizations && (
+							<span ref={orgsRef} className="relative">
+								<Button
+									size="sm"
+									className={[
+										'relative z-10 flex-1 bg-transparent hover:bg-transparent u-tabs-chip-btn',
+										activeTab === 'organizations' ? 'u-tabs-chip-btn--active' : ''
+									].join(' ')}
+									aria-selected={activeTab === 'organizations'}
+									onClick={() => setActiveTab('organizations')}
+								>
+									Organizations
+								</Button>
+							</span>
+						)}
+						{canViewOrganizations && (
+							<span ref={workflowsRef} className="relative">
+								<Button
+									size="sm"
+									className={[
+										'relative z-10 flex-1 bg-transparent hover:bg-transparent u-tabs-chip-btn',
+										activeTab === 'workflows' ? 'u-tabs-chip-btn--active' : ''
+									].join(' ')}
+									aria-selected={activeTab === 'workflows'}
+									onClick={() => setActiveTab('workflows')}
+								>
+									Workflows
+								</Button>
+							</span>
+						)}
+						{canViewPolicies && (
+							<span ref={policiesRef} className="relative">
+								<Button
+									size="sm"
+									className={[
+										'relative z-10 flex-1 bg-transparent hover:bg-transparent u-tabs-chip-btn',
+										activeTab === 'policies' ? 'u-tabs-chip-btn--active' : ''
+									].join(' ')}
+									aria-selected={activeTab === 'policies'}
+									onClick={() => setActiveTab('policies')}
+								>
+									Policies
+								</Button>
+							</span>
+						)}
+						{canViewRoles && (
+							<span ref={grantsRef} className="relative">
+								<Button
+									size="sm"
+									className={[
+										'relative z-10 flex-1 bg-transparent hover:bg-transparent u-tabs-chip-btn',
+										activeTab === 'grants' ? 'u-tabs-chip-btn--active' : ''
+									].join(' ')}
+									aria-selected={activeTab === 'grants'}
+									onClick={() => setActiveTab('grants')}
+								>
+									Grants
+								</Button>
+							</span>
+						)}
+						<span ref={approvalsRef} className="relative">
+							<Button
+								size="sm"
+								className={[
+									'relative z-10 flex-1 bg-transparent hover:bg-transparent u-tabs-chip-btn',
+									activeTab === 'approvals' ? 'u-tabs-chip-btn--active' : ''
+								].join(' ')}
+								aria-selected={activeTab === 'approvals'}
+								onClick={() => setActiveTab('approvals')}
+							>
+								Approvals
+							</Button>
+						</span>
+						{canViewRoles && (
+							<span ref={explainRef} className="relative">
+								<Button
+									size="sm"
+									className={[
+										'relative z-10 flex-1 bg-transparent hover:bg-transparent u-tabs-chip-btn',
+										activeTab === 'explain' ? 'u-tabs-chip-btn--active' : ''
+									].join(' ')}
+									aria-selected={activeTab === 'explain'}
+									onClick={() => setActiveTab('explain')}
+								>
+									Explain
+								</Button>
+							</span>
+						)}
 					</div>
 				}
 			/>
 			{error && <div className="mt-3 rounded-xl border border-red-500/30 bg-red-500/10 px-3 py-2 text-sm text-red-200">{error}</div>}
+			{notice && (
+				<div className="mt-3 flex items-center justify-between gap-3 rounded-xl border border-amber-500/30 bg-amber-500/10 px-3 py-2 text-sm text-amber-200">
+					<span>{notice}</span>
+					<div className="flex shrink-0 gap-2">
+						<Button size="sm" variant="pill" onClick={() => { setActiveTab('approvals'); setNotice(null); }}>View</Button>
+						<Button size="sm" variant="pill" onClick={() => setNotice(null)}>Dismiss</Button>
+					</div>
+				</div>
+			)}
 			{activeTab === 'users' && (
 				<UsersTab
 					users={users}
 					rolesCatalog={roles}
+					organizations={scopeOrganizations}
 					canManage={canManageUsers}
 					canCreate={canCreateUsers}
+					canOverride={can('users:permissions:override')}
+					isOwnerActor={isOwner}
 					onCreate={onCreate}
 					onUpdate={onUpdate}
 					onDelete={onDelete}
+					assignmentsApi={assignmentsApi}
+					overridesApi={overridesApi}
 					loading={loading}
 				/>
 			)}
 			{activeTab === 'roles' && (
 				<RolesTab
 					roles={roles}
-					canEdit={user?.role === 'owner' || canUpdateRoles || canCreateRoles || canDeleteRoles}
-					canCreate={canCreateRoles || user?.role === 'owner'}
-					canUpdate={canUpdateRoles || user?.role === 'owner'}
-					canDelete={canDeleteRoles || user?.role === 'owner'}
-					isOwnerActor={user?.role === 'owner'}
+					canEdit={canUpdateRoles || canCreateRoles || canDeleteRoles}
+					canCreate={canCreateRoles}
+					canUpdate={canUpdateRoles}
+					canDelete={canDeleteRoles}
+					isOwnerActor={isOwner}
 					onCreate={createRole}
 					onUpdate={updateRole}
 					onDelete={deleteRole}
 					onOpenPermissions={(name: string) => setPermEditorRole(name)}
-					permissionsApi={{ fetchRolePermissions, setRolePermission, fetchAdminAccess, setAdminAccess }}
+					organizations={scopeOrganizations}
+					permissionsApi={{ fetchRolePermissions, setRolePermission, clearRolePermission, fetchAdminAccess, setAdminAccess }}
 					activePermRole={permEditorRole}
 					onClosePermissions={() => setPermEditorRole(null)}
 				/>
 			)}
+			{activeTab === 'roles' && canViewRoles && <PolicyBundleCard canImport={isOwner} onApplied={reloadRoles} />}
 			{activeTab === 'categories' && (
 				<CategoriesTab
 					categories={categories}
@@ -392,6 +582,34 @@ export function Admin({ port }: { port: number | null })
 					setError={setCatError}
 				/>
 			)}
+			{activeTab === 'organizations' && canViewOrganizations && (
+				<OrganizationsTab
+					canCreate={can('organizations:create')}
+					canCreateRoot={isOwner}
+					canUpdate={can('organizations:update')}
+					canDelete={can('organizations:delete')}
+				/>
+			)}
+			{activeTab === 'workflows' && canViewOrganizations && (
+				<WorkflowsTab organizations={scopeOrganizations} canManage={can('workflows:manage')} />
+			)}
+			{activeTab === 'policies' && canViewPolicies && (
+				<PoliciesTab organizations={scopeOrganizations} canManage={can('policies:manage')} isOwnerActor={isOwner} />
+			)}
+			{activeTab === 'grants' && canViewRoles && (
+				<GrantsTab
+					users={users}
+					roles={roles}
+					organizations={scopeOrganizations}
+					isOwnerActor={isOwner}
+					canDelegate={can('permissions:delegate')}
+					canManageDelegations={can('delegations:manage')}
+				/>
+			)}
+			{activeTab === 'approvals' && <ApprovalsTab />}
+			{activeTab === 'explain' && canViewRoles && (
+				<PermissionExplainTab users={users} roles={roles} organizations={scopeOrganizations} />
+			)}
 		</section>
 	);
 }
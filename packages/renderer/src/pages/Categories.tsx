@@ -1,9 +1,11 @@
 import { useEffect, useMemo, useState } from 'react';
 import { useAuth } from '../context/AuthContext';
+import { usePermissions } from '../context/PermissionsContext';
 
 export default function Categories({ port }: { port: number | null })
 {
-	const { apiFetch, user } = useAuth();
+	const { apiFetch } = useAuth();
+	const { can } = usePermissions();
 	const base = port ? `http://localhost:${port}` : '';
 
 	const [items, setItems] = useState<Array<{ id: string; organizationId: string; name: string; createdAt: number }>>([]);
@@ -12,7 +14,7 @@ export default function Categories({ port }: { port: number | null })
 	const [draft, setDraft] = useState<string>('');
 	const [editingId, setEditingId] = useState<string | null>(null);
 	const [editName, setEditName] = useState<string>('');
-	const [canManage, setCanManage] = useState<boolean>(false);
+	const canManage = can('categories:manage');
 
 	useEffect(() =>
 	{
@@ -22,22 +24,10 @@ export default function Categories({ port }: { port: number | null })
 			try
 			{
 				setLoading(true);
-				const [listRes, permsRes] = await Promise.all([
-					apiFetch(`${base}/api/categories`),
-					apiFetch(`${base}/api/admin/roles/${user?.role}/permissions`)
-				]);
+				const listRes = await apiFetch(`${base}/api/categories`);
 				if (!listRes.ok) throw new Error('Failed to load categories');
 				const data = await listRes.json();
 				if (!cancelled) setItems(data.categories || []);
-				if (permsRes.ok)
-				{
-					const pdata = await permsRes.json();
-					const p = (pdata.permissions || []).find((x: any) => x.permission === 'categories:manage');
-					if (!cancelled) setCanManage(Boolean(p?.enabled));
-				} else
-				{
-					setCanManage(false);
-				}
 			} catch (e: any)
 			{
 				if (!cancelled) setError(e.message || 'Error');
@@ -48,7 +38,7 @@ export default function Categories({ port }: { port: number | null })
 		}
 		load();
 		return () => { cancelled = true; };
-	}, [apiFetch, base, user?.role]);
+	}, [apiFetch, base]);
 
 	async function createCategory()
 	{
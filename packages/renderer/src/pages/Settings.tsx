@@ -74,6 +74,12 @@ export function Settings({ port }: SettingsProps)
 			{
 				throw new Error(await response.text());
 			}
+			// Four-eyes mode: nothing is written until another administrator approves the change
+			if (response.status === 202)
+			{
+				setMessage('Sent for approval. The settings change once another administrator approves it in Admin → Approvals.');
+				return;
+			}
 			const data = await response.json();
 			setSettings(data.settings ?? settings);
 			setSystemKeys(data.systemKeys || systemKeys);
@@ -1,8 +1,16 @@
 import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
-import { MdDragIndicator, MdEdit, MdDelete } from 'react-icons/md';
+import { MdAttachFile, MdBlock, MdChatBubbleOutline, MdChecklist, MdDragIndicator, MdEdit, MdDelete, MdEvent, MdLock, MdRepeat, MdShare, MdSubdirectoryArrowRight, MdWarning } from 'react-icons/md';
 import { Button } from '../components/UI';
 import Dropdown from '../components/Dropdown';
+import TaskShareDialog from '../components/TaskShareDialog';
+import TaskChecklist, { rollupProgress, type TaskProgress } from '../components/TaskChecklist';
+import TaskDrawer from '../components/TaskDrawer';
+import TaskBulkBar, { type BulkFailure, type BulkRequest } from '../components/TaskBulkBar';
+import { uploadAttachment } from '../components/TaskAttachments';
+import { DEFAULT_WORKFLOW, transitionFor, type Workflow, type WorkflowStatus } from '../components/WorkflowsTab';
+import RecurrenceEditor, { describeRecurrence, needsDueDate, type RecurrenceRule } from '../components/RecurrenceEditor';
 import { useAuth } from '../context/AuthContext';
+import { usePermissions } from '../context/PermissionsContext';
 
 type Task = {
 	id: string;
@@ -10,21 +18,84 @@ type Task = {
 	title: string;
 	description: string | null;
 	status: string;
+	// In a terminal status of its workflow
+	closed?: boolean;
 	category: string;
 	priority: string;
 	dueDate: number | null;
 	position: number;
+	// Board order: tasks sort by this key
+	rank: string;
 	createdBy: string;
 	createdByName?: string | null;
 	assignedTo: string | null;
 	assignedToName?: string | null;
+	parentTaskId?: string | null;
+	recurrence?: RecurrenceRule | null;
+	seriesId?: string | null;
+	progress?: TaskProgress;
+	commentCount?: number;
+	attachmentCount?: number;
+	// Open tasks blocking this one; it can't be completed before they are without tasks:dependencies:override
+	openBlockerCount?: number;
 	createdAt: number;
 	updatedAt: number;
+	restricted?: boolean;
+	access?: 'view' | 'edit';
+	permissions?: { update: boolean; delete: boolean; fields: string[] };
+};
+
+// Permission guarding each field the board can change (the server reports per task which ones apply)
+const FIELD_PERMISSIONS: Record<string, string> = {
+	title: 'tasks:update:title',
+	description: 'tasks:update:description',
+	status: 'tasks:update:status',
+	dueDate: 'tasks:update:due-date',
+	recurrence: 'tasks:update:recurrence',
+	category: 'tasks:update:category',
+	priority: 'tasks:update:priority',
+	assignedTo: 'tasks:update:assignee'
+};
+
+// Fields the board can group rows by; dropping a card in another lane changes the field
+const SWIMLANES = { assignedTo: 'Assignee', priority: 'Priority', category: 'Category' } as const;
+type SwimlaneField = keyof typeof SWIMLANES;
+type Swimlane = { key: string; label: string; value: string | null };
+const PRIORITIES = ['high', 'medium', 'low'];
+const SWIMLANE_STORAGE_KEY = 'tasks.swimlanes';
+
+// Orders the server lists tasks in; cards keep it within each column. Only the board order can be changed by dragging.
+const SORTS = [
+	{ label: 'Board order', value: 'rank' },
+	{ label: 'Priority', value: 'priority' },
+	{ label: 'Newest first', value: 'createdAt' },
+	{ label: 'Recently updated', value: 'updatedAt' },
+	{ label: 'Due date', value: 'dueDate' },
+	{ label: 'Title', value: 'title' }
+];
+const SORT_STORAGE_KEY = 'tasks.sort';
+const PAGE_SIZE = 100;
+
+type EditDraft = { title: string; description: string; dueDate: number | null; recurrence: RecurrenceRule | null };
+
+// Due dates are edited as local calendar days and stored as that day's local midnight
+const toDateInput = (seconds: number | null) =>
+{
+	if (!seconds) return '';
+	const d = new Date(seconds * 1000);
+	return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+const fromDateInput = (value: string) =>
+{
+	if (!value) return null;
+	const [year, month, day] = value.split('-').map(Number);
+	return Math.floor(new Date(year, month - 1, day).getTime() / 1000);
 };
 
 export function Tasks({ port }: { port: number | null })
 {
 	const { apiFetch, user } = useAuth();
+	const { can } = usePermissions();
 	const base = port ? `http://localhost:${port}` : '';
 
 	const DEBUG_DRAG = true;
@@ -40,13 +111,44 @@ export function Tasks({ port }: { port: number | null })
 	const [categories, setCategories] = useState<string[]>([]);
 	const [categoriesLoading, setCategoriesLoading] = useState<boolean>(false);
 	const [categoriesError, setCategoriesError] = useState<string | null>(null);
+	// Workflow of each organization in scope; the board has a column per status
+	const [workflows, setWorkflows] = useState<Workflow[]>([]);
 	const [filters, setFilters] = useState({ status: '', category: '', search: '' });
 	const [creating, setCreating] = useState({ title: '', category: 'Work' });
 	const [editingId, setEditingId] = useState<string | null>(null);
-	const [editDraft, setEditDraft] = useState<{ title: string; description: string }>({ title: '', description: '' });
+	const [editDraft, setEditDraft] = useState<EditDraft>({ title: '', description: '', dueDate: null, recurrence: null });
 	const [draggingId, setDraggingId] = useState<string | null>(null);
 	const [dragOverCol, setDragOverCol] = useState<string | null>(null);
+	const [dragOverLane, setDragOverLane] = useState<string | null>(null);
+	const [swimlane, setSwimlane] = useState<SwimlaneField | ''>(() =>
+	{
+		const saved = localStorage.getItem(SWIMLANE_STORAGE_KEY);
+		return saved && saved in SWIMLANES ? (saved as SwimlaneField) : '';
+	});
+	const [sort, setSort] = useState(() =>
+	{
+		const saved = localStorage.getItem(SORT_STORAGE_KEY);
+		return saved && SORTS.some((o) => o.value === saved) ? saved : 'rank';
+	});
+	// Where the next page of tasks starts (null once all are loaded); loading a fresh list bumps listRequestRef so
+	// pages of an older list are dropped
+	const [nextCursor, setNextCursor] = useState<string | null>(null);
+	const [loadingMore, setLoadingMore] = useState(false);
+	const listRequestRef = useRef(0);
+	const loadMoreRef = useRef<HTMLDivElement | null>(null);
 	const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
+	const [sharingTask, setSharingTask] = useState<Task | null>(null);
+	const [detailTaskId, setDetailTaskId] = useState<string | null>(null);
+	const detailTask = detailTaskId ? tasks.find((t) => t.id === detailTaskId) : undefined;
+	// Card files are being dragged over, and cards with uploads in flight
+	const [fileDropId, setFileDropId] = useState<string | null>(null);
+	const [uploadingIds, setUploadingIds] = useState<string[]>([]);
+	// Cards picked with ctrl/cmd-click (one at a time) or shift-click (a range from the last one picked) for the bulk bar
+	const [selectedIds, setSelectedIds] = useState<string[]>([]);
+	const selectionAnchorRef = useRef<string | null>(null);
+	const [bulkBusy, setBulkBusy] = useState(false);
+	const [bulkFailures, setBulkFailures] = useState<BulkFailure[]>([]);
+	const [organizations, setOrganizations] = useState<{ id: string; name: string }[]>([]);
 	const dragOverIndexRef = useRef<number | null>(null);
 	const [isDragging, setIsDragging] = useState(false);
 	const isDraggingRef = useRef(false);
@@ -76,35 +178,132 @@ export function Tasks({ port }: { port: number | null })
 		debugLog('state change: editingId ->', editingId);
 	}, [editingId]);
 
+	const workflowFor = useCallback((organizationId: string | null | undefined) =>
+		workflows.find((w) => w.organizationId === organizationId)
+		|| workflows.find((w) => w.organizationId === user?.organizationId)
+		|| DEFAULT_WORKFLOW, [workflows, user?.organizationId]);
+
+	// The statuses of the user's organization first, then those of other workflows the tasks use, then any status
+	// no workflow knows (left over from an earlier workflow) so no task is hidden
+	const columns = useMemo(() =>
+	{
+		const list: WorkflowStatus[] = [...workflowFor(user?.organizationId).statuses];
+		const used = new Set(tasks.map((t) => t.status));
+		for (const workflow of workflows)
+		{
+			for (const status of workflow.statuses)
+			{
+				if (used.has(status.key) && !list.some((c) => c.key === status.key)) list.push(status);
+			}
+		}
+		for (const t of tasks)
+		{
+			if (!list.some((c) => c.key === t.status)) list.push({ key: t.status, label: t.status, color: '#64748b', terminal: Boolean(t.closed) });
+		}
+		return list;
+	}, [tasks, workflows, workflowFor, user?.organizationId]);
+
 	const grouped = useMemo(() =>
 	{
-		const cols: Record<string, Task[]> = { todo: [], in_progress: [], done: [] };
+		const cols: Record<string, Task[]> = Object.fromEntries(columns.map((c) => [c.key, [] as Task[]]));
 		for (const t of tasks)
 		{
-			const key = (t.status || 'todo') as keyof typeof cols;
-			if (!cols[key]) cols[key] = [] as any;
-			cols[key].push(t);
+			if (!cols[t.status]) cols[t.status] = [];
+			cols[t.status].push(t);
 		}
-		Object.values(cols).forEach((arr) => arr.sort((a, b) => a.position - b.position));
+		if (sort === 'rank') Object.values(cols).forEach((arr) => arr.sort((a, b) => (a.rank < b.rank ? -1 : a.rank > b.rank ? 1 : 0)));
 		return cols;
-	}, [tasks]);
+	}, [tasks, columns, sort]);
+
+	useEffect(() =>
+	{
+		localStorage.setItem(SWIMLANE_STORAGE_KEY, swimlane);
+	}, [swimlane]);
+
+	useEffect(() =>
+	{
+		localStorage.setItem(SORT_STORAGE_KEY, sort);
+	}, [sort]);
+
+	const laneKeyOf = (task: Task) => (swimlane ? String(task[swimlane] ?? '') : '');
+
+	// Every value the tasks use, plus the ones a card can be dropped into: unassigned, the usual priorities and the
+	// known categories
+	const lanes = useMemo<Swimlane[]>(() =>
+	{
+		if (swimlane === 'assignedTo')
+		{
+			const names = new Map<string, string>();
+			for (const t of tasks) if (t.assignedTo) names.set(t.assignedTo, t.assignedToName || 'Unknown user');
+			const people = Array.from(names, ([id, name]) => ({ key: id, label: name, value: id })).sort((a, b) => a.label.localeCompare(b.label));
+			return [{ key: '', label: 'Unassigned', value: null }, ...people];
+		}
+		if (swimlane === 'priority')
+		{
+			const values = [...PRIORITIES, ...tasks.map((t) => t.priority).filter((v) => v && !PRIORITIES.includes(v))];
+			return Array.from(new Set(values), (v) => ({ key: v, label: v.charAt(0).toUpperCase() + v.slice(1), value: v }));
+		}
+		if (swimlane === 'category')
+		{
+			return Array.from(new Set([...categories, ...tasks.map((t) => t.category)]), (v) => ({ key: v, label: v, value: v }));
+		}
+		return [];
+	}, [swimlane, tasks, categories]);
+
+	// Cards in the order shift-click ranges run: down each column, lane by lane
+	const boardOrder = useMemo(() =>
+	{
+		const cells = swimlane ? lanes.flatMap((lane) => columns.map((c) => (grouped[c.key] || []).filter((t) => laneKeyOf(t) === lane.key))) : columns.map((c) => grouped[c.key] || []);
+		return cells.flat();
+	}, [swimlane, lanes, columns, grouped]);
+
+	const selected = useMemo(() => tasks.filter((t) => selectedIds.includes(t.id)), [tasks, selectedIds]);
+
+	// People the bulk bar can assign tasks to: the user and whoever has tasks on the board
+	const assigneeOptions = useMemo(() =>
+	{
+		const names = new Map<string, string>();
+		if (user) names.set(user.id, user.name);
+		for (const t of tasks) if (t.assignedTo) names.set(t.assignedTo, t.assignedToName || 'Unknown user');
+		return Array.from(names, ([value, label]) => ({ label, value })).sort((a, b) => a.label.localeCompare(b.label));
+	}, [tasks, user]);
+
+	useEffect(() =>
+	{
+		if (selectedIds.length === 0) return;
+		const onKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape') clearSelection(); };
+		document.addEventListener('keydown', onKeyDown);
+		return () => document.removeEventListener('keydown', onKeyDown);
+	}, [selectedIds.length]);
+
+	// The fullest organization in a column against its WIP limit (limits count each organization's tasks separately)
+	const wipLoad = (column: WorkflowStatus) =>
+	{
+		const counts = new Map<string, number>();
+		for (const t of grouped[column.key] || []) counts.set(t.organizationId, (counts.get(t.organizationId) || 0) + 1);
+		if (user?.organizationId && !counts.has(user.organizationId)) counts.set(user.organizationId, 0);
+		let load: { count: number; limit: number } | null = null;
+		for (const [organizationId, count] of counts)
+		{
+			const limit = workflowFor(organizationId).statuses.find((st) => st.key === column.key)?.wipLimit;
+			if (limit && (!load || count / limit > load.count / load.limit)) load = { count, limit };
+		}
+		return load;
+	};
 
 	useEffect(() =>
 	{
 		if (!port) return;
+		const request = ++listRequestRef.current;
 		(async () =>
 		{
 			setLoading(true);
 			try
 			{
-				const qs = new URLSearchParams();
-				if (filters.status) qs.set('status', filters.status);
-				if (filters.category) qs.set('category', filters.category);
-				if (filters.search) qs.set('search', filters.search);
-				const res = await apiFetch(`/api/tasks?${qs.toString()}`, { baseUrl: base });
-				if (!res.ok) throw new Error(await res.text());
-				const data = (await res.json()) as { tasks: Task[] };
+				const data = await fetchTaskPage(null);
+				if (request !== listRequestRef.current) return;
 				setTasks(data.tasks || []);
+				setNextCursor(data.nextCursor);
 			} catch (err)
 			{
 				setError((err as Error).message);
@@ -113,7 +312,69 @@ export function Tasks({ port }: { port: number | null })
 				setLoading(false);
 			}
 		})();
-	}, [port, base, apiFetch, filters]);
+	}, [port, base, apiFetch, filters, sort]);
+
+	async function fetchTaskPage(cursor: string | null)
+	{
+		const qs = new URLSearchParams({ sort, limit: String(PAGE_SIZE) });
+		if (filters.status) qs.set('status', filters.status);
+		if (filters.category) qs.set('category', filters.category);
+		if (filters.search) qs.set('search', filters.search);
+		if (cursor) qs.set('cursor', cursor);
+		const res = await apiFetch(`/api/tasks?${qs.toString()}`, { baseUrl: base });
+		if (!res.ok) throw new Error(await res.text());
+		return (await res.json()) as { tasks: Task[]; nextCursor: string | null };
+	}
+
+	// Appends the next page; tasks already on the board (added or moved here meanwhile) are not repeated
+	const loadMore = useCallback(async () =>
+	{
+		if (!nextCursor || loadingMore) return;
+		const request = listRequestRef.current;
+		setLoadingMore(true);
+		try
+		{
+			const data = await fetchTaskPage(nextCursor);
+			if (request !== listRequestRef.current) return;
+			setTasks((list) =>
+			{
+				const known = new Set(list.map((t) => t.id));
+				return [...list, ...(data.tasks || []).filter((t) => !known.has(t.id))];
+			});
+			setNextCursor(data.nextCursor);
+		}
+		catch (err)
+		{
+			setError((err as Error).message);
+		}
+		finally
+		{
+			setLoadingMore(false);
+		}
+	}, [nextCursor, loadingMore, sort, filters, apiFetch, base]);
+
+	// The next page loads as the end of the board scrolls into view
+	useEffect(() =>
+	{
+		const sentinel = loadMoreRef.current;
+		if (!sentinel || !nextCursor) return;
+		const observer = new IntersectionObserver((entries) => { if (entries.some((e) => e.isIntersecting)) void loadMore(); }, { rootMargin: '400px' });
+		observer.observe(sentinel);
+		return () => observer.disconnect();
+	}, [nextCursor, loadMore]);
+
+	useEffect(() =>
+	{
+		if (!port) return;
+		apiFetch('/api/workflows', { baseUrl: base })
+			.then((res) => (res.ok ? res.json() : { workflows: [] }))
+			.then((data: { workflows: Workflow[] }) => setWorkflows(data.workflows || []))
+			.catch(() => setWorkflows([]));
+		apiFetch('/api/organizations', { baseUrl: base })
+			.then((res) => (res.ok ? res.json() : { organizations: [] }))
+			.then((data: { organizations: { id: string; name: string }[] }) => setOrganizations((data.organizations || []).map((o) => ({ id: o.id, name: o.name }))))
+			.catch(() => setOrganizations([]));
+	}, [port, base, apiFetch]);
 
 	// Fetch categories list
 	const loadCategories = useCallback(async () =>
@@ -146,56 +407,16 @@ export function Tasks({ port }: { port: number | null })
 
 	useEffect(() => { loadCategories(); }, [loadCategories]);
 
-	const [canCreateTasks, setCanCreateTasks] = useState<boolean>(false);
-	const canDrag = canCreateTasks; // treat non-creators as read-only for drag
-	const canDelete = user?.role === 'owner';
-	const [canUpdateTasks, setCanUpdateTasks] = useState<boolean>(false);
-
-	// Determine permissions for creating/updating tasks (tasks:create, tasks:update)
-	useEffect(() =>
-	{
-		let ignore = false;
-		(async () =>
-		{
-			if (!user) { if (!ignore) { setCanUpdateTasks(false); setCanCreateTasks(false); } return; }
-			if (user.role === 'owner') { if (!ignore) { setCanUpdateTasks(true); setCanCreateTasks(true); } return; }
-			try
-			{
-				const res = await apiFetch(`/api/admin/roles/${user.role}/permissions`).catch(() => null);
-				if (res && res.ok)
-				{
-					const data = await res.json();
-					const pList = data.permissions || [];
-					const upd = pList.find((p: any) => p.permission === 'tasks:update');
-					const crt = pList.find((p: any) => p.permission === 'tasks:create');
-					if (!ignore)
-					{
-						setCanUpdateTasks(Boolean(upd?.enabled));
-						// For admin default semantics: if unspecified and role is admin treat as enabled (handled below fallback as well)
-						setCanCreateTasks(Boolean(crt?.enabled));
-					}
-				} else
-				{
-					// Fallback heuristic: admins default to enabled unless explicitly disabled server-side (which we couldn't fetch)
-					if (!ignore)
-					{
-						const isAdmin = user.role === 'admin';
-						setCanUpdateTasks(isAdmin);
-						setCanCreateTasks(isAdmin);
-					}
-				}
-			} catch (_e)
-			{
-				if (!ignore)
-				{
-					const isAdmin = user.role === 'admin';
-					setCanUpdateTasks(isAdmin);
-					setCanCreateTasks(isAdmin);
-				}
-			}
-		})();
-		return () => { ignore = true; };
-	}, [apiFetch, user]);
+	const canCreateTasks = can('tasks:create');
+	const canDelete = can('tasks:delete');
+	const canUpdateTasks = can('tasks:update');
+	// Per task: read-only shares never change, and the server reports where policies widen or narrow the role
+	const taskAllows = (task: Task, action: 'update' | 'delete') =>
+		task.access !== 'view' && (task.permissions ? task.permissions[action] : action === 'update' ? canUpdateTasks : canDelete);
+	const fieldAllowed = (task: Task, field: string) =>
+		task.permissions ? task.permissions.fields.includes(field) : can(FIELD_PERMISSIONS[field]);
+	// Dragging changes status and order
+	const canMoveTask = (task: Task) => taskAllows(task, 'update') && fieldAllowed(task, 'status');
 
 	async function createTask()
 	{
@@ -217,19 +438,211 @@ export function Tasks({ port }: { port: number | null })
 		}
 	}
 
+	async function createSubtask(parent: Task, title: string)
+	{
+		const res = await apiFetch('/api/tasks', { baseUrl: base, method: 'POST', body: JSON.stringify({ title, parentTaskId: parent.id }) });
+		if (!res.ok) throw new Error((await res.json().catch(() => null))?.error || 'Failed to add subtask');
+		const data = (await res.json()) as { task: Task };
+		setTasks((prev) => [...adjustSubtaskRollup(prev, parent.id, 0, 1), data.task]);
+	}
+
+	// Keeps a parent's subtask counts in step with changes made on the board
+	function adjustSubtaskRollup(list: Task[], parentId: string | null | undefined, doneDelta: number, totalDelta: number)
+	{
+		if (!parentId || (doneDelta === 0 && totalDelta === 0)) return list;
+		return list.map((t) =>
+		{
+			if (t.id !== parentId) return t;
+			const subtasks = t.progress?.subtasks || { done: 0, total: 0 };
+			return { ...t, progress: rollupProgress(t.progress, { subtasks: { done: subtasks.done + doneDelta, total: subtasks.total + totalDelta } }) };
+		});
+	}
+
 	async function updateTask(id: string, patch: Partial<Task>)
 	{
 		const res = await apiFetch(`/api/tasks/${id}`, { baseUrl: base, method: 'PUT', body: JSON.stringify(patch) });
 		if (!res.ok) throw new Error(await res.text());
+		const data = (await res.json()) as { task: Task; nextOccurrence?: Task };
+		setTasks((prev) => mergeUpdatedTask(prev, data.task, data.nextOccurrence));
+		if ('status' in patch) void refreshBlockers(id);
+	}
+
+	// Single-task responses carry no permissions; keep the ones from the list. Completing a recurring task returns
+	// the occurrence that replaces it, which takes over the same permissions.
+	function mergeUpdatedTask(list: Task[], task: Task, nextOccurrence?: Task)
+	{
+		const before = list.find((t) => t.id === task.id);
+		const doneDelta = before ? Number(Boolean(task.closed)) - Number(Boolean(before.closed)) : 0;
+		const next = adjustSubtaskRollup(list, task.parentTaskId, doneDelta, 0).map((t) => (t.id === task.id ? { permissions: t.permissions, ...task } : t));
+		return nextOccurrence ? [...next, { permissions: before?.permissions, ...nextOccurrence }] : next;
+	}
+
+	// Moves a task right before or after another; only its rank changes
+	async function placeTask(id: string, placement: { beforeId: string } | { afterId: string })
+	{
+		const res = await apiFetch('/api/tasks/reorder', { baseUrl: base, method: 'POST', body: JSON.stringify({ taskId: id, ...placement }) });
+		if (!res.ok) throw new Error((await res.json().catch(() => null))?.error || 'Failed to move the task');
 		const data = (await res.json()) as { task: Task };
-		setTasks((prev) => prev.map((t) => (t.id === id ? data.task : t)));
+		setTasks((list) => list.map((t) => (t.id === id ? { permissions: t.permissions, ...data.task } : t)));
+	}
+
+	// Completing or reopening a task changes what the tasks it blocks wait on; their counts come from its dependency graph
+	async function refreshBlockers(id: string)
+	{
+		const res = await apiFetch(`/api/tasks/dependency-graph?ids=${encodeURIComponent(id)}`, { baseUrl: base });
+		if (!res.ok) return;
+		const graph = (await res.json()) as { nodes: { id: string; openBlockerCount: number }[] };
+		const counts = new Map(graph.nodes.map((n) => [n.id, n.openBlockerCount] as const));
+		setTasks((list) => list.map((t) => (counts.has(t.id) ? { ...t, openBlockerCount: counts.get(t.id) } : t)));
+	}
+
+	// Checks a drop against what the server would refuse, showing why; laneField is the field a swimlane change sets
+	function moveRefused(task: Task, toStatus: string, laneField?: SwimlaneField)
+	{
+		const reason = laneField && !fieldAllowed(task, laneField)
+			? `You can't change the ${SWIMLANES[laneField].toLowerCase()} of "${task.title}"`
+			: toStatus === task.status ? null : statusMoveProblem(task, toStatus);
+		if (reason) setError(reason);
+		return Boolean(reason);
+	}
+
+	// A status outside the task's workflow, a move the workflow doesn't allow (or that needs a permission the user
+	// lacks), completing a task with open blockers without tasks:dependencies:override, and entering a status at its
+	// WIP limit without tasks:wip:override
+	function statusMoveProblem(task: Task, toStatus: string)
+	{
+		const workflow = workflowFor(task.organizationId);
+		const target = workflow.statuses.find((st) => st.key === toStatus);
+		if (!target) return `"${toStatus}" is not a status in the workflow of "${task.title}"`;
+		const transition = workflow.statuses.some((st) => st.key === task.status) ? transitionFor(workflow, task.status, toStatus) : { allowed: true, permission: null };
+		if (!transition.allowed) return `"${task.title}" can't move to ${target.label} from its current status`;
+		if (transition.permission && !can(transition.permission)) return `Moving to ${target.label} requires ${transition.permission}`;
+		if (target.terminal && !task.closed && task.openBlockerCount && !can('tasks:dependencies:override'))
+		{
+			return `"${task.title}" is blocked by ${task.openBlockerCount} open task${task.openBlockerCount === 1 ? '' : 's'}`;
+		}
+		const inTarget = tasks.filter((t) => t.organizationId === task.organizationId && t.status === toStatus).length;
+		if (target.wipLimit && inTarget >= target.wipLimit && !can('tasks:wip:override')) return `${target.label} has reached its WIP limit of ${target.wipLimit}`;
+		return null;
+	}
+
+	// Checking a subtask moves it to the first terminal status of its workflow, unchecking back to the first status
+	function toggleSubtask(id: string, done: boolean)
+	{
+		const subtask = tasks.find((t) => t.id === id);
+		if (!subtask) return Promise.resolve();
+		const workflow = workflowFor(subtask.organizationId);
+		const status = done ? workflow.statuses.find((st) => st.terminal)?.key : workflow.statuses[0]?.key;
+		if (!status || moveRefused(subtask, status)) return Promise.resolve();
+		return updateTask(id, { status });
 	}
 
 	async function deleteTask(id: string)
 	{
 		const res = await apiFetch(`/api/tasks/${id}`, { baseUrl: base, method: 'DELETE' });
 		if (!res.ok && res.status !== 204) throw new Error(await res.text());
-		setTasks((prev) => prev.filter((t) => t.id !== id));
+		setTasks((prev) => removeDeletedTask(prev, id));
+	}
+
+	// Subtasks of a deleted task stay on the board as standalone tasks
+	function removeDeletedTask(list: Task[], id: string)
+	{
+		const removed = list.find((t) => t.id === id);
+		return adjustSubtaskRollup(list, removed?.parentTaskId, removed?.closed ? -1 : 0, -1)
+			.filter((t) => t.id !== id)
+			.map((t) => (t.parentTaskId === id ? { ...t, parentTaskId: null } : t));
+	}
+
+	// Ctrl/cmd-click adds or removes a card, shift-click selects the range from the last card picked, and a plain
+	// click clears the selection
+	function selectTask(task: Task, e: React.MouseEvent)
+	{
+		const anchor = selectionAnchorRef.current;
+		if (e.shiftKey && anchor && boardOrder.some((t) => t.id === anchor))
+		{
+			const from = boardOrder.findIndex((t) => t.id === anchor);
+			const to = boardOrder.findIndex((t) => t.id === task.id);
+			const range = boardOrder.slice(Math.min(from, to), Math.max(from, to) + 1).map((t) => t.id);
+			setSelectedIds((ids) => Array.from(new Set([...ids, ...range])));
+			return;
+		}
+		if (e.shiftKey || e.ctrlKey || e.metaKey)
+		{
+			selectionAnchorRef.current = task.id;
+			setSelectedIds((ids) => (ids.includes(task.id) ? ids.filter((id) => id !== task.id) : [...ids, task.id]));
+			return;
+		}
+		if (selectedIds.length > 0) clearSelection();
+	}
+
+	function clearSelection()
+	{
+		setSelectedIds([]);
+		setBulkFailures([]);
+		selectionAnchorRef.current = null;
+	}
+
+	// Applies one bulk action to the selected tasks. Tasks the server changed are updated in place (or removed) and
+	// drop out of the selection; the refused ones stay selected, listed with the reason.
+	async function applyBulk(request: BulkRequest)
+	{
+		const targets = selected;
+		if (targets.length === 0) return;
+		setBulkBusy(true);
+		setBulkFailures([]);
+		try
+		{
+			const res = await apiFetch('/api/tasks/bulk', { baseUrl: base, method: 'POST', body: JSON.stringify({ taskIds: targets.map((t) => t.id), ...request }) });
+			if (!res.ok) throw new Error((await res.json().catch(() => null))?.error || 'Failed to apply the bulk action');
+			const data = (await res.json()) as { results: { id: string; ok: boolean; task?: Task; nextOccurrence?: Task; error?: string }[] };
+			setTasks((prev) => data.results.reduce((list, r) =>
+			{
+				if (!r.ok) return list;
+				if (request.action === 'delete') return removeDeletedTask(list, r.id);
+				return r.task ? mergeUpdatedTask(list, r.task, r.nextOccurrence) : list;
+			}, prev));
+			const refused = data.results.filter((r) => !r.ok);
+			setSelectedIds(refused.map((r) => r.id));
+			setBulkFailures(refused.map((r) => ({ id: r.id, title: targets.find((t) => t.id === r.id)?.title || 'Task', error: r.error || 'Refused' })));
+			if (request.action === 'update' && 'status' in request.updates)
+			{
+				for (const r of data.results) if (r.ok) void refreshBlockers(r.id);
+			}
+		}
+		catch (err)
+		{
+			setError((err as Error).message);
+		}
+		finally
+		{
+			setBulkBusy(false);
+		}
+	}
+
+	const adjustAttachmentCount = (id: string, delta: number) =>
+		setTasks((list) => list.map((x) => (x.id === id ? { ...x, attachmentCount: Math.max(0, (x.attachmentCount || 0) + delta) } : x)));
+
+	// Files dropped on a card are attached one after another; the first failure stops the rest and is shown
+	async function attachFiles(task: Task, files: File[])
+	{
+		if (files.length === 0) return;
+		setUploadingIds((ids) => [...ids, task.id]);
+		try
+		{
+			for (const file of files)
+			{
+				await uploadAttachment(apiFetch, task.id, file, base);
+				adjustAttachmentCount(task.id, 1);
+			}
+		}
+		catch (err)
+		{
+			setError((err as Error).message);
+		}
+		finally
+		{
+			setUploadingIds((ids) => ids.filter((id) => id !== task.id));
+		}
 	}
 
 	function isActionable(el: EventTarget | null): boolean
@@ -253,7 +666,7 @@ export function Tasks({ port }: { port: number | null })
 
 	function beginPointerDrag(clientX: number, clientY: number, task: Task)
 	{
-		if (!canDrag) return;
+		if (!canMoveTask(task)) return;
 		debugLog('beginPointerDrag', { taskId: task.id, at: { x: clientX, y: clientY } });
 		setDraggingId(task.id);
 		draggingIdRef.current = task.id;
@@ -263,10 +676,12 @@ export function Tasks({ port }: { port: number | null })
 		pointerRef.current = { x: clientX, y: clientY };
 		// Precompute initial drop target based on pointer location
 		const initialCol = computeColFromPoint(clientX, clientY);
+		const initialLane = computeLaneFromPoint(clientX, clientY);
 		setDragOverCol(initialCol);
+		setDragOverLane(initialLane);
 		if (initialCol)
 		{
-			const idx = computeIndexFromPoint(clientX, clientY, initialCol);
+			const idx = computeIndexFromPoint(clientX, clientY, initialCol, initialLane);
 			dragOverIndexRef.current = idx;
 			setDragOverIndex(idx);
 		} else
@@ -286,9 +701,10 @@ export function Tasks({ port }: { port: number | null })
 	function onTitleBarMouseDown(e: React.MouseEvent, task: Task)
 	{
 		debugLog('onTitleBarMouseDown', { button: e.button, taskId: task.id, target: (e.target as Element | null)?.tagName });
-		if (!canDrag) { debugLog('abort mousedown: cannot drag'); return; }
+		if (!canMoveTask(task)) { debugLog('abort mousedown: cannot drag'); return; }
 		if (editingId === task.id) { debugLog('abort mousedown: task is in edit mode'); return; }
 		if (e.button !== 0) { debugLog('abort mousedown: not left button'); return; }
+		if (e.shiftKey || e.ctrlKey || e.metaKey) { debugLog('abort mousedown: selection click'); return; }
 		if (isActionable(e.target)) { debugLog('abort mousedown: actionable target'); return; }
 		e.preventDefault();
 		beginPointerDrag(e.clientX, e.clientY, task);
@@ -297,7 +713,7 @@ export function Tasks({ port }: { port: number | null })
 	function onTitleBarTouchStart(e: React.TouchEvent, task: Task)
 	{
 		debugLog('onTitleBarTouchStart', { taskId: task.id });
-		if (!canDrag) { debugLog('abort touchstart: cannot drag'); return; }
+		if (!canMoveTask(task)) { debugLog('abort touchstart: cannot drag'); return; }
 		if (editingId === task.id) { debugLog('abort touchstart: task is in edit mode'); return; }
 		if (isActionable(e.target)) { debugLog('abort touchstart: actionable target'); return; }
 		const t = e.touches[0];
@@ -322,9 +738,18 @@ export function Tasks({ port }: { port: number | null })
 		return result;
 	}
 
-	function computeIndexFromPoint(x: number, y: number, status: string): number
+	// Swimlane under the pointer (null without swimlanes)
+	function computeLaneFromPoint(x: number, y: number)
 	{
-		const colEl = document.querySelector(`[data-col="${status}"]`) as HTMLElement | null;
+		const el = document.elementFromPoint(x, y) as HTMLElement | null;
+		const lane = el?.closest('[data-lane]') as HTMLElement | null;
+		return lane ? lane.getAttribute('data-lane') : null;
+	}
+
+	function computeIndexFromPoint(x: number, y: number, status: string, lane: string | null = null): number
+	{
+		const selector = lane === null ? `[data-col="${CSS.escape(status)}"]` : `[data-lane="${CSS.escape(lane)}"] [data-col="${CSS.escape(status)}"]`;
+		const colEl = document.querySelector(selector) as HTMLElement | null;
 		if (!colEl) return 0;
 		const cards = Array.from(colEl.querySelectorAll<HTMLElement>('[data-task-id]'))
 			.filter((el) => el.getAttribute('data-task-id') !== draggingIdRef.current);
@@ -349,10 +774,12 @@ export function Tasks({ port }: { port: number | null })
 		if (isDraggingRef.current)
 		{
 			const col = computeColFromPoint(e.clientX, e.clientY);
+			const lane = computeLaneFromPoint(e.clientX, e.clientY);
 			setDragOverCol(col);
+			setDragOverLane(lane);
 			if (col)
 			{
-				const idx = computeIndexFromPoint(e.clientX, e.clientY, col);
+				const idx = computeIndexFromPoint(e.clientX, e.clientY, col, lane);
 				dragOverIndexRef.current = idx;
 				setDragOverIndex(idx);
 			} else
@@ -377,10 +804,12 @@ export function Tasks({ port }: { port: number | null })
 		if (isDraggingRef.current)
 		{
 			const col = computeColFromPoint(t.clientX, t.clientY);
+			const lane = computeLaneFromPoint(t.clientX, t.clientY);
 			setDragOverCol(col);
+			setDragOverLane(lane);
 			if (col)
 			{
-				const idx = computeIndexFromPoint(t.clientX, t.clientY, col);
+				const idx = computeIndexFromPoint(t.clientX, t.clientY, col, lane);
 				dragOverIndexRef.current = idx;
 				setDragOverIndex(idx);
 			} else
@@ -411,6 +840,7 @@ export function Tasks({ port }: { port: number | null })
 			setDraggingId(null);
 			setIsDragging(false);
 			setDragOverCol(null);
+			setDragOverLane(null);
 			setDragOverIndex(null);
 			dragStartRef.current = null;
 			pointerRef.current = null;
@@ -421,113 +851,48 @@ export function Tasks({ port }: { port: number | null })
 		const p = pointerRef.current;
 		const computedCol = p ? computeColFromPoint(p.x, p.y) : null;
 		const targetCol = computedCol || dragOverCol;
-		const targetIndex = targetCol && p ? computeIndexFromPoint(p.x, p.y, targetCol) : dragOverIndexRef.current ?? null;
+		const targetLane = (p ? computeLaneFromPoint(p.x, p.y) : null) ?? dragOverLane;
+		const targetIndex = targetCol && p ? computeIndexFromPoint(p.x, p.y, targetCol, targetLane) : dragOverIndexRef.current ?? null;
 		debugLog('finishDrag:computed target', { targetCol, targetIndex });
 		setIsDragging(false);
 		isDraggingRef.current = false;
 		setDragOverCol(null);
+		setDragOverLane(null);
 		setDragOverIndex(null);
 		dragStartRef.current = null;
 		pointerRef.current = null;
 		if (targetCol)
 		{
 			const moved = tasks.find((t) => t.id === currentDraggingId);
-			if (moved)
+			// Dropping in another swimlane also sets the field the lanes group by
+			const lane = moved && swimlane && targetLane !== null && targetLane !== laneKeyOf(moved) ? lanes.find((l) => l.key === targetLane) : undefined;
+			const lanePatch: Partial<Task> = swimlane && lane ? { [swimlane]: lane.value } : {};
+			if (moved && !moveRefused(moved, targetCol, lane ? swimlane || undefined : undefined))
 			{
 				const fromStatus = moved.status;
 				const toStatus = targetCol;
 				const index = targetIndex ?? 0;
 				debugLog('finishDrag:moving', { moved: moved.id, fromStatus, toStatus, index });
 
-				if (fromStatus === toStatus)
+				// Where the card lands: right before the card now at that index of the target column, or after its last card
+				const column = (grouped[toStatus] || []).filter((t) => t.id !== moved.id);
+				const insertAt = columnIndexFor(column, index, targetLane);
+				const placement = insertAt < column.length
+					? { beforeId: column[insertAt].id }
+					: column.length > 0 ? { afterId: column[column.length - 1].id } : null;
+				const unmoved = fromStatus === toStatus && (grouped[toStatus] || []).indexOf(moved) === insertAt;
+
+				// Status and lane change at once for instant feedback; the new rank comes back from the server
+				if (fromStatus !== toStatus || lane) setTasks((list) => list.map((t) => (t.id === moved.id ? { ...t, ...lanePatch, status: toStatus } : t)));
+				try
 				{
-					// Same-column reorder: build a single reordered list and update positions
-					const column = tasks
-						.filter((t) => t.status === fromStatus && t.id !== moved.id)
-						.sort((a, b) => a.position - b.position);
-					const insertAt = Math.max(0, Math.min(index, column.length));
-					const reordered = [...column.slice(0, insertAt), moved, ...column.slice(insertAt)];
-					const withPositions = reordered.map((t, i) => ({ ...t, position: i + 1 }));
-
-					// Local state update
-					const updated = tasks.map((t) =>
-					{
-						if (t.status !== fromStatus) return t;
-						const nt = withPositions.find((x) => x.id === t.id);
-						return nt ? { ...t, position: nt.position } : t;
-					});
-					setTasks(updated);
-
-					// Persist only changed positions for this column
-					try
-					{
-						const previousById = new Map(tasks.filter((t) => t.status === fromStatus).map((t) => [t.id, t.position] as const));
-						const updates = withPositions
-							.filter((t) => previousById.get(t.id) !== t.position)
-							.map((t) => updateTask(t.id, { position: t.position } as Partial<Task>));
-						debugLog('finishDrag:persisting same-column updates', { count: updates.length });
-						await Promise.all(updates);
-					} catch (err)
-					{
-						debugLog('finishDrag:update error (same-column)', err);
-					}
-				} else
+					if (fromStatus !== toStatus || lane) await updateTask(moved.id, { ...lanePatch, status: toStatus });
+					if (placement && !unmoved && sort === 'rank') await placeTask(moved.id, placement);
+				}
+				catch (err)
 				{
-					// Cross-column move: compute both lists, reindex, and persist
-					const from = tasks
-						.filter((t) => t.status === fromStatus && t.id !== moved.id)
-						.sort((a, b) => a.position - b.position);
-					const to = tasks
-						.filter((t) => t.status === toStatus && t.id !== moved.id)
-						.sort((a, b) => a.position - b.position);
-					const insertAt = Math.max(0, Math.min(index, to.length));
-					const newTo = [...to.slice(0, insertAt), { ...moved, status: toStatus }, ...to.slice(insertAt)];
-
-					// Local state for instant feedback
-					const nextTasks = tasks.map((t) => (t.id === moved.id ? { ...t, status: toStatus } : t));
-					newTo.forEach((t, i) => (t.position = i + 1));
-					from.forEach((t, i) => (t.position = i + 1));
-					const merged = nextTasks.map((t) =>
-					{
-						if (t.status === toStatus)
-						{
-							const nt = newTo.find((x) => x.id === t.id);
-							return nt ? { ...t, position: nt.position } : t;
-						}
-						if (t.status === fromStatus)
-						{
-							const nf = from.find((x) => x.id === t.id);
-							return nf ? { ...t, position: nf.position } : t;
-						}
-						return t;
-					});
-					setTasks(merged);
-
-					// Persist changes (status for moved, positions for both columns)
-					try
-					{
-						const updates = [] as Promise<any>[];
-						updates.push(
-							updateTask(
-								moved.id,
-								{ status: toStatus, position: newTo.findIndex((x) => x.id === moved.id) + 1 } as Partial<Task>
-							)
-						);
-						for (const t of newTo)
-						{
-							if (t.id !== moved.id) updates.push(updateTask(t.id, { position: t.position } as Partial<Task>));
-						}
-						for (const t of from)
-						{
-							updates.push(updateTask(t.id, { position: t.position } as Partial<Task>));
-						}
-						debugLog('finishDrag:persisting cross-column updates', { count: updates.length });
-						await Promise.all(updates);
-					} catch (err)
-					{
-						debugLog('finishDrag:update error (cross-column)', err);
-						// On error, we don’t hard-revert here; backend responses will re-sync next fetch.
-					}
+					debugLog('finishDrag:update error', err);
+					setError((err as Error).message);
 				}
 			}
 		}
@@ -536,6 +901,16 @@ export function Tasks({ port }: { port: number | null })
 		debugLog('finishDrag:end - cleared draggingId');
 	}
 
+	// The order runs through the whole column; a drop at index within a swimlane lands before that card of the lane,
+	// or after the lane's last card
+	function columnIndexFor(column: Task[], index: number, lane: string | null)
+	{
+		if (!swimlane || lane === null) return Math.max(0, Math.min(index, column.length));
+		const cell = column.filter((t) => laneKeyOf(t) === lane);
+		if (index < cell.length) return column.indexOf(cell[index]);
+		return cell.length > 0 ? column.indexOf(cell[cell.length - 1]) + 1 : column.length;
+	}
+
 	function onPointerUp()
 	{
 		debugLog('onPointerUp');
@@ -563,29 +938,49 @@ export function Tasks({ port }: { port: number | null })
 
 	async function onReorder(status: string, fromIndex: number, toIndex: number)
 	{
-		const column = tasks.filter((t) => t.status === status).sort((a, b) => a.position - b.position);
+		const column = grouped[status] || [];
 		const moved = column[fromIndex];
-		if (!moved) return;
 		const target = column[toIndex];
-		if (!target) return;
-		await updateTask(moved.id, { position: target.position });
+		if (!moved || !target || moved === target) return;
+		await placeTask(moved.id, fromIndex < toIndex ? { afterId: target.id } : { beforeId: target.id });
 	}
 
 	// Keep controls mounted; show inline states instead of early returns
 	const backendNotReady = !port;
 
-	const renderColumn = (title: string, status: string) =>
+	// Column title with its WIP load, warning once the limit is reached
+	const renderColumnHeader = (column: WorkflowStatus) =>
 	{
-		const isActiveDrop = dragOverCol === status && !!draggingId && isDragging;
+		const load = wipLoad(column);
+		const tone = !load || load.count < load.limit ? 'text-fg-muted' : load.count > load.limit ? 'text-danger-token' : 'text-warning';
+		return (
+			<h3 className="mb-3 flex items-center gap-2 text-sm uppercase tracking-wide text-fg-muted">
+				<span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: column.color }} aria-hidden />
+				{column.label}
+				{load && (
+					<span className={`ml-auto inline-flex items-center gap-1 normal-case ${tone}`} title={`WIP limit ${load.limit}`}>
+						{load.count >= load.limit && <MdWarning aria-hidden />}
+						{load.count}/{load.limit}
+					</span>
+				)}
+			</h3>
+		);
+	};
+
+	const renderColumn = (column: WorkflowStatus, lane?: Swimlane) =>
+	{
+		const { key: status, label: title } = column;
+		const isActiveDrop = dragOverCol === status && (!lane || dragOverLane === lane.key) && !!draggingId && isDragging;
 		const containerClass = `rounded-3xl border ${isActiveDrop ? 'border-primary/60 bg-white/10 ring-2 ring-primary/30' : 'border-subtle bg-surface-token'
-			} p-4 min-h-[300px] transition-colors`;
+			} p-4 ${lane ? 'min-h-[120px]' : 'min-h-[300px]'} transition-colors`;
 		return (
 			<div className={containerClass} data-col={status} aria-label={isActiveDrop ? `Release to move to ${title}` : undefined}>
-				<h3 className="mb-3 text-sm uppercase tracking-wide text-fg-muted">{title}</h3>
+				{!lane && renderColumnHeader(column)}
 				<div className="space-y-3">
 					{(() =>
 					{
-						const items = grouped[status as keyof typeof grouped] || [];
+						const cards = grouped[status as keyof typeof grouped] || [];
+						const items = lane ? cards.filter((t) => laneKeyOf(t) === lane.key) : cards;
 						const list: Array<{ type: 'placeholder' } | { type: 'task'; task: Task; idx: number }> = [];
 						const showPlaceholder = isActiveDrop && dragOverIndex != null;
 
@@ -648,13 +1043,19 @@ export function Tasks({ port }: { port: number | null })
 							}
 							const t = entry.task;
 							const cardDragging = draggingId === t.id && isDragging;
+							const canEdit = taskAllows(t, 'update');
+							const canMove = canMoveTask(t);
+							const titleLocked = !fieldAllowed(t, 'title');
+							const descriptionLocked = !fieldAllowed(t, 'description');
+							const readOnlyShare = t.access === 'view';
+							const parent = t.parentTaskId ? tasks.find((x) => x.id === t.parentTaskId) : undefined;
 							return (
 								<div
 									key={t.id}
 									data-task-id={t.id}
 									onKeyDown={(e) =>
 									{
-										if ((e.key === ' ' || e.key === 'Spacebar') && canDrag && editingId !== t.id)
+										if ((e.key === ' ' || e.key === 'Spacebar') && canMove && editingId !== t.id)
 										{
 											debugLog('keyboard:Space -> beginPointerDrag', { taskId: t.id });
 											e.preventDefault();
@@ -662,24 +1063,48 @@ export function Tasks({ port }: { port: number | null })
 											beginPointerDrag(rect.left + rect.width / 2, rect.top + rect.height / 2, t);
 										}
 									}}
+									onDragOver={(e) =>
+									{
+										// Native drag and drop only carries files here; moving cards uses pointer events
+										if (!canEdit || !e.dataTransfer.types.includes('Files')) return;
+										e.preventDefault();
+										e.dataTransfer.dropEffect = 'copy';
+										if (fileDropId !== t.id) setFileDropId(t.id);
+									}}
+									onDragLeave={(e) =>
+									{
+										if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setFileDropId(null);
+									}}
+									onDrop={(e) =>
+									{
+										if (!canEdit || e.dataTransfer.files.length === 0) return;
+										e.preventDefault();
+										setFileDropId(null);
+										attachFiles(t, Array.from(e.dataTransfer.files));
+									}}
+									onClick={(e) =>
+									{
+										if (!isActionable(e.target) && editingId !== t.id) selectTask(t, e);
+									}}
 									tabIndex={0}
 									className={[
 										'group rounded-2xl border border-subtle bg-app overflow-hidden',
+										fileDropId === t.id || selectedIds.includes(t.id) ? 'ring-2 ring-primary/60' : '',
 										'motion-safe:transition-transform motion-safe:duration-150',
 										cardDragging ? 'ring-2 ring-primary/40 shadow-xl motion-safe:scale-[1.01] pointer-events-none opacity-40' : '',
-										canDrag ? 'cursor-default' : 'cursor-not-allowed opacity-80',
+										canMove ? 'cursor-default' : 'cursor-not-allowed opacity-80',
 										'mb-3'
 									].join(' ')}
 								>
 									<div
 										className={[
 											'flex items-center justify-between gap-2 px-3 select-none',
-											canDrag ? (cardDragging ? 'cursor-grabbing' : 'cursor-grab') : 'cursor-default',
+											canMove ? (cardDragging ? 'cursor-grabbing' : 'cursor-grab') : 'cursor-default',
 											'h-8 md:h-8 border-b border-transparent group-hover:bg-white/8 group-hover:border-white/10',
 											'motion-safe:transition-colors motion-safe:duration-150'
 										].join(' ')}
-										aria-label={canDrag ? 'Drag to move task' : undefined}
-										title={canDrag ? 'Drag to move task' : undefined}
+										aria-label={canMove ? 'Drag to move task' : undefined}
+										title={canMove ? 'Drag to move task' : undefined}
 										onMouseDown={(e) => onTitleBarMouseDown(e, t)}
 										onTouchStart={(e) =>
 										{
@@ -693,16 +1118,55 @@ export function Tasks({ port }: { port: number | null })
 											<div className="text-fg-subtle" aria-hidden>
 												<MdDragIndicator size={18} />
 											</div>
+											{t.restricted && (
+												<span className="inline-flex items-center gap-1 text-xs text-fg-subtle" title={readOnlyShare ? 'Shared with you read-only' : 'Shared with specific people'}>
+													<MdLock aria-hidden />
+													<span className="sr-only md:not-sr-only">{readOnlyShare ? 'View only' : 'Restricted'}</span>
+												</span>
+											)}
 										</div>
 										<div className="flex items-center gap-3 text-xs shrink-0">
-											{canUpdateTasks && (
+											<button
+												className="text-primary-token hover:underline font-medium inline-flex items-center gap-1"
+												onClick={() => setDetailTaskId(t.id)}
+												title="Comments and activity"
+												data-actionable="true"
+												draggable={false}
+											>
+												<MdChatBubbleOutline aria-hidden />
+												<span className="sr-only md:not-sr-only">{t.commentCount ? t.commentCount : 'Activity'}</span>
+											</button>
+											{(t.attachmentCount || uploadingIds.includes(t.id)) ? (
+												<button
+													className="text-primary-token hover:underline font-medium inline-flex items-center gap-1"
+													onClick={() => setDetailTaskId(t.id)}
+													title={canEdit ? 'Attachments (drop files on the card to add more)' : 'Attachments'}
+													data-actionable="true"
+													draggable={false}
+												>
+													<MdAttachFile aria-hidden />
+													<span className="sr-only md:not-sr-only">{uploadingIds.includes(t.id) ? 'Uploading…' : t.attachmentCount}</span>
+												</button>
+											) : null}
+											{canUpdateTasks && !readOnlyShare && t.category !== 'Personal' && (
+												<button
+													className="text-primary-token hover:underline font-medium inline-flex items-center gap-1"
+													onClick={() => setSharingTask(t)}
+													data-actionable="true"
+													draggable={false}
+												>
+													<MdShare aria-hidden />
+													<span className="sr-only md:not-sr-only">Share</span>
+												</button>
+											)}
+											{canEdit && (
 												<button
 													className="text-primary-token hover:underline font-medium inline-flex items-center gap-1"
 													onClick={() =>
 													{
-														if (!canUpdateTasks) return;
+														if (!canEdit) return;
 														setEditingId(t.id);
-														setEditDraft({ title: t.title, description: t.description || '' });
+														setEditDraft({ title: t.title, description: t.description || '', dueDate: t.dueDate, recurrence: t.recurrence || null });
 													}}
 													data-actionable="true"
 													draggable={false}
@@ -711,7 +1175,7 @@ export function Tasks({ port }: { port: number | null })
 													<span className="sr-only md:not-sr-only">Edit</span>
 												</button>
 											)}
-											{canDelete && (
+											{taskAllows(t, 'delete') && (
 												<button className="text-danger-token hover:underline font-medium inline-flex items-center gap-1" onClick={() => deleteTask(t.id)} data-actionable="true" draggable={false}>
 													<MdDelete aria-hidden />
 													<span className="sr-only md:not-sr-only">Delete</span>
@@ -721,39 +1185,82 @@ export function Tasks({ port }: { port: number | null })
 									</div>
 
 									<div className="p-3">
-										{editingId === t.id && canUpdateTasks ? (
+										{editingId === t.id && canEdit ? (
 											<input
-												className="w-full rounded-md bg-white/5 border border-white/10 px-2 py-1 text-sm mb-2"
+												className={['w-full rounded-md bg-white/5 border border-white/10 px-2 py-1 text-sm mb-2', titleLocked ? 'opacity-60 cursor-not-allowed' : ''].join(' ')}
 												value={editDraft.title}
 												onChange={(e) => setEditDraft((d) => ({ ...d, title: e.target.value }))}
 												placeholder="Title"
+												readOnly={titleLocked}
+												title={titleLocked ? 'You are not allowed to change the title' : undefined}
 												draggable={false}
 											/>
 										) : (
 											<div className="font-medium text-base truncate mb-1">{t.title}</div>
 										)}
 
-										{editingId === t.id && canUpdateTasks ? (
+										{editingId === t.id && canEdit ? (
 											<textarea
-												className="mt-2 w-full rounded-md bg-white/5 border border-white/10 px-2 py-2 text-sm"
+												className={['mt-2 w-full rounded-md bg-white/5 border border-white/10 px-2 py-2 text-sm', descriptionLocked ? 'opacity-60 cursor-not-allowed' : ''].join(' ')}
 												rows={3}
 												placeholder="Description"
 												value={editDraft.description}
 												onChange={(e) => setEditDraft((d) => ({ ...d, description: e.target.value }))}
+												readOnly={descriptionLocked}
+												title={descriptionLocked ? 'You are not allowed to change the description' : undefined}
 												draggable={false}
 											/>
 										) : (
 											t.description && <p className="mt-1 text-sm text-fg-muted">{t.description}</p>
 										)}
-										{editingId === t.id && canUpdateTasks && (
+										{editingId === t.id && canEdit && (
+											<>
+												<label className="mt-2 flex items-center gap-2 text-sm text-fg-muted">
+													<MdEvent aria-hidden />
+													Due
+													<input
+														type="date"
+														className="rounded-md bg-white/5 border border-white/10 px-2 py-1 text-sm disabled:opacity-60"
+														value={toDateInput(editDraft.dueDate)}
+														onChange={(e) => setEditDraft((d) => ({ ...d, dueDate: fromDateInput(e.target.value) }))}
+														disabled={!fieldAllowed(t, 'dueDate')}
+														title={!fieldAllowed(t, 'dueDate') ? 'You are not allowed to change the due date' : undefined}
+														draggable={false}
+													/>
+												</label>
+												{!t.parentTaskId && (
+													<RecurrenceEditor
+														value={editDraft.recurrence}
+														dueDate={editDraft.dueDate}
+														disabled={!fieldAllowed(t, 'recurrence')}
+														onChange={(recurrence) => fieldAllowed(t, 'recurrence') && setEditDraft((d) => ({ ...d, recurrence }))}
+													/>
+												)}
+											</>
+										)}
+										{editingId === t.id && canEdit && (
 											<div className="mt-2 flex gap-2">
 												<button
 													className="rounded-full bg-primary text-white px-4 py-1 text-sm"
 													data-actionable="true"
+													disabled={needsDueDate(editDraft.recurrence) && !editDraft.dueDate}
 													onClick={async () =>
 													{
-														await updateTask(t.id, { title: editDraft.title, description: editDraft.description });
-														setEditingId(null);
+														const recurrenceChanged = JSON.stringify(editDraft.recurrence) !== JSON.stringify(t.recurrence || null);
+														try
+														{
+															await updateTask(t.id, {
+																...(titleLocked ? {} : { title: editDraft.title }),
+																...(descriptionLocked ? {} : { description: editDraft.description }),
+																...(editDraft.dueDate !== t.dueDate ? { dueDate: editDraft.dueDate } : {}),
+																...(recurrenceChanged ? { recurrence: editDraft.recurrence } : {})
+															});
+															setEditingId(null);
+														}
+														catch (err)
+														{
+															setError((err as Error).message);
+														}
 													}}
 													draggable={false}
 												>
@@ -769,8 +1276,58 @@ export function Tasks({ port }: { port: number | null })
 												</button>
 											</div>
 										)}
+										{editingId === t.id && canEdit && (
+											<TaskChecklist
+												taskId={t.id}
+												baseUrl={base}
+												readOnly={false}
+												subtasks={tasks.filter((x) => x.parentTaskId === t.id).map((x) => ({ id: x.id, title: x.title, closed: Boolean(x.closed), canToggle: canMoveTask(x) }))}
+												canAddSubtask={canCreateTasks && !t.parentTaskId}
+												onAddSubtask={(title) => createSubtask(t, title)}
+												onToggleSubtask={toggleSubtask}
+												onChecklistChange={(checklist) => setTasks((list) => list.map((x) => (x.id === t.id ? { ...x, progress: rollupProgress(x.progress, { checklist }) } : x)))}
+											/>
+										)}
 
-										<div className="mt-2 flex justify-end">
+										{parent && <div className="mt-1 truncate text-xs text-fg-subtle">Subtask of {parent.title}</div>}
+
+										<div className="mt-2 flex items-center justify-end gap-2">
+											{t.dueDate && (
+												<span className="inline-flex items-center gap-1 rounded-full bg-pill border border-subtle px-2.5 py-1 text-xs text-fg-muted select-none" title="Due date">
+													<MdEvent aria-hidden />
+													{new Date(t.dueDate * 1000).toLocaleDateString()}
+												</span>
+											)}
+											{t.openBlockerCount ? (
+												<span className="inline-flex items-center gap-1 rounded-full bg-pill border border-subtle px-2.5 py-1 text-xs text-amber-300 select-none" title={`Blocked by ${t.openBlockerCount} open task${t.openBlockerCount === 1 ? '' : 's'}`}>
+													<MdBlock aria-hidden />
+													{t.openBlockerCount}
+													<span className="sr-only">open blocking tasks</span>
+												</span>
+											) : null}
+											{t.recurrence && (
+												<span className="inline-flex items-center gap-1 rounded-full bg-pill border border-subtle px-2.5 py-1 text-xs text-fg-muted select-none" title={`Repeats ${describeRecurrence(t.recurrence)}`}>
+													<MdRepeat aria-hidden />
+													<span className="sr-only">Repeats {describeRecurrence(t.recurrence)}</span>
+												</span>
+											)}
+											{t.progress && t.progress.checklist.total > 0 && (
+												<span className="inline-flex items-center gap-1 rounded-full bg-pill border border-subtle px-2.5 py-1 text-xs text-fg-muted select-none" title="Checklist items done">
+													<MdChecklist aria-hidden />
+													{t.progress.checklist.done}/{t.progress.checklist.total}
+												</span>
+											)}
+											{t.progress && t.progress.subtasks.total > 0 && (
+												<span className="inline-flex items-center gap-1 rounded-full bg-pill border border-subtle px-2.5 py-1 text-xs text-fg-muted select-none" title="Subtasks done">
+													<MdSubdirectoryArrowRight aria-hidden />
+													{t.progress.subtasks.done}/{t.progress.subtasks.total}
+												</span>
+											)}
+											{t.progress?.percent != null && (
+												<span className={`inline-flex items-center rounded-full px-2.5 py-1 text-xs select-none ${t.progress.percent === 100 ? 'bg-emerald-500/10 text-emerald-300' : 'bg-primary/10 text-primary-token'}`}>
+													{t.progress.percent}%
+												</span>
+											)}
 											<span className="inline-flex items-center rounded-full bg-pill border border-subtle px-2.5 py-1 text-xs text-fg select-none">
 												{t.category}
 											</span>
@@ -805,6 +1362,22 @@ export function Tasks({ port }: { port: number | null })
 						options={[{ label: 'All Categories', value: '' }, ...categories]}
 						ariaLabel="Filter by category"
 					/>
+					<Dropdown
+						className="min-w-[160px]"
+						buttonClassName="rounded-full px-4 py-2 border border-white/10 bg-white/5"
+						value={swimlane}
+						onChange={(val) => setSwimlane(val as SwimlaneField | '')}
+						options={[{ label: 'No swimlanes', value: '' }, ...Object.entries(SWIMLANES).map(([value, label]) => ({ label: `Lanes by ${label.toLowerCase()}`, value }))]}
+						ariaLabel="Group into swimlanes"
+					/>
+					<Dropdown
+						className="min-w-[160px]"
+						buttonClassName="rounded-full px-4 py-2 border border-white/10 bg-white/5"
+						value={sort}
+						onChange={setSort}
+						options={SORTS}
+						ariaLabel="Sort tasks"
+					/>
 					<Button
 						type="button"
 						variant="outline"
@@ -856,11 +1429,75 @@ export function Tasks({ port }: { port: number | null })
 				</div>
 			)}
 
-			<div className="grid gap-4 md:grid-cols-3 opacity-100">
-				{renderColumn('To do', 'todo')}
-				{renderColumn('In progress', 'in_progress')}
-				{renderColumn('Done', 'done')}
+			{swimlane ? (
+				<div className="overflow-x-auto pb-2 opacity-100">
+					<div className="w-max min-w-full space-y-4">
+						<div className="flex gap-4">
+							{columns.map((column) => <div key={column.key} className="min-w-[16rem] flex-1 px-4">{renderColumnHeader(column)}</div>)}
+						</div>
+						{lanes.map((lane) => (
+							<div key={lane.key} data-lane={lane.key}>
+								<h4 className="mb-2 text-sm font-medium text-fg">
+									{lane.label} <span className="text-fg-muted">{tasks.filter((t) => laneKeyOf(t) === lane.key).length}</span>
+								</h4>
+								<div className="flex gap-4">
+									{columns.map((column) => <div key={column.key} className="min-w-[16rem] flex-1">{renderColumn(column, lane)}</div>)}
+								</div>
+							</div>
+						))}
+					</div>
+				</div>
+			) : (
+				<div className="flex gap-4 overflow-x-auto pb-2 opacity-100">
+					{columns.map((column) => <div key={column.key} className="min-w-[16rem] flex-1">{renderColumn(column)}</div>)}
+				</div>
+			)}
+			<div ref={loadMoreRef} className="flex justify-center">
+				{loadingMore && <span className="text-xs text-fg-subtle animate-pulse">Loading more tasks…</span>}
+				{nextCursor && !loadingMore && (
+					<Button type="button" variant="outline" size="sm" onClick={() => void loadMore()}>Load more tasks</Button>
+				)}
 			</div>
+			{selected.length > 0 && (
+				<TaskBulkBar
+					count={selected.length}
+					statuses={columns.map((c) => ({ label: c.label, value: c.key }))}
+					priorities={PRIORITIES}
+					assignees={assigneeOptions}
+					categories={categories}
+					organizations={organizations.map((o) => ({ label: o.name, value: o.id }))}
+					canDelete={selected.some((t) => taskAllows(t, 'delete'))}
+					busy={bulkBusy}
+					failures={bulkFailures}
+					onApply={(request) => void applyBulk(request)}
+					onClear={clearSelection}
+				/>
+			)}
+			{sharingTask && (
+				<TaskShareDialog
+					taskId={sharingTask.id}
+					taskTitle={sharingTask.title}
+					baseUrl={base}
+					onClose={() => setSharingTask(null)}
+					onSaved={(restricted) => setTasks((list) => list.map((x) => (x.id === sharingTask.id ? { ...x, restricted } : x)))}
+				/>
+			)}
+			{detailTask && (
+				<TaskDrawer
+					task={detailTask}
+					baseUrl={base}
+					canComment={can('tasks:comment')}
+					canModerate={can('tasks:comments:moderate')}
+					canEditAttachments={taskAllows(detailTask, 'update')}
+					canEditDependencies={taskAllows(detailTask, 'update')}
+					dependencyCandidates={tasks.filter((x) => x.id !== detailTask.id && x.organizationId === detailTask.organizationId)}
+					onClose={() => setDetailTaskId(null)}
+					onCommentCountChange={(delta) => setTasks((list) => list.map((x) => (x.id === detailTask.id ? { ...x, commentCount: Math.max(0, (x.commentCount || 0) + delta) } : x)))}
+					onAttachmentCountChange={(delta) => adjustAttachmentCount(detailTask.id, delta)}
+					onDependenciesChange={() => void refreshBlockers(detailTask.id)}
+					statusLabels={Object.fromEntries(workflowFor(detailTask.organizationId).statuses.map((st) => [st.key, st.label]))}
+				/>
+			)}
 			{draggingId && isDragging && pointerRef.current && (
 				<div
 					ref={(el) => (ghostRef.current = el)}